@@ -7,7 +7,15 @@ import { UserManagement } from './pages/UserManagement';
 import { RoleManagement } from './pages/RoleManagement';
 import { CompletedTasks } from './pages/CompletedTasks';
 import { HoldTasks } from './pages/HoldTasks';
+import { TaskCalendar } from './pages/TaskCalendar';
+import { TaskTimeline } from './pages/TaskTimeline';
+import { WorkflowSettings } from './pages/WorkflowSettings';
+import { LabelSettings } from './pages/LabelSettings';
+import { ProjectSettings } from './pages/ProjectSettings';
+import { TemplateSettings } from './pages/TemplateSettings';
+import { AuditLog } from './pages/AuditLog';
 import { ProtectedRoute } from './components/ProtectedRoute';
+import { SyncConflictModal } from './components/SyncConflictModal';
 import { useAuth } from './contexts/AuthContext';
 import { SideMenuProvider, useSideMenu } from './contexts/SideMenuContext';
 import { Loader2 } from 'lucide-react';
@@ -52,6 +60,7 @@ function AppContent() {
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
       <SideMenu />
+      <SyncConflictModal />
       <div
         className={`transition-all duration-300 ${
           isExpanded ? 'sm:ml-64' : 'sm:ml-16'
@@ -106,6 +115,62 @@ function AppContent() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/calendar"
+            element={
+              <ProtectedRoute requiredPermission="tasks:read">
+                <TaskCalendar />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/timeline"
+            element={
+              <ProtectedRoute requiredPermission="tasks:read">
+                <TaskTimeline />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/workflow"
+            element={
+              <ProtectedRoute requiredPermission="workflow:manage">
+                <WorkflowSettings />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/labels"
+            element={
+              <ProtectedRoute requiredPermission="labels:manage">
+                <LabelSettings />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/projects"
+            element={
+              <ProtectedRoute requiredPermission="projects:manage">
+                <ProjectSettings />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/templates"
+            element={
+              <ProtectedRoute requiredPermission="templates:manage">
+                <TemplateSettings />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/audit"
+            element={
+              <ProtectedRoute requiredPermission="audit:view">
+                <AuditLog />
+              </ProtectedRoute>
+            }
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
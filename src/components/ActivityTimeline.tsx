@@ -0,0 +1,96 @@
+import { Plus, Edit, PauseCircle, PlayCircle, Trash2, MessageSquare } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { ActivityAction, TaskActivity } from '../types/activity';
+import { useUsers } from '../contexts/UsersContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useLabels } from '../contexts/LabelsContext';
+import {
+  describeActivityAction,
+  formatActivityChange,
+  getActivityActorName,
+  getActivityFieldLabel,
+} from '../utils/activity';
+import type { ActivityNameResolvers } from '../utils/activity';
+
+interface ActivityTimelineProps {
+  entries: TaskActivity[];
+  /** Show which task each entry is about (for the audit log) */
+  showTaskTitle?: boolean;
+}
+
+/**
+ * Icon and colors for each action
+ */
+const ACTION_STYLES: Record<ActivityAction, { icon: LucideIcon; className: string }> = {
+  created: { icon: Plus, className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  updated: { icon: Edit, className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' },
+  held: { icon: PauseCircle, className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400' },
+  resumed: { icon: PlayCircle, className: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400' },
+  deleted: { icon: Trash2, className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' },
+};
+
+/**
+ * ActivityTimeline Component
+ * Lists activity entries as a vertical timeline with who did what, when, and the field-level changes
+ * Supports both light and dark modes
+ */
+export const ActivityTimeline = ({ entries, showTaskTitle = false }: ActivityTimelineProps) => {
+  const { getUserName } = useUsers();
+  const { tasksById } = useTaskStore();
+  const { getLabelById } = useLabels();
+
+  const resolvers: ActivityNameResolvers = {
+    getUserName,
+    getTaskTitle: (taskId) => tasksById[taskId]?.Title ?? 'Unknown task',
+    getLabelName: (labelId) => getLabelById(labelId)?.name ?? 'Deleted label',
+  };
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 dark:border-slate-700 ml-3 space-y-5">
+      {entries.map((entry) => {
+        const { icon: Icon, className } = ACTION_STYLES[entry.Action];
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className={`absolute -left-[13px] flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white dark:ring-slate-800 ${className}`}>
+              <Icon className="w-3.5 h-3.5" />
+            </span>
+
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="font-medium text-gray-900 dark:text-white">{getActivityActorName(entry, resolvers)}</span>{' '}
+              {describeActivityAction(entry.Action)}
+              {showTaskTitle && (
+                <>
+                  {' '}
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    "{entry.TaskTitle || resolvers.getTaskTitle(entry.TaskId)}"
+                  </span>
+                </>
+              )}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {new Date(entry.CreatedAt).toLocaleString()}
+            </p>
+
+            {entry.Changes.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {entry.Changes.map((change) => (
+                  <li key={change.Field} className="text-sm text-gray-600 dark:text-gray-400">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">{getActivityFieldLabel(change.Field)}:</span>{' '}
+                    {formatActivityChange(change, resolvers)}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {entry.Comment && (
+              <p className="mt-2 flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-slate-700/50 p-2 rounded-lg border border-gray-200 dark:border-slate-600">
+                <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                {entry.Comment}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -1,38 +1,76 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import type { FormEvent } from 'react';
-import type { Task } from '../types';
+import type { Task, TaskAttachment, TaskRecurrence, ChecklistItem } from '../types';
+import type { TaskTemplate, TemplateTask } from '../types/template';
 import { TaskStatus, TaskPriority } from '../types';
 import { UserSearch } from './UserSearch';
-import { X } from 'lucide-react';
+import { AttachmentDropzone } from './AttachmentDropzone';
+import { LabelPicker } from './LabelPicker';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { TemplatePicker } from './TemplatePicker';
+import { X, LayoutTemplate } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { ValidationError } from '../services/errors';
+import { taskApi } from '../services/api';
+import { getRecurrenceError } from '../utils/recurrence';
+import { fillTemplateTask, orderTemplateTasks, toChecklistItems } from '../utils/templates';
 
 interface AddTaskModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddTask: (task: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => void;
+  onAddTask: (task: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => void | Promise<void>;
+  /** Create the task as a subtask of this task */
+  parentTask?: Task | null;
 }
 
 /**
  * AddTaskModal Component
- * Provides a form to create new tasks with validation
+ * Provides a form to create new tasks (or subtasks of parentTask) with validation
+ * "New from template" fills the form from a saved template, or creates all tasks of a template bundle
  * Supports both light and dark modes
  */
 // Character limits for form fields
 const TITLE_MAX_LENGTH = 255;
 const DESCRIPTION_MAX_LENGTH = 5000;
 
-export const AddTaskModal = ({ isOpen, onClose, onAddTask }: AddTaskModalProps) => {
+export const AddTaskModal = ({ isOpen, onClose, onAddTask, parentTask }: AddTaskModalProps) => {
   const [formData, setFormData] = useState({
     Title: '',
     Description: '',
-    Status: TaskStatus.Pending,
+    Status: TaskStatus.Pending as string,
     Priority: TaskPriority.Medium,
     EstimatedHours: 0,
     AssignedTo: [] as string[],
     ScheduledStartDate: '',
     ScheduledStartTime: '',
+    Labels: [] as string[],
+    Attachments: [] as TaskAttachment[],
+    Recurrence: null as TaskRecurrence | null,
+    Checklist: [] as ChecklistItem[],
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isChoosingTemplate, setIsChoosingTemplate] = useState(false);
+  const [isApplyingTemplate, setIsApplyingTemplate] = useState(false);
+  const { showToast, showError } = useToast();
+  const { statuses } = useWorkflow();
+  const { createTask } = useTaskStore();
+
+  // Subtasks start with the parent's priority, assignees and labels
+  useEffect(() => {
+    if (isOpen && parentTask) {
+      setFormData((prev) => ({
+        ...prev,
+        Priority: parentTask.Priority,
+        AssignedTo: Array.isArray(parentTask.AssignedTo) ? parentTask.AssignedTo : [],
+        Labels: parentTask.Labels ?? [],
+      }));
+    }
+  }, [isOpen, parentTask]);
 
   // Validate form inputs
   const validateForm = (): boolean => {
@@ -58,16 +96,28 @@ export const AddTaskModal = ({ isOpen, onClose, onAddTask }: AddTaskModalProps)
       newErrors.AssignedTo = 'At least one user must be assigned';
     }
 
+    const recurrenceError = formData.Recurrence
+      ? getRecurrenceError(formData.Recurrence, formData.ScheduledStartDate || undefined)
+      : '';
+    if (recurrenceError) {
+      newErrors.Recurrence = recurrenceError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
   // Handle form submission
-  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    if (validateForm()) {
-      onAddTask(formData);
+    if (isSubmitting || isUploading || !validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onAddTask(parentTask?.id ? { ...formData, ParentId: parentTask.id } : formData);
       // Reset form
       setFormData({
         Title: '',
@@ -78,9 +128,21 @@ export const AddTaskModal = ({ isOpen, onClose, onAddTask }: AddTaskModalProps)
         AssignedTo: [],
         ScheduledStartDate: '',
         ScheduledStartTime: '',
+        Labels: [],
+        Attachments: [],
+        Recurrence: null,
+        Checklist: [],
       });
       setErrors({});
       onClose();
+    } catch (error) {
+      // Keep the modal open and show the server's field messages next to the inputs
+      if (error instanceof ValidationError && error.hasFieldErrors) {
+        setErrors(error.fieldErrors);
+      }
+      showError(error, 'Failed to create task. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -130,8 +192,94 @@ export const AddTaskModal = ({ isOpen, onClose, onAddTask }: AddTaskModalProps)
     }
   };
 
+  // Uploaded files are kept until the task is saved or the modal is cancelled
+  const handleAttachmentUpload = (attachment: TaskAttachment) => {
+    setFormData((prev) => ({ ...prev, Attachments: [...prev.Attachments, attachment] }));
+  };
+
+  // Files not saved with a task yet are deleted right away
+  const discardAttachment = (attachment: TaskAttachment) => {
+    taskApi.deleteAttachment(attachment.id).catch((error) => {
+      console.error('Failed to delete uploaded file:', error);
+    });
+  };
+
+  const handleAttachmentRemove = (attachment: TaskAttachment) => {
+    setFormData((prev) => ({
+      ...prev,
+      Attachments: prev.Attachments.filter((a) => a.id !== attachment.id),
+    }));
+    discardAttachment(attachment);
+  };
+
+  // Fill in the form from a single-task template; the user can still change every field
+  const fillFromTemplate = (task: TemplateTask) => {
+    setFormData((prev) => ({
+      ...prev,
+      Title: task.Title.slice(0, TITLE_MAX_LENGTH),
+      Description: task.Description.slice(0, DESCRIPTION_MAX_LENGTH),
+      Priority: task.Priority,
+      EstimatedHours: task.EstimatedHours,
+      AssignedTo: task.AssignedTo,
+      Labels: task.Labels,
+      Checklist: toChecklistItems(task.Checklist),
+    }));
+    setErrors({});
+  };
+
+  // Create every task of a template bundle, blockers first so their IDs can be linked
+  // Offline the links use temporary IDs, which the task store replaces once each task is synced
+  const createTemplateBundle = async (template: TaskTemplate, tasks: TemplateTask[]) => {
+    const ordered = orderTemplateTasks(tasks);
+    if (!ordered) {
+      showToast({ type: 'error', title: 'Invalid template', message: `The tasks of "${template.name}" depend on each other in a cycle.` });
+      return;
+    }
+
+    const createdIds: Record<string, string> = {};
+    setIsApplyingTemplate(true);
+    try {
+      for (const task of ordered) {
+        const created = await createTask({
+          Title: task.Title.slice(0, TITLE_MAX_LENGTH),
+          Description: task.Description.slice(0, DESCRIPTION_MAX_LENGTH),
+          Status: TaskStatus.Pending,
+          Priority: task.Priority,
+          EstimatedHours: task.EstimatedHours,
+          AssignedTo: task.AssignedTo,
+          Labels: task.Labels,
+          Checklist: toChecklistItems(task.Checklist),
+          BlockedBy: task.BlockedBy.map((key) => createdIds[key]).filter(Boolean),
+          ParentId: parentTask?.id ?? null,
+        });
+        createdIds[task.Key] = created.id!;
+      }
+      showToast({ type: 'success', title: 'Tasks Created', message: `Created ${ordered.length} tasks from "${template.name}".` });
+      setIsChoosingTemplate(false);
+      onClose();
+    } catch (error) {
+      const createdCount = Object.keys(createdIds).length;
+      showError(error, createdCount > 0
+        ? `Only ${createdCount} of ${ordered.length} tasks were created from "${template.name}".`
+        : 'Failed to create tasks from the template. Please try again.');
+    } finally {
+      setIsApplyingTemplate(false);
+    }
+  };
+
+  const handleApplyTemplate = async (template: TaskTemplate, values: Record<string, string>) => {
+    const tasks = template.Tasks.map((task) => fillTemplateTask(task, values));
+    if (tasks.length === 1) {
+      fillFromTemplate(tasks[0]);
+      setIsChoosingTemplate(false);
+      return;
+    }
+    await createTemplateBundle(template, tasks);
+  };
+
   // Handle modal close and reset
   const handleClose = () => {
+    formData.Attachments.forEach(discardAttachment);
     setFormData({
       Title: '',
       Description: '',
@@ -141,8 +289,13 @@ export const AddTaskModal = ({ isOpen, onClose, onAddTask }: AddTaskModalProps)
       AssignedTo: [],
       ScheduledStartDate: '',
       ScheduledStartTime: '',
+      Labels: [],
+      Attachments: [],
+      Recurrence: null,
+      Checklist: [],
     });
     setErrors({});
+    setIsChoosingTemplate(false);
     onClose();
   };
 
@@ -159,270 +312,379 @@ export const AddTaskModal = ({ isOpen, onClose, onAddTask }: AddTaskModalProps)
       >
         {/* Modal Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-slate-700">
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white transition-colors">
-            Add New Task
-          </h2>
-          <button
-            onClick={handleClose}
-            className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-          >
-            <X className="w-6 h-6" />
-          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white transition-colors">
+              {isChoosingTemplate ? 'New from Template' : parentTask ? 'Add Subtask' : 'Add New Task'}
+            </h2>
+            {parentTask && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Subtask of {parentTask.Title}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {!isChoosingTemplate && (
+              <button
+                type="button"
+                onClick={() => setIsChoosingTemplate(true)}
+                disabled={isSubmitting}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                New from template
+              </button>
+            )}
+            <button
+              onClick={handleClose}
+              className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
         {/* Modal Body */}
-        <form onSubmit={handleSubmit} className="p-6">
-          <div className="space-y-4">
-            {/* Title Field */}
-            <div>
-              <label
-                htmlFor="Title"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
-              >
-                Title <span className="text-red-500 dark:text-red-400">*</span>
-              </label>
-              <input
-                type="text"
-                id="Title"
-                name="Title"
-                value={formData.Title}
-                onChange={handleChange}
-                maxLength={TITLE_MAX_LENGTH}
-                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
-                  errors.Title
-                    ? 'border-red-500 dark:border-red-400'
-                    : formData.Title.length > TITLE_MAX_LENGTH * 0.9
-                    ? 'border-orange-500 dark:border-orange-400'
-                    : 'border-gray-300 dark:border-slate-600'
-                }`}
-                placeholder="Enter task title"
-              />
-              <div className="mt-1 flex items-center justify-between">
-                {errors.Title && (
-                  <p className="text-sm text-red-500 dark:text-red-400">{errors.Title}</p>
-                )}
-                <p
-                  className={`text-xs ml-auto ${
-                    formData.Title.length > TITLE_MAX_LENGTH
-                      ? 'text-red-500 dark:text-red-400 font-semibold'
-                      : formData.Title.length > TITLE_MAX_LENGTH * 0.9
-                      ? 'text-orange-500 dark:text-orange-400'
-                      : 'text-gray-500 dark:text-gray-400'
-                  }`}
-                >
-                  {formData.Title.length > TITLE_MAX_LENGTH
-                    ? `${formData.Title.length - TITLE_MAX_LENGTH} characters over limit`
-                    : `${TITLE_MAX_LENGTH - formData.Title.length} characters remaining`}
-                </p>
-              </div>
-            </div>
-
-            {/* Description Field */}
-            <div>
-              <label
-                htmlFor="Description"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
-              >
-                Description <span className="text-red-500 dark:text-red-400">*</span>
-              </label>
-              <textarea
-                id="Description"
-                name="Description"
-                value={formData.Description}
-                onChange={handleChange}
-                rows={4}
-                maxLength={DESCRIPTION_MAX_LENGTH}
-                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
-                  errors.Description
-                    ? 'border-red-500 dark:border-red-400'
-                    : formData.Description.length > DESCRIPTION_MAX_LENGTH * 0.9
-                    ? 'border-orange-500 dark:border-orange-400'
-                    : 'border-gray-300 dark:border-slate-600'
-                }`}
-                placeholder="Enter task description"
-              />
-              <div className="mt-1 flex items-center justify-between">
-                {errors.Description && (
-                  <p className="text-sm text-red-500 dark:text-red-400">
-                    {errors.Description}
-                  </p>
-                )}
-                <p
-                  className={`text-xs ml-auto ${
-                    formData.Description.length > DESCRIPTION_MAX_LENGTH
-                      ? 'text-red-500 dark:text-red-400 font-semibold'
-                      : formData.Description.length > DESCRIPTION_MAX_LENGTH * 0.9
-                      ? 'text-orange-500 dark:text-orange-400'
-                      : 'text-gray-500 dark:text-gray-400'
-                  }`}
-                >
-                  {formData.Description.length > DESCRIPTION_MAX_LENGTH
-                    ? `${formData.Description.length - DESCRIPTION_MAX_LENGTH} characters over limit`
-                    : `${DESCRIPTION_MAX_LENGTH - formData.Description.length} characters remaining`}
-                </p>
-              </div>
-            </div>
-
-            {/* Status and Priority Row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Status Field */}
-              <div>
-                <label
-                  htmlFor="Status"
-                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
-                >
-                  Status
-                </label>
-                <select
-                  id="Status"
-                  name="Status"
-                  value={formData.Status}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
-                >
-                  <option value={TaskStatus.Pending}>{TaskStatus.Pending}</option>
-                  <option value={TaskStatus.InProgress}>{TaskStatus.InProgress}</option>
-                  <option value={TaskStatus.Completed}>{TaskStatus.Completed}</option>
-                </select>
-              </div>
-
-              {/* Priority Field */}
+        {isChoosingTemplate ? (
+          <div className="p-6">
+            <TemplatePicker
+              onApply={handleApplyTemplate}
+              onCancel={() => setIsChoosingTemplate(false)}
+              isApplying={isApplyingTemplate}
+            />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6">
+            <div className="space-y-4">
+              {/* Title Field */}
               <div>
                 <label
-                  htmlFor="Priority"
+                  htmlFor="Title"
                   className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
                 >
-                  Priority
+                  Title <span className="text-red-500 dark:text-red-400">*</span>
                 </label>
-                <select
-                  id="Priority"
-                  name="Priority"
-                  value={formData.Priority}
+                <input
+                  type="text"
+                  id="Title"
+                  name="Title"
+                  value={formData.Title}
                   onChange={handleChange}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
-                >
-                  <option value={TaskPriority.Low}>{TaskPriority.Low}</option>
-                  <option value={TaskPriority.Medium}>{TaskPriority.Medium}</option>
-                  <option value={TaskPriority.High}>{TaskPriority.High}</option>
-                  <option value={TaskPriority.Critical}>{TaskPriority.Critical}</option>
-                </select>
+                  maxLength={TITLE_MAX_LENGTH}
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
+                    errors.Title
+                      ? 'border-red-500 dark:border-red-400'
+                      : formData.Title.length > TITLE_MAX_LENGTH * 0.9
+                      ? 'border-orange-500 dark:border-orange-400'
+                      : 'border-gray-300 dark:border-slate-600'
+                  }`}
+                  placeholder="Enter task title"
+                />
+                <div className="mt-1 flex items-center justify-between">
+                  {errors.Title && (
+                    <p className="text-sm text-red-500 dark:text-red-400">{errors.Title}</p>
+                  )}
+                  <p
+                    className={`text-xs ml-auto ${
+                      formData.Title.length > TITLE_MAX_LENGTH
+                        ? 'text-red-500 dark:text-red-400 font-semibold'
+                        : formData.Title.length > TITLE_MAX_LENGTH * 0.9
+                        ? 'text-orange-500 dark:text-orange-400'
+                        : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                  >
+                    {formData.Title.length > TITLE_MAX_LENGTH
+                      ? `${formData.Title.length - TITLE_MAX_LENGTH} characters over limit`
+                      : `${TITLE_MAX_LENGTH - formData.Title.length} characters remaining`}
+                  </p>
+                </div>
               </div>
-            </div>
 
-            {/* Estimated Hours and Assigned To Row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Estimated Hours Field */}
+              {/* Description Field */}
               <div>
                 <label
-                  htmlFor="EstimatedHours"
+                  htmlFor="Description"
                   className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
                 >
-                  Estimated Hours <span className="text-red-500 dark:text-red-400">*</span>
+                  Description <span className="text-red-500 dark:text-red-400">*</span>
                 </label>
-                <input
-                  type="number"
-                  id="EstimatedHours"
-                  name="EstimatedHours"
-                  value={formData.EstimatedHours}
+                <textarea
+                  id="Description"
+                  name="Description"
+                  value={formData.Description}
                   onChange={handleChange}
-                  min="0"
-                  step="0.5"
+                  rows={4}
+                  maxLength={DESCRIPTION_MAX_LENGTH}
                   className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
-                    errors.EstimatedHours
+                    errors.Description
                       ? 'border-red-500 dark:border-red-400'
+                      : formData.Description.length > DESCRIPTION_MAX_LENGTH * 0.9
+                      ? 'border-orange-500 dark:border-orange-400'
                       : 'border-gray-300 dark:border-slate-600'
                   }`}
-                  placeholder="0"
+                  placeholder="Enter task description"
                 />
-                {errors.EstimatedHours && (
-                  <p className="mt-1 text-sm text-red-500 dark:text-red-400">
-                    {errors.EstimatedHours}
+                <div className="mt-1 flex items-center justify-between">
+                  {errors.Description && (
+                    <p className="text-sm text-red-500 dark:text-red-400">
+                      {errors.Description}
+                    </p>
+                  )}
+                  <p
+                    className={`text-xs ml-auto ${
+                      formData.Description.length > DESCRIPTION_MAX_LENGTH
+                        ? 'text-red-500 dark:text-red-400 font-semibold'
+                        : formData.Description.length > DESCRIPTION_MAX_LENGTH * 0.9
+                        ? 'text-orange-500 dark:text-orange-400'
+                        : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                  >
+                    {formData.Description.length > DESCRIPTION_MAX_LENGTH
+                      ? `${formData.Description.length - DESCRIPTION_MAX_LENGTH} characters over limit`
+                      : `${DESCRIPTION_MAX_LENGTH - formData.Description.length} characters remaining`}
                   </p>
-                )}
+                </div>
+              </div>
+
+              {/* Status and Priority Row */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Status Field */}
+                <div>
+                  <label
+                    htmlFor="Status"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    Status
+                  </label>
+                  <select
+                    id="Status"
+                    name="Status"
+                    value={formData.Status}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+                  >
+                    {/* Tasks are put on hold through the hold flow, not created on hold */}
+                    {statuses
+                      .filter((status) => status !== TaskStatus.Hold)
+                      .map((status) => (
+                        <option key={status} value={status}>{status}</option>
+                      ))}
+                  </select>
+                </div>
+
+                {/* Priority Field */}
+                <div>
+                  <label
+                    htmlFor="Priority"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    Priority
+                  </label>
+                  <select
+                    id="Priority"
+                    name="Priority"
+                    value={formData.Priority}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+                  >
+                    <option value={TaskPriority.Low}>{TaskPriority.Low}</option>
+                    <option value={TaskPriority.Medium}>{TaskPriority.Medium}</option>
+                    <option value={TaskPriority.High}>{TaskPriority.High}</option>
+                    <option value={TaskPriority.Critical}>{TaskPriority.Critical}</option>
+                  </select>
+                </div>
+              </div>
+
+              {/* Estimated Hours and Assigned To Row */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Estimated Hours Field */}
+                <div>
+                  <label
+                    htmlFor="EstimatedHours"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    Estimated Hours <span className="text-red-500 dark:text-red-400">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    id="EstimatedHours"
+                    name="EstimatedHours"
+                    value={formData.EstimatedHours}
+                    onChange={handleChange}
+                    min="0"
+                    step="0.5"
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
+                      errors.EstimatedHours
+                        ? 'border-red-500 dark:border-red-400'
+                        : 'border-gray-300 dark:border-slate-600'
+                    }`}
+                    placeholder="0"
+                  />
+                  {errors.EstimatedHours && (
+                    <p className="mt-1 text-sm text-red-500 dark:text-red-400">
+                      {errors.EstimatedHours}
+                    </p>
+                  )}
+                </div>
+
+                {/* Assigned To Field */}
+                <div className="md:col-span-2">
+                  <label
+                    htmlFor="AssignedTo"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    Assigned To <span className="text-red-500 dark:text-red-400">*</span>
+                  </label>
+                  <UserSearch
+                    selectedUserIds={formData.AssignedTo}
+                    onSelectionChange={handleUserSelectionChange}
+                    error={errors.AssignedTo}
+                    placeholder="Search users by username or name..."
+                  />
+                </div>
               </div>
 
-              {/* Assigned To Field */}
-              <div className="md:col-span-2">
+              {/* Scheduled Date and Time Row */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Scheduled Start Date */}
+                <div>
+                  <label
+                    htmlFor="ScheduledStartDate"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    Scheduled Start Date
+                  </label>
+                  <input
+                    type="date"
+                    id="ScheduledStartDate"
+                    name="ScheduledStartDate"
+                    value={formData.ScheduledStartDate}
+                    onChange={handleChange}
+                    min={new Date().toISOString().split('T')[0]}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Task will auto-start at scheduled time
+                  </p>
+                </div>
+
+                {/* Scheduled Start Time */}
+                <div>
+                  <label
+                    htmlFor="ScheduledStartTime"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    Scheduled Start Time
+                  </label>
+                  <input
+                    type="time"
+                    id="ScheduledStartTime"
+                    name="ScheduledStartTime"
+                    value={formData.ScheduledStartTime}
+                    onChange={handleChange}
+                    disabled={!formData.ScheduledStartDate}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Required if date is set
+                  </p>
+                </div>
+              </div>
+
+              {/* Recurrence Field */}
+              <div>
                 <label
-                  htmlFor="AssignedTo"
+                  htmlFor="Recurrence"
                   className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
                 >
-                  Assigned To <span className="text-red-500 dark:text-red-400">*</span>
+                  Repeat
                 </label>
-                <UserSearch
-                  selectedUserIds={formData.AssignedTo}
-                  onSelectionChange={handleUserSelectionChange}
-                  error={errors.AssignedTo}
-                  placeholder="Search users by username or name..."
+                <RecurrenceEditor
+                  value={formData.Recurrence}
+                  onChange={(recurrence) => {
+                    setFormData((prev) => ({ ...prev, Recurrence: recurrence }));
+                    setErrors((prev) => {
+                      const newErrors = { ...prev };
+                      delete newErrors.Recurrence;
+                      return newErrors;
+                    });
+                  }}
+                  startDate={formData.ScheduledStartDate || undefined}
+                  error={errors.Recurrence}
                 />
               </div>
-            </div>
 
-            {/* Scheduled Date and Time Row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Scheduled Start Date */}
+              {/* Labels Field */}
               <div>
-                <label
-                  htmlFor="ScheduledStartDate"
-                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
-                >
-                  Scheduled Start Date
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                  Labels
                 </label>
-                <input
-                  type="date"
-                  id="ScheduledStartDate"
-                  name="ScheduledStartDate"
-                  value={formData.ScheduledStartDate}
-                  onChange={handleChange}
-                  min={new Date().toISOString().split('T')[0]}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+                <LabelPicker
+                  selectedLabelIds={formData.Labels}
+                  onChange={(labelIds) => setFormData((prev) => ({ ...prev, Labels: labelIds }))}
                 />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  Task will auto-start at scheduled time
-                </p>
               </div>
 
-              {/* Scheduled Start Time */}
+              {/* Checklist from a template */}
+              {formData.Checklist.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                    Checklist
+                  </label>
+                  <ul className="space-y-1">
+                    {formData.Checklist.map((item) => (
+                      <li key={item.id} className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <span className="truncate">{item.Text}</span>
+                        <button
+                          type="button"
+                          onClick={() => setFormData((prev) => ({
+                            ...prev,
+                            Checklist: prev.Checklist.filter((other) => other.id !== item.id),
+                          }))}
+                          className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          title="Remove item"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Attachments Field */}
               <div>
-                <label
-                  htmlFor="ScheduledStartTime"
-                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
-                >
-                  Scheduled Start Time
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                  Attachments
                 </label>
-                <input
-                  type="time"
-                  id="ScheduledStartTime"
-                  name="ScheduledStartTime"
-                  value={formData.ScheduledStartTime}
-                  onChange={handleChange}
-                  disabled={!formData.ScheduledStartDate}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                <AttachmentDropzone
+                  attachments={formData.Attachments}
+                  onUpload={handleAttachmentUpload}
+                  onRemove={handleAttachmentRemove}
+                  onUploadingChange={setIsUploading}
+                  disabled={isSubmitting}
                 />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  Required if date is set
-                </p>
               </div>
             </div>
-          </div>
 
-          {/* Modal Footer */}
-          <div className="flex justify-end gap-3 mt-6 pt-6 border-t border-gray-200 dark:border-slate-700">
-            <button
-              type="button"
-              onClick={handleClose}
-              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-md transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 rounded-md transition-colors"
-            >
-              Add Task
-            </button>
-          </div>
-        </form>
+            {/* Modal Footer */}
+            <div className="flex justify-end gap-3 mt-6 pt-6 border-t border-gray-200 dark:border-slate-700">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || isUploading}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Adding...' : isUploading ? 'Uploading...' : 'Add Task'}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
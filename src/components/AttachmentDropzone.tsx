@@ -0,0 +1,194 @@
+import { useState, useEffect, useRef } from 'react';
+import type { DragEvent } from 'react';
+import { Upload, Paperclip, X } from 'lucide-react';
+import type { TaskAttachment } from '../types';
+import { taskApi } from '../services/api';
+import { getErrorMessage } from '../services/errors';
+import { ALLOWED_ATTACHMENT_EXTENSIONS, MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS_PER_TASK } from '../constants/attachments';
+import { formatFileSize, getAttachmentError } from '../utils/attachments';
+
+interface AttachmentDropzoneProps {
+  attachments: TaskAttachment[];
+  /** Called for each file once it has been uploaded */
+  onUpload: (attachment: TaskAttachment) => void;
+  /** Called when the user removes a file; the parent decides whether to delete it */
+  onRemove: (attachment: TaskAttachment) => void;
+  /** Called when uploads start and when the last one finishes */
+  onUploadingChange?: (isUploading: boolean) => void;
+  disabled?: boolean;
+}
+
+interface PendingUpload {
+  key: string;
+  fileName: string;
+  progress: number;
+}
+
+/**
+ * AttachmentDropzone Component
+ * Uploads files dropped on it or picked from the file dialog, with a progress bar per file
+ * Files are checked against the type and size limits before uploading
+ * Supports both light and dark modes
+ */
+export const AttachmentDropzone = ({
+  attachments,
+  onUpload,
+  onRemove,
+  onUploadingChange,
+  disabled = false,
+}: AttachmentDropzoneProps) => {
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const isUploading = uploads.length > 0;
+
+  // Let the parent hold off saving until every file is uploaded
+  useEffect(() => {
+    onUploadingChange?.(isUploading);
+  }, [isUploading, onUploadingChange]);
+
+  const uploadFile = async (file: File) => {
+    const key = `${file.name}-${Date.now()}-${Math.random()}`;
+    setUploads((prev) => [...prev, { key, fileName: file.name, progress: 0 }]);
+
+    try {
+      const attachment = await taskApi.uploadAttachment(file, (progress) => {
+        setUploads((prev) => prev.map((upload) => (upload.key === key ? { ...upload, progress } : upload)));
+      });
+      onUpload(attachment);
+    } catch (err) {
+      setErrors((prev) => [...prev, `${file.name}: ${getErrorMessage(err, 'upload failed')}`]);
+    } finally {
+      setUploads((prev) => prev.filter((upload) => upload.key !== key));
+    }
+  };
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || disabled) return;
+
+    const newErrors: string[] = [];
+    let remaining = MAX_ATTACHMENTS_PER_TASK - attachments.length - uploads.length;
+
+    for (const file of Array.from(fileList)) {
+      const error = getAttachmentError(file);
+      if (error) {
+        newErrors.push(error);
+      } else if (remaining <= 0) {
+        newErrors.push(`${file.name}: a task can have at most ${MAX_ATTACHMENTS_PER_TASK} files`);
+      } else {
+        remaining -= 1;
+        uploadFile(file);
+      }
+    }
+
+    setErrors(newErrors);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (!disabled) {
+      setIsDragging(true);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div>
+      {/* Drop Area */}
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-1 px-4 py-6 border-2 border-dashed rounded-md text-center transition-colors ${
+          disabled
+            ? 'opacity-50 cursor-not-allowed border-gray-300 dark:border-slate-600'
+            : isDragging
+              ? 'cursor-pointer border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+              : 'cursor-pointer border-gray-300 dark:border-slate-600 hover:border-blue-400 dark:hover:border-blue-500'
+        }`}
+      >
+        <Upload className="w-6 h-6 text-gray-400 dark:text-gray-500" />
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="font-medium text-blue-600 dark:text-blue-400">Click to upload</span> or drag and drop
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Images, PDF, text, Office documents or ZIP, up to {formatFileSize(MAX_ATTACHMENT_SIZE)} each
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ALLOWED_ATTACHMENT_EXTENSIONS.join(',')}
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            // Allow picking the same file again after removing it
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+
+      {/* Validation and Upload Errors */}
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {errors.map((error) => (
+            <li key={error} className="text-sm text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Uploads in Progress */}
+      {uploads.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {uploads.map((upload) => (
+            <li key={upload.key}>
+              <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+                <span className="truncate">{upload.fileName}</span>
+                <span className="ml-2 flex-shrink-0">{upload.progress}%</span>
+              </div>
+              <div className="w-full h-1.5 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 dark:bg-blue-500 transition-all duration-200"
+                  style={{ width: `${upload.progress}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Uploaded Files */}
+      {attachments.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-50 dark:bg-slate-700/50 rounded-md border border-gray-200 dark:border-slate-600"
+            >
+              <Paperclip className="w-4 h-4 flex-shrink-0 text-gray-400 dark:text-gray-500" />
+              <span className="flex-1 truncate text-gray-900 dark:text-white">{attachment.FileName}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(attachment.Size)}</span>
+              <button
+                type="button"
+                onClick={() => onRemove(attachment)}
+                disabled={disabled}
+                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                title="Remove file"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,418 @@
+import { useState, useMemo, useRef, useEffect } from 'react';
+import type { DragEvent } from 'react';
+import type { Task } from '../types';
+import { TaskPriority, TaskStatus } from '../types';
+import {
+  addDays,
+  getDaySegment,
+  getMinutesIntoDay,
+  getMonthGridDays,
+  getTaskSchedule,
+  isSameDay,
+  layoutOverlaps,
+  startOfDay,
+} from '../utils/calendar';
+import type { TaskSchedule } from '../utils/calendar';
+
+interface CalendarViewProps {
+  tasks: Task[];
+  canReschedule: (task: Task) => boolean;
+  onSelectTask: (task: Task) => void;
+}
+
+interface CalendarMonthViewProps extends CalendarViewProps {
+  /** Any day in the month to show */
+  date: Date;
+  /** A task was dropped on another day; only its start date changes */
+  onMoveToDay: (task: Task, day: Date) => void;
+  onSelectDay: (day: Date) => void;
+}
+
+interface CalendarTimeGridProps extends CalendarViewProps {
+  days: Date[];
+  /** A block was dropped at a new start time */
+  onReschedule: (task: Task, start: Date) => void;
+}
+
+/**
+ * Part of a task drawn on one day
+ */
+type CalendarItem = TaskSchedule & { task: Task; schedule: TaskSchedule };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Chips shown per month cell before "+N more"
+const MAX_MONTH_ITEMS = 3;
+
+// Time grid scale and drop granularity
+const HOUR_HEIGHT = 48;
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+const SNAP_MINUTES = 15;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Hour the time grid is scrolled to on open
+const FIRST_VISIBLE_HOUR = 7;
+
+// Get block colors by priority (same high-contrast palette as TaskCard badges)
+const getPriorityBlockClass = (priority: TaskPriority): string => {
+  switch (priority) {
+    case TaskPriority.Critical:
+      return 'bg-red-500 dark:bg-red-600 border-red-600 dark:border-red-700 text-white';
+    case TaskPriority.High:
+      return 'bg-orange-500 dark:bg-orange-600 border-orange-600 dark:border-orange-700 text-white';
+    case TaskPriority.Medium:
+      return 'bg-yellow-500 dark:bg-yellow-600 border-yellow-600 dark:border-yellow-700 text-white';
+    case TaskPriority.Low:
+      return 'bg-blue-500 dark:bg-blue-600 border-blue-600 dark:border-blue-700 text-white';
+    default:
+      return 'bg-gray-500 dark:bg-gray-600 border-gray-600 dark:border-gray-700 text-white';
+  }
+};
+
+const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+};
+
+/**
+ * Get the parts of the tasks that fall on a day
+ */
+const getDayItems = (tasks: { task: Task; schedule: TaskSchedule }[], day: Date): CalendarItem[] => {
+  const items: CalendarItem[] = [];
+  tasks.forEach(({ task, schedule }) => {
+    const segment = getDaySegment(schedule, day);
+    if (segment) {
+      items.push({ ...segment, task, schedule });
+    }
+  });
+  return items.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Scheduled tasks with their time spans (unscheduled tasks are left out)
+ */
+const useSchedules = (tasks: Task[]) => {
+  return useMemo(() => {
+    return tasks.flatMap((task) => {
+      const schedule = getTaskSchedule(task);
+      return schedule ? [{ task, schedule }] : [];
+    });
+  }, [tasks]);
+};
+
+/**
+ * Calendar Month View Component
+ * One cell per day; dragging a task to another day keeps its start time (or lack of one)
+ * Supports both light and dark modes
+ */
+export const CalendarMonthView = ({
+  date,
+  tasks,
+  canReschedule,
+  onMoveToDay,
+  onSelectTask,
+  onSelectDay,
+}: CalendarMonthViewProps) => {
+  const schedules = useSchedules(tasks);
+  const [dragged, setDragged] = useState<{ item: CalendarItem; fromDay: Date } | null>(null);
+  const [overDay, setOverDay] = useState<Date | null>(null);
+
+  const days = getMonthGridDays(date);
+  const today = new Date();
+
+  const resetDrag = () => {
+    setDragged(null);
+    setOverDay(null);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    const current = dragged;
+    resetDrag();
+    if (!current || isSameDay(current.fromDay, day)) return;
+    // Move the start by whole days, so a task dragged by a later day of its span keeps its length
+    const dayDelta = Math.round((startOfDay(day).getTime() - startOfDay(current.fromDay).getTime()) / (24 * 60 * 60 * 1000));
+    onMoveToDay(current.item.task, addDays(startOfDay(current.item.schedule.start), dayDelta));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
+      {/* Weekday Header */}
+      <div className="grid grid-cols-7 bg-gray-50 dark:bg-slate-700 border-b border-gray-200 dark:border-slate-600">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="px-2 py-2 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider text-center">
+            {weekday}
+          </div>
+        ))}
+      </div>
+
+      {/* Day Cells */}
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const items = getDayItems(schedules, day);
+          const isCurrentMonth = day.getMonth() === date.getMonth();
+          const isToday = isSameDay(day, today);
+          const isDropTarget = !!dragged && !!overDay && isSameDay(day, overDay) && !isSameDay(day, dragged.fromDay);
+
+          return (
+            <div
+              key={day.toISOString()}
+              onDragOver={(e) => {
+                if (!dragged) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (!overDay || !isSameDay(overDay, day)) setOverDay(day);
+              }}
+              onDrop={(e) => handleDrop(e, day)}
+              className={`min-h-[7rem] p-1.5 border-b border-r border-gray-100 dark:border-slate-700 transition-colors ${
+                isDropTarget
+                  ? 'bg-indigo-50 dark:bg-indigo-900/20'
+                  : isCurrentMonth
+                  ? 'bg-white dark:bg-slate-800'
+                  : 'bg-gray-50 dark:bg-slate-800/50'
+              }`}
+            >
+              <button
+                onClick={() => onSelectDay(day)}
+                className={`mb-1 w-7 h-7 flex items-center justify-center rounded-full text-xs font-medium transition-colors ${
+                  isToday
+                    ? 'bg-indigo-600 text-white'
+                    : isCurrentMonth
+                    ? 'text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-slate-700'
+                    : 'text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700'
+                }`}
+                type="button"
+                title="Open day view"
+              >
+                {day.getDate()}
+              </button>
+
+              <div className="space-y-1">
+                {items.slice(0, MAX_MONTH_ITEMS).map((item) => {
+                  const draggable = canReschedule(item.task);
+                  return (
+                    <div
+                      key={item.task.id}
+                      draggable={draggable}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', item.task.id!);
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragged({ item, fromDay: day });
+                      }}
+                      onDragEnd={resetDrag}
+                      onClick={() => onSelectTask(item.task)}
+                      className={`px-1.5 py-0.5 rounded border text-xs truncate ${getPriorityBlockClass(item.task.Priority)} ${
+                        draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                      } ${item.task.Status === TaskStatus.Completed ? 'opacity-60 line-through' : ''}`}
+                      title={`${item.task.Title} (${formatTime(item.schedule.start)} – ${formatTime(item.schedule.end)})`}
+                    >
+                      {isSameDay(item.start, item.schedule.start) && (
+                        <span className="font-semibold mr-1">{formatTime(item.start)}</span>
+                      )}
+                      {item.task.Title}
+                    </div>
+                  );
+                })}
+                {items.length > MAX_MONTH_ITEMS && (
+                  <button
+                    onClick={() => onSelectDay(day)}
+                    className="w-full text-left px-1.5 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                    type="button"
+                  >
+                    +{items.length - MAX_MONTH_ITEMS} more
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Calendar Time Grid Component
+ * Week and day views: one column per day with tasks drawn from their start for EstimatedHours
+ * Dragging a block moves it to the dropped day and time (snapped to 15 minutes)
+ * Supports both light and dark modes
+ */
+export const CalendarTimeGrid = ({ days, tasks, canReschedule, onReschedule, onSelectTask }: CalendarTimeGridProps) => {
+  const schedules = useSchedules(tasks);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Minutes between the task's start and the point where the block was grabbed
+  const grabOffsetRef = useRef(0);
+  const [dragged, setDragged] = useState<CalendarItem | null>(null);
+  const [preview, setPreview] = useState<{ day: Date; minutes: number } | null>(null);
+  const today = new Date();
+
+  // Start scrolled to the working day
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  /**
+   * Start time (minutes into the day) for the pointer position over a day column
+   */
+  const getDropMinutes = (e: DragEvent<HTMLDivElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointerMinutes = (e.clientY - rect.top) / PX_PER_MINUTE;
+    const snapped = Math.round((pointerMinutes - grabOffsetRef.current) / SNAP_MINUTES) * SNAP_MINUTES;
+    return Math.min(Math.max(snapped, 0), MINUTES_PER_DAY - SNAP_MINUTES);
+  };
+
+  const resetDrag = () => {
+    setDragged(null);
+    setPreview(null);
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, item: CalendarItem) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutesIntoBlock = (e.clientY - rect.top) / PX_PER_MINUTE;
+    const segmentOffset = (item.start.getTime() - item.schedule.start.getTime()) / (60 * 1000);
+    grabOffsetRef.current = segmentOffset + minutesIntoBlock;
+    e.dataTransfer.setData('text/plain', item.task.id!);
+    e.dataTransfer.effectAllowed = 'move';
+    setDragged(item);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, day: Date) => {
+    if (!dragged) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const minutes = getDropMinutes(e);
+    if (!preview || preview.minutes !== minutes || !isSameDay(preview.day, day)) {
+      setPreview({ day, minutes });
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    const item = dragged;
+    const minutes = getDropMinutes(e);
+    resetDrag();
+    if (!item) return;
+
+    const start = startOfDay(day);
+    start.setHours(0, minutes, 0, 0);
+    if (start.getTime() !== item.schedule.start.getTime()) {
+      onReschedule(item.task, start);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
+      {/* Day Header */}
+      <div className="flex bg-gray-50 dark:bg-slate-700 border-b border-gray-200 dark:border-slate-600">
+        <div className="w-16 flex-shrink-0" />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={`flex-1 px-2 py-2 text-center text-xs font-medium uppercase tracking-wider ${
+              isSameDay(day, today) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-500 dark:text-gray-300'
+            }`}
+          >
+            {WEEKDAYS[day.getDay()]} {day.getDate()}
+          </div>
+        ))}
+      </div>
+
+      {/* Hours */}
+      <div ref={scrollRef} className="max-h-[40rem] overflow-y-auto">
+        <div className="flex relative" style={{ height: 24 * HOUR_HEIGHT }}>
+          {/* Hour Labels */}
+          <div className="w-16 flex-shrink-0 relative">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-xs text-gray-500 dark:text-gray-400"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {hour === 0 ? '' : formatTime(new Date(2000, 0, 1, hour))}
+              </div>
+            ))}
+          </div>
+
+          {/* Day Columns */}
+          {days.map((day) => {
+            const laidOut = layoutOverlaps(getDayItems(schedules, day));
+            const showPreview = !!dragged && !!preview && isSameDay(preview.day, day);
+            const previewMinutes = dragged
+              ? (dragged.schedule.end.getTime() - dragged.schedule.start.getTime()) / (60 * 1000)
+              : 0;
+
+            return (
+              <div
+                key={day.toISOString()}
+                onDragOver={(e) => handleDragOver(e, day)}
+                onDrop={(e) => handleDrop(e, day)}
+                className={`flex-1 relative border-l border-gray-100 dark:border-slate-700 ${
+                  isSameDay(day, today) ? 'bg-indigo-50/40 dark:bg-indigo-900/10' : ''
+                }`}
+              >
+                {/* Hour Lines */}
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <div
+                    key={hour}
+                    className="absolute inset-x-0 border-t border-gray-100 dark:border-slate-700"
+                    style={{ top: hour * HOUR_HEIGHT }}
+                  />
+                ))}
+
+                {/* Task Blocks */}
+                {laidOut.map(({ item, column, columns }) => {
+                  const top = getMinutesIntoDay(item.start) * PX_PER_MINUTE;
+                  const height = Math.max(((item.end.getTime() - item.start.getTime()) / (60 * 1000)) * PX_PER_MINUTE, 18);
+                  const draggable = canReschedule(item.task);
+
+                  return (
+                    <div
+                      key={item.task.id}
+                      draggable={draggable}
+                      onDragStart={(e) => handleDragStart(e, item)}
+                      onDragEnd={resetDrag}
+                      onClick={() => onSelectTask(item.task)}
+                      className={`absolute rounded-md border px-1.5 py-0.5 text-xs overflow-hidden shadow-sm ${getPriorityBlockClass(item.task.Priority)} ${
+                        draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                      } ${dragged?.task.id === item.task.id ? 'opacity-40' : ''} ${
+                        item.task.Status === TaskStatus.Completed ? 'opacity-60' : ''
+                      }`}
+                      style={{
+                        top,
+                        height,
+                        left: `calc(${(column / columns) * 100}% + 2px)`,
+                        width: `calc(${100 / columns}% - 4px)`,
+                      }}
+                      title={`${item.task.Title} (${formatTime(item.schedule.start)} – ${formatTime(item.schedule.end)})`}
+                    >
+                      <p className="font-semibold truncate">{item.task.Title}</p>
+                      {height >= 32 && (
+                        <p className="truncate opacity-90">
+                          {formatTime(item.schedule.start)} – {formatTime(item.schedule.end)}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {/* Drop Preview */}
+                {showPreview && (
+                  <div
+                    className="absolute inset-x-1 rounded-md border-2 border-dashed border-indigo-500 dark:border-indigo-400 bg-indigo-100/60 dark:bg-indigo-900/40 pointer-events-none text-xs font-medium text-indigo-700 dark:text-indigo-300 px-1.5"
+                    style={{
+                      top: preview.minutes * PX_PER_MINUTE,
+                      height: Math.max(Math.min(previewMinutes, MINUTES_PER_DAY - preview.minutes) * PX_PER_MINUTE, 18),
+                    }}
+                  >
+                    {formatTime(new Date(2000, 0, 1, 0, preview.minutes))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
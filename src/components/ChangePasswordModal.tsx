@@ -1,5 +1,6 @@
 import { useState, FormEvent } from 'react';
 import type { User } from '../types/auth';
+import { getErrorMessage } from '../services/errors';
 import { X, Loader2, AlertCircle } from 'lucide-react';
 
 interface ChangePasswordModalProps {
@@ -61,8 +62,8 @@ export const ChangePasswordModal = ({ isOpen, user, onClose, onChangePassword }:
       await onChangePassword(user.id, password);
       resetForm();
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to change password');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to change password'));
     } finally {
       setLoading(false);
     }
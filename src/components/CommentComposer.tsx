@@ -0,0 +1,184 @@
+import { useState, useRef } from 'react';
+import type { KeyboardEvent } from 'react';
+import { User as UserIcon } from 'lucide-react';
+import { useUsers } from '../contexts/UsersContext';
+import { getMentionQuery, insertMention } from '../utils/mentions';
+import type { MentionQuery } from '../utils/mentions';
+
+interface CommentComposerProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel?: string;
+  /** Resolves once the comment is saved; the text is kept if it rejects */
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+// How many users the mention dropdown lists at most
+const MAX_MENTION_SUGGESTIONS = 6;
+
+/**
+ * CommentComposer Component
+ * Textarea for writing a comment in markdown with @mention suggestions
+ * Ctrl/Cmd+Enter submits; arrow keys, Enter/Tab and Escape drive the suggestions
+ * Supports both light and dark modes
+ */
+export const CommentComposer = ({
+  initialValue = '',
+  placeholder = 'Write a comment...',
+  submitLabel = 'Comment',
+  onSubmit,
+  onCancel,
+  autoFocus = false,
+}: CommentComposerProps) => {
+  const { users } = useUsers();
+  const [body, setBody] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mention
+    ? users
+        .filter((user) => {
+          const query = mention.query.toLowerCase();
+          return user.username.toLowerCase().startsWith(query) || user.fullName.toLowerCase().includes(query);
+        })
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  // Track the @mention being typed at the caret
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret));
+    setHighlightedIndex(0);
+  };
+
+  // Replace the typed @mention with the picked user's username
+  const pickUser = (username: string) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const next = insertMention(body, mention, textarea.selectionStart, username);
+    setBody(next.text);
+    setMention(null);
+    // Put the caret after the mention once the new text is rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = body.trim();
+    if (!trimmed || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(trimmed);
+      setBody('');
+      setMention(null);
+    } catch {
+      // The caller shows the error; keep the text so nothing is lost
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const offset = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlightedIndex((index) => (index + offset + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickUser(suggestions[highlightedIndex].username);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={(e) => {
+          setBody(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        rows={3}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+      />
+
+      {/* Mention Suggestions */}
+      {suggestions.length > 0 && (
+        <ul className="absolute z-50 left-0 right-0 mt-1 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-md shadow-lg max-h-60 overflow-auto py-1">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                // Keep the textarea focused so the caret position is still known
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pickUser(user.username);
+                }}
+                className={`w-full text-left px-4 py-2 flex items-center gap-3 transition-colors ${
+                  index === highlightedIndex
+                    ? 'bg-blue-50 dark:bg-blue-900/20'
+                    : 'hover:bg-gray-100 dark:hover:bg-slate-700'
+                }`}
+              >
+                <UserIcon className="w-4 h-4 text-gray-400 dark:text-gray-500" />
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{user.fullName || user.username}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">@{user.username}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3 mt-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Markdown supported. Type @ to mention someone.
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!body.trim() || isSubmitting}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Saving...' : submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
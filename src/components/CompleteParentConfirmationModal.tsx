@@ -0,0 +1,105 @@
+import type { Task } from '../types';
+import { AlertTriangle, X } from 'lucide-react';
+import { useWorkflow } from '../contexts/WorkflowContext';
+
+interface CompleteParentConfirmationModalProps {
+  isOpen: boolean;
+  taskTitle?: string;
+  /** Subtasks that are not completed yet */
+  openSubtasks: Task[];
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+/**
+ * CompleteParentConfirmationModal Component
+ * Asks for confirmation before completing a task whose subtasks are still open
+ * Supports both light and dark modes with blurred backdrop
+ */
+export const CompleteParentConfirmationModal = ({
+  isOpen,
+  taskTitle,
+  openSubtasks,
+  onClose,
+  onConfirm,
+}: CompleteParentConfirmationModalProps) => {
+  const { getStatusBadgeClass } = useWorkflow();
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 backdrop-blur-sm bg-black/20 dark:bg-black/30 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-md transition-all duration-300 transform scale-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Modal Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-full bg-amber-100 dark:bg-amber-900/30">
+              <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              Complete Task?
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            type="button"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Modal Body */}
+        <div className="p-6">
+          {taskTitle && (
+            <p className="text-sm font-medium text-gray-900 dark:text-white bg-gray-50 dark:bg-slate-700/50 p-3 rounded-lg border border-gray-200 dark:border-slate-600 mb-4">
+              "{taskTitle}"
+            </p>
+          )}
+          <p className="text-gray-700 dark:text-gray-300 mb-3">
+            {openSubtasks.length === 1
+              ? 'This task still has 1 open subtask:'
+              : `This task still has ${openSubtasks.length} open subtasks:`}
+          </p>
+          <ul className="space-y-2 max-h-48 overflow-y-auto">
+            {openSubtasks.map((subtask) => (
+              <li key={subtask.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-gray-900 dark:text-white truncate">{subtask.Title}</span>
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border flex-shrink-0 ${getStatusBadgeClass(subtask.Status)}`}>
+                  {subtask.Status}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
+            The subtasks keep their current status.
+          </p>
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex justify-end gap-3 p-6 pt-0 border-t border-gray-200 dark:border-slate-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 dark:bg-green-500 hover:bg-green-700 dark:hover:bg-green-600 rounded-lg transition-colors"
+          >
+            Complete Anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
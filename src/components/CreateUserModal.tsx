@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import type { FormEvent } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { roleService } from '../services/role';
+import { getErrorMessage } from '../services/errors';
 import type { Role } from '../types/role';
 import { X, Loader2, AlertCircle } from 'lucide-react';
 
@@ -127,8 +128,8 @@ export const CreateUserModal = ({ isOpen, onClose, onSuccess }: CreateUserModalP
         await createUser(formData);
       }
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to create user');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create user'));
     } finally {
       setLoading(false);
     }
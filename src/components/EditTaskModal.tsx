@@ -1,36 +1,88 @@
 import { useState, useEffect } from 'react';
 import type { FormEvent } from 'react';
-import type { Task } from '../types';
+import type { Task, TaskAttachment, TaskRecurrence } from '../types';
 import { TaskStatus, TaskPriority } from '../types';
 import { UserSearch } from './UserSearch';
 import { X } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useBlockersOfMove } from '../hooks/useBlockersOfMove';
+import { CompleteParentConfirmationModal } from './CompleteParentConfirmationModal';
+import { TaskDependencySearch } from './TaskDependencySearch';
+import { AttachmentDropzone } from './AttachmentDropzone';
+import { LabelPicker } from './LabelPicker';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { selectSubtasks, selectBlockedTasks } from '../utils/taskSelectors';
+import { getOpenSubtasks } from '../utils/taskProgress';
+import { getRecurrenceError, isSameRecurrence, getChangedSeriesFields, getSeriesDefaults } from '../utils/recurrence';
+import { findDependencyCycle, describeDependencyCycle, getBlockersOfMove, describeBlockers } from '../utils/taskDependencies';
+import { ValidationError } from '../services/errors';
+import { taskApi, type UpdateTaskDTO } from '../services/api';
 
 interface EditTaskModalProps {
   isOpen: boolean;
   task: Task | null;
   onClose: () => void;
-  onUpdateTask: (taskId: string, task: Partial<Task>) => Promise<any>;
+  onUpdateTask: (taskId: string, task: Partial<Task> & { StatusComment?: string; AttachmentIds?: string[] }) => Promise<any>;
 }
 
+/** Which occurrences of a recurring task an edit applies to */
+type SeriesScope = 'this' | 'future';
+
 /**
  * EditTaskModal Component
  * Provides a form to edit existing tasks with validation
+ * The status can only be changed along the workflow's transitions
+ * Dependency links are checked for cycles as they are added
+ * Edits to a recurring task apply to this occurrence only or to this and future occurrences
  * Supports both light and dark modes
  */
 export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskModalProps) => {
   const [formData, setFormData] = useState({
     Title: '',
     Description: '',
-    Status: TaskStatus.Pending,
+    Status: TaskStatus.Pending as string,
+    StatusComment: '',
     Priority: TaskPriority.Medium,
     EstimatedHours: 0,
     AssignedTo: [] as string[],
     ScheduledStartDate: '',
     ScheduledStartTime: '',
+    BlockedBy: [] as string[],
+    // null until edited, so the list follows the store until the user changes it
+    Blocks: null as string[] | null,
+    Labels: [] as string[],
+    Attachments: [] as TaskAttachment[],
+    Recurrence: null as TaskRecurrence | null,
   });
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>('this');
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isConfirmingCompletion, setIsConfirmingCompletion] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const { showError } = useToast();
+  const { getNextStatusOptions, requiresComment } = useWorkflow();
+  const { tasksById, updateTask } = useTaskStore();
+  const checkBlockersOfMove = useBlockersOfMove();
+
+  // The current status and the statuses the workflow lets this user move to (hold and resume have their own flows)
+  const statusOptions = task ? [task.Status, ...getNextStatusOptions(task)] : [];
+  const needsStatusComment = !!task && formData.Status !== task.Status && requiresComment(task.Status, formData.Status);
+
+  // Completing a task whose subtasks are still open needs confirmation
+  const openSubtasks = task?.id && formData.Status === TaskStatus.Completed && task.Status !== TaskStatus.Completed
+    ? getOpenSubtasks(selectSubtasks(tasksById, task.id))
+    : [];
+
+  // "Blocks" links live on the other tasks' BlockedBy lists
+  const currentBlocks = task?.id ? selectBlockedTasks(tasksById, task.id).map((blocked) => blocked.id!) : [];
+  const blocks = formData.Blocks ?? currentBlocks;
+
+  // A changed rule always applies to the rest of the series
+  const recurrenceChanged = !!task && !isSameRecurrence(task.Recurrence, formData.Recurrence);
+  const scope: SeriesScope = recurrenceChanged ? 'future' : seriesScope;
 
   // Initialize form data when task changes
   useEffect(() => {
@@ -67,12 +119,19 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
         Title: task.Title || '',
         Description: task.Description || '',
         Status: task.Status || TaskStatus.Pending,
+        StatusComment: '',
         Priority: task.Priority || TaskPriority.Medium,
         EstimatedHours: task.EstimatedHours || 0,
         AssignedTo: assignedTo,
         ScheduledStartDate: scheduledDate,
         ScheduledStartTime: task.ScheduledStartTime || '',
+        BlockedBy: task.BlockedBy ?? [],
+        Blocks: null,
+        Labels: task.Labels ?? [],
+        Attachments: task.Attachments ?? [],
+        Recurrence: task.Recurrence ?? null,
       });
+      setSeriesScope('this');
       setErrors({});
     }
   }, [task]);
@@ -97,16 +156,82 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
       newErrors.AssignedTo = 'At least one user must be assigned';
     }
 
+    if (needsStatusComment && !formData.StatusComment.trim()) {
+      newErrors.StatusComment = 'A comment is required for this status change';
+    }
+
+    const recurrenceError = formData.Recurrence
+      ? getRecurrenceError(formData.Recurrence, formData.ScheduledStartDate || undefined)
+      : '';
+    if (recurrenceError) {
+      newErrors.Recurrence = recurrenceError;
+    }
+
+    const blockers = task ? getBlockersOfMove(tasksById, { ...task, BlockedBy: formData.BlockedBy }, formData.Status) : [];
+    if (blockers.length > 0) {
+      newErrors.Status = `This task cannot move to ${formData.Status} yet. ${describeBlockers(blockers)}`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // The BlockedBy lists the proposed links would give this task and every task it blocks or used to block
+  const getProposedBlockedBy = (taskId: string, blockedBy: string[], blocksIds: string[]): Record<string, string[]> => {
+    const proposed: Record<string, string[]> = { [taskId]: blockedBy };
+    for (const id of new Set([...currentBlocks, ...blocksIds])) {
+      const others = (tasksById[id]?.BlockedBy ?? []).filter((blockerId) => blockerId !== taskId);
+      proposed[id] = blocksIds.includes(id) ? [...others, taskId] : others;
+    }
+    return proposed;
+  };
+
+  // Add a dependency link, refusing it when it would close a cycle
+  const addLink = (field: 'BlockedBy' | 'Blocks', linkedId: string) => {
+    if (!task?.id) return;
+
+    const blockedBy = field === 'BlockedBy' ? [...formData.BlockedBy, linkedId] : formData.BlockedBy;
+    const blocksIds = field === 'Blocks' ? [...blocks, linkedId] : blocks;
+    const cycle = findDependencyCycle(tasksById, task.id, getProposedBlockedBy(task.id, blockedBy, blocksIds));
+    if (cycle) {
+      setErrors((prev) => ({
+        ...prev,
+        [field]: `This link would create a dependency cycle: ${describeDependencyCycle(tasksById, cycle)}`,
+      }));
+      return;
+    }
+
+    setFormData((prev) => ({ ...prev, BlockedBy: blockedBy, Blocks: field === 'Blocks' ? blocksIds : prev.Blocks }));
+    clearLinkErrors();
+  };
+
+  // Remove a dependency link
+  const removeLink = (field: 'BlockedBy' | 'Blocks', linkedId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      BlockedBy: field === 'BlockedBy' ? prev.BlockedBy.filter((id) => id !== linkedId) : prev.BlockedBy,
+      Blocks: field === 'Blocks' ? blocks.filter((id) => id !== linkedId) : prev.Blocks,
+    }));
+    clearLinkErrors();
+  };
+
+  const clearLinkErrors = () => {
+    if (errors.BlockedBy || errors.Blocks) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.BlockedBy;
+        delete newErrors.Blocks;
+        return newErrors;
+      });
+    }
+  };
+
   // Handle form submission
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     console.log('EditTaskModal: Form submitted', { taskId: task?.id, formData });
 
-    if (isSubmitting) {
+    if (isSubmitting || isUploading) {
       console.log('EditTaskModal: Already submitting, ignoring');
       return;
     }
@@ -116,6 +241,30 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
       return;
     }
 
+    // validateForm only knows the blockers in the store; the others are loaded here
+    if (task) {
+      try {
+        const blockers = await checkBlockersOfMove({ ...task, BlockedBy: formData.BlockedBy }, formData.Status);
+        if (blockers.length > 0) {
+          setErrors((prev) => ({ ...prev, Status: `This task cannot move to ${formData.Status} yet. ${describeBlockers(blockers)}` }));
+          return;
+        }
+      } catch (error) {
+        showError(error, 'Could not check whether the task is blocked. Please try again.');
+        return;
+      }
+    }
+
+    if (openSubtasks.length > 0) {
+      setIsConfirmingCompletion(true);
+      return;
+    }
+
+    await saveTask();
+  };
+
+  // Send the update
+  const saveTask = async () => {
     if (!task?.id) {
       console.error('EditTaskModal: No task ID');
       return;
@@ -134,6 +283,8 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
           AssignedTo: formData.AssignedTo,
           ScheduledStartDate: formData.ScheduledStartDate || null,
           ScheduledStartTime: formData.ScheduledStartTime || null,
+          BlockedBy: formData.BlockedBy,
+          Blocks: blocks,
         }
       });
       
@@ -149,24 +300,79 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
         scheduledTime = scheduledTime.substring(0, 5);
       }
       
-      await onUpdateTask(task.id, {
+      // Links are removed before the task is saved and added after it,
+      // so the server never sees a half-saved set of links that contains a cycle
+      const taskId = task.id;
+      const removedBlocks = currentBlocks.filter((id) => !blocks.includes(id));
+      const addedBlocks = blocks.filter((id) => !currentBlocks.includes(id));
+
+      await Promise.all(removedBlocks.map((id) =>
+        updateTask(id, { BlockedBy: (tasksById[id]?.BlockedBy ?? []).filter((blockerId) => blockerId !== taskId) })
+      ));
+
+      const seriesValues = {
         Title: formData.Title,
         Description: formData.Description,
-        Status: formData.Status,
         Priority: formData.Priority,
         EstimatedHours: estimatedHours,
         AssignedTo: formData.AssignedTo,
         ScheduledStartDate: formData.ScheduledStartDate || undefined,
         ScheduledStartTime: scheduledTime || undefined,
+        Labels: formData.Labels,
+      };
+      const changedSeriesFields = getChangedSeriesFields(task, seriesValues);
+
+      // "This occurrence" keeps the series values aside so the next occurrence is built from them;
+      // "future" makes this occurrence's values the series values
+      let seriesUpdate: Pick<UpdateTaskDTO, 'Recurrence' | 'SeriesDefaults'> = {};
+      if (task.Recurrence && scope === 'this') {
+        if (Object.keys(changedSeriesFields).length > 0) {
+          seriesUpdate = { SeriesDefaults: getSeriesDefaults(task, changedSeriesFields) };
+        }
+      } else if (recurrenceChanged || task.SeriesDefaults) {
+        seriesUpdate = { Recurrence: formData.Recurrence, SeriesDefaults: null };
+      }
+
+      await onUpdateTask(taskId, {
+        ...seriesValues,
+        Status: formData.Status,
+        StatusComment: needsStatusComment ? formData.StatusComment.trim() : undefined,
+        BlockedBy: formData.BlockedBy,
+        AttachmentIds: formData.Attachments.map((attachment) => attachment.id),
+        ...seriesUpdate,
       });
+
+      // Later occurrences that are already open follow "future" edits (each keeps its own date)
+      if (task.Recurrence && scope === 'future') {
+        const futureChanges = { ...changedSeriesFields };
+        delete futureChanges.ScheduledStartDate;
+        const seriesId = task.SeriesId ?? taskId;
+        const laterOccurrences = Object.values(tasksById).filter((other) =>
+          other.id !== taskId
+          && (other.SeriesId ?? other.id) === seriesId
+          && (other.OccurrenceIndex ?? 1) > (task.OccurrenceIndex ?? 1)
+          && other.Status !== TaskStatus.Completed
+        );
+        if (Object.keys(futureChanges).length > 0 || recurrenceChanged) {
+          await Promise.all(laterOccurrences.map((other) =>
+            updateTask(other.id!, { ...futureChanges, Recurrence: formData.Recurrence })
+          ));
+        }
+      }
+
+      await Promise.all(addedBlocks.map((id) =>
+        updateTask(id, { BlockedBy: [...(tasksById[id]?.BlockedBy ?? []), taskId] })
+      ));
       
       console.log('EditTaskModal: Update completed successfully');
       // Modal will be closed by handleUpdateTask on success
-    } catch (error: any) {
-      // Error is logged in handleUpdateTask, modal stays open
+    } catch (error) {
+      // Modal stays open; server field messages are shown next to the inputs
       console.error('EditTaskModal: Update failed', error);
-      console.error('EditTaskModal: Error details', error.response?.data || error.message);
-      alert(`Failed to update task: ${error.response?.data?.message || error.message || 'Unknown error'}`);
+      if (error instanceof ValidationError && error.hasFieldErrors) {
+        setErrors(error.fieldErrors);
+      }
+      showError(error, 'Failed to update task. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -192,14 +398,57 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
     }
   };
 
+  // Files uploaded in this edit that are not saved with the task yet
+  const isNewAttachment = (attachment: TaskAttachment) =>
+    !(task?.Attachments ?? []).some((saved) => saved.id === attachment.id);
+
+  const discardAttachment = (attachment: TaskAttachment) => {
+    taskApi.deleteAttachment(attachment.id).catch((error) => {
+      console.error('Failed to delete uploaded file:', error);
+    });
+  };
+
+  const handleAttachmentUpload = (attachment: TaskAttachment) => {
+    setFormData((prev) => ({ ...prev, Attachments: [...prev.Attachments, attachment] }));
+  };
+
+  // Saved files are only unlinked here; the server deletes them when the task is saved
+  const handleAttachmentRemove = (attachment: TaskAttachment) => {
+    setFormData((prev) => ({
+      ...prev,
+      Attachments: prev.Attachments.filter((a) => a.id !== attachment.id),
+    }));
+    if (isNewAttachment(attachment)) {
+      discardAttachment(attachment);
+    }
+  };
+
   // Handle modal close
   const handleClose = () => {
+    formData.Attachments.filter(isNewAttachment).forEach(discardAttachment);
     setErrors({});
+    setIsConfirmingCompletion(false);
     onClose();
   };
 
   if (!isOpen || !task) return null;
 
+  // Form state is kept while confirming, so cancelling returns to the form unchanged
+  if (isConfirmingCompletion) {
+    return (
+      <CompleteParentConfirmationModal
+        isOpen
+        taskTitle={task.Title}
+        openSubtasks={openSubtasks}
+        onClose={() => setIsConfirmingCompletion(false)}
+        onConfirm={() => {
+          setIsConfirmingCompletion(false);
+          saveTask();
+        }}
+      />
+    );
+  }
+
   return (
     <div 
       className="fixed inset-0 z-50 flex items-center justify-center p-4 backdrop-blur-sm bg-black/20 dark:bg-black/30 transition-opacity duration-300"
@@ -294,12 +543,19 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
                   name="Status"
                   value={formData.Status}
                   onChange={handleChange}
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors ${
+                    errors.Status
+                      ? 'border-red-500 dark:border-red-400'
+                      : 'border-gray-300 dark:border-slate-600'
+                  }`}
                 >
-                  <option value={TaskStatus.Pending}>{TaskStatus.Pending}</option>
-                  <option value={TaskStatus.InProgress}>{TaskStatus.InProgress}</option>
-                  <option value={TaskStatus.Completed}>{TaskStatus.Completed}</option>
+                  {statusOptions.map((status) => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
                 </select>
+                {errors.Status && (
+                  <p className="mt-1 text-sm text-red-500 dark:text-red-400">{errors.Status}</p>
+                )}
               </div>
 
               {/* Priority Field */}
@@ -325,6 +581,34 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
               </div>
             </div>
 
+            {/* Status Comment Field (only when the transition requires one) */}
+            {needsStatusComment && (
+              <div>
+                <label
+                  htmlFor="editStatusComment"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                >
+                  Status Comment <span className="text-red-500 dark:text-red-400">*</span>
+                </label>
+                <textarea
+                  id="editStatusComment"
+                  name="StatusComment"
+                  value={formData.StatusComment}
+                  onChange={handleChange}
+                  rows={2}
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
+                    errors.StatusComment
+                      ? 'border-red-500 dark:border-red-400'
+                      : 'border-gray-300 dark:border-slate-600'
+                  }`}
+                  placeholder={`Why is this task moving to ${formData.Status}?`}
+                />
+                {errors.StatusComment && (
+                  <p className="mt-1 text-sm text-red-500 dark:text-red-400">{errors.StatusComment}</p>
+                )}
+              </div>
+            )}
+
             {/* Estimated Hours and Assigned To Row */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Estimated Hours Field */}
@@ -383,6 +667,39 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
               </div>
             </div>
 
+            {/* Dependencies Row */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Blocked By Field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                  Blocked By
+                </label>
+                <TaskDependencySearch
+                  taskId={task.id!}
+                  selectedTaskIds={formData.BlockedBy}
+                  onAdd={(id) => addLink('BlockedBy', id)}
+                  onRemove={(id) => removeLink('BlockedBy', id)}
+                  error={errors.BlockedBy}
+                  placeholder="Tasks that must finish first..."
+                />
+              </div>
+
+              {/* Blocks Field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                  Blocks
+                </label>
+                <TaskDependencySearch
+                  taskId={task.id!}
+                  selectedTaskIds={blocks}
+                  onAdd={(id) => addLink('Blocks', id)}
+                  onRemove={(id) => removeLink('Blocks', id)}
+                  error={errors.Blocks}
+                  placeholder="Tasks waiting on this one..."
+                />
+              </div>
+            </div>
+
             {/* Scheduled Date and Time Row */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Scheduled Start Date */}
@@ -428,8 +745,90 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
                 </p>
               </div>
             </div>
+
+            {/* Recurrence Field */}
+            <div>
+              <label
+                htmlFor="Recurrence"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+              >
+                Repeat
+              </label>
+              <RecurrenceEditor
+                value={formData.Recurrence}
+                onChange={(recurrence) => {
+                  setFormData((prev) => ({ ...prev, Recurrence: recurrence }));
+                  setErrors((prev) => {
+                    const newErrors = { ...prev };
+                    delete newErrors.Recurrence;
+                    return newErrors;
+                  });
+                }}
+                startDate={formData.ScheduledStartDate || undefined}
+                error={errors.Recurrence}
+              />
+            </div>
+
+            {/* Labels Field */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                Labels
+              </label>
+              <LabelPicker
+                selectedLabelIds={formData.Labels}
+                onChange={(labelIds) => setFormData((prev) => ({ ...prev, Labels: labelIds }))}
+              />
+            </div>
+
+            {/* Attachments Field */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">
+                Attachments
+              </label>
+              <AttachmentDropzone
+                attachments={formData.Attachments}
+                onUpload={handleAttachmentUpload}
+                onRemove={handleAttachmentRemove}
+                onUploadingChange={setIsUploading}
+                disabled={isSubmitting}
+              />
+            </div>
           </div>
 
+          {/* Series Scope (recurring tasks only) */}
+          {task.Recurrence && (
+            <fieldset className="mt-6 p-3 rounded-md bg-gray-50 dark:bg-slate-700/50">
+              <legend className="sr-only">Apply changes to</legend>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Apply changes to</p>
+              <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+                <label className={`flex items-center gap-2 ${recurrenceChanged ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                  <input
+                    type="radio"
+                    name="seriesScope"
+                    checked={scope === 'this'}
+                    onChange={() => setSeriesScope('this')}
+                    disabled={recurrenceChanged}
+                  />
+                  This occurrence
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="seriesScope"
+                    checked={scope === 'future'}
+                    onChange={() => setSeriesScope('future')}
+                  />
+                  This and future occurrences
+                </label>
+              </div>
+              {recurrenceChanged && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  A changed repeat rule applies to this and future occurrences
+                </p>
+              )}
+            </fieldset>
+          )}
+
           {/* Modal Footer */}
           <div className="flex justify-end gap-3 mt-6 pt-6 border-t border-gray-200 dark:border-slate-700">
             <button
@@ -441,10 +840,10 @@ export const EditTaskModal = ({ isOpen, task, onClose, onUpdateTask }: EditTaskM
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isUploading}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSubmitting ? 'Saving...' : 'Save Changes'}
+              {isSubmitting ? 'Saving...' : isUploading ? 'Uploading...' : 'Save Changes'}
             </button>
           </div>
         </form>
@@ -1,6 +1,7 @@
 import { useState, FormEvent, useEffect } from 'react';
 import type { User } from '../types/auth';
 import { roleService } from '../services/role';
+import { getErrorMessage } from '../services/errors';
 import type { Role } from '../types/role';
 import { X, Loader2, AlertCircle } from 'lucide-react';
 
@@ -99,8 +100,8 @@ export const EditUserModal = ({ isOpen, user, onClose, onUpdate }: EditUserModal
     try {
       await onUpdate(user.id, formData);
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to update user');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update user'));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,374 @@
+import { useState, useMemo, useRef } from 'react';
+import type { DragEvent } from 'react';
+import type { Task } from '../types';
+import { TaskPriority, TaskStatus } from '../types';
+import { useUsers } from '../contexts/UsersContext';
+import { addDays, getActualSpan, getTaskSchedule, isSameDay } from '../utils/calendar';
+import type { TaskSchedule } from '../utils/calendar';
+
+/**
+ * Changes from dropping a bar: a new planned start and/or new assignees
+ */
+export interface TimelineMove {
+  start?: Date;
+  assignees?: string[];
+}
+
+interface GanttTimelineProps {
+  tasks: Task[];
+  /** First day shown (local midnight) */
+  rangeStart: Date;
+  rangeDays: number;
+  canMove: (task: Task) => boolean;
+  onMove: (task: Task, move: TimelineMove) => void;
+  onSelectTask: (task: Task) => void;
+}
+
+/**
+ * One swimlane; userId is null for the Unassigned lane
+ */
+interface Lane {
+  userId: string | null;
+  label: string;
+}
+
+/**
+ * One task row in a lane
+ */
+interface TimelineRow {
+  task: Task;
+  planned: TaskSchedule | null;
+  actual: TaskSchedule | null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Row and column sizes
+const ROW_HEIGHT = 40;
+const MIN_DAY_WIDTH = 96;
+
+// Planned starts are snapped to whole hours when dropped
+const SNAP_MS = 60 * MS_PER_MINUTE;
+
+// Get planned bar colors by priority (same palette as the calendar blocks)
+const getPriorityBarClass = (priority: TaskPriority): string => {
+  switch (priority) {
+    case TaskPriority.Critical:
+      return 'bg-red-500 dark:bg-red-600 border-red-600 dark:border-red-700 text-white';
+    case TaskPriority.High:
+      return 'bg-orange-500 dark:bg-orange-600 border-orange-600 dark:border-orange-700 text-white';
+    case TaskPriority.Medium:
+      return 'bg-yellow-500 dark:bg-yellow-600 border-yellow-600 dark:border-yellow-700 text-white';
+    case TaskPriority.Low:
+      return 'bg-blue-500 dark:bg-blue-600 border-blue-600 dark:border-blue-700 text-white';
+    default:
+      return 'bg-gray-500 dark:bg-gray-600 border-gray-600 dark:border-gray-700 text-white';
+  }
+};
+
+// Get actual bar colors by status
+const getActualBarClass = (status: string): string => {
+  switch (status) {
+    case TaskStatus.Completed:
+      return 'bg-green-500 dark:bg-green-600';
+    case TaskStatus.Hold:
+      return 'bg-orange-300 dark:bg-orange-800';
+    default:
+      return 'bg-slate-500 dark:bg-slate-400';
+  }
+};
+
+const formatDateTime = (date: Date): string => {
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true });
+};
+
+/**
+ * Get the user IDs assigned to a task
+ */
+const getAssignees = (task: Task): string[] => {
+  if (Array.isArray(task.AssignedTo)) return task.AssignedTo;
+  return task.AssignedTo ? [task.AssignedTo] : [];
+};
+
+/**
+ * Gantt Timeline Component
+ * One swimlane per user with planned bars (scheduled start for EstimatedHours) and
+ * actual bars (StartedAt to CompletedAt) under them, plus a today marker
+ * Dragging a planned bar reschedules the task; dropping any bar on another lane reassigns it
+ * Supports both light and dark modes
+ */
+export const GanttTimeline = ({ tasks, rangeStart, rangeDays, canMove, onMove, onSelectTask }: GanttTimelineProps) => {
+  const { users, getUserName } = useUsers();
+  // Time between the task's planned start and the point where the bar was grabbed
+  const grabOffsetRef = useRef(0);
+  const [dragged, setDragged] = useState<{ row: TimelineRow; fromLane: string | null } | null>(null);
+  const [preview, setPreview] = useState<{ lane: string | null; start: Date | null } | null>(null);
+
+  const now = new Date();
+  const rangeEnd = addDays(rangeStart, rangeDays);
+  const rangeMs = rangeEnd.getTime() - rangeStart.getTime();
+  const days = Array.from({ length: rangeDays }, (_, i) => addDays(rangeStart, i));
+
+  // Rows of the tasks that have a bar in the visible range
+  const rows = useMemo(() => {
+    const current = new Date();
+    const end = addDays(rangeStart, rangeDays);
+    return tasks
+      .map((task) => ({ task, planned: getTaskSchedule(task), actual: getActualSpan(task, current) }))
+      .filter(({ planned, actual }) =>
+        [planned, actual].some((span) => span && span.end > rangeStart && span.start < end)
+      )
+      .sort((a, b) => {
+        const startA = (a.planned ?? a.actual)!.start.getTime();
+        const startB = (b.planned ?? b.actual)!.start.getTime();
+        return startA - startB;
+      });
+  }, [tasks, rangeStart, rangeDays]);
+
+  // Every user gets a lane; assignees missing from the users list (no users:read) are added from the tasks
+  const laneUserIds = users.map((user) => user.id);
+  rows.forEach(({ task }) => {
+    getAssignees(task).forEach((userId) => {
+      if (!laneUserIds.includes(userId)) laneUserIds.push(userId);
+    });
+  });
+  const lanes: Lane[] = laneUserIds.map((userId) => ({ userId, label: getUserName(userId) }));
+  if (rows.some(({ task }) => getAssignees(task).length === 0)) {
+    lanes.push({ userId: null, label: 'Unassigned' });
+  }
+
+  const getLaneRows = (lane: Lane): TimelineRow[] => {
+    return rows.filter(({ task }) => {
+      const assignees = getAssignees(task);
+      return lane.userId === null ? assignees.length === 0 : assignees.includes(lane.userId);
+    });
+  };
+
+  // Position within the range as a percentage, clamped to the visible range
+  const toPercent = (date: Date): number => {
+    const percent = ((date.getTime() - rangeStart.getTime()) / rangeMs) * 100;
+    return Math.min(Math.max(percent, 0), 100);
+  };
+
+  const getBarStyle = (span: TaskSchedule) => {
+    const left = toPercent(span.start);
+    return { left: `${left}%`, width: `max(${toPercent(span.end) - left}%, 4px)` };
+  };
+
+  /**
+   * A drop is allowed on the lane it came from (reschedule) or on a user not already assigned (reassign)
+   */
+  const canDropOnLane = (lane: Lane): boolean => {
+    if (!dragged) return false;
+    if (lane.userId === dragged.fromLane) return dragged.row.planned !== null;
+    return lane.userId !== null && !getAssignees(dragged.row.task).includes(lane.userId);
+  };
+
+  /**
+   * Planned start for the pointer position over a lane, or null if the dragged task is not scheduled
+   */
+  const getDropStart = (e: DragEvent<HTMLDivElement>): Date | null => {
+    if (!dragged?.row.planned) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointerMs = ((e.clientX - rect.left) / rect.width) * rangeMs;
+    const snapped = Math.round((pointerMs - grabOffsetRef.current) / SNAP_MS) * SNAP_MS;
+    return new Date(rangeStart.getTime() + snapped);
+  };
+
+  const resetDrag = () => {
+    setDragged(null);
+    setPreview(null);
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, row: TimelineRow, fromLane: string | null) => {
+    const track = e.currentTarget.offsetParent as HTMLElement | null;
+    if (row.planned && track) {
+      const barRect = e.currentTarget.getBoundingClientRect();
+      const trackWidth = track.getBoundingClientRect().width;
+      // Bars starting before the range are clipped at its left edge
+      const clippedMs = Math.max(rangeStart.getTime() - row.planned.start.getTime(), 0);
+      grabOffsetRef.current = clippedMs + ((e.clientX - barRect.left) / trackWidth) * rangeMs;
+    }
+    e.dataTransfer.setData('text/plain', row.task.id!);
+    e.dataTransfer.effectAllowed = 'move';
+    setDragged({ row, fromLane });
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, lane: Lane) => {
+    if (!dragged) return;
+    // Not calling preventDefault rejects the drop (and shows the no-drop cursor)
+    if (!canDropOnLane(lane)) {
+      e.dataTransfer.dropEffect = 'none';
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const start = getDropStart(e);
+    if (!preview || preview.lane !== lane.userId || preview.start?.getTime() !== start?.getTime()) {
+      setPreview({ lane: lane.userId, start });
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, lane: Lane) => {
+    e.preventDefault();
+    const current = dragged;
+    const start = getDropStart(e);
+    resetDrag();
+    if (!current || !canDropOnLane(lane)) return;
+
+    const move: TimelineMove = {};
+    if (start && current.row.planned && start.getTime() !== current.row.planned.start.getTime()) {
+      move.start = start;
+    }
+    if (lane.userId !== current.fromLane && lane.userId) {
+      // Swap the lane's user in for the one it was dragged from
+      const assignees = getAssignees(current.row.task).filter((userId) => userId !== current.fromLane);
+      move.assignees = [...assignees, lane.userId];
+    }
+    if (move.start || move.assignees) {
+      onMove(current.row.task, move);
+    }
+  };
+
+  const nowPercent = now >= rangeStart && now < rangeEnd ? toPercent(now) : null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-x-auto">
+      <div style={{ minWidth: `calc(12rem + ${rangeDays * MIN_DAY_WIDTH}px)` }}>
+        {/* Day Header */}
+        <div className="flex bg-gray-50 dark:bg-slate-700 border-b border-gray-200 dark:border-slate-600">
+          <div className="w-48 flex-shrink-0 px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+            Assignee
+          </div>
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={`flex-1 px-2 py-2 text-center text-xs font-medium uppercase tracking-wider border-l border-gray-200 dark:border-slate-600 ${
+                isSameDay(day, now) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-500 dark:text-gray-300'
+              }`}
+            >
+              {WEEKDAYS[day.getDay()]} {day.getDate()}
+            </div>
+          ))}
+        </div>
+
+        {/* Swimlanes */}
+        {lanes.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+            No scheduled or started tasks in this period
+          </p>
+        ) : (
+          lanes.map((lane) => {
+            const laneRows = getLaneRows(lane);
+            const laneKey = lane.userId ?? 'unassigned';
+            const isOver = !!dragged && preview?.lane === lane.userId;
+
+            return (
+              <div key={laneKey} className="flex border-b border-gray-100 dark:border-slate-700 last:border-b-0">
+                {/* Lane Label */}
+                <div className="w-48 flex-shrink-0 px-4 py-3 border-r border-gray-100 dark:border-slate-700">
+                  <p className={`text-sm font-medium truncate ${lane.userId ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400 italic'}`}>
+                    {lane.label}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {laneRows.length} {laneRows.length === 1 ? 'task' : 'tasks'}
+                  </p>
+                </div>
+
+                {/* Lane Track */}
+                <div
+                  onDragOver={(e) => handleDragOver(e, lane)}
+                  onDrop={(e) => handleDrop(e, lane)}
+                  className={`flex-1 relative transition-colors ${isOver ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}
+                  style={{ height: Math.max(laneRows.length, 1) * ROW_HEIGHT + 8 }}
+                  aria-label={`${lane.label} lane`}
+                >
+                  {/* Day Lines */}
+                  {days.map((day, i) => (
+                    <div
+                      key={day.toISOString()}
+                      className={`absolute inset-y-0 border-l border-gray-100 dark:border-slate-700 ${
+                        day.getDay() === 0 || day.getDay() === 6 ? 'bg-gray-50/60 dark:bg-slate-900/20' : ''
+                      }`}
+                      style={{ left: `${(i / rangeDays) * 100}%`, width: `${100 / rangeDays}%` }}
+                    />
+                  ))}
+
+                  {/* Drop Preview */}
+                  {isOver && preview?.start && dragged?.row.planned && (
+                    <div
+                      className="absolute inset-y-1 rounded-md border-2 border-dashed border-indigo-500 dark:border-indigo-400 bg-indigo-100/60 dark:bg-indigo-900/40 pointer-events-none px-1.5 text-xs font-medium text-indigo-700 dark:text-indigo-300 whitespace-nowrap"
+                      style={getBarStyle({
+                        start: preview.start,
+                        end: new Date(preview.start.getTime() + dragged.row.planned.end.getTime() - dragged.row.planned.start.getTime()),
+                      })}
+                    >
+                      {formatDateTime(preview.start)}
+                    </div>
+                  )}
+
+                  {/* Task Rows */}
+                  {laneRows.map((row, index) => {
+                    const draggable = canMove(row.task);
+                    const isDragged = dragged?.row.task.id === row.task.id && dragged?.fromLane === lane.userId;
+                    const top = 4 + index * ROW_HEIGHT;
+                    const dragProps = {
+                      draggable,
+                      onDragStart: (e: DragEvent<HTMLDivElement>) => handleDragStart(e, row, lane.userId),
+                      onDragEnd: resetDrag,
+                      onClick: () => onSelectTask(row.task),
+                    };
+
+                    return (
+                      <div key={row.task.id} className={isDragged ? 'opacity-40' : ''}>
+                        {/* Planned Bar */}
+                        {row.planned && (
+                          <div
+                            {...dragProps}
+                            className={`absolute h-5 rounded border px-1.5 text-xs leading-[18px] font-medium truncate shadow-sm ${getPriorityBarClass(row.task.Priority)} ${
+                              draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                            }`}
+                            style={{ top, ...getBarStyle(row.planned) }}
+                            title={`${row.task.Title} - planned ${formatDateTime(row.planned.start)} – ${formatDateTime(row.planned.end)}`}
+                          >
+                            {row.task.Title}
+                          </div>
+                        )}
+
+                        {/* Actual Bar */}
+                        {row.actual && (
+                          <div
+                            {...(row.planned ? { onClick: dragProps.onClick } : dragProps)}
+                            className={`absolute rounded-sm ${getActualBarClass(row.task.Status)} ${
+                              row.planned ? 'h-2' : 'h-5 px-1.5 text-xs leading-5 font-medium text-white truncate'
+                            } ${!row.planned && draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}`}
+                            style={{ top: row.planned ? top + 23 : top, ...getBarStyle(row.actual) }}
+                            title={`${row.task.Title} - actual ${formatDateTime(row.actual.start)} – ${
+                              row.task.CompletedAt ? formatDateTime(row.actual.end) : 'now'
+                            }`}
+                          >
+                            {!row.planned && row.task.Title}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {/* Today Marker */}
+                  {nowPercent !== null && (
+                    <div
+                      className="absolute inset-y-0 w-0.5 bg-red-500 dark:bg-red-400 pointer-events-none z-10"
+                      style={{ left: `${nowPercent}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
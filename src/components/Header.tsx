@@ -1,8 +1,32 @@
 import React from 'react';
-import { Plus, Moon, Sun, LogOut, User, UserPlus, Menu } from 'lucide-react';
+import { Plus, Moon, Sun, LogOut, User, UserPlus, Menu, Wifi, WifiOff, Loader2 } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useSideMenu } from '../contexts/SideMenuContext';
+import { useConnectionState } from '../hooks/useConnectionState';
+import { ProjectSwitcher } from './ProjectSwitcher';
+import type { ConnectionState } from '../services/socket';
+
+/**
+ * Label, icon and colors for each real-time connection state
+ */
+const CONNECTION_STATUS: Record<ConnectionState, { label: string; icon: typeof Wifi; className: string }> = {
+  connected: {
+    label: 'Live',
+    icon: Wifi,
+    className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  },
+  reconnecting: {
+    label: 'Reconnecting…',
+    icon: Loader2,
+    className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+  },
+  offline: {
+    label: 'Offline',
+    icon: WifiOff,
+    className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+  },
+};
 
 interface HeaderProps {
   onAddTaskClick: () => void;
@@ -17,6 +41,9 @@ interface HeaderProps {
 export const Header = ({ onAddTaskClick, onCreateUserClick }: HeaderProps) => {
   const { theme, toggleTheme } = useTheme();
   const { user, logout, hasPermission } = useAuth();
+  const connectionState = useConnectionState();
+  const connectionStatus = CONNECTION_STATUS[connectionState];
+  const ConnectionIcon = connectionStatus.icon;
   
   // Get side menu context - safely handle if not available
   const sideMenuContext = useSideMenu();
@@ -84,6 +111,20 @@ export const Header = ({ onAddTaskClick, onCreateUserClick }: HeaderProps) => {
               <Menu className="w-5 h-5" />
             </button>
 
+            {/* Project Switcher */}
+            <ProjectSwitcher />
+
+            {/* Real-time Connection Indicator */}
+            <div
+              className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-semibold transition-colors ${connectionStatus.className}`}
+              role="status"
+              aria-live="polite"
+              title={`Real-time updates: ${connectionStatus.label}`}
+            >
+              <ConnectionIcon className={`w-4 h-4 ${connectionState === 'reconnecting' ? 'animate-spin' : ''}`} />
+              <span className="hidden md:inline">{connectionStatus.label}</span>
+            </div>
+
             {/* User Info (Desktop) */}
             {user && (
               <div className="hidden sm:flex items-center gap-2 px-3 py-2 bg-gray-100 dark:bg-slate-700 rounded-lg">
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import type { Task } from '../types';
+import { X, PauseCircle } from 'lucide-react';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import type { HoldDetails } from '../utils/holds';
+import { toDateInputValue } from '../utils/calendar';
+
+interface HoldReasonModalProps {
+  isOpen: boolean;
+  task: Task | null;
+  /** The transition to Hold requires a comment, so the details are required too */
+  requiresComment?: boolean;
+  onClose: () => void;
+  onConfirm: (hold: HoldDetails) => void;
+}
+
+/**
+ * HoldReasonModal Component
+ * Asks why a task is put on hold and when it is expected to be resumed
+ * Supports both light and dark modes
+ */
+export const HoldReasonModal = ({ isOpen, task, requiresComment = false, onClose, onConfirm }: HoldReasonModalProps) => {
+  const { workflow } = useWorkflow();
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [expectedResumeDate, setExpectedResumeDate] = useState('');
+  const [errors, setErrors] = useState<{ reason?: string; note?: string; expectedResumeDate?: string }>({});
+
+  if (!isOpen || !task) {
+    return null;
+  }
+
+  // Clear the form so the next task starts empty
+  const resetForm = () => {
+    setReason('');
+    setNote('');
+    setExpectedResumeDate('');
+    setErrors({});
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const today = toDateInputValue(new Date());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const newErrors: typeof errors = {};
+    if (!reason) {
+      newErrors.reason = 'Choose why the task is put on hold';
+    }
+    if (requiresComment && !note.trim()) {
+      newErrors.note = 'Details are required for this status change';
+    }
+    if (expectedResumeDate && expectedResumeDate < today) {
+      newErrors.expectedResumeDate = 'The expected resume date cannot be in the past';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onConfirm({
+      Reason: reason,
+      Note: note.trim() || null,
+      ExpectedResumeDate: expectedResumeDate || null,
+    });
+    resetForm();
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 dark:bg-slate-700 dark:text-white transition-colors ${
+      hasError ? 'border-red-500' : 'border-gray-300 dark:border-slate-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-lg">
+              <PauseCircle className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Put on Hold</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">{task.Title}</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            type="button"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Reason */}
+          <div>
+            <label htmlFor="holdReason" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Reason <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="holdReason"
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value);
+                setErrors((prev) => ({ ...prev, reason: undefined }));
+              }}
+              autoFocus
+              className={inputClass(!!errors.reason)}
+            >
+              <option value="">Select a reason...</option>
+              {workflow.holdReasons.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            {errors.reason && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.reason}</p>}
+          </div>
+
+          {/* Details */}
+          <div>
+            <label htmlFor="holdNote" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Details {requiresComment && <span className="text-red-500">*</span>}
+            </label>
+            <textarea
+              id="holdNote"
+              value={note}
+              onChange={(e) => {
+                setNote(e.target.value);
+                setErrors((prev) => ({ ...prev, note: undefined }));
+              }}
+              rows={3}
+              maxLength={1000}
+              className={`${inputClass(!!errors.note)} resize-none`}
+              placeholder="What is the task waiting for?"
+            />
+            {errors.note && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.note}</p>}
+          </div>
+
+          {/* Expected Resume Date */}
+          <div>
+            <label htmlFor="holdExpectedResumeDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Expected resume date
+            </label>
+            <input
+              id="holdExpectedResumeDate"
+              type="date"
+              value={expectedResumeDate}
+              min={today}
+              onChange={(e) => {
+                setExpectedResumeDate(e.target.value);
+                setErrors((prev) => ({ ...prev, expectedResumeDate: undefined }));
+              }}
+              className={inputClass(!!errors.expectedResumeDate)}
+            />
+            {errors.expectedResumeDate && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.expectedResumeDate}</p>
+            )}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 dark:bg-orange-500 dark:hover:bg-orange-600 rounded-lg transition-colors"
+            >
+              Put on Hold
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import { useState, useMemo } from 'react';
+import type { DragEvent } from 'react';
+import type { Task } from '../types';
+import { TaskPriority } from '../types';
+import { Clock, User as UserIcon, Ban } from 'lucide-react';
+import { useUsers } from '../contexts/UsersContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { LabelChips } from './LabelChips';
+
+interface KanbanBoardProps {
+  tasks: Task[];
+  onStatusChange: (taskId: string, newStatus: string) => void;
+  /** A task dropped onto the Hold column */
+  onHold: (task: Task) => void;
+  /** A task dragged out of the Hold column (opens ResumeTaskModal) */
+  onResume: (task: Task, status: string) => void;
+  onView: (task: Task) => void;
+}
+
+// Get priority badge styling with dark mode support
+const getPriorityBadgeClass = (priority: TaskPriority): string => {
+  switch (priority) {
+    case TaskPriority.Critical:
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 border-red-200 dark:border-red-800';
+    case TaskPriority.High:
+      return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300 border-orange-200 dark:border-orange-800';
+    case TaskPriority.Medium:
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 border-blue-200 dark:border-blue-800';
+    case TaskPriority.Low:
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 border-green-200 dark:border-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600';
+  }
+};
+
+/**
+ * KanbanBoard Component
+ * Tasks in one column per workflow status; dragging a card to another column changes its status
+ * Only the transitions allowed by the workflow and the user's permissions can be dropped
+ * Supports both light and dark modes
+ */
+export const KanbanBoard = ({ tasks, onStatusChange, onHold, onResume, onView }: KanbanBoardProps) => {
+  const { getUserName } = useUsers();
+  const { statuses, getStatusMove: getMove, getStatusBorderClass } = useWorkflow();
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [overStatus, setOverStatus] = useState<string | null>(null);
+
+  // Group tasks by column, keeping the order they were passed in
+  const tasksByStatus = useMemo(() => {
+    const grouped = new Map<string, Task[]>(statuses.map((status) => [status, []]));
+    tasks.forEach((task) => grouped.get(task.Status)?.push(task));
+    return grouped;
+  }, [tasks, statuses]);
+
+  // A card can be picked up if it can go anywhere from its column
+  const canDrag = (task: Task): boolean => {
+    return !!task.id && statuses.some((status) => getMove(task, status) !== null);
+  };
+
+  const resetDrag = () => {
+    setDraggedTask(null);
+    setOverStatus(null);
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, task: Task) => {
+    e.dataTransfer.setData('text/plain', task.id!);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedTask(task);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, status: string) => {
+    if (!draggedTask) return;
+    // Not calling preventDefault rejects the drop (and shows the no-drop cursor)
+    if (getMove(draggedTask, status)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    } else {
+      e.dataTransfer.dropEffect = 'none';
+    }
+    if (overStatus !== status) {
+      setOverStatus(status);
+    }
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>, status: string) => {
+    // Ignore moves between elements inside the column
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setOverStatus((current) => (current === status ? null : current));
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, status: string) => {
+    e.preventDefault();
+    const task = draggedTask;
+    resetDrag();
+    if (!task?.id) return;
+
+    switch (getMove(task, status)) {
+      case 'update':
+        onStatusChange(task.id, status);
+        break;
+      case 'hold':
+        onHold(task);
+        break;
+      case 'resume':
+        onResume(task, status);
+        break;
+    }
+  };
+
+  // Highlight legal drop targets while a card is dragged; mark the hovered illegal one
+  const getColumnClass = (status: string): string => {
+    if (!draggedTask || draggedTask.Status === status) {
+      return 'border-gray-200 dark:border-slate-700';
+    }
+    const isOver = overStatus === status;
+    if (getMove(draggedTask, status)) {
+      return isOver
+        ? 'border-indigo-500 dark:border-indigo-400 bg-indigo-50 dark:bg-indigo-900/20'
+        : 'border-dashed border-indigo-300 dark:border-indigo-700';
+    }
+    return isOver
+      ? 'border-red-400 dark:border-red-600 bg-red-50 dark:bg-red-900/20 opacity-75'
+      : 'border-gray-200 dark:border-slate-700 opacity-50';
+  };
+
+  return (
+    <div className="flex gap-4 items-start overflow-x-auto pb-2">
+      {statuses.map((status) => {
+        const columnTasks = tasksByStatus.get(status) ?? [];
+        const isRejected = !!draggedTask && overStatus === status && draggedTask.Status !== status && !getMove(draggedTask, status);
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => handleDragOver(e, status)}
+            onDragLeave={(e) => handleDragLeave(e, status)}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`flex-1 min-w-[16rem] bg-gray-50 dark:bg-slate-800/60 rounded-lg border-2 transition-all duration-200 min-h-[12rem] ${getColumnClass(status)}`}
+            aria-label={`${status} column`}
+          >
+            {/* Column Header */}
+            <div className={`flex items-center justify-between px-4 py-3 border-b-2 ${getStatusBorderClass(status)}`}>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{status}</h3>
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 dark:bg-slate-700 text-gray-700 dark:text-gray-300">
+                {columnTasks.length}
+              </span>
+            </div>
+
+            {/* Rejected Move Notice */}
+            {isRejected && (
+              <div className="mx-3 mt-3 flex items-center gap-2 px-3 py-2 rounded-md text-xs font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30">
+                <Ban className="w-3.5 h-3.5 flex-shrink-0" />
+                Can't move from {draggedTask.Status} to {status}
+              </div>
+            )}
+
+            {/* Cards */}
+            <div className="p-3 space-y-3">
+              {columnTasks.length === 0 ? (
+                <p className="py-6 text-center text-xs text-gray-500 dark:text-gray-400">No tasks</p>
+              ) : (
+                columnTasks.map((task) => {
+                  const draggable = canDrag(task);
+                  const assignees = Array.isArray(task.AssignedTo)
+                    ? task.AssignedTo
+                    : task.AssignedTo
+                    ? [task.AssignedTo]
+                    : [];
+
+                  return (
+                    <div
+                      key={task.id}
+                      draggable={draggable}
+                      onDragStart={(e) => handleDragStart(e, task)}
+                      onDragEnd={resetDrag}
+                      onClick={() => onView(task)}
+                      className={`bg-white dark:bg-slate-800 rounded-md shadow-sm border border-gray-200 dark:border-slate-700 p-3 hover:shadow-md transition-all ${
+                        draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                      } ${draggedTask?.id === task.id ? 'opacity-40' : ''}`}
+                      title={draggable ? 'Drag to change status' : undefined}
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white leading-snug line-clamp-2">
+                          {task.Title}
+                        </p>
+                        <span
+                          className={`px-2 py-0.5 text-xs font-semibold rounded-full border whitespace-nowrap ${getPriorityBadgeClass(
+                            task.Priority
+                          )}`}
+                        >
+                          {task.Priority}
+                        </span>
+                      </div>
+                      <LabelChips labelIds={task.Labels} className="mb-2" />
+                      <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="flex items-center gap-1 min-w-0">
+                          <UserIcon className="w-3 h-3 flex-shrink-0" />
+                          <span className="truncate">
+                            {assignees.length > 0 ? assignees.map((userId) => getUserName(userId)).join(', ') : 'Unassigned'}
+                          </span>
+                        </span>
+                        <span className="flex items-center gap-1 whitespace-nowrap">
+                          <Clock className="w-3 h-3" />
+                          {task.EstimatedHours}h
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
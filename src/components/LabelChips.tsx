@@ -0,0 +1,44 @@
+import { Tag } from 'lucide-react';
+import type { Label } from '../types/label';
+import { useLabels } from '../contexts/LabelsContext';
+
+interface LabelChipsProps {
+  labelIds?: string[];
+  className?: string;
+}
+
+/**
+ * LabelChips Component
+ * Shows a task's labels as colored chips; labels that no longer exist are skipped
+ */
+export const LabelChips = ({ labelIds = [], className = '' }: LabelChipsProps) => {
+  const { getLabelById } = useLabels();
+
+  const labels = labelIds
+    .map((id) => getLabelById(id))
+    .filter((label): label is Label => label !== undefined);
+
+  if (labels.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {labels.map((label) => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * A single label chip
+ */
+export const LabelChip = ({ label }: { label: Label }) => {
+  const { getLabelBadgeClass } = useLabels();
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border max-w-full ${getLabelBadgeClass(label.id)}`}>
+      <Tag className="w-3 h-3 flex-shrink-0" />
+      <span className="truncate">{label.name}</span>
+    </span>
+  );
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, Tag, ChevronDown, Check } from 'lucide-react';
+import type { LabelMatch } from '../types/label';
+import { useLabels } from '../contexts/LabelsContext';
+
+interface LabelFilterDropdownProps {
+  selectedLabelIds: string[];
+  onLabelsChange: (labelIds: string[]) => void;
+  match: LabelMatch;
+  onMatchChange: (match: LabelMatch) => void;
+  placeholder?: string;
+}
+
+/**
+ * LabelFilterDropdown Component
+ * A dropdown for filtering tasks by one or more labels
+ * Tasks can be required to have any of the picked labels or all of them
+ */
+export const LabelFilterDropdown = ({
+  selectedLabelIds,
+  onLabelsChange,
+  match,
+  onMatchChange,
+  placeholder = 'Select labels...',
+}: LabelFilterDropdownProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { labels, getLabelById, getLabelBadgeClass } = useLabels();
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const toggleLabel = (id: string) => {
+    onLabelsChange(
+      selectedLabelIds.includes(id)
+        ? selectedLabelIds.filter((selectedId) => selectedId !== id)
+        : [...selectedLabelIds, id]
+    );
+  };
+
+  const handleClear = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onLabelsChange([]);
+  };
+
+  const selectedNames = selectedLabelIds
+    .map((id) => getLabelById(id)?.name)
+    .filter((name): name is string => name !== undefined);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full pl-3 pr-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-slate-700 text-gray-900 dark:text-white text-left flex items-center justify-between cursor-pointer hover:border-gray-400 dark:hover:border-gray-500"
+      >
+        <div className="flex items-center gap-2 min-w-0 flex-1">
+          <Tag className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className={`truncate ${selectedNames.length > 0 ? 'text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}>
+            {selectedNames.length > 0 ? selectedNames.join(match === 'all' ? ' + ' : ', ') : placeholder}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {selectedLabelIds.length > 0 && (
+            <span
+              role="button"
+              onClick={handleClear}
+              className="p-1 hover:bg-gray-100 dark:hover:bg-slate-600 rounded"
+            >
+              <X className="w-4 h-4 text-gray-400" />
+            </span>
+          )}
+          <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-1 bg-white dark:bg-slate-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg overflow-hidden">
+          {/* Any / All Toggle */}
+          <div className="p-2 border-b border-gray-200 dark:border-gray-700 flex items-center gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Match</span>
+            {(['any', 'all'] as LabelMatch[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onMatchChange(option)}
+                className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                  match === option
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-slate-700'
+                }`}
+              >
+                {option === 'any' ? 'Any label' : 'All labels'}
+              </button>
+            ))}
+          </div>
+
+          {/* Label list */}
+          <div className="max-h-48 overflow-y-auto">
+            {labels.length === 0 ? (
+              <div className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 text-center">
+                No labels have been created yet
+              </div>
+            ) : (
+              labels.map((label) => (
+                <button
+                  key={label.id}
+                  type="button"
+                  onClick={() => toggleLabel(label.id)}
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-slate-700 flex items-center justify-between gap-2"
+                >
+                  <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border truncate ${getLabelBadgeClass(label.id)}`}>
+                    {label.name}
+                  </span>
+                  {selectedLabelIds.includes(label.id) && (
+                    <Check className="w-4 h-4 text-indigo-600 dark:text-indigo-400 flex-shrink-0" />
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef } from 'react';
+import { Search, X, Tag } from 'lucide-react';
+import type { Label } from '../types/label';
+import { useLabels } from '../contexts/LabelsContext';
+
+interface LabelPickerProps {
+  selectedLabelIds: string[];
+  onChange: (labelIds: string[]) => void;
+  placeholder?: string;
+}
+
+/**
+ * LabelPicker Component
+ * Provides a searchable dropdown for tagging a task with labels
+ * Only admins create labels, so the list is limited to existing ones
+ */
+export const LabelPicker = ({
+  selectedLabelIds,
+  onChange,
+  placeholder = 'Search labels...',
+}: LabelPickerProps) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { labels, getLabelById, getLabelBadgeClass } = useLabels();
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const query = searchQuery.trim().toLowerCase();
+  const candidates = labels.filter((label) =>
+    !selectedLabelIds.includes(label.id) &&
+    (!query || label.name.toLowerCase().includes(query))
+  );
+
+  const selectedLabels = selectedLabelIds
+    .map((id) => getLabelById(id))
+    .filter((label): label is Label => label !== undefined);
+
+  const addLabel = (id: string) => {
+    onChange([...selectedLabelIds, id]);
+    setSearchQuery('');
+  };
+
+  const removeLabel = (id: string) => {
+    onChange(selectedLabelIds.filter((selectedId) => selectedId !== id));
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      {/* Selected Labels Display */}
+      {selectedLabels.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {selectedLabels.map((label) => (
+            <span
+              key={label.id}
+              className={`inline-flex items-center gap-1 px-3 py-1 rounded-full border text-sm max-w-full ${getLabelBadgeClass(label.id)}`}
+            >
+              <Tag className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{label.name}</span>
+              <button
+                type="button"
+                onClick={() => removeLabel(label.id)}
+                className="ml-1 opacity-70 hover:opacity-100 transition-opacity"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Search Input */}
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          placeholder={placeholder}
+          className="w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors"
+        />
+      </div>
+
+      {/* Dropdown Menu */}
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-1 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-md shadow-lg max-h-60 overflow-auto">
+          {candidates.length === 0 ? (
+            <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+              {query ? 'No labels found' : labels.length === 0 ? 'No labels have been created yet' : 'All labels are added'}
+            </div>
+          ) : (
+            <ul className="py-1">
+              {candidates.map((label) => (
+                <li key={label.id}>
+                  <button
+                    type="button"
+                    onClick={() => addLabel(label.id)}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border ${getLabelBadgeClass(label.id)}`}>
+                      <Tag className="w-3 h-3" />
+                      {label.name}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { useState, FormEvent } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../services/errors';
 import { LogIn, Loader2, AlertCircle } from 'lucide-react';
 
 /**
@@ -21,8 +22,8 @@ export const LoginPage = () => {
     try {
       await login({ username, password });
       // Navigation will be handled by App component when auth state changes
-    } catch (err: any) {
-      setError(err.message || 'Login failed. Please check your credentials.');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Login failed. Please check your credentials.'));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,219 @@
+import type { ReactNode } from 'react';
+
+interface MarkdownTextProps {
+  text: string;
+  /** Usernames to highlight as @mentions (other @words stay plain text) */
+  mentions?: string[];
+}
+
+/**
+ * A block of markdown: paragraphs, headings, quotes, lists and fenced code
+ */
+type Block =
+  | { type: 'paragraph' | 'heading' | 'quote'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string };
+
+const FENCE = /^\s*```/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const HEADING_LINE = /^\s*#{1,6}\s+(.*)$/;
+
+/**
+ * Inline markup: `code`, **bold**, *italic* / _italic_, [links](https://...) and @mentions
+ */
+const INLINE_PATTERN = /`([^`\n]+)`|\*\*([^*\n]+)\*\*|\*([^*\s][^*\n]*)\*|_([^_\s][^_\n]*)_|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|@([\w.-]+)/g;
+
+/**
+ * Split markdown into blocks, line by line
+ */
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++; // Skip the closing fence
+      continue;
+    }
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING_LINE.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', lines: [heading[1]] });
+      i++;
+      continue;
+    }
+
+    const listPattern = BULLET_ITEM.test(line) ? BULLET_ITEM : ORDERED_ITEM.test(line) ? ORDERED_ITEM : null;
+    if (listPattern) {
+      const items: string[] = [];
+      let item: RegExpExecArray | null;
+      while (i < lines.length && (item = listPattern.exec(lines[i]))) {
+        items.push(item[1]);
+        i++;
+      }
+      blocks.push({ type: 'list', ordered: listPattern === ORDERED_ITEM, items });
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      const quote: string[] = [];
+      let quoted: RegExpExecArray | null;
+      while (i < lines.length && (quoted = QUOTE_LINE.exec(lines[i]))) {
+        quote.push(quoted[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', lines: quote });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !FENCE.test(lines[i]) &&
+      !HEADING_LINE.test(lines[i]) &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !ORDERED_ITEM.test(lines[i]) &&
+      !QUOTE_LINE.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+};
+
+/**
+ * Render inline markup as React elements (text is never injected as HTML)
+ */
+const renderInline = (text: string, mentions: Set<string>): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index;
+    const [whole, code, bold, italic, underscored, linkText, linkUrl, username] = match;
+
+    // @mentions only count at a word start and for known users
+    if (username !== undefined && ((index > 0 && !/\s/.test(text[index - 1])) || !mentions.has(username.toLowerCase()))) {
+      continue;
+    }
+
+    if (index > lastIndex) {
+      nodes.push(text.slice(lastIndex, index));
+    }
+    const key = `${index}-${whole}`;
+
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="px-1 py-0.5 rounded bg-gray-100 dark:bg-slate-700 text-pink-700 dark:text-pink-300 text-xs font-mono">
+          {code}
+        </code>
+      );
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, mentions)}</strong>);
+    } else if (italic !== undefined || underscored !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic ?? underscored, mentions)}</em>);
+    } else if (linkText !== undefined) {
+      nodes.push(
+        <a
+          key={key}
+          href={linkUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 dark:text-blue-400 underline hover:text-blue-700 dark:hover:text-blue-300"
+        >
+          {linkText}
+        </a>
+      );
+    } else {
+      nodes.push(
+        <span key={key} className="px-1 rounded bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium">
+          @{username}
+        </span>
+      );
+    }
+    lastIndex = index + whole.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+};
+
+/**
+ * Render lines joined by line breaks
+ */
+const renderLines = (lines: string[], mentions: Set<string>): ReactNode[] => {
+  return lines.flatMap((line, index) => (index === 0 ? renderInline(line, mentions) : [<br key={`br-${index}`} />, ...renderInline(line, mentions)]));
+};
+
+/**
+ * MarkdownText Component
+ * Renders the small markdown subset used in comments: paragraphs, headings, quotes,
+ * lists, fenced code, inline code, bold, italic, links and @mentions
+ * Supports both light and dark modes
+ */
+export const MarkdownText = ({ text, mentions = [] }: MarkdownTextProps) => {
+  const mentionSet = new Set(mentions.map((username) => username.toLowerCase()));
+
+  return (
+    <div className="space-y-2 text-sm text-gray-800 dark:text-gray-200 break-words">
+      {parseBlocks(text).map((block, index) => {
+        switch (block.type) {
+          case 'code':
+            return (
+              <pre key={index} className="p-3 rounded-lg bg-gray-100 dark:bg-slate-900 text-xs font-mono overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'heading':
+            return (
+              <p key={index} className="font-semibold text-gray-900 dark:text-white">
+                {renderLines(block.lines, mentionSet)}
+              </p>
+            );
+          case 'quote':
+            return (
+              <blockquote key={index} className="pl-3 border-l-4 border-gray-300 dark:border-slate-600 text-gray-600 dark:text-gray-400">
+                {renderLines(block.lines, mentionSet)}
+              </blockquote>
+            );
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item, mentionSet)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          default:
+            return <p key={index}>{renderLines(block.lines, mentionSet)}</p>;
+        }
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { FolderKanban } from 'lucide-react';
+import { useProjects } from '../contexts/ProjectsContext';
+
+/**
+ * ProjectSwitcher Component
+ * Chooses the project whose tasks are shown; hidden until the user has a project
+ * Supports both light and dark modes
+ */
+export const ProjectSwitcher = () => {
+  const { projects, activeProjectId, selectProject } = useProjects();
+
+  if (projects.length === 0 || !activeProjectId) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-2.5 py-1.5 bg-gray-100 dark:bg-slate-700 rounded-lg">
+      <FolderKanban className="w-4 h-4 flex-shrink-0 text-gray-600 dark:text-gray-400" />
+      <select
+        value={activeProjectId}
+        onChange={(e) => selectProject(e.target.value)}
+        className="max-w-[10rem] bg-transparent text-sm font-semibold text-gray-900 dark:text-white focus:outline-none cursor-pointer"
+        aria-label="Active project"
+        title="Switch project"
+      >
+        {projects.map((project) => (
+          <option key={project.id} value={project.id} className="bg-white dark:bg-slate-700">
+            {project.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
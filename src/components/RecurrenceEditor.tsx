@@ -0,0 +1,223 @@
+import { Repeat } from 'lucide-react';
+import type { RecurrenceFrequency, TaskRecurrence } from '../types';
+import { WEEKDAYS, describeRecurrence, getRecurrenceError } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  /** The rule being edited; null when the task does not repeat */
+  value: TaskRecurrence | null;
+  onChange: (recurrence: TaskRecurrence | null) => void;
+  /** Scheduled date of the task (YYYY-MM-DD), used to pick the first weekday or day of the month */
+  startDate?: string;
+  error?: string;
+  disabled?: boolean;
+}
+
+type EndMode = 'never' | 'date' | 'count';
+
+const FREQUENCY_UNITS: Record<Exclude<RecurrenceFrequency, 'custom'>, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Build a new rule for a frequency, starting on the task's scheduled date when there is one
+ */
+const createRecurrence = (frequency: RecurrenceFrequency, startDate?: string): TaskRecurrence => {
+  const start = startDate ? new Date(`${startDate}T00:00:00`) : new Date();
+  return {
+    Frequency: frequency,
+    Interval: 1,
+    Weekdays: frequency === 'weekly' ? [start.getDay()] : [],
+    MonthDay: frequency === 'monthly' ? start.getDate() : null,
+    RRule: frequency === 'custom' ? 'FREQ=WEEKLY;BYDAY=MO' : null,
+    EndDate: null,
+    Count: null,
+  };
+};
+
+/**
+ * RecurrenceEditor Component
+ * Edits how a task repeats: daily, weekly on chosen days, monthly on a day or a custom RRULE,
+ * ending never, on a date or after a number of occurrences
+ * Supports both light and dark modes
+ */
+export const RecurrenceEditor = ({ value, onChange, startDate, error, disabled = false }: RecurrenceEditorProps) => {
+  // Cleared inputs keep their mode ('' and 0) so the user can type a new value
+  const endMode: EndMode = value?.Count !== null && value?.Count !== undefined
+    ? 'count'
+    : value?.EndDate !== null && value?.EndDate !== undefined ? 'date' : 'never';
+  const problem = error || (value ? getRecurrenceError(value, startDate) : '');
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    const next = createRecurrence(frequency as RecurrenceFrequency, startDate);
+    // Keep how the series ends when only the frequency changes
+    onChange(value ? { ...next, EndDate: value.EndDate, Count: value.Count } : next);
+  };
+
+  const update = (changes: Partial<TaskRecurrence>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.Weekdays ?? [];
+    update({ Weekdays: weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day] });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') update({ EndDate: null, Count: null });
+    if (mode === 'date') update({ EndDate: startDate || new Date().toISOString().split('T')[0], Count: null });
+    if (mode === 'count') update({ EndDate: null, Count: 10 });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          id="Recurrence"
+          value={value?.Frequency ?? 'none'}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="none">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+          <option value="custom">Custom (RRULE)</option>
+        </select>
+
+        {value && value.Frequency !== 'custom' && (
+          <span className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            every
+            <input
+              type="number"
+              min="1"
+              value={value.Interval}
+              onChange={(e) => update({ Interval: parseInt(e.target.value, 10) || 0 })}
+              disabled={disabled}
+              className={`w-20 ${inputClass}`}
+              aria-label="Repeat every"
+            />
+            {FREQUENCY_UNITS[value.Frequency]}
+          </span>
+        )}
+
+        {value?.Frequency === 'monthly' && (
+          <span className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            on day
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={value.MonthDay ?? ''}
+              onChange={(e) => update({ MonthDay: parseInt(e.target.value, 10) || null })}
+              disabled={disabled}
+              className={`w-20 ${inputClass}`}
+              aria-label="Day of the month"
+            />
+          </span>
+        )}
+      </div>
+
+      {value?.Frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((day) => {
+            const selected = (value.Weekdays ?? []).includes(day.value);
+            return (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleWeekday(day.value)}
+                disabled={disabled}
+                aria-pressed={selected}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+                  selected
+                    ? 'bg-blue-600 dark:bg-blue-500 border-blue-600 dark:border-blue-500 text-white'
+                    : 'border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700'
+                }`}
+              >
+                {day.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value?.Frequency === 'custom' && (
+        <div>
+          <input
+            type="text"
+            value={value.RRule ?? ''}
+            onChange={(e) => update({ RRule: e.target.value })}
+            disabled={disabled}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR"
+            className={`w-full font-mono text-sm ${inputClass}`}
+            aria-label="RRULE"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            iCalendar RRULE with FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT or UNTIL
+          </p>
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          Ends
+          <select
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            disabled={disabled}
+            className={inputClass}
+            aria-label="Series ends"
+          >
+            <option value="never">Never</option>
+            <option value="date">On date</option>
+            <option value="count">After</option>
+          </select>
+          {endMode === 'date' && (
+            <input
+              type="date"
+              value={value.EndDate ?? ''}
+              onChange={(e) => update({ EndDate: e.target.value })}
+              min={startDate || undefined}
+              disabled={disabled}
+              className={inputClass}
+              aria-label="End date"
+            />
+          )}
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                min="1"
+                value={value.Count ?? ''}
+                onChange={(e) => update({ Count: parseInt(e.target.value, 10) || 0 })}
+                disabled={disabled}
+                className={`w-20 ${inputClass}`}
+                aria-label="Number of occurrences"
+              />
+              occurrences
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (problem ? (
+        <p className="text-sm text-red-500 dark:text-red-400">{problem}</p>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+          <Repeat className="w-3 h-3" />
+          {describeRecurrence(value)}. Completing an occurrence creates the next one.
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -2,29 +2,42 @@ import { useState, useEffect } from 'react';
 import type { Task } from '../types';
 import { TaskStatus } from '../types';
 import { X, Clock, Calendar } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
 
 interface ResumeTaskModalProps {
   isOpen: boolean;
   task: Task | null;
   onClose: () => void;
-  onResume: (taskId: string, status: TaskStatus, scheduledDate?: string, scheduledTime?: string) => void;
+  onResume: (taskId: string, status: string, scheduledDate?: string, scheduledTime?: string) => void;
+  /** Status selected when the modal opens (e.g. the board column the task was dropped on) */
+  initialStatus?: string;
 }
 
+// Hints shown under the built-in statuses
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  [TaskStatus.Pending]: 'Task is ready to start',
+  [TaskStatus.InProgress]: 'Task is actively being worked on',
+};
+
 /**
  * ResumeTaskModal Component
  * Modal for resuming a task from hold status with scheduling options
+ * The statuses offered are the workflow's transitions out of Hold that the user may make
  * Supports both light and dark modes
  */
-export const ResumeTaskModal = ({ isOpen, task, onClose, onResume }: ResumeTaskModalProps) => {
-  const [selectedStatus, setSelectedStatus] = useState<TaskStatus>(TaskStatus.Pending);
+export const ResumeTaskModal = ({ isOpen, task, onClose, onResume, initialStatus = TaskStatus.Pending }: ResumeTaskModalProps) => {
+  const { getNextStatusOptions } = useWorkflow();
+  const [selectedStatus, setSelectedStatus] = useState<string>(TaskStatus.Pending);
   const [scheduleOption, setScheduleOption] = useState<'now' | 'later'>('now');
   const [scheduledDate, setScheduledDate] = useState<string>('');
   const [scheduledTime, setScheduledTime] = useState<string>('');
+  const { showToast } = useToast();
 
   // Reset form when modal opens/closes or task changes
   useEffect(() => {
     if (isOpen && task) {
-      setSelectedStatus(TaskStatus.Pending);
+      setSelectedStatus(initialStatus);
       setScheduleOption('now');
       // Set default to today's date
       const today = new Date();
@@ -35,15 +48,22 @@ export const ResumeTaskModal = ({ isOpen, task, onClose, onResume }: ResumeTaskM
       const minutes = Math.round(today.getMinutes() / 15) * 15;
       setScheduledTime(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`);
     }
-  }, [isOpen, task]);
+  }, [isOpen, task, initialStatus]);
 
   if (!isOpen || !task) {
     return null;
   }
 
+  const resumeOptions = getNextStatusOptions(task, 'resume');
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (!resumeOptions.includes(selectedStatus)) {
+      showToast({ type: 'warning', message: 'Please select a status' });
+      return;
+    }
+
     let finalDate: string | undefined;
     let finalTime: string | undefined;
 
@@ -57,11 +77,11 @@ export const ResumeTaskModal = ({ isOpen, task, onClose, onResume }: ResumeTaskM
     } else {
       // Schedule for later - use selected date and time
       if (!scheduledDate) {
-        alert('Please select a scheduled date');
+        showToast({ type: 'warning', message: 'Please select a scheduled date' });
         return;
       }
       if (!scheduledTime) {
-        alert('Please select a scheduled time');
+        showToast({ type: 'warning', message: 'Please select a scheduled time' });
         return;
       }
       finalDate = scheduledDate;
@@ -110,30 +130,23 @@ export const ResumeTaskModal = ({ isOpen, task, onClose, onResume }: ResumeTaskM
               New Status
             </label>
             <div className="grid grid-cols-2 gap-3">
-              <button
-                type="button"
-                onClick={() => setSelectedStatus(TaskStatus.Pending)}
-                className={`px-4 py-3 rounded-lg border-2 transition-all ${
-                  selectedStatus === TaskStatus.Pending
-                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
-                    : 'border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-slate-500'
-                }`}
-              >
-                <div className="font-semibold">Pending</div>
-                <div className="text-xs mt-1 opacity-75">Task is ready to start</div>
-              </button>
-              <button
-                type="button"
-                onClick={() => setSelectedStatus(TaskStatus.InProgress)}
-                className={`px-4 py-3 rounded-lg border-2 transition-all ${
-                  selectedStatus === TaskStatus.InProgress
-                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
-                    : 'border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-slate-500'
-                }`}
-              >
-                <div className="font-semibold">In Progress</div>
-                <div className="text-xs mt-1 opacity-75">Task is actively being worked on</div>
-              </button>
+              {resumeOptions.map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => setSelectedStatus(status)}
+                  className={`px-4 py-3 rounded-lg border-2 transition-all ${
+                    selectedStatus === status
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300'
+                      : 'border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-slate-500'
+                  }`}
+                >
+                  <div className="font-semibold">{status}</div>
+                  {STATUS_DESCRIPTIONS[status] && (
+                    <div className="text-xs mt-1 opacity-75">{STATUS_DESCRIPTIONS[status]}</div>
+                  )}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import type { User } from '../types/auth';
+import { getErrorMessage } from '../services/errors';
+import { Clock, Lock, Loader2, AlertCircle } from 'lucide-react';
+
+interface SessionExpiryModalProps {
+  user: User;
+  isExpired: boolean;
+  expiresAt: Date | null;
+  canRefresh: boolean;
+  onStaySignedIn: () => Promise<void>;
+  onReauthenticate: (password: string) => Promise<void>;
+  onLogout: () => void;
+}
+
+/**
+ * Format the time left as m:ss
+ */
+const formatTimeLeft = (ms: number): string => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Session Expiry Modal Component
+ * Warns before the session ends and lets the user sign in again without leaving the page,
+ * so open forms and unsaved input are kept
+ * Supports both light and dark modes
+ */
+export const SessionExpiryModal = ({
+  user,
+  isExpired,
+  expiresAt,
+  canRefresh,
+  onStaySignedIn,
+  onReauthenticate,
+  onLogout,
+}: SessionExpiryModalProps) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the countdown while the session is about to expire
+  useEffect(() => {
+    if (isExpired) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isExpired]);
+
+  const showPasswordForm = isExpired || !canRefresh || needsPassword;
+
+  const handleStaySignedIn = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      await onStaySignedIn();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Your session could not be extended.'));
+      setNeedsPassword(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+
+    if (!password) {
+      setError('Password is required');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onReauthenticate(password);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Sign in failed. Please check your password.'));
+      setPassword('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[55] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div
+        role="alertdialog"
+        aria-labelledby="session-expiry-title"
+        className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-center w-10 h-10 rounded-full bg-amber-100 dark:bg-amber-900/40">
+            {isExpired ? (
+              <Lock className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+            ) : (
+              <Clock className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+            )}
+          </div>
+          <h2 id="session-expiry-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+            {isExpired ? 'Session Expired' : 'Session Expiring'}
+          </h2>
+        </div>
+
+        {/* Message */}
+        <div className="px-6 pt-4 space-y-2">
+          {!isExpired && expiresAt && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your session expires in{' '}
+              <span className="font-semibold text-gray-900 dark:text-white">
+                {formatTimeLeft(expiresAt.getTime() - now)}
+              </span>
+              .
+            </p>
+          )}
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {showPasswordForm ? (
+              <>
+                Enter the password for{' '}
+                <span className="font-semibold text-gray-900 dark:text-white">{user.username}</span>{' '}
+                to continue. Your unsaved changes on this page are kept.
+              </>
+            ) : (
+              'Stay signed in to keep working without losing your changes.'
+            )}
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        )}
+
+        {showPasswordForm ? (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div>
+              <label
+                htmlFor="reauth-password"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Password
+              </label>
+              <input
+                id="reauth-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={loading}
+                autoFocus
+                autoComplete="current-password"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="Enter your password"
+              />
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onLogout}
+                disabled={loading}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+              >
+                Log Out
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign In'
+                )}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex gap-3 p-6">
+            <button
+              type="button"
+              onClick={onLogout}
+              disabled={loading}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              Log Out
+            </button>
+            <button
+              type="button"
+              onClick={handleStaySignedIn}
+              disabled={loading}
+              className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Extending...
+                </>
+              ) : (
+                'Stay Signed In'
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
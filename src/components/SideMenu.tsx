@@ -1,6 +1,6 @@
 import { useEffect, useMemo } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { LayoutDashboard, ListTodo, Users, Shield, ChevronLeft, ChevronRight, X, CheckCircle2, PauseCircle } from 'lucide-react';
+import { LayoutDashboard, ListTodo, Users, Shield, ChevronLeft, ChevronRight, X, CheckCircle2, PauseCircle, CalendarDays, GanttChart, Workflow, History, Tags, FolderKanban, LayoutTemplate } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useSideMenu } from '../contexts/SideMenuContext';
 
@@ -71,6 +71,26 @@ export const SideMenu = () => {
       });
     }
 
+    // Calendar - requires tasks:read permission
+    if (hasPermission('tasks:read')) {
+      items.push({
+        id: 'calendar',
+        label: 'Calendar',
+        icon: CalendarDays,
+        path: '/calendar',
+      });
+    }
+
+    // Timeline - requires tasks:read permission
+    if (hasPermission('tasks:read')) {
+      items.push({
+        id: 'timeline',
+        label: 'Timeline',
+        icon: GanttChart,
+        path: '/timeline',
+      });
+    }
+
     // User Management - requires users:read permission
     if (hasPermission('users:read')) {
       items.push({
@@ -91,6 +111,56 @@ export const SideMenu = () => {
       });
     }
 
+    // Workflow Settings - requires workflow:manage permission
+    if (hasPermission('workflow:manage')) {
+      items.push({
+        id: 'workflow',
+        label: 'Workflow',
+        icon: Workflow,
+        path: '/workflow',
+      });
+    }
+
+    // Label Settings - requires labels:manage permission
+    if (hasPermission('labels:manage')) {
+      items.push({
+        id: 'labels',
+        label: 'Labels',
+        icon: Tags,
+        path: '/labels',
+      });
+    }
+
+    // Project Settings - requires projects:manage permission
+    if (hasPermission('projects:manage')) {
+      items.push({
+        id: 'projects',
+        label: 'Projects',
+        icon: FolderKanban,
+        path: '/projects',
+      });
+    }
+
+    // Template Settings - requires templates:manage permission
+    if (hasPermission('templates:manage')) {
+      items.push({
+        id: 'templates',
+        label: 'Templates',
+        icon: LayoutTemplate,
+        path: '/templates',
+      });
+    }
+
+    // Audit Log - requires audit:view permission
+    if (hasPermission('audit:view')) {
+      items.push({
+        id: 'audit',
+        label: 'Audit Log',
+        icon: History,
+        path: '/audit',
+      });
+    }
+
     return items;
   }, [hasPermission]);
 
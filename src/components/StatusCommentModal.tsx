@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import type { Task } from '../types';
+import { X, MessageSquare, ArrowRight } from 'lucide-react';
+import { useWorkflow } from '../contexts/WorkflowContext';
+
+interface StatusCommentModalProps {
+  isOpen: boolean;
+  task: Task | null;
+  /** Status the task is being moved to */
+  status: string;
+  onClose: () => void;
+  onConfirm: (comment: string) => void;
+}
+
+/**
+ * StatusCommentModal Component
+ * Asks for the comment a workflow transition requires before the status is changed
+ * Supports both light and dark modes
+ */
+export const StatusCommentModal = ({ isOpen, task, status, onClose, onConfirm }: StatusCommentModalProps) => {
+  const { getStatusBadgeClass } = useWorkflow();
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState('');
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setComment('');
+      setError('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !task) {
+    return null;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!comment.trim()) {
+      setError('A comment is required for this status change');
+      return;
+    }
+    onConfirm(comment.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg">
+              <MessageSquare className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Change Status</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">{task.Title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            type="button"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Transition */}
+          <div className="flex items-center gap-3">
+            <span className={`px-3 py-1.5 rounded-md text-xs font-semibold border ${getStatusBadgeClass(task.Status)}`}>
+              {task.Status}
+            </span>
+            <ArrowRight className="w-4 h-4 text-gray-400" />
+            <span className={`px-3 py-1.5 rounded-md text-xs font-semibold border ${getStatusBadgeClass(status)}`}>
+              {status}
+            </span>
+          </div>
+
+          {/* Comment */}
+          <div>
+            <label
+              htmlFor="statusComment"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Comment <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              id="statusComment"
+              value={comment}
+              onChange={(e) => {
+                setComment(e.target.value);
+                setError('');
+              }}
+              rows={4}
+              autoFocus
+              className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-slate-700 dark:text-white transition-colors resize-none ${
+                error ? 'border-red-500' : 'border-gray-300 dark:border-slate-600'
+              }`}
+              placeholder="Why is the status changing?"
+            />
+            {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 rounded-lg transition-colors"
+            >
+              Move to {status}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { Task } from '../types';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useUsers } from '../contexts/UsersContext';
+
+/**
+ * Task fields compared between the local and server copy
+ */
+const COMPARED_FIELDS: Array<{ label: string; getValue: (task: Task, getUserName: (id: string) => string) => string }> = [
+  { label: 'Title', getValue: (task) => task.Title },
+  { label: 'Description', getValue: (task) => task.Description },
+  { label: 'Status', getValue: (task) => task.Status },
+  { label: 'Priority', getValue: (task) => task.Priority },
+  { label: 'Estimated Hours', getValue: (task) => String(task.EstimatedHours) },
+  {
+    label: 'Assigned To',
+    getValue: (task, getUserName) => Array.isArray(task.AssignedTo)
+      ? task.AssignedTo.map(getUserName).join(', ')
+      : task.AssignedTo || '',
+  },
+  {
+    label: 'Scheduled Start',
+    getValue: (task) => [task.ScheduledStartDate, task.ScheduledStartTime].filter(Boolean).join(' '),
+  },
+];
+
+/**
+ * SyncConflictModal Component
+ * Shown when a change made offline could not be synced because the task was changed on the server
+ * Lets the user keep their change or the server version, one conflict at a time
+ */
+export const SyncConflictModal = () => {
+  const { syncConflicts, resolveSyncConflict } = useTaskStore();
+  const { getUserName } = useUsers();
+  const [isResolving, setIsResolving] = useState(false);
+
+  const conflict = syncConflicts[0];
+  if (!conflict) return null;
+
+  const { localTask, serverTask } = conflict;
+  const changedFields = localTask
+    ? COMPARED_FIELDS
+        .map((field) => ({
+          label: field.label,
+          local: field.getValue(localTask, getUserName),
+          server: field.getValue(serverTask, getUserName),
+        }))
+        .filter((field) => field.local !== field.server)
+    : [];
+
+  const handleResolve = async (keep: 'local' | 'server') => {
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(conflict.taskId, keep);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 backdrop-blur-sm bg-black/20 dark:bg-black/30 transition-opacity duration-300">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto transition-all duration-300 transform scale-100">
+        {/* Modal Header */}
+        <div className="flex items-center gap-3 p-6 border-b border-gray-200 dark:border-slate-700">
+          <div className="p-2 rounded-full bg-amber-100 dark:bg-amber-900/30">
+            <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              Sync Conflict
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              "{serverTask.Title}" was changed by someone else while you were offline
+              {syncConflicts.length > 1 && ` (1 of ${syncConflicts.length})`}
+            </p>
+          </div>
+        </div>
+
+        {/* Modal Body */}
+        <div className="p-6">
+          {conflict.type === 'delete' ? (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              You deleted this task offline, but it has been updated on the server since.
+            </p>
+          ) : changedFields.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Field</th>
+                    <th className="py-2 pr-4 font-medium">Your change</th>
+                    <th className="py-2 font-medium">Server version</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {changedFields.map((field) => (
+                    <tr key={field.label}>
+                      <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{field.label}</td>
+                      <td className="py-2 pr-4 text-blue-700 dark:text-blue-300 break-words">{field.local || '—'}</td>
+                      <td className="py-2 text-gray-700 dark:text-gray-300 break-words">{field.server || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              The server version was updated after your offline change was made.
+            </p>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="flex justify-end gap-3 p-6 pt-0">
+          <button
+            type="button"
+            onClick={() => handleResolve('server')}
+            disabled={isResolving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {conflict.type === 'delete' ? 'Keep Task' : 'Use Server Version'}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleResolve('local')}
+            disabled={isResolving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 rounded-lg transition-colors shadow-sm hover:shadow-md disabled:opacity-50"
+          >
+            {conflict.type === 'delete' ? 'Delete Anyway' : 'Keep My Change'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { Loader2, History } from 'lucide-react';
+import { useTaskActivity } from '../hooks/useTaskActivity';
+import { ActivityTimeline } from './ActivityTimeline';
+
+interface TaskActivityLogProps {
+  taskId: string;
+}
+
+/**
+ * TaskActivityLog Component
+ * Activity timeline of one task, kept up to date as new entries are written
+ * Supports both light and dark modes
+ */
+export const TaskActivityLog = ({ taskId }: TaskActivityLogProps) => {
+  const { entries, loading, error } = useTaskActivity(taskId);
+
+  if (loading && entries.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="py-8 text-center">
+        <History className="w-10 h-10 text-gray-400 dark:text-gray-500 mx-auto mb-2" />
+        <p className="text-sm text-gray-500 dark:text-gray-400">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return <ActivityTimeline entries={entries} />;
+};
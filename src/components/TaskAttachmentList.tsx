@@ -0,0 +1,85 @@
+import { Paperclip, Download } from 'lucide-react';
+import type { TaskAttachment } from '../types';
+import { useUsers } from '../contexts/UsersContext';
+import { formatFileSize, getAttachmentUrl, isImageAttachment } from '../utils/attachments';
+
+interface TaskAttachmentListProps {
+  attachments: TaskAttachment[];
+}
+
+/**
+ * TaskAttachmentList Component
+ * Shows a task's files: images are previewed inline, other files are listed with a download link
+ * Supports both light and dark modes
+ */
+export const TaskAttachmentList = ({ attachments }: TaskAttachmentListProps) => {
+  const { getUserName } = useUsers();
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((attachment) => !isImageAttachment(attachment));
+
+  const describe = (attachment: TaskAttachment) => {
+    const uploaded = new Date(attachment.UploadedAt).toLocaleDateString();
+    return attachment.UploadedBy
+      ? `${formatFileSize(attachment.Size)} · ${getUserName(attachment.UploadedBy)}, ${uploaded}`
+      : `${formatFileSize(attachment.Size)} · ${uploaded}`;
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        <Paperclip className="w-4 h-4" />
+        Attachments ({attachments.length})
+      </label>
+
+      {/* Image Previews */}
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-3">
+          {images.map((image) => (
+            <a
+              key={image.id}
+              href={getAttachmentUrl(image)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="group block rounded-lg overflow-hidden border border-gray-200 dark:border-slate-700"
+              title={`${image.FileName} (${describe(image)})`}
+            >
+              <img
+                src={getAttachmentUrl(image)}
+                alt={image.FileName}
+                loading="lazy"
+                className="w-full h-32 object-cover bg-gray-100 dark:bg-slate-700 group-hover:opacity-90 transition-opacity"
+              />
+              <p className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 truncate">{image.FileName}</p>
+            </a>
+          ))}
+        </div>
+      )}
+
+      {/* Other Files */}
+      {files.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+          {files.map((file) => (
+            <li key={file.id} className="flex items-center gap-3 px-3 py-2">
+              <Paperclip className="w-4 h-4 flex-shrink-0 text-gray-400 dark:text-gray-500" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 dark:text-white truncate">{file.FileName}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{describe(file)}</p>
+              </div>
+              <a
+                href={getAttachmentUrl(file)}
+                download={file.FileName}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                title="Download"
+              >
+                <Download className="w-4 h-4" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
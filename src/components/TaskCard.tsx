@@ -1,15 +1,25 @@
 import type { Task } from '../types';
 import { TaskStatus, TaskPriority } from '../types';
-import { Clock, Trash2, ChevronDown, Calendar, Edit, User as UserIcon } from 'lucide-react';
-import { useState, useEffect } from 'react';
+import { Clock, Trash2, ChevronDown, Calendar, Edit, User as UserIcon, CloudOff, AlertTriangle, CornerDownRight, Lock, Repeat } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
 import { ResumeTaskModal } from './ResumeTaskModal';
+import { TaskProgressBar } from './TaskProgressBar';
+import { LabelChips } from './LabelChips';
+import { TaskTimer } from './TaskTimer';
 import { useAuth } from '../contexts/AuthContext';
 import { useUsers } from '../contexts/UsersContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { useToast } from '../contexts/ToastContext';
+import { selectSubtasks } from '../utils/taskSelectors';
+import { getTaskProgress, getRolledUpHours } from '../utils/taskProgress';
+import { getBlockersOfMove, getUnfinishedBlockers, describeBlockers } from '../utils/taskDependencies';
+import { describeRecurrence } from '../utils/recurrence';
 
 interface TaskCardProps {
   task: Task;
-  onStatusChange: (taskId: string, newStatus: TaskStatus, scheduledDate?: string, scheduledTime?: string) => void;
+  onStatusChange: (taskId: string, newStatus: string, scheduledDate?: string, scheduledTime?: string) => void;
   onDelete: (taskId: string) => void;
   onEdit: (task: Task) => void;
 }
@@ -20,27 +30,32 @@ interface TaskCardProps {
  * Supports both light and dark modes
  */
 export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardProps) => {
-  const { hasPermission, user } = useAuth();
+  const { hasPermission } = useAuth();
   const { getUserName } = useUsers();
+  const { tasksById, pendingSyncIds, syncConflicts } = useTaskStore();
+  const { getNextStatusOptions, getStatusMove, getStatusBadgeClass } = useWorkflow();
+  const { showToast } = useToast();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isResumeModalOpen, setIsResumeModalOpen] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<string>('');
   const [isDeadlineApproaching, setIsDeadlineApproaching] = useState(false);
   
-  // Check if user is assigned to this task
-  const isAssigned = user && (
-    Array.isArray(task.AssignedTo)
-      ? task.AssignedTo.includes(user.id)
-      : task.AssignedTo === user.id
-  );
-  
   // Check permissions
   const canEdit = hasPermission('tasks:update');
   const canDelete = hasPermission('tasks:delete');
-  const canHold = hasPermission('tasks:hold'); // Permission to put tasks on hold
-  // Users can update status if they have tasks:update permission OR if they're assigned to the task
-  const canUpdateStatus = hasPermission('tasks:update') || isAssigned;
+
+  // Checklist and subtask progress
+  const subtasks = useMemo(() => (task.id ? selectSubtasks(tasksById, task.id) : []), [tasksById, task.id]);
+  const progress = getTaskProgress(task, subtasks);
+  const parentTask = task.ParentId ? tasksById[task.ParentId] : undefined;
+
+  // A task cannot move on while any of its blockers is unfinished
+  const openBlockers = task.Status === TaskStatus.Completed ? [] : getUnfinishedBlockers(tasksById, task);
+
+  // Offline changes to this task not yet accepted by the server
+  const hasSyncConflict = !!task.id && syncConflicts.some((conflict) => conflict.taskId === task.id);
+  const isPendingSync = !!task.id && pendingSyncIds.has(task.id) && !hasSyncConflict;
 
   // Calculate deadline and countdown timer
   useEffect(() => {
@@ -96,22 +111,6 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
     return () => clearInterval(interval);
   }, [task.ScheduledStartDate, task.ScheduledStartTime, task.EstimatedHours]);
 
-  // Get the next available status options based on current status
-  const getNextStatusOptions = (currentStatus: TaskStatus): TaskStatus[] => {
-    switch (currentStatus) {
-      case TaskStatus.Pending:
-        return [TaskStatus.InProgress];
-      case TaskStatus.InProgress:
-        return [TaskStatus.Completed];
-      case TaskStatus.Completed:
-        return []; // No transitions from completed
-      case TaskStatus.Hold:
-        return [TaskStatus.Pending, TaskStatus.InProgress]; // Can resume from hold
-      default:
-        return [];
-    }
-  };
-
   // Get high-contrast priority badge styling (works in both themes)
   const getPriorityBadgeClass = (priority: TaskPriority): string => {
     switch (priority) {
@@ -128,20 +127,6 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
     }
   };
 
-  // Get status badge styling with dark mode support
-  const getStatusBadgeClass = (status: TaskStatus): string => {
-    switch (status) {
-      case TaskStatus.Pending:
-        return 'bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-900/30 dark:text-yellow-400 dark:border-yellow-700';
-      case TaskStatus.InProgress:
-        return 'bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900/30 dark:text-blue-400 dark:border-blue-700';
-      case TaskStatus.Completed:
-        return 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/30 dark:text-green-400 dark:border-green-700';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600';
-    }
-  };
-
   // Format creation timestamp to readable format
   const formatDate = (date: Date | string): string => {
     const dateObj = typeof date === 'string' ? new Date(date) : date;
@@ -204,17 +189,23 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
     return `${dateStr} at ${timeStr}`;
   };
 
-  const nextStatusOptions = getNextStatusOptions(task.Status);
+  // Status moves the workflow allows this user (hold and resume have their own buttons)
+  const nextStatusOptions = getNextStatusOptions(task);
   const hasNextStatus = nextStatusOptions.length > 0;
-
-  const handleStatusChange = (newStatus: TaskStatus, scheduledDate?: string, scheduledTime?: string) => {
-    if (task.id) {
+  const canPutOnHold = getStatusMove(task, TaskStatus.Hold) === 'hold';
+  const canResume = getNextStatusOptions(task, 'resume').length > 0;
+
+  const handleStatusChange = (newStatus: string, scheduledDate?: string, scheduledTime?: string) => {
+    const blockers = getBlockersOfMove(tasksById, task, newStatus);
+    if (blockers.length > 0) {
+      showToast({ type: 'warning', title: 'Task Is Blocked', message: describeBlockers(blockers) });
+    } else if (task.id) {
       onStatusChange(task.id, newStatus, scheduledDate, scheduledTime);
     }
     setIsDropdownOpen(false);
   };
 
-  const handleResumeFromHold = (taskId: string, newStatus: TaskStatus, scheduledDate?: string, scheduledTime?: string) => {
+  const handleResumeFromHold = (taskId: string, newStatus: string, scheduledDate?: string, scheduledTime?: string) => {
     // Call onStatusChange directly with the correct parameters
     // Use taskId from the parameter (provided by ResumeTaskModal) to ensure consistency
     if (taskId) {
@@ -275,6 +266,50 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
         </span>
       </div>
 
+      {/* Parent Task - Only show for subtasks */}
+      {task.ParentId && (
+        <div className="flex items-center gap-1 -mt-2 mb-3 text-xs text-gray-500 dark:text-gray-400">
+          <CornerDownRight className="w-3.5 h-3.5" />
+          <span className="truncate">Subtask of {parentTask?.Title ?? 'another task'}</span>
+        </div>
+      )}
+
+      {/* Labels */}
+      <LabelChips labelIds={task.Labels} className="mb-3" />
+
+      {/* Blocked - Only show while unfinished blockers keep the task from moving on */}
+      {openBlockers.length > 0 && (
+        <div className="mb-3">
+          <span
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+            title={describeBlockers(openBlockers)}
+          >
+            <Lock className="w-3 h-3" />
+            Blocked by {openBlockers.length} {openBlockers.length === 1 ? 'task' : 'tasks'}
+          </span>
+        </div>
+      )}
+
+      {/* Sync Status - Only show for changes made while offline */}
+      {(isPendingSync || hasSyncConflict) && (
+        <div className="mb-3">
+          {hasSyncConflict ? (
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+              <AlertTriangle className="w-3 h-3" />
+              Sync conflict
+            </span>
+          ) : (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-gray-300"
+              title="Saved on this device and will sync when the connection returns"
+            >
+              <CloudOff className="w-3 h-3" />
+              Pending sync
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Description */}
       <p className="text-gray-600 dark:text-gray-300 text-sm mb-4 line-clamp-3 flex-grow min-h-[3.5rem] transition-colors">
         {task.Description}
@@ -287,8 +322,19 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
           <Clock className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
           <span className="font-medium">{task.EstimatedHours}</span>
           <span className="text-gray-500 dark:text-gray-400 ml-1">hours estimated</span>
+          {subtasks.length > 0 && (
+            <span className="text-gray-500 dark:text-gray-400 ml-1">
+              ({getRolledUpHours(task, subtasks)} with subtasks)
+            </span>
+          )}
         </div>
 
+        {/* Progress - Only show if the task has checklist items or subtasks */}
+        {progress && <TaskProgressBar progress={progress} />}
+
+        {/* Time Tracking - the user's timer and the time logged so far */}
+        <TaskTimer task={task} />
+
         {/* Assigned To */}
         <div className="text-sm text-gray-700 dark:text-gray-300 transition-colors">
           <span className="font-medium text-gray-900 dark:text-white">Assigned to:</span>{' '}
@@ -338,6 +384,14 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
           </div>
         )}
 
+        {/* Recurrence - Only show for recurring tasks */}
+        {task.Recurrence && (
+          <div className="flex items-center text-purple-600 dark:text-purple-400 text-xs font-medium transition-colors">
+            <Repeat className="w-3.5 h-3.5 mr-1.5" />
+            <span>{describeRecurrence(task.Recurrence)}</span>
+          </div>
+        )}
+
         {/* Countdown Timer - Only show if scheduled date/time exists */}
         {timeRemaining && (
           <div
@@ -364,8 +418,8 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
         </span>
 
         <div className="flex items-center gap-2">
-          {/* Put on Hold button - only show if task is not already on hold and user has permission */}
-          {canHold && task.Status !== TaskStatus.Hold && (
+          {/* Put on Hold button - only show if the workflow lets this user put the task on hold */}
+          {canPutOnHold && (
             <button
               onClick={() => handleStatusChange(TaskStatus.Hold)}
               className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-orange-700 dark:text-orange-300 bg-orange-50 dark:bg-orange-900/20 hover:bg-orange-100 dark:hover:bg-orange-900/30 rounded-md transition-colors border border-orange-200 dark:border-orange-800"
@@ -375,8 +429,8 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
             </button>
           )}
 
-          {/* Status Update Dropdown - only show if task is not on hold and user can update status */}
-          {canUpdateStatus && hasNextStatus && task.Status !== TaskStatus.Hold && (
+          {/* Status Update Dropdown - only show if the workflow allows this user a next status */}
+          {hasNextStatus && (
             <div className="relative">
               <button
                 onClick={() => setIsDropdownOpen(!isDropdownOpen)}
@@ -401,7 +455,9 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
                         <button
                           key={status}
                           onClick={() => handleStatusChange(status)}
-                          className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+                          className={`w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors ${
+                            getBlockersOfMove(tasksById, task, status).length > 0 ? 'opacity-50 cursor-not-allowed' : ''
+                          }`}
                           type="button"
                         >
                           Move to {status}
@@ -414,9 +470,9 @@ export const TaskCard = ({ task, onStatusChange, onDelete, onEdit }: TaskCardPro
             </div>
           )}
 
-          {/* Resume from Hold button - show if task is on hold and user has Hold Task permission
+          {/* Resume from Hold button - show if the workflow lets this user move the task out of Hold
               This works independently of Edit permission - users with only Hold permission can resume tasks */}
-          {canHold && task.Status === TaskStatus.Hold && hasNextStatus && (
+          {canResume && (
             <button
               onClick={() => setIsResumeModalOpen(true)}
               className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 rounded-md transition-colors border border-gray-200 dark:border-slate-600"
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { MessageSquare, Reply, Edit, Trash2 } from 'lucide-react';
+import type { TaskComment } from '../types/comment';
+import { useAuth } from '../contexts/AuthContext';
+import { useUsers } from '../contexts/UsersContext';
+import { useToast } from '../contexts/ToastContext';
+import { useTaskComments } from '../hooks/useTaskComments';
+import { CommentComposer } from './CommentComposer';
+import { MarkdownText } from './MarkdownText';
+
+interface TaskCommentsProps {
+  taskId: string;
+}
+
+/**
+ * TaskComments Component
+ * Comment thread of a task: top-level comments with their replies underneath
+ * Authors can edit and delete their own comments; comments:delete-any allows deleting any comment
+ * Supports both light and dark modes
+ */
+export const TaskComments = ({ taskId }: TaskCommentsProps) => {
+  const { user, hasPermission } = useAuth();
+  const { getUserName, getUserById } = useUsers();
+  const { showError } = useToast();
+  const { comments, loading, error, addComment, editComment, deleteComment } = useTaskComments(taskId);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const canComment = hasPermission('comments:create');
+  const canDeleteAny = hasPermission('comments:delete-any');
+
+  const threads = comments.filter((comment) => comment.ParentId === null);
+  const getReplies = (commentId: string) => comments.filter((comment) => comment.ParentId === commentId);
+
+  const formatDate = (date: Date | string) => {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    return d.toLocaleString();
+  };
+
+  // Post a comment or reply; the composer keeps the text if it fails
+  const handleAdd = async (body: string, parentId: string | null = null) => {
+    try {
+      await addComment(body, parentId);
+      setReplyingToId(null);
+    } catch (err) {
+      showError(err, 'Failed to post comment. Please try again.');
+      throw err;
+    }
+  };
+
+  const handleEdit = async (commentId: string, body: string) => {
+    try {
+      await editComment(commentId, body);
+      setEditingId(null);
+    } catch (err) {
+      showError(err, 'Failed to update comment. Please try again.');
+      throw err;
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    setDeletingId(null);
+    try {
+      await deleteComment(commentId);
+    } catch (err) {
+      showError(err, 'Failed to delete comment. Please try again.');
+    }
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const isAuthor = !!user && comment.AuthorId === user.id;
+    const canDelete = isAuthor || canDeleteAny;
+    const mentionedUsernames = comment.Mentions
+      .map((id) => getUserById(id)?.username)
+      .filter((username): username is string => username !== undefined);
+
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <p className="text-sm">
+            <span className="font-medium text-gray-900 dark:text-white">
+              {comment.AuthorName || getUserName(comment.AuthorId)}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
+              {formatDate(comment.CreatedAt)}
+              {comment.EditedAt && ' (edited)'}
+            </span>
+          </p>
+          {editingId !== comment.id && (
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {!isReply && canComment && (
+                <button
+                  onClick={() => setReplyingToId(replyingToId === comment.id ? null : comment.id)}
+                  className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                  type="button"
+                  title="Reply"
+                >
+                  <Reply className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {isAuthor && (
+                <button
+                  onClick={() => setEditingId(comment.id)}
+                  className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                  type="button"
+                  title="Edit comment"
+                >
+                  <Edit className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  onClick={() => setDeletingId(comment.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                  type="button"
+                  title="Delete comment"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <CommentComposer
+            initialValue={comment.Body}
+            submitLabel="Save"
+            onSubmit={(body) => handleEdit(comment.id, body)}
+            onCancel={() => setEditingId(null)}
+            autoFocus
+          />
+        ) : (
+          <MarkdownText text={comment.Body} mentions={mentionedUsernames} />
+        )}
+
+        {/* Delete confirmation */}
+        {deletingId === comment.id && (
+          <div className="flex items-center justify-between gap-3 mt-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+            <p className="text-xs text-red-700 dark:text-red-400">
+              {isReply || getReplies(comment.id).length === 0
+                ? 'Delete this comment?'
+                : 'Delete this comment and its replies?'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setDeletingId(null)}
+                className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 rounded transition-colors"
+                type="button"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleDelete(comment.id)}
+                className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 rounded transition-colors"
+                type="button"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+        <MessageSquare className="w-4 h-4" />
+        Comments {comments.length > 0 && `(${comments.length})`}
+      </label>
+
+      {loading && comments.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading comments...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No comments yet</p>
+      ) : (
+        <ul className="space-y-4">
+          {threads.map((thread) => (
+            <li key={thread.id} className="p-3 rounded-lg border border-gray-200 dark:border-slate-700">
+              {renderComment(thread, false)}
+
+              {/* Replies */}
+              {getReplies(thread.id).length > 0 && (
+                <ul className="mt-3 ml-4 pl-4 space-y-3 border-l-2 border-gray-200 dark:border-slate-700">
+                  {getReplies(thread.id).map((reply) => (
+                    <li key={reply.id}>{renderComment(reply, true)}</li>
+                  ))}
+                </ul>
+              )}
+
+              {replyingToId === thread.id && (
+                <div className="mt-3 ml-4 pl-4">
+                  <CommentComposer
+                    placeholder="Write a reply..."
+                    submitLabel="Reply"
+                    onSubmit={(body) => handleAdd(body, thread.id)}
+                    onCancel={() => setReplyingToId(null)}
+                    autoFocus
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New top-level comment */}
+      {canComment && (
+        <div className="mt-4">
+          <CommentComposer onSubmit={(body) => handleAdd(body)} />
+        </div>
+      )}
+    </div>
+  );
+};
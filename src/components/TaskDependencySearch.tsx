@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef } from 'react';
+import { Search, X, Link2 } from 'lucide-react';
+import type { Task } from '../types';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { selectAllTasks } from '../utils/taskSelectors';
+
+interface TaskDependencySearchProps {
+  /** The task being edited; it cannot be linked to itself */
+  taskId: string;
+  selectedTaskIds: string[];
+  /** Called when a task is picked; the parent decides whether the link is allowed */
+  onAdd: (taskId: string) => void;
+  onRemove: (taskId: string) => void;
+  error?: string;
+  placeholder?: string;
+}
+
+/**
+ * TaskDependencySearch Component
+ * Provides a searchable dropdown for linking a task to other tasks
+ * Searches the tasks that are already loaded, by title
+ */
+export const TaskDependencySearch = ({
+  taskId,
+  selectedTaskIds,
+  onAdd,
+  onRemove,
+  error,
+  placeholder = 'Search tasks by title...',
+}: TaskDependencySearchProps) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { tasksById } = useTaskStore();
+  const { getStatusBadgeClass } = useWorkflow();
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  /**
+   * Tasks that can still be linked: not this task, not already linked,
+   * and saved on the server (optimistic tasks have no real ID yet)
+   */
+  const query = searchQuery.trim().toLowerCase();
+  const candidates = selectAllTasks(tasksById).filter((task) =>
+    task.id !== undefined &&
+    task.id !== taskId &&
+    !task.id.startsWith('temp-') &&
+    !selectedTaskIds.includes(task.id) &&
+    (!query || task.Title.toLowerCase().includes(query))
+  );
+
+  const selectedTasks = selectedTaskIds
+    .map((id) => tasksById[id])
+    .filter((task): task is Task => task !== undefined);
+
+  /**
+   * Link a task and reset the search
+   */
+  const addTask = (id: string) => {
+    onAdd(id);
+    setSearchQuery('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      {/* Linked Tasks Display */}
+      {selectedTasks.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {selectedTasks.map((task) => (
+            <span
+              key={task.id}
+              className="inline-flex items-center gap-1 px-3 py-1 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-300 rounded-full text-sm max-w-full"
+            >
+              <Link2 className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{task.Title}</span>
+              <button
+                type="button"
+                onClick={() => onRemove(task.id!)}
+                className="ml-1 hover:text-indigo-600 dark:hover:text-indigo-200 transition-colors"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Search Input */}
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+        </div>
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          placeholder={placeholder}
+          className={`w-full pl-10 pr-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white dark:border-slate-600 transition-colors ${
+            error
+              ? 'border-red-500 dark:border-red-400'
+              : 'border-gray-300 dark:border-slate-600'
+          }`}
+        />
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <p className="mt-1 text-sm text-red-500 dark:text-red-400">{error}</p>
+      )}
+
+      {/* Dropdown Menu */}
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-1 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-md shadow-lg max-h-60 overflow-auto">
+          {candidates.length === 0 ? (
+            <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+              {query ? 'No tasks found' : 'No other tasks available'}
+            </div>
+          ) : (
+            <ul className="py-1">
+              {candidates.map((task) => (
+                <li key={task.id}>
+                  <button
+                    type="button"
+                    onClick={() => addTask(task.id!)}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-between gap-3"
+                  >
+                    <span className="font-medium text-gray-900 dark:text-white truncate">{task.Title}</span>
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border flex-shrink-0 ${getStatusBadgeClass(task.Status)}`}>
+                      {task.Status}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { PauseCircle } from 'lucide-react';
+import type { Task } from '../types';
+import { useUsers } from '../contexts/UsersContext';
+import { getHoldHours, formatHoldDuration } from '../utils/holds';
+
+interface TaskHoldHistoryProps {
+  task: Task;
+}
+
+/**
+ * TaskHoldHistory Component
+ * Lists every time a task was put on hold, with its reason and how long it lasted
+ * Supports both light and dark modes
+ */
+export const TaskHoldHistory = ({ task }: TaskHoldHistoryProps) => {
+  const { getUserName } = useUsers();
+
+  const intervals = [...(task.HoldIntervals ?? [])].sort(
+    (a, b) => new Date(b.StartedAt).getTime() - new Date(a.StartedAt).getTime()
+  );
+
+  if (intervals.length === 0) return null;
+
+  const totalHours = intervals.reduce((total, interval) => total + getHoldHours(interval), 0);
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        <PauseCircle className="w-4 h-4" />
+        Hold History ({formatHoldDuration(totalHours)} on hold)
+      </label>
+
+      <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+        {intervals.map((interval) => (
+          <li key={interval.id} className="px-3 py-2">
+            <p className="text-sm text-gray-900 dark:text-white">
+              <span className="font-medium">{interval.Reason}</span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {' '}· {formatHoldDuration(getHoldHours(interval))}
+                {!interval.EndedAt && ' so far'}
+              </span>
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {new Date(interval.StartedAt).toLocaleDateString()}
+              {' – '}
+              {interval.EndedAt ? new Date(interval.EndedAt).toLocaleDateString() : 'now'}
+              {interval.PutOnHoldBy ? ` · by ${getUserName(interval.PutOnHoldBy)}` : ''}
+              {interval.ExpectedResumeDate && !interval.EndedAt
+                ? ` · expected back ${new Date(`${interval.ExpectedResumeDate}T00:00:00`).toLocaleDateString()}`
+                : ''}
+            </p>
+            {interval.Note && (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{interval.Note}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import type { TaskProgress } from '../utils/taskProgress';
+
+interface TaskProgressBarProps {
+  progress: TaskProgress;
+  /** Show the "done / total" label next to the bar */
+  showLabel?: boolean;
+}
+
+/**
+ * TaskProgressBar Component
+ * Shows how many checklist items and subtasks of a task are done
+ * Supports both light and dark modes
+ */
+export const TaskProgressBar = ({ progress, showLabel = true }: TaskProgressBarProps) => {
+  const isComplete = progress.done === progress.total;
+
+  return (
+    <div className="flex items-center gap-2" title={`${progress.done} of ${progress.total} done`}>
+      <div className="flex-1 h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${
+            isComplete ? 'bg-green-500 dark:bg-green-400' : 'bg-indigo-500 dark:bg-indigo-400'
+          }`}
+          style={{ width: `${progress.percent}%` }}
+        />
+      </div>
+      {showLabel && (
+        <span className="text-xs font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap">
+          {progress.done}/{progress.total}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Timer, Plus, Trash2 } from 'lucide-react';
+import type { Task, TimeEntry } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useUsers } from '../contexts/UsersContext';
+import { useTimeTracking } from '../hooks/useTimeTracking';
+import { getEntryHours, getLoggedHours, isRunningEntry, formatLoggedHours } from '../utils/timeTracking';
+import { toDateInputValue } from '../utils/calendar';
+
+interface TaskTimeLogProps {
+  task: Task;
+}
+
+/**
+ * TaskTimeLog Component
+ * Lists the work sessions and logged time of a task and lets users log time by hand
+ * Users delete their own entries; time:manage allows deleting anyone's
+ * Supports both light and dark modes
+ */
+export const TaskTimeLog = ({ task }: TaskTimeLogProps) => {
+  const { user, hasPermission } = useAuth();
+  const { getUserName } = useUsers();
+  const { logTime, deleteEntry } = useTimeTracking();
+  const [hours, setHours] = useState('');
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const entries = [...(task.TimeEntries ?? [])].sort(
+    (a, b) => new Date(b.StartedAt).getTime() - new Date(a.StartedAt).getTime()
+  );
+  const loggedHours = getLoggedHours(task);
+  const canTrack = !!user && !!task.id && hasPermission('time:track');
+  const canManage = hasPermission('time:manage');
+
+  if (!canTrack && entries.length === 0) return null;
+
+  const handleLogTime = () => {
+    const value = Number(hours);
+    if (!hours.trim() || !Number.isFinite(value) || value <= 0 || value > 24) {
+      setError('Enter between 0 and 24 hours');
+      return;
+    }
+    if (!date || date > toDateInputValue(new Date())) {
+      setError('Choose a day that is not in the future');
+      return;
+    }
+    logTime(task, Math.round(value * 100) / 100, date, note);
+    setHours('');
+    setNote('');
+    setError('');
+  };
+
+  const describe = (entry: TimeEntry) => {
+    const day = new Date(entry.StartedAt).toLocaleDateString();
+    if (entry.Hours !== undefined && entry.Hours !== null) return `${day} · logged by hand`;
+    if (isRunningEntry(entry)) return `${day} · timer running`;
+    const from = new Date(entry.StartedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const to = new Date(entry.EndedAt as Date | string).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    return `${day} · ${from} – ${to}`;
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        <Timer className="w-4 h-4" />
+        Time Logged{loggedHours !== null ? ` (${formatLoggedHours(loggedHours)})` : ''}
+      </label>
+
+      {entries.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg mb-2">
+          {entries.map((entry) => (
+            <li key={entry.id} className="group flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 dark:text-white truncate">
+                  <span className="font-medium">{formatLoggedHours(getEntryHours(entry))}</span>
+                  <span className="text-gray-500 dark:text-gray-400"> · {getUserName(entry.UserId)}</span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {describe(entry)}
+                  {entry.Note ? ` · ${entry.Note}` : ''}
+                </p>
+              </div>
+              {(entry.UserId === user?.id || canManage) && !isRunningEntry(entry) && (
+                <button
+                  onClick={() => deleteEntry(task, entry.id)}
+                  className="p-1 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  title="Delete entry"
+                  type="button"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">No time logged yet</p>
+      )}
+
+      {/* Log time by hand */}
+      {canTrack && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              value={hours}
+              onChange={(e) => {
+                setHours(e.target.value);
+                setError('');
+              }}
+              min="0.25"
+              max="24"
+              step="0.25"
+              placeholder="Hours"
+              aria-label="Hours worked"
+              className="w-24 px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-slate-700 dark:text-white"
+            />
+            <input
+              type="date"
+              value={date}
+              max={toDateInputValue(new Date())}
+              onChange={(e) => {
+                setDate(e.target.value);
+                setError('');
+              }}
+              aria-label="Day worked"
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-slate-700 dark:text-white"
+            />
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleLogTime();
+              }}
+              maxLength={255}
+              placeholder="What did you work on? (optional)"
+              className="flex-1 min-w-[10rem] px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-slate-700 dark:text-white"
+            />
+            <button
+              onClick={handleLogTime}
+              disabled={!hours.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:opacity-50"
+              type="button"
+            >
+              <Plus className="w-4 h-4" />
+              Log Time
+            </button>
+          </div>
+          {error && <p className="mt-1 text-sm text-red-500 dark:text-red-400">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+};
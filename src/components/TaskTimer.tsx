@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { Timer, Play, Pause, Square } from 'lucide-react';
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useTimeTracking } from '../hooks/useTimeTracking';
+import { getTimerState, getTimerHours, getLoggedHours, formatTimer, formatLoggedHours } from '../utils/timeTracking';
+
+interface TaskTimerProps {
+  task: Task;
+}
+
+/**
+ * TaskTimer Component
+ * The current user's start/pause/stop timer for a task, next to the total time logged on it
+ * Supports both light and dark modes
+ */
+export const TaskTimer = ({ task }: TaskTimerProps) => {
+  const { user, hasPermission } = useAuth();
+  const { start, pause, stop } = useTimeTracking();
+  const [now, setNow] = useState(() => new Date());
+
+  const state = user ? getTimerState(task, user.id) : 'idle';
+
+  // Tick every second while the timer runs
+  useEffect(() => {
+    if (state !== 'running') return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  const loggedHours = getLoggedHours(task, now);
+  const canTrack = !!user && !!task.id && hasPermission('time:track')
+    && task.Status !== TaskStatus.Completed && task.Status !== TaskStatus.Hold;
+
+  if (!canTrack && loggedHours === null) return null;
+
+  const buttonClass = 'p-1.5 rounded-md transition-colors border';
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300 transition-colors">
+      <div className="flex items-center min-w-0">
+        <Timer className={`w-4 h-4 mr-2 flex-shrink-0 ${state === 'running' ? 'text-green-600 dark:text-green-400 animate-pulse' : 'text-gray-500 dark:text-gray-400'}`} />
+        {state !== 'idle' && user ? (
+          <span className="font-mono font-medium" title={state === 'paused' ? 'Timer paused' : 'Timer running'}>
+            {formatTimer(getTimerHours(task, user.id, now))}
+            {state === 'paused' && <span className="ml-1 font-sans text-xs text-gray-500 dark:text-gray-400">paused</span>}
+          </span>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">
+            {loggedHours !== null ? `${formatLoggedHours(loggedHours)} logged` : 'No time logged'}
+          </span>
+        )}
+      </div>
+
+      {canTrack && (
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {state === 'running' ? (
+            <button
+              onClick={() => pause(task)}
+              className={`${buttonClass} text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/30 border-amber-200 dark:border-amber-800`}
+              title="Pause timer"
+              type="button"
+            >
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          ) : (
+            <button
+              onClick={() => start(task)}
+              className={`${buttonClass} text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-900/30 border-green-200 dark:border-green-800`}
+              title={state === 'paused' ? 'Resume timer' : 'Start timer'}
+              type="button"
+            >
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {state !== 'idle' && (
+            <button
+              onClick={() => stop(task)}
+              className={`${buttonClass} text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 border-gray-200 dark:border-slate-600`}
+              title="Stop timer"
+              type="button"
+            >
+              <Square className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { LayoutTemplate, Loader2, ArrowLeft, Lock } from 'lucide-react';
+import type { TaskTemplate } from '../types/template';
+import { templateService } from '../services/templates';
+import { NotFoundError } from '../services/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { useProjects } from '../contexts/ProjectsContext';
+import { getTemplateVariables, getBuiltInVariableValues } from '../utils/templates';
+
+interface TemplatePickerProps {
+  /** Use the template with the variable values (built-in and entered) */
+  onApply: (template: TaskTemplate, values: Record<string, string>) => void | Promise<void>;
+  onCancel: () => void;
+  /** True while the tasks of a template are being created */
+  isApplying?: boolean;
+}
+
+/**
+ * TemplatePicker Component
+ * Lists the saved task templates and asks for the values of their {{variables}}
+ * Supports both light and dark modes
+ */
+export const TemplatePicker = ({ onApply, onCancel, isApplying = false }: TemplatePickerProps) => {
+  const { user } = useAuth();
+  const { activeProject } = useProjects();
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [missing, setMissing] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTemplates = async () => {
+      try {
+        const loaded = await templateService.getTemplates();
+        if (!cancelled) {
+          setTemplates([...loaded].sort((a, b) => a.name.localeCompare(b.name)));
+        }
+      } catch (err) {
+        if (!cancelled && !(err instanceof NotFoundError)) {
+          setLoadError('Templates could not be loaded. Please try again.');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+  const variables = selected ? getTemplateVariables(selected) : [];
+
+  const selectTemplate = (template: TaskTemplate) => {
+    setSelectedId(template.id);
+    setValues({});
+    setMissing([]);
+  };
+
+  const handleApply = () => {
+    if (!selected) return;
+    const empty = variables.filter((name) => !values[name]?.trim());
+    if (empty.length > 0) {
+      setMissing(empty);
+      return;
+    }
+
+    const entered = Object.fromEntries(variables.map((name) => [name, values[name].trim()]));
+    onApply(selected, {
+      ...getBuiltInVariableValues({ userName: user?.fullName || user?.username, projectName: activeProject?.name }),
+      ...entered,
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {loadError && (
+        <p className="text-sm text-red-500 dark:text-red-400">{loadError}</p>
+      )}
+
+      {!selected ? (
+        templates.length === 0 ? (
+          !loadError && (
+            <p className="py-6 text-center text-gray-500 dark:text-gray-400">
+              No templates yet. Users who manage templates can add them on the Templates page.
+            </p>
+          )
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-md">
+            {templates.map((template) => (
+              <li key={template.id}>
+                <button
+                  type="button"
+                  onClick={() => selectTemplate(template)}
+                  className="w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                >
+                  <LayoutTemplate className="w-5 h-5 mt-0.5 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+                  <span className="min-w-0">
+                    <span className="block font-medium text-gray-900 dark:text-white truncate">{template.name}</span>
+                    <span className="block text-sm text-gray-500 dark:text-gray-400">
+                      {template.Tasks.length === 1 ? '1 task' : `${template.Tasks.length} tasks with dependencies`}
+                      {template.description ? ` · ${template.description}` : ''}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : (
+        <>
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-white">{selected.name}</h3>
+            {selected.description && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{selected.description}</p>
+            )}
+          </div>
+
+          {/* Variables */}
+          {variables.length > 0 && (
+            <div className="space-y-3">
+              {variables.map((name) => (
+                <div key={name}>
+                  <label
+                    htmlFor={`template-variable-${name}`}
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors"
+                  >
+                    {name} <span className="text-red-500 dark:text-red-400">*</span>
+                  </label>
+                  <input
+                    id={`template-variable-${name}`}
+                    type="text"
+                    value={values[name] ?? ''}
+                    onChange={(e) => {
+                      setValues((prev) => ({ ...prev, [name]: e.target.value }));
+                      setMissing((prev) => prev.filter((other) => other !== name));
+                    }}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-white transition-colors ${
+                      missing.includes(name)
+                        ? 'border-red-500 dark:border-red-400'
+                        : 'border-gray-300 dark:border-slate-600'
+                    }`}
+                    placeholder={`Value for {{${name}}}`}
+                  />
+                  {missing.includes(name) && (
+                    <p className="mt-1 text-sm text-red-500 dark:text-red-400">Enter a value for {name}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Tasks of a bundle */}
+          {selected.Tasks.length > 1 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Creates {selected.Tasks.length} tasks
+              </p>
+              <ol className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                {selected.Tasks.map((task, index) => {
+                  const blockers = selected.Tasks
+                    .map((other, otherIndex) => (task.BlockedBy.includes(other.Key) ? otherIndex + 1 : null))
+                    .filter((position): position is number => position !== null);
+                  return (
+                    <li key={task.Key} className="flex items-center gap-2">
+                      <span>{index + 1}. {task.Title}</span>
+                      {blockers.length > 0 && (
+                        <span className="inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                          <Lock className="w-3 h-3" />
+                          after {blockers.join(', ')}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Footer */}
+      <div className="flex justify-between gap-3 pt-4 border-t border-gray-200 dark:border-slate-700">
+        <button
+          type="button"
+          onClick={selected ? () => setSelectedId(null) : onCancel}
+          disabled={isApplying}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {selected ? 'All templates' : 'Blank task'}
+        </button>
+        {selected && (
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isApplying}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 dark:bg-blue-500 hover:bg-blue-700 dark:hover:bg-blue-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isApplying
+              ? 'Creating...'
+              : selected.Tasks.length > 1 ? `Create ${selected.Tasks.length} Tasks` : 'Use Template'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
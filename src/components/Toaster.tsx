@@ -0,0 +1,78 @@
+import { AlertCircle, AlertTriangle, CheckCircle, Info, X } from 'lucide-react';
+import type { Toast, ToastType } from '../contexts/ToastContext';
+
+interface ToasterProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+/**
+ * Icon and colors for each toast type
+ */
+const TOAST_STYLES: Record<ToastType, { icon: typeof Info; className: string; iconClassName: string }> = {
+  error: {
+    icon: AlertCircle,
+    className: 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/40',
+    iconClassName: 'text-red-600 dark:text-red-400',
+  },
+  warning: {
+    icon: AlertTriangle,
+    className: 'border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/40',
+    iconClassName: 'text-amber-600 dark:text-amber-400',
+  },
+  success: {
+    icon: CheckCircle,
+    className: 'border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/40',
+    iconClassName: 'text-green-600 dark:text-green-400',
+  },
+  info: {
+    icon: Info,
+    className: 'border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/40',
+    iconClassName: 'text-blue-600 dark:text-blue-400',
+  },
+};
+
+/**
+ * Toaster Component
+ * Stack of toast notifications in the bottom-right corner
+ * Supports both light and dark modes
+ */
+export const Toaster = ({ toasts, onDismiss }: ToasterProps) => {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 left-4 sm:left-auto z-[60] flex flex-col gap-3 sm:w-96"
+      aria-live="assertive"
+    >
+      {toasts.map((toast) => {
+        const style = TOAST_STYLES[toast.type];
+        const Icon = style.icon;
+
+        return (
+          <div
+            key={toast.id}
+            role={toast.type === 'error' ? 'alert' : 'status'}
+            className={`flex items-start gap-3 p-4 rounded-lg border shadow-lg backdrop-blur-sm transition-all duration-300 ${style.className}`}
+          >
+            <Icon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${style.iconClassName}`} />
+            <div className="flex-1 min-w-0">
+              {toast.title && (
+                <p className="text-sm font-semibold text-gray-900 dark:text-white">{toast.title}</p>
+              )}
+              <p className="text-sm text-gray-700 dark:text-gray-300 break-words">{toast.message}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onDismiss(toast.id)}
+              className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              aria-label="Dismiss notification"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
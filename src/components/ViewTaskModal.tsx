@@ -1,8 +1,27 @@
-import type { Task } from '../types';
+import { useState, useMemo } from 'react';
+import type { Task, ChecklistItem } from '../types';
 import { TaskStatus, TaskPriority } from '../types';
-import { X, Calendar, Clock, User as UserIcon, AlertCircle, CheckCircle2, PauseCircle } from 'lucide-react';
+import { X, Calendar, Clock, User as UserIcon, AlertCircle, CheckCircle2, PauseCircle, Plus, Trash2, ArrowUp, ArrowDown, CornerDownRight, Lock, Repeat } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useUsers } from '../contexts/UsersContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { taskApi } from '../services/api';
+import { AddTaskModal } from './AddTaskModal';
+import { TaskProgressBar } from './TaskProgressBar';
+import { TaskComments } from './TaskComments';
+import { TaskActivityLog } from './TaskActivityLog';
+import { TaskAttachmentList } from './TaskAttachmentList';
+import { TaskTimeLog } from './TaskTimeLog';
+import { TaskHoldHistory } from './TaskHoldHistory';
+import { LabelChips } from './LabelChips';
+import { selectSubtasks, selectBlockers, selectBlockedTasks } from '../utils/taskSelectors';
+import { getTaskProgress, getRolledUpHours } from '../utils/taskProgress';
+import { getUnfinishedBlockers } from '../utils/taskDependencies';
+import { describeRecurrence } from '../utils/recurrence';
+import { getLoggedHours } from '../utils/timeTracking';
 
 interface ViewTaskModalProps {
   isOpen: boolean;
@@ -10,16 +29,48 @@ interface ViewTaskModalProps {
   onClose: () => void;
 }
 
+/**
+ * Move a checklist item to a position (0-based), clamped to the list
+ */
+const moveChecklistItem = (items: ChecklistItem[], itemId: string, position: number): ChecklistItem[] => {
+  const item = items.find((other) => other.id === itemId);
+  if (!item) return items;
+  const rest = items.filter((other) => other.id !== itemId);
+  const index = Math.min(Math.max(position, 0), rest.length);
+  return [...rest.slice(0, index), item, ...rest.slice(index)];
+};
+
 /**
  * ViewTaskModal Component
- * Displays all task details in a read-only modal based on user permissions
+ * Displays all task details based on user permissions
+ * The checklist can be ticked off and subtasks added without leaving the modal
  */
-export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) => {
+export const ViewTaskModal = ({ isOpen, task: selectedTask, onClose }: ViewTaskModalProps) => {
   const { hasPermission, user } = useAuth();
   const { getUserName } = useUsers();
+  const { getStatusBadgeClass } = useWorkflow();
+  const { tasksById, changeTask } = useTaskStore();
+  const { showError } = useToast();
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [isAddSubtaskOpen, setIsAddSubtaskOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'activity'>('details');
+
+  // Show the latest copy from the store so checklist and subtask changes appear right away
+  const taskId = selectedTask?.id;
+  const task = (taskId && tasksById[taskId]) || selectedTask;
+  const subtasks = useMemo(() => (taskId ? selectSubtasks(tasksById, taskId) : []), [tasksById, taskId]);
+  const blockedTasks = useMemo(() => (taskId ? selectBlockedTasks(tasksById, taskId) : []), [tasksById, taskId]);
+  // Create a subtask under this task (AddTaskModal sets its ParentId)
+  const handleAddSubtask = useAddTask(setIsAddSubtaskOpen);
 
   if (!isOpen || !task) return null;
 
+  const checklist = task.Checklist ?? [];
+  const progress = getTaskProgress(task, subtasks);
+  const parentTask = task.ParentId ? tasksById[task.ParentId] : undefined;
+  const blockers = selectBlockers(tasksById, task);
+  const openBlockers = task.Status === TaskStatus.Completed ? [] : getUnfinishedBlockers(tasksById, task);
+
   // Check permissions
   const canViewAll = hasPermission('tasks:view-all');
   const canEdit = hasPermission('tasks:update');
@@ -31,23 +82,71 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
       ? task.AssignedTo.includes(user.id)
       : task.AssignedTo === user.id
   );
+  const canEditChecklist = canEdit || !!isAssigned;
+  const canAddSubtask = hasPermission('tasks:create') && !!task.id && !task.id.startsWith('temp-');
 
-  // Get status badge class
-  const getStatusBadgeClass = (status: TaskStatus) => {
-    switch (status) {
-      case TaskStatus.Pending:
-        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300 border-yellow-200 dark:border-yellow-800';
-      case TaskStatus.InProgress:
-        return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 border-blue-200 dark:border-blue-800';
-      case TaskStatus.Completed:
-        return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 border-green-200 dark:border-green-800';
-      case TaskStatus.Hold:
-        return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300 border-orange-200 dark:border-orange-800';
-      default:
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600';
+  // Save one checklist change (updated optimistically, rolled back if the server rejects it)
+  // Each item change is its own request, so changes others make to the checklist meanwhile are kept
+  const saveChecklistChange = async (
+    change: (items: ChecklistItem[]) => ChecklistItem[],
+    request: (taskId: string) => Promise<Task>
+  ) => {
+    if (!task.id) return;
+    const id = task.id;
+    try {
+      await changeTask(id, (current) => ({ ...current, Checklist: change(current.Checklist ?? []) }), () => request(id));
+    } catch (err) {
+      console.error('Failed to update checklist:', err);
+      showError(err, 'Failed to update checklist. Your change has been undone.');
     }
   };
 
+  const handleAddChecklistItem = () => {
+    const text = newChecklistItem.trim();
+    if (!text) return;
+    const item: ChecklistItem = {
+      id: `item-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      Text: text,
+      Done: false,
+    };
+    saveChecklistChange(
+      (items) => [...items.filter((other) => other.id !== item.id), item],
+      (id) => taskApi.addChecklistItem(id, item)
+    );
+    setNewChecklistItem('');
+  };
+
+  const handleToggleChecklistItem = (item: ChecklistItem) => {
+    const done = !item.Done;
+    saveChecklistChange(
+      (items) => items.map((other) => (other.id === item.id ? { ...other, Done: done } : other)),
+      (id) => taskApi.updateChecklistItem(id, item.id, { Done: done })
+    );
+  };
+
+  const handleMoveChecklistItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= checklist.length) return;
+    const itemId = checklist[index].id;
+    saveChecklistChange(
+      (items) => moveChecklistItem(items, itemId, target),
+      (id) => taskApi.updateChecklistItem(id, itemId, { Position: target })
+    );
+  };
+
+  const handleDeleteChecklistItem = (itemId: string) => {
+    saveChecklistChange(
+      (items) => items.filter((item) => item.id !== itemId),
+      (id) => taskApi.deleteChecklistItem(id, itemId)
+    );
+  };
+
+  // Open on the details tab next time
+  const handleClose = () => {
+    setActiveTab('details');
+    onClose();
+  };
+
   // Get priority badge class
   const getPriorityBadgeClass = (priority: TaskPriority) => {
     switch (priority) {
@@ -83,19 +182,6 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
     return d.toLocaleString();
   };
 
-  /**
-   * Calculate duration between StartedAt and CompletedAt in hours
-   */
-  const calculateDuration = (startedAt: Date | string | null | undefined, completedAt: Date | string | null | undefined): number | null => {
-    if (!startedAt || !completedAt) return null;
-    const start = typeof startedAt === 'string' ? new Date(startedAt) : startedAt;
-    const end = typeof completedAt === 'string' ? new Date(completedAt) : completedAt;
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
-    const diffMs = end.getTime() - start.getTime();
-    if (diffMs < 0) return null;
-    return diffMs / (1000 * 60 * 60); // Convert to hours
-  };
-
   /**
    * Format duration for display
    */
@@ -150,9 +236,9 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
     return Math.round(accuracy * 100) / 100; // Round to 2 decimal places
   };
 
-  // Calculate duration and accuracy for completed tasks
-  const duration = task.Status === TaskStatus.Completed 
-    ? calculateDuration(task.StartedAt, task.CompletedAt)
+  // Calculate duration (time logged) and accuracy for completed tasks
+  const duration = task.Status === TaskStatus.Completed
+    ? getLoggedHours(task)
     : null;
   const accuracy = task.Status === TaskStatus.Completed && duration !== null
     ? calculateAccuracy(duration, task.EstimatedHours || null)
@@ -167,7 +253,7 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
             Task Details
           </h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
             type="button"
           >
@@ -175,8 +261,35 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
           </button>
         </div>
 
+        {/* Tabs - the activity log only exists for tasks saved on the server */}
+        {task.id && !task.id.startsWith('temp-') && (
+          <div className="flex gap-6 px-6 border-b border-gray-200 dark:border-slate-700">
+            {(['details', 'activity'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`py-3 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  activeTab === tab
+                    ? 'border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+                type="button"
+              >
+                {tab === 'details' ? 'Details' : 'Activity'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Activity */}
+        {activeTab === 'activity' && task.id && (
+          <div className="p-6">
+            <TaskActivityLog key={task.id} taskId={task.id} />
+          </div>
+        )}
+
         {/* Content */}
-        <div className="p-6 space-y-6">
+        <div className={`p-6 space-y-6 ${activeTab === 'activity' ? 'hidden' : ''}`}>
           {/* Title */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -185,6 +298,13 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
             <p className="text-lg font-semibold text-gray-900 dark:text-white">
               {task.Title}
             </p>
+            {task.ParentId && (
+              <p className="mt-1 flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                <CornerDownRight className="w-4 h-4" />
+                Subtask of {parentTask?.Title ?? 'another task'}
+              </p>
+            )}
+            <LabelChips labelIds={task.Labels} className="mt-2" />
           </div>
 
           {/* Description */}
@@ -197,6 +317,200 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
             </p>
           </div>
 
+          {/* Progress */}
+          {progress && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Progress ({progress.percent}%)
+              </label>
+              <TaskProgressBar progress={progress} />
+            </div>
+          )}
+
+          {/* Checklist */}
+          {(checklist.length > 0 || canEditChecklist) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Checklist
+              </label>
+              {checklist.length > 0 && (
+                <ul className="space-y-1 mb-2">
+                  {checklist.map((item, index) => (
+                    <li key={item.id} className="group flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={item.Done}
+                        disabled={!canEditChecklist}
+                        onChange={() => handleToggleChecklistItem(item)}
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                      <span
+                        className={`flex-1 text-sm ${
+                          item.Done
+                            ? 'line-through text-gray-400 dark:text-gray-500'
+                            : 'text-gray-900 dark:text-white'
+                        }`}
+                      >
+                        {item.Text}
+                      </span>
+                      {canEditChecklist && (
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => handleMoveChecklistItem(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                            title="Move up"
+                            type="button"
+                          >
+                            <ArrowUp className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleMoveChecklistItem(index, 1)}
+                            disabled={index === checklist.length - 1}
+                            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                            title="Move down"
+                            type="button"
+                          >
+                            <ArrowDown className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteChecklistItem(item.id)}
+                            className="p-1 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                            title="Remove item"
+                            type="button"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canEditChecklist && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={newChecklistItem}
+                    onChange={(e) => setNewChecklistItem(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleAddChecklistItem();
+                    }}
+                    maxLength={255}
+                    placeholder="Add a checklist item"
+                    className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:bg-slate-700 dark:text-white"
+                  />
+                  <button
+                    onClick={handleAddChecklistItem}
+                    disabled={!newChecklistItem.trim()}
+                    className="p-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors disabled:opacity-50"
+                    title="Add item"
+                    type="button"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Subtasks */}
+          {(subtasks.length > 0 || canAddSubtask) && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Subtasks
+                </label>
+                {canAddSubtask && (
+                  <button
+                    onClick={() => setIsAddSubtaskOpen(true)}
+                    className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    type="button"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Subtask
+                  </button>
+                )}
+              </div>
+              {subtasks.length > 0 ? (
+                <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                  {subtasks.map((subtask) => (
+                    <li key={subtask.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <span
+                        className={`text-sm truncate ${
+                          subtask.Status === TaskStatus.Completed
+                            ? 'line-through text-gray-400 dark:text-gray-500'
+                            : 'text-gray-900 dark:text-white'
+                        }`}
+                      >
+                        {subtask.Title}
+                      </span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{subtask.EstimatedHours}h</span>
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border ${getStatusBadgeClass(subtask.Status)}`}>
+                          {subtask.Status}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No subtasks</p>
+              )}
+            </div>
+          )}
+
+          {/* Dependencies - Only show if the task is linked to other tasks */}
+          {(blockers.length > 0 || blockedTasks.length > 0) && (
+            <div className="space-y-4">
+              {openBlockers.length > 0 && (
+                <p className="flex items-center gap-2 text-sm font-medium text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-200 dark:border-red-800">
+                  <Lock className="w-4 h-4 flex-shrink-0" />
+                  This task cannot be started, resumed or completed until the tasks blocking it are completed.
+                </p>
+              )}
+              {[
+                { label: 'Blocked By', linkedTasks: blockers },
+                { label: 'Blocks', linkedTasks: blockedTasks },
+              ].filter(({ linkedTasks }) => linkedTasks.length > 0).map(({ label, linkedTasks }) => (
+                <div key={label}>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {label}
+                  </label>
+                  <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                    {linkedTasks.map((linked) => (
+                      <li key={linked.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <span
+                          className={`text-sm truncate ${
+                            linked.Status === TaskStatus.Completed
+                              ? 'line-through text-gray-400 dark:text-gray-500'
+                              : 'text-gray-900 dark:text-white'
+                          }`}
+                        >
+                          {linked.Title}
+                        </span>
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border flex-shrink-0 ${getStatusBadgeClass(linked.Status)}`}>
+                          {linked.Status}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Time Logged */}
+          <TaskTimeLog task={task} />
+
+          {/* Hold History */}
+          <TaskHoldHistory task={task} />
+
+          {/* Attachments - Only show if the task has files */}
+          {task.Attachments && task.Attachments.length > 0 && (
+            <TaskAttachmentList attachments={task.Attachments} />
+          )}
+
           {/* Status and Priority */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -280,6 +594,11 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
             <p className="text-gray-900 dark:text-white flex items-center gap-2">
               <Clock className="w-4 h-4 text-gray-500 dark:text-gray-400" />
               {task.EstimatedHours} hours
+              {subtasks.length > 0 && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  ({getRolledUpHours(task, subtasks)} hours including subtasks)
+                </span>
+              )}
             </p>
           </div>
 
@@ -294,6 +613,22 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
             </p>
           </div>
 
+          {/* Recurrence (recurring tasks only) */}
+          {task.Recurrence && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Repeats
+              </label>
+              <p className="text-gray-900 dark:text-white flex items-center gap-2">
+                <Repeat className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+                {describeRecurrence(task.Recurrence)}
+                {(task.OccurrenceIndex ?? 1) > 1 && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">(occurrence {task.OccurrenceIndex})</span>
+                )}
+              </p>
+            </div>
+          )}
+
           {/* Started Date/Time with comparison to scheduled (for completed tasks) */}
           {task.Status === TaskStatus.Completed && task.StartedAt && (
             <div>
@@ -443,6 +778,13 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
             )}
           </div>
 
+          {/* Comments - Only for tasks saved on the server */}
+          {task.id && !task.id.startsWith('temp-') && (
+            <div className="pt-4 border-t border-gray-200 dark:border-slate-700">
+              <TaskComments key={task.id} taskId={task.id} />
+            </div>
+          )}
+
           {/* Permissions Info */}
           <div className="pt-4 border-t border-gray-200 dark:border-slate-700">
             <p className="text-xs text-gray-500 dark:text-gray-400">
@@ -455,7 +797,7 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
         {/* Footer */}
         <div className="flex justify-end gap-3 p-6 pt-0 border-t border-gray-200 dark:border-slate-700">
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors"
             type="button"
           >
@@ -463,6 +805,14 @@ export const ViewTaskModal = ({ isOpen, task, onClose }: ViewTaskModalProps) =>
           </button>
         </div>
       </div>
+
+      {/* Add Subtask Modal */}
+      <AddTaskModal
+        isOpen={isAddSubtaskOpen}
+        onClose={() => setIsAddSubtaskOpen(false)}
+        onAddTask={handleAddSubtask}
+        parentTask={task}
+      />
     </div>
   );
 };
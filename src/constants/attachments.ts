@@ -0,0 +1,39 @@
+/**
+ * Task Attachment Limits
+ * Checked before uploading; the server enforces the same limits
+ */
+
+/**
+ * Largest file that can be uploaded, in bytes (10 MB)
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Most files a single task can have
+ */
+export const MAX_ATTACHMENTS_PER_TASK = 10;
+
+/**
+ * File types that can be uploaded, by MIME type
+ */
+export const ALLOWED_ATTACHMENT_TYPES: string[] = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/**
+ * File extensions offered by the file picker, matching ALLOWED_ATTACHMENT_TYPES
+ */
+export const ALLOWED_ATTACHMENT_EXTENSIONS: string[] = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.pdf', '.txt', '.csv', '.zip', '.doc', '.docx', '.xls', '.xlsx',
+];
@@ -57,6 +57,38 @@ export const IMPLEMENTED_PERMISSIONS: PermissionCategory[] = [
       },
     ],
   },
+  {
+    category: 'Comments',
+    description: 'Discuss tasks in their comment threads',
+    permissions: [
+      {
+        value: 'comments:create',
+        label: 'Post Comments',
+        description: 'Comment on and reply to tasks you can see, and mention other users',
+      },
+      {
+        value: 'comments:delete-any',
+        label: 'Delete Any Comment',
+        description: "Delete other users' comments (authors can always delete their own)",
+      },
+    ],
+  },
+  {
+    category: 'Time Tracking',
+    description: 'Record the time spent working on tasks',
+    permissions: [
+      {
+        value: 'time:track',
+        label: 'Track Time',
+        description: 'Run a timer and log time by hand on the tasks you can see',
+      },
+      {
+        value: 'time:manage',
+        label: 'Manage Time Entries',
+        description: 'Delete time logged by other users (users can always delete their own)',
+      },
+    ],
+  },
   {
     category: 'User Management',
     description: 'Manage users: create, view, update, delete users and change passwords',
@@ -114,6 +146,61 @@ export const IMPLEMENTED_PERMISSIONS: PermissionCategory[] = [
       },
     ],
   },
+  {
+    category: 'Workflow',
+    description: 'Configure the task workflow: statuses and the transitions between them',
+    permissions: [
+      {
+        value: 'workflow:manage',
+        label: 'Manage Workflow',
+        description: 'Add statuses and choose who can move tasks between them',
+      },
+    ],
+  },
+  {
+    category: 'Labels',
+    description: 'Manage the labels tasks can be tagged with',
+    permissions: [
+      {
+        value: 'labels:manage',
+        label: 'Manage Labels',
+        description: 'Create, rename, recolor and delete labels',
+      },
+    ],
+  },
+  {
+    category: 'Templates',
+    description: 'Manage the templates new tasks can be created from',
+    permissions: [
+      {
+        value: 'templates:manage',
+        label: 'Manage Templates',
+        description: 'Create, edit and delete task templates, including bundles of tasks with dependencies',
+      },
+    ],
+  },
+  {
+    category: 'Projects',
+    description: 'Manage projects and who works in them',
+    permissions: [
+      {
+        value: 'projects:manage',
+        label: 'Manage Projects',
+        description: 'Create, rename and delete projects, and choose their members and the role each member has in them',
+      },
+    ],
+  },
+  {
+    category: 'Audit',
+    description: 'Review the history of changes made to tasks',
+    permissions: [
+      {
+        value: 'audit:view',
+        label: 'View Audit Log',
+        description: 'View the activity of all tasks on the Audit Log page',
+      },
+    ],
+  },
   {
     category: 'Dashboard',
     description: 'Access dashboard and view statistics',
@@ -143,6 +230,11 @@ export const IMPLEMENTED_PERMISSIONS: PermissionCategory[] = [
         label: 'View Task Duration',
         description: 'View completed task duration statistics on the dashboard',
       },
+      {
+        value: 'dashboard:view-holds',
+        label: 'View Time Lost to Holds',
+        description: 'View the time tasks spent on hold per hold reason on the dashboard',
+      },
     ],
   },
 ];
@@ -155,3 +247,16 @@ export const getAllPermissionValues = (): string[] => {
     category.permissions.map(p => p.value)
   );
 };
+
+/**
+ * Permission prefixes a project role can grant or withhold
+ * Every other permission always comes from the user's account role
+ */
+const PROJECT_SCOPED_PREFIXES = ['tasks:', 'comments:'];
+
+/**
+ * Check if a permission is decided by the user's role in the active project
+ */
+export const isProjectScopedPermission = (permission: string): boolean => {
+  return PROJECT_SCOPED_PREFIXES.some((prefix) => permission.startsWith(prefix));
+};
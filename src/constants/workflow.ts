@@ -0,0 +1,65 @@
+/**
+ * Task Workflow Defaults
+ * Used until the server's workflow is loaded, and by servers without a configurable workflow
+ */
+
+import { TaskStatus } from '../types';
+import type { StatusColor, Workflow } from '../types/workflow';
+
+/**
+ * Statuses the system depends on: they cannot be renamed or removed
+ */
+export const BUILT_IN_STATUSES: string[] = [
+  TaskStatus.Pending,
+  TaskStatus.InProgress,
+  TaskStatus.Hold,
+  TaskStatus.Completed,
+];
+
+/**
+ * Colors offered for statuses, with their labels
+ */
+export const STATUS_COLORS: { value: StatusColor; label: string }[] = [
+  { value: 'gray', label: 'Gray' },
+  { value: 'yellow', label: 'Yellow' },
+  { value: 'blue', label: 'Blue' },
+  { value: 'indigo', label: 'Indigo' },
+  { value: 'purple', label: 'Purple' },
+  { value: 'orange', label: 'Orange' },
+  { value: 'red', label: 'Red' },
+  { value: 'green', label: 'Green' },
+];
+
+/**
+ * Hold reasons offered until an admin configures their own
+ */
+export const DEFAULT_HOLD_REASONS: string[] = [
+  'Waiting on customer',
+  'Waiting on another team',
+  'Missing information',
+  'Blocked by another task',
+  'Deprioritized',
+  'Other',
+];
+
+/**
+ * The original workflow: Pending -> In Progress -> Completed, with Hold from either open status
+ * Status updates need tasks:update (or being assigned); hold and resume need tasks:hold
+ */
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { name: TaskStatus.Pending, color: 'yellow' },
+    { name: TaskStatus.InProgress, color: 'blue' },
+    { name: TaskStatus.Hold, color: 'orange' },
+    { name: TaskStatus.Completed, color: 'green' },
+  ],
+  transitions: [
+    { from: TaskStatus.Pending, to: TaskStatus.InProgress, permission: 'tasks:update', allowAssignee: true, requiresComment: false },
+    { from: TaskStatus.InProgress, to: TaskStatus.Completed, permission: 'tasks:update', allowAssignee: true, requiresComment: false },
+    { from: TaskStatus.Pending, to: TaskStatus.Hold, permission: 'tasks:hold', allowAssignee: false, requiresComment: false },
+    { from: TaskStatus.InProgress, to: TaskStatus.Hold, permission: 'tasks:hold', allowAssignee: false, requiresComment: false },
+    { from: TaskStatus.Hold, to: TaskStatus.Pending, permission: 'tasks:hold', allowAssignee: false, requiresComment: false },
+    { from: TaskStatus.Hold, to: TaskStatus.InProgress, permission: 'tasks:hold', allowAssignee: false, requiresComment: false },
+  ],
+  holdReasons: DEFAULT_HOLD_REASONS,
+};
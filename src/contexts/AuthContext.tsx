@@ -1,6 +1,10 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import type { User, LoginCredentials, CreateUserDTO } from '../types/auth';
 import { authService } from '../services/auth';
+import { socketService } from '../services/socket';
+import { tabSync } from '../services/tabSync';
+import { SessionExpiryModal } from '../components/SessionExpiryModal';
+import { isProjectScopedPermission } from '../constants/permissions';
 
 /**
  * Authentication context interface
@@ -17,10 +21,33 @@ interface AuthContextType {
   hasPermission: (permission: string) => boolean;
   hasAnyPermission: (...permissions: string[]) => boolean;
   hasAllPermissions: (...permissions: string[]) => boolean;
+  /**
+   * Use the permissions of the user's role in the active project for task and comment checks
+   * null falls back to the account role
+   */
+  setProjectPermissions: (permissions: string[] | null) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+type SessionStatus = 'active' | 'expiring' | 'expired';
+
+// Warn this long before the session ends
+const SESSION_WARNING_MS = 2 * 60 * 1000;
+
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Get the session status for an expiry time (null = no known expiry)
+ */
+const getSessionStatus = (expiresAt: Date | null): SessionStatus => {
+  if (!expiresAt) return 'active';
+  const timeLeft = expiresAt.getTime() - Date.now();
+  if (timeLeft <= 0) return 'expired';
+  return timeLeft <= SESSION_WARNING_MS ? 'expiring' : 'active';
+};
+
 /**
  * AuthProvider component
  * Manages authentication state and provides auth methods
@@ -29,22 +56,29 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus>('active');
+  const [projectPermissions, setProjectPermissions] = useState<string[] | null>(null);
 
   // Load user and token from localStorage on mount
   useEffect(() => {
     const storedToken = localStorage.getItem('authToken');
     const storedUser = localStorage.getItem('authUser');
+    const storedRefreshToken = localStorage.getItem('authRefreshToken');
 
     if (storedToken && storedUser) {
       try {
         setToken(storedToken);
         setUser(JSON.parse(storedUser));
-        // Set token in auth service
+        // Set tokens in auth service and socket handshake
+        authService.setRefreshToken(storedRefreshToken);
         authService.setToken(storedToken);
+        socketService.setAuthToken(storedToken);
         // Verify token is still valid by fetching current user
         authService.getCurrentUser()
           .then((currentUser) => {
             setUser(currentUser);
+            localStorage.setItem('authUser', JSON.stringify(currentUser));
+            tabSync.post({ type: 'auth:user', user: currentUser });
           })
           .catch(() => {
             // Token invalid, clear storage
@@ -63,6 +97,78 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   }, []);
 
+  // Ask for the password in place when the session can no longer be renewed
+  useEffect(() => {
+    return authService.onUnauthorized(() => setSessionStatus('expired'));
+  }, []);
+
+  // Persist renewed tokens and hand them to the socket for its next handshake
+  useEffect(() => {
+    return authService.onTokenRefreshed((tokens) => {
+      setToken(tokens.token);
+      localStorage.setItem('authToken', tokens.token);
+      if (tokens.refreshToken) {
+        localStorage.setItem('authRefreshToken', tokens.refreshToken);
+      }
+      socketService.refreshAuthToken(tokens.token);
+      setSessionStatus(getSessionStatus(authService.getSessionExpiry()));
+      tabSync.post({ type: 'auth:token', token: tokens.token, refreshToken: tokens.refreshToken ?? null });
+    });
+  }, []);
+
+  // Follow logins, logouts and renewed tokens from other tabs (they already updated localStorage)
+  useEffect(() => {
+    return tabSync.subscribe((message) => {
+      switch (message.type) {
+        case 'auth:login':
+          authService.setRefreshToken(message.refreshToken);
+          authService.setToken(message.token);
+          socketService.setAuthToken(message.token);
+          setUser(message.user);
+          setToken(message.token);
+          setSessionStatus(getSessionStatus(authService.getSessionExpiry()));
+          break;
+        case 'auth:logout':
+          authService.setRefreshToken(null);
+          authService.setToken(null);
+          socketService.setAuthToken(null);
+          setUser(null);
+          setToken(null);
+          setSessionStatus('active');
+          break;
+        case 'auth:user':
+          setUser(message.user);
+          break;
+        case 'auth:token':
+          authService.setRefreshToken(message.refreshToken);
+          authService.setToken(message.token);
+          socketService.refreshAuthToken(message.token);
+          setToken(message.token);
+          setSessionStatus(getSessionStatus(authService.getSessionExpiry()));
+          break;
+      }
+    });
+  }, []);
+
+  // Warn before the session ends and mark it expired when it does
+  useEffect(() => {
+    const expiresAt = token ? authService.getSessionExpiry() : null;
+    if (!expiresAt) return;
+
+    const timeLeft = expiresAt.getTime() - Date.now();
+    if (timeLeft > MAX_TIMER_MS) return;
+
+    const warningTimer = setTimeout(() => {
+      setSessionStatus((status) => (status === 'active' ? 'expiring' : status));
+    }, Math.max(timeLeft - SESSION_WARNING_MS, 0));
+    const expiryTimer = setTimeout(() => setSessionStatus('expired'), Math.max(timeLeft, 0));
+
+    return () => {
+      clearTimeout(warningTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [token]);
+
   /**
    * Login function
    */
@@ -71,9 +177,21 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       const response = await authService.login(credentials);
       setUser(response.user);
       setToken(response.token);
+      setSessionStatus(getSessionStatus(authService.getSessionExpiry()));
       localStorage.setItem('authToken', response.token);
       localStorage.setItem('authUser', JSON.stringify(response.user));
-      authService.setToken(response.token);
+      if (response.refreshToken) {
+        localStorage.setItem('authRefreshToken', response.refreshToken);
+      } else {
+        localStorage.removeItem('authRefreshToken');
+      }
+      socketService.setAuthToken(response.token);
+      tabSync.post({
+        type: 'auth:login',
+        user: response.user,
+        token: response.token,
+        refreshToken: response.refreshToken ?? null,
+      });
     } catch (error) {
       console.error('Login error:', error);
       throw error;
@@ -86,9 +204,34 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const logout = (): void => {
     setUser(null);
     setToken(null);
+    setSessionStatus('active');
     localStorage.removeItem('authToken');
     localStorage.removeItem('authUser');
+    localStorage.removeItem('authRefreshToken');
+    authService.setRefreshToken(null);
     authService.setToken(null);
+    // Closes the socket so no further events are received for this user
+    socketService.setAuthToken(null);
+    tabSync.post({ type: 'auth:logout' });
+  };
+
+  /**
+   * Renew the session from the expiry warning
+   * Fails if the refreshed session still ends soon, so the password is asked for instead
+   */
+  const staySignedIn = async (): Promise<void> => {
+    await authService.refreshSession();
+    if (getSessionStatus(authService.getSessionExpiry()) !== 'active') {
+      throw new Error('Your session cannot be extended any further. Enter your password to continue.');
+    }
+  };
+
+  /**
+   * Sign in again as the current user without leaving the page
+   */
+  const reauthenticate = async (password: string): Promise<void> => {
+    if (!user) return;
+    await login({ username: user.username, password });
   };
 
   /**
@@ -104,19 +247,32 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  /**
+   * Get the permissions a check is made against
+   * Task and comment permissions come from the user's role in the active project, if it has one
+   */
+  const getPermissionsFor = (permission: string): string[] | undefined => {
+    if (!user) return undefined;
+    if (projectPermissions && isProjectScopedPermission(permission)) {
+      return projectPermissions;
+    }
+    return user.permissions;
+  };
+
   /**
    * Check if user has a specific permission
    * Automatically grants tasks:read if tasks:view-all is enabled
    */
   const hasPermission = (permission: string): boolean => {
-    if (!user?.permissions) return false;
+    const permissions = getPermissionsFor(permission);
+    if (!permissions) return false;
     
     // If checking for tasks:read, automatically grant it if tasks:view-all is enabled
     if (permission === 'tasks:read') {
-      return user.permissions.includes(permission) || user.permissions.includes('tasks:view-all');
+      return permissions.includes(permission) || permissions.includes('tasks:view-all');
     }
     
-    return user.permissions.includes(permission);
+    return permissions.includes(permission);
   };
 
   /**
@@ -124,18 +280,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
    * Automatically grants tasks:read if tasks:view-all is enabled
    */
   const hasAnyPermission = (...permissions: string[]): boolean => {
-    if (!user?.permissions) return false;
-    
-    // Check if user has tasks:view-all, which grants tasks:read automatically
-    const hasViewAll = user.permissions.includes('tasks:view-all');
-    
-    return permissions.some(permission => {
-      // If checking for tasks:read, automatically grant it if tasks:view-all is enabled
-      if (permission === 'tasks:read' && hasViewAll) {
-        return true;
-      }
-      return user.permissions!.includes(permission);
-    });
+    return permissions.some(hasPermission);
   };
 
   /**
@@ -144,17 +289,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
    */
   const hasAllPermissions = (...permissions: string[]): boolean => {
     if (!user?.permissions) return false;
-    
-    // Check if user has tasks:view-all, which grants tasks:read automatically
-    const hasViewAll = user.permissions.includes('tasks:view-all');
-    
-    return permissions.every(permission => {
-      // If checking for tasks:read, automatically grant it if tasks:view-all is enabled
-      if (permission === 'tasks:read' && hasViewAll) {
-        return true;
-      }
-      return user.permissions!.includes(permission);
-    });
+    return permissions.every(hasPermission);
   };
 
   const value: AuthContextType = {
@@ -169,9 +304,25 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     hasPermission,
     hasAnyPermission,
     hasAllPermissions,
+    setProjectPermissions,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      {user && sessionStatus !== 'active' && (
+        <SessionExpiryModal
+          user={user}
+          isExpired={sessionStatus === 'expired'}
+          expiresAt={authService.getSessionExpiry()}
+          canRefresh={authService.canRefresh()}
+          onStaySignedIn={staySignedIn}
+          onReauthenticate={reauthenticate}
+          onLogout={logout}
+        />
+      )}
+    </AuthContext.Provider>
+  );
 };
 
 /**
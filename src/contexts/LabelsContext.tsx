@@ -0,0 +1,116 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { Label, CreateLabelDTO, UpdateLabelDTO } from '../types/label';
+import { labelService } from '../services/labels';
+import { socketService } from '../services/socket';
+import { NotFoundError } from '../services/errors';
+import { getStatusBadgeClass } from '../utils/taskWorkflow';
+import { useAuth } from './AuthContext';
+
+/**
+ * Labels context interface
+ */
+interface LabelsContextType {
+  /** Labels sorted by name */
+  labels: Label[];
+  loading: boolean;
+  getLabelById: (id: string) => Label | undefined;
+  getLabelBadgeClass: (id: string) => string;
+  createLabel: (labelData: CreateLabelDTO) => Promise<Label>;
+  updateLabel: (id: string, labelData: UpdateLabelDTO) => Promise<Label>;
+  deleteLabel: (id: string) => Promise<void>;
+  refreshLabels: () => Promise<void>;
+}
+
+const LabelsContext = createContext<LabelsContextType | undefined>(undefined);
+
+const byName = (a: Label, b: Label) => a.name.localeCompare(b.name);
+
+/**
+ * LabelsProvider component
+ * Loads the labels tasks can be tagged with and keeps them in sync with changes made elsewhere
+ * Servers without labels get an empty list
+ */
+export const LabelsProvider = ({ children }: { children: ReactNode }) => {
+  const { isAuthenticated } = useAuth();
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Fetch all labels, keeping the current ones if they cannot be loaded
+   */
+  const refreshLabels = useCallback(async () => {
+    try {
+      const loaded = await labelService.getLabels();
+      setLabels([...loaded].sort(byName));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        console.log('Server has no labels endpoint. Labels are disabled.');
+      } else {
+        console.error('Error fetching labels:', error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fetch labels on login
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    refreshLabels();
+  }, [isAuthenticated, refreshLabels]);
+
+  // Pick up labels added, renamed or deleted elsewhere
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return socketService.on('labels:updated', () => {
+      console.log('📥 Received labels:updated event - refreshing labels');
+      refreshLabels();
+    });
+  }, [isAuthenticated, refreshLabels]);
+
+  const labelsById = useMemo(() => {
+    return Object.fromEntries(labels.map((label) => [label.id, label])) as Record<string, Label>;
+  }, [labels]);
+
+  const createLabel = async (labelData: CreateLabelDTO) => {
+    const created = await labelService.createLabel(labelData);
+    setLabels((prev) => [...prev, created].sort(byName));
+    return created;
+  };
+
+  const updateLabel = async (id: string, labelData: UpdateLabelDTO) => {
+    const updated = await labelService.updateLabel(id, labelData);
+    setLabels((prev) => prev.map((label) => (label.id === id ? updated : label)).sort(byName));
+    return updated;
+  };
+
+  const deleteLabel = async (id: string) => {
+    await labelService.deleteLabel(id);
+    setLabels((prev) => prev.filter((label) => label.id !== id));
+  };
+
+  const value: LabelsContextType = {
+    labels,
+    loading,
+    getLabelById: (id) => labelsById[id],
+    getLabelBadgeClass: (id) => getStatusBadgeClass(labelsById[id]?.color ?? 'gray'),
+    createLabel,
+    updateLabel,
+    deleteLabel,
+    refreshLabels,
+  };
+
+  return <LabelsContext.Provider value={value}>{children}</LabelsContext.Provider>;
+};
+
+/**
+ * Hook to use labels context
+ */
+export const useLabels = (): LabelsContextType => {
+  const context = useContext(LabelsContext);
+  if (context === undefined) {
+    throw new Error('useLabels must be used within a LabelsProvider');
+  }
+  return context;
+};
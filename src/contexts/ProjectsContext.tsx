@@ -0,0 +1,184 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { Project, CreateProjectDTO, UpdateProjectDTO } from '../types/project';
+import { projectService } from '../services/projects';
+import { socketService } from '../services/socket';
+import { tabSync } from '../services/tabSync';
+import { NotFoundError } from '../services/errors';
+import { useAuth } from './AuthContext';
+
+/**
+ * Projects context interface
+ */
+interface ProjectsContextType {
+  /** Projects sorted by name */
+  projects: Project[];
+  loading: boolean;
+  /** The project tasks are shown and created in; null when the user has no projects */
+  activeProject: Project | null;
+  activeProjectId: string | null;
+  selectProject: (id: string) => void;
+  getProjectById: (id: string) => Project | undefined;
+  createProject: (projectData: CreateProjectDTO) => Promise<Project>;
+  updateProject: (id: string, projectData: UpdateProjectDTO) => Promise<Project>;
+  deleteProject: (id: string) => Promise<void>;
+  refreshProjects: () => Promise<void>;
+}
+
+const ProjectsContext = createContext<ProjectsContextType | undefined>(undefined);
+
+// localStorage key of the project chosen last
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+
+const byName = (a: Project, b: Project) => a.name.localeCompare(b.name);
+
+/**
+ * Read the project chosen last
+ */
+const loadStoredProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remember the chosen project for the next visit
+ */
+const storeProjectId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to save the active project to localStorage:', error);
+  }
+};
+
+/**
+ * ProjectsProvider component
+ * Loads the user's projects and holds the active one, shared by all open tabs
+ * The user's role in the active project decides their task and comment permissions
+ * Servers without projects get an empty list and tasks are not scoped
+ */
+export const ProjectsProvider = ({ children }: { children: ReactNode }) => {
+  const { isAuthenticated, setProjectPermissions } = useAuth();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(loadStoredProjectId);
+
+  /**
+   * Fetch the user's projects, keeping the current ones if they cannot be loaded
+   */
+  const refreshProjects = useCallback(async () => {
+    try {
+      const loaded = await projectService.getProjects();
+      setProjects([...loaded].sort(byName));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        console.log('Server has no projects endpoint. Projects are disabled.');
+      } else {
+        console.error('Error fetching projects:', error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fetch projects on login and forget them on logout
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setProjects([]);
+      setLoading(true);
+      return;
+    }
+    refreshProjects();
+  }, [isAuthenticated, refreshProjects]);
+
+  // Pick up projects added, renamed or deleted and membership changes made elsewhere
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return socketService.on('projects:updated', () => {
+      console.log('📥 Received projects:updated event - refreshing projects');
+      refreshProjects();
+    });
+  }, [isAuthenticated, refreshProjects]);
+
+  // Follow project switches made in other tabs
+  useEffect(() => {
+    return tabSync.subscribe((message) => {
+      if (message.type === 'project') {
+        setSelectedId(message.projectId);
+      }
+    });
+  }, []);
+
+  const projectsById = useMemo(() => {
+    return Object.fromEntries(projects.map((project) => [project.id, project])) as Record<string, Project>;
+  }, [projects]);
+
+  // The chosen project, or the first one if it was deleted or the user left it
+  const activeProject = (selectedId ? projectsById[selectedId] : undefined) ?? projects[0] ?? null;
+  const activeProjectId = activeProject?.id ?? null;
+
+  // Apply the user's role in the active project
+  const activePermissions = activeProject?.MyPermissions ?? null;
+  useEffect(() => {
+    setProjectPermissions(activePermissions);
+  }, [activePermissions, setProjectPermissions]);
+
+  /**
+   * Switch to another project in this tab and the user's other tabs
+   */
+  const selectProject = useCallback((id: string) => {
+    setSelectedId(id);
+    storeProjectId(id);
+    tabSync.post({ type: 'project', projectId: id });
+  }, []);
+
+  const createProject = async (projectData: CreateProjectDTO) => {
+    const created = await projectService.createProject(projectData);
+    setProjects((prev) => [...prev, created].sort(byName));
+    return created;
+  };
+
+  const updateProject = async (id: string, projectData: UpdateProjectDTO) => {
+    const updated = await projectService.updateProject(id, projectData);
+    setProjects((prev) => prev.map((project) => (project.id === id ? updated : project)).sort(byName));
+    return updated;
+  };
+
+  const deleteProject = async (id: string) => {
+    await projectService.deleteProject(id);
+    setProjects((prev) => prev.filter((project) => project.id !== id));
+  };
+
+  const value: ProjectsContextType = {
+    projects,
+    loading,
+    activeProject,
+    activeProjectId,
+    selectProject,
+    getProjectById: (id) => projectsById[id],
+    createProject,
+    updateProject,
+    deleteProject,
+    refreshProjects,
+  };
+
+  return <ProjectsContext.Provider value={value}>{children}</ProjectsContext.Provider>;
+};
+
+/**
+ * Hook to use projects context
+ */
+export const useProjects = (): ProjectsContextType => {
+  const context = useContext(ProjectsContext);
+  if (context === undefined) {
+    throw new Error('useProjects must be used within a ProjectsProvider');
+  }
+  return context;
+};
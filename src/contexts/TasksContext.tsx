@@ -0,0 +1,969 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+import { taskApi, isNetworkError, type CreateTaskDTO, type UpdateTaskDTO } from '../services/api';
+import { socketService } from '../services/socket';
+import { tabSync } from '../services/tabSync';
+import { offlineQueue, type QueuedMutation, type QueuedMutationRecord } from '../services/offlineQueue';
+import { getErrorMessage } from '../services/errors';
+import { useAuth } from './AuthContext';
+import { useProjects } from './ProjectsContext';
+import { isAssignedTo, type TaskMap } from '../utils/taskSelectors';
+import { parseTask } from '../utils/schemas';
+import { stopTimer } from '../utils/timeTracking';
+import { startHold, endHold, getOpenHold } from '../utils/holds';
+
+/**
+ * A queued offline change that could not be replayed because
+ * the server copy of the task changed in the meantime
+ */
+export interface SyncConflict {
+  taskId: string;
+  type: 'update' | 'delete';
+  localTask?: Task;
+  serverTask: Task;
+}
+
+/**
+ * Tasks context interface
+ */
+interface TasksContextType {
+  tasksById: TaskMap;
+  loading: boolean;
+  error: string | null;
+  pendingSyncIds: Set<string>;
+  syncConflicts: SyncConflict[];
+  refreshTasks: () => Promise<void>;
+  createTask: (taskData: CreateTaskDTO) => Promise<Task>;
+  updateTask: (id: string, taskData: UpdateTaskDTO) => Promise<Task>;
+  changeTask: (id: string, change: (task: Task) => Task, request: () => Promise<Task>) => Promise<Task>;
+  deleteTask: (id: string) => Promise<void>;
+  resolveSyncConflict: (taskId: string, keep: 'local' | 'server') => Promise<void>;
+}
+
+const TasksContext = createContext<TasksContextType | undefined>(undefined);
+
+/**
+ * A change sent to the server that has not been answered yet
+ * baseUpdatedAt is the server version of the task the change was made against
+ * A 'change' went through one of the task's own endpoints (e.g. its time entries)
+ * and is re-applied with its function, so it never replaces other users' items
+ */
+type PendingMutation =
+  | { type: 'update'; data: UpdateTaskDTO; baseUpdatedAt: number }
+  | { type: 'change'; apply: (task: Task) => Task; baseUpdatedAt: number }
+  | { type: 'delete'; baseUpdatedAt: number };
+
+// Lock that lets one tab at a time replay the shared offline queue
+const REPLAY_LOCK = 'taskmaster-offline-replay';
+
+/**
+ * Get the UpdatedAt timestamp of a task in milliseconds
+ */
+const getUpdatedAtTime = (task: Task): number => {
+  return task.UpdatedAt ? new Date(task.UpdatedAt).getTime() : 0;
+};
+
+/**
+ * Validate a task received over the socket
+ * Payloads that cannot be repaired are logged and ignored
+ */
+const parseSocketTask = (payload: unknown): Task | null => {
+  try {
+    return parseTask(payload);
+  } catch (err) {
+    console.error('Ignoring invalid task from socket event:', err);
+    return null;
+  }
+};
+
+/**
+ * Apply an update DTO to a local task copy
+ * Used for optimistic updates before the server responds
+ */
+const applyTaskUpdate = (task: Task, taskData: UpdateTaskDTO): Task => {
+  const { ScheduledStartDate, ScheduledStartTime, Hold, ...fields } = taskData;
+  const updated: Task = { ...task, ...fields, UpdatedAt: new Date() };
+
+  if ('ScheduledStartDate' in taskData) {
+    updated.ScheduledStartDate = ScheduledStartDate || undefined;
+  }
+  if ('ScheduledStartTime' in taskData) {
+    updated.ScheduledStartTime = ScheduledStartTime || undefined;
+  }
+
+  // Mirror the timestamps the backend sets on status transitions
+  if (taskData.Status === TaskStatus.InProgress && !task.StartedAt) {
+    updated.StartedAt = new Date();
+  }
+  if (taskData.Status === TaskStatus.Completed && !task.CompletedAt) {
+    updated.CompletedAt = new Date();
+  }
+  if ((taskData.Status === TaskStatus.Hold || taskData.Status === TaskStatus.Completed) && task.TimeEntries) {
+    updated.TimeEntries = stopTimer(task.TimeEntries, null);
+  }
+  // A move to Hold opens a hold (unless the copy already shows it) and any other move ends it
+  if (taskData.Status === TaskStatus.Hold && Hold && !(task.Status === TaskStatus.Hold && getOpenHold(task))) {
+    updated.HoldIntervals = startHold(task.HoldIntervals ?? [], Hold, null);
+  } else if (taskData.Status && taskData.Status !== TaskStatus.Hold && getOpenHold(task)) {
+    updated.HoldIntervals = endHold(task.HoldIntervals ?? []);
+  }
+
+  return updated;
+};
+
+/**
+ * Re-apply in-flight updates on top of a server copy of a task
+ */
+const applyPendingUpdates = (task: Task, pending: PendingMutation[]): Task => {
+  return pending.reduce((current, mutation) => {
+    if (mutation.type === 'update') return applyTaskUpdate(current, mutation.data);
+    if (mutation.type === 'change') return mutation.apply(current);
+    return current;
+  }, task);
+};
+
+/**
+ * Build a placeholder task for an optimistic create
+ * The temporary id is replaced by the server id once the create succeeds
+ */
+const buildOptimisticTask = (taskData: CreateTaskDTO, id?: string, createdAt: Date = new Date()): Task => {
+  return {
+    ...taskData,
+    id: id || `temp-${createdAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    CreatedAt: createdAt,
+    UpdatedAt: createdAt,
+    ScheduledStartDate: taskData.ScheduledStartDate || undefined,
+    ScheduledStartTime: taskData.ScheduledStartTime || undefined,
+  };
+};
+
+/**
+ * Check if a task belongs to another project than the active one
+ * Tasks without a project are shown everywhere
+ */
+const isInOtherProject = (task: Pick<Task, 'ProjectId'>, projectId: string | null): boolean => {
+  return !!projectId && !!task.ProjectId && task.ProjectId !== projectId;
+};
+
+/**
+ * Re-apply queued offline changes on top of a task map
+ * Queued creates for other projects than the active one are left out
+ * Safe to run more than once for the same records
+ */
+const applyQueuedMutations = (tasksById: TaskMap, records: QueuedMutationRecord[], projectId: string | null = null): TaskMap => {
+  if (records.length === 0) return tasksById;
+
+  const next = { ...tasksById };
+  records.forEach((record) => {
+    if (record.type === 'create') {
+      if (!next[record.taskId] && !isInOtherProject(record.data, projectId)) {
+        next[record.taskId] = buildOptimisticTask(record.data, record.taskId, new Date(record.queuedAt));
+      }
+    } else if (record.type === 'update') {
+      if (next[record.taskId]) {
+        next[record.taskId] = applyTaskUpdate(next[record.taskId], record.data);
+      }
+    } else {
+      delete next[record.taskId];
+    }
+  });
+  return next;
+};
+
+/**
+ * Get the server version queued changes to a task were made against
+ * Earlier queued changes to the same task share their base version
+ */
+const getQueuedBaseVersion = (records: QueuedMutationRecord[], task: Task): number => {
+  for (const record of records) {
+    if (record.taskId === task.id && record.type !== 'create') {
+      return record.baseUpdatedAt;
+    }
+  }
+  return getUpdatedAtTime(task);
+};
+
+/**
+ * Point a queued change's links to other tasks (BlockedBy, ParentId) from one task id to another
+ * Queued creates link to earlier queued creates by their temporary ids until these are replayed
+ */
+const remapQueuedLinks = (record: QueuedMutationRecord, fromId: string, toId: string): QueuedMutationRecord => {
+  if (record.type === 'delete') return record;
+
+  const links = record.data.BlockedBy?.includes(fromId) || (record.type === 'create' && record.data.ParentId === fromId);
+  if (!links) return record;
+
+  const BlockedBy = record.data.BlockedBy?.map((id) => (id === fromId ? toId : id));
+  if (record.type === 'create') {
+    const ParentId = record.data.ParentId === fromId ? toId : record.data.ParentId;
+    return { ...record, data: { ...record.data, BlockedBy, ParentId } };
+  }
+  return { ...record, data: { ...record.data, BlockedBy } };
+};
+
+/**
+ * TasksProvider component
+ * Holds a single normalized task store keyed by Task.id, shared by every page
+ * The store loads the active tasks once per session and project and is kept fresh by socket events and mutations
+ */
+export const TasksProvider = ({ children }: { children: ReactNode }) => {
+  const { isAuthenticated, user, hasPermission } = useAuth();
+  const { activeProjectId, loading: projectsLoading } = useProjects();
+  const canViewAllTasks = hasPermission('tasks:view-all');
+  const userId = user?.id;
+  const [tasksById, setTasksById] = useState<TaskMap>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [queuedMutations, setQueuedMutations] = useState<QueuedMutationRecord[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+
+  // Latest store snapshot, used to capture rollback state for optimistic mutations
+  const tasksByIdRef = useRef<TaskMap>({});
+  // In-flight mutations per task id, oldest first; they stay applied on top of server copies until answered
+  const pendingMutationsRef = useRef<Map<string, PendingMutation[]>>(new Map());
+  // Newest server copy of each task with in-flight mutations, the base a failed mutation is rolled back to
+  const serverCopiesRef = useRef<Map<string, Task>>(new Map());
+  // Last UpdatedAt confirmed by the server per task id; older or equal socket echoes are skipped
+  const confirmedUpdatesRef = useRef<Map<string, number>>(new Map());
+  // Newest UpdatedAt received from the server; the catch-up point after a reconnect
+  const lastSyncedAtRef = useRef<number>(0);
+  // Offline changes waiting to be replayed, oldest first (mirrors IndexedDB)
+  const queueRef = useRef<QueuedMutationRecord[]>([]);
+  const syncConflictsRef = useRef<SyncConflict[]>([]);
+  const replayingRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    tasksByIdRef.current = tasksById;
+  }, [tasksById]);
+
+  /**
+   * Replace the in-memory copy of the offline queue
+   */
+  const setQueue = useCallback((records: QueuedMutationRecord[]) => {
+    queueRef.current = records;
+    setQueuedMutations(records);
+  }, []);
+
+  const updateSyncConflicts = useCallback((conflicts: SyncConflict[]) => {
+    syncConflictsRef.current = conflicts;
+    setSyncConflicts(conflicts);
+  }, []);
+
+  const hasQueuedMutation = useCallback((id: string) => {
+    return queueRef.current.some((record) => record.taskId === id);
+  }, []);
+
+  /**
+   * Insert or replace a task in the store
+   */
+  const upsertTask = useCallback((task: Task) => {
+    if (!task.id) return;
+    setTasksById((prev) => ({ ...prev, [task.id!]: task }));
+  }, []);
+
+  /**
+   * Remove a task from the store
+   */
+  const removeTask = useCallback((id: string) => {
+    setTasksById((prev) => {
+      if (!(id in prev)) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Apply a change made in this tab and pass it on to the user's other tabs
+   * Server events are not shared - every tab receives those through the socket relay
+   */
+  const upsertShared = useCallback((task: Task) => {
+    upsertTask(task);
+    if (task.id) {
+      tabSync.post({ type: 'tasks:upsert', task });
+    }
+  }, [upsertTask]);
+
+  const removeShared = useCallback((id: string) => {
+    removeTask(id);
+    tabSync.post({ type: 'tasks:remove', id });
+  }, [removeTask]);
+
+  /**
+   * Remember the newest server version seen so far
+   */
+  const trackServerVersion = useCallback((task: Task) => {
+    lastSyncedAtRef.current = Math.max(lastSyncedAtRef.current, getUpdatedAtTime(task));
+  }, []);
+
+  /**
+   * Fetch the active tasks of the project visible to the current user (everything but completed)
+   * Completed tasks only enter the store when they change while loaded; pages that list them
+   * fetch them on demand (useCompletedTasks, useTaskPage)
+   * Changes still waiting in the offline queue are kept on top of the server copy
+   */
+  const refreshTasks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const fetchedTasks = await taskApi.getAllTasks({ excludeCompleted: true, projectId: activeProjectId });
+      const next: TaskMap = {};
+      // A full load replaces the catch-up point, which may belong to another project
+      lastSyncedAtRef.current = 0;
+      fetchedTasks.forEach((task) => {
+        if (task.id) next[task.id] = applyPendingUpdates(task, pendingMutationsRef.current.get(task.id) ?? []);
+        trackServerVersion(task);
+      });
+      setTasksById(applyQueuedMutations(next, queueRef.current, activeProjectId));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch tasks'));
+      console.error('Error fetching tasks:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeProjectId, trackServerVersion]);
+
+  /**
+   * Track the start and end of a mutation for a task
+   * Ending a mutation more than once is harmless
+   */
+  const beginMutation = useCallback((id: string, mutation: PendingMutation) => {
+    const pending = pendingMutationsRef.current;
+    pending.set(id, [...(pending.get(id) ?? []), mutation]);
+  }, []);
+
+  const endMutation = useCallback((id: string, mutation: PendingMutation) => {
+    const pending = pendingMutationsRef.current;
+    const remaining = (pending.get(id) ?? []).filter((other) => other !== mutation);
+    if (remaining.length > 0) {
+      pending.set(id, remaining);
+    } else {
+      pending.delete(id);
+      serverCopiesRef.current.delete(id);
+    }
+  }, []);
+
+  /**
+   * Get the server version our unanswered and queued changes to a task were made against
+   * Returns null if there are none
+   */
+  const getLocalBaseVersion = useCallback((id: string): number | null => {
+    const bases = (pendingMutationsRef.current.get(id) ?? []).map((mutation) => mutation.baseUpdatedAt);
+    queueRef.current.forEach((record) => {
+      if (record.taskId === id && record.type !== 'create') bases.push(record.baseUpdatedAt);
+    });
+    return bases.length > 0 ? Math.min(...bases) : null;
+  }, []);
+
+  /**
+   * Store a server copy of a task with our in-flight and queued changes applied on top
+   */
+  const storeServerCopy = useCallback((task: Task) => {
+    if (!task.id) return;
+    const pending = pendingMutationsRef.current.get(task.id) ?? [];
+    if (pending.length > 0) {
+      serverCopiesRef.current.set(task.id, task);
+    }
+    const queued = queueRef.current.filter((record) => record.taskId === task.id);
+    setTasksById((prev) => applyQueuedMutations({ ...prev, [task.id!]: applyPendingUpdates(task, pending) }, queued));
+  }, []);
+
+  /**
+   * Store a task returned by the server and remember its version
+   * so the matching socket echo is not applied a second time
+   * Other in-flight and queued changes for the task stay applied on top
+   */
+  const confirmTask = useCallback((task: Task) => {
+    if (!task.id) return;
+    confirmedUpdatesRef.current.set(task.id, getUpdatedAtTime(task));
+    trackServerVersion(task);
+    storeServerCopy(task);
+    tabSync.post({ type: 'tasks:upsert', task });
+  }, [trackServerVersion, storeServerCopy]);
+
+  /**
+   * Apply a server copy of a task that someone else may have changed
+   * Copies no newer than the version our own unanswered or queued changes were made against
+   * are echoes of those changes (or stale) and are skipped; newer ones are stored with our
+   * changes applied on top again, so a concurrent change to another field is not lost
+   */
+  const mergeServerTask = useCallback((task: Task) => {
+    if (!task.id) return;
+    // Our delete is in flight or queued - do not bring the task back
+    const deleting = (pendingMutationsRef.current.get(task.id) ?? []).some((mutation) => mutation.type === 'delete')
+      || queueRef.current.some((record) => record.taskId === task.id && record.type === 'delete');
+    if (deleting) return;
+    const baseUpdatedAt = getLocalBaseVersion(task.id);
+    if (baseUpdatedAt !== null && getUpdatedAtTime(task) <= baseUpdatedAt) return;
+    storeServerCopy(task);
+  }, [getLocalBaseVersion, storeServerCopy]);
+
+  /**
+   * Persist a change to the offline queue
+   * Returns false if the change could not be queued (not logged in or IndexedDB unavailable)
+   */
+  const queueOffline = useCallback(async (mutation: QueuedMutation): Promise<boolean> => {
+    if (!userId) return false;
+    try {
+      const record = await offlineQueue.enqueue(userId, mutation);
+      setQueue([...queueRef.current, record]);
+      console.log('📦 Queued task change for sync', record);
+      return true;
+    } catch (err) {
+      console.error('Error queueing offline task change:', err);
+      return false;
+    }
+  }, [userId, setQueue]);
+
+  /**
+   * Remove a handled change from the offline queue
+   */
+  const dropQueued = useCallback(async (seq: number) => {
+    await offlineQueue.remove(seq);
+    setQueue(queueRef.current.filter((record) => record.seq !== seq));
+  }, [setQueue]);
+
+  /**
+   * Point the queued changes of a task at its current server version
+   * Used when a queued create receives its real id and after each replayed change
+   * A new id also replaces the temporary one in other queued changes that link to the task
+   */
+  const rebaseQueued = useCallback(async (fromId: string, toId: string, baseUpdatedAt: number) => {
+    const records = await Promise.all(queueRef.current.map(async (record) => {
+      if (record.taskId !== fromId) {
+        if (fromId === toId) return record;
+        const remapped = remapQueuedLinks(record, fromId, toId);
+        if (remapped !== record) await offlineQueue.put(remapped);
+        return remapped;
+      }
+      const rebased: QueuedMutationRecord = record.type === 'create'
+        ? { ...record, taskId: toId }
+        : { ...record, taskId: toId, baseUpdatedAt };
+      await offlineQueue.put(rebased);
+      return rebased;
+    }));
+    setQueue(records);
+  }, [setQueue]);
+
+  /**
+   * Reload a single task from the server after a queued change was rejected
+   */
+  const reloadTask = useCallback(async (id: string) => {
+    try {
+      const serverTask = await taskApi.getTaskById(id);
+      if (serverTask) {
+        confirmTask(serverTask);
+      } else {
+        removeShared(id);
+      }
+    } catch (err) {
+      console.error('Error reloading task:', err);
+    }
+  }, [confirmTask, removeShared]);
+
+  /**
+   * Record a conflict between a queued change and the server copy
+   */
+  const addSyncConflict = useCallback((record: QueuedMutationRecord, serverTask: Task) => {
+    if (record.type === 'create') return;
+    if (syncConflictsRef.current.some((conflict) => conflict.taskId === record.taskId)) return;
+    updateSyncConflicts([
+      ...syncConflictsRef.current,
+      { taskId: record.taskId, type: record.type, localTask: tasksByIdRef.current[record.taskId], serverTask },
+    ]);
+  }, [updateSyncConflicts]);
+
+  /**
+   * Send one queued change to the server
+   * Returns false if the change conflicts with the server copy and has to wait for the user
+   */
+  const replayMutation = useCallback(async (record: QueuedMutationRecord): Promise<boolean> => {
+    if (record.type === 'create') {
+      const newTask = await taskApi.createTask(record.data);
+      await dropQueued(record.seq);
+      await rebaseQueued(record.taskId, newTask.id!, getUpdatedAtTime(newTask));
+      removeShared(record.taskId);
+      confirmTask(newTask);
+      return true;
+    }
+
+    // The server copy must still be the version the change was made against
+    const serverTask = await taskApi.getTaskById(record.taskId);
+    if (!serverTask) {
+      // Deleted on the server - nothing left to apply
+      await dropQueued(record.seq);
+      removeShared(record.taskId);
+      return true;
+    }
+    if (getUpdatedAtTime(serverTask) > record.baseUpdatedAt) {
+      addSyncConflict(record, serverTask);
+      return false;
+    }
+
+    if (record.type === 'update') {
+      const updatedTask = await taskApi.updateTask(record.taskId, record.data);
+      await dropQueued(record.seq);
+      await rebaseQueued(record.taskId, record.taskId, getUpdatedAtTime(updatedTask));
+      confirmTask(updatedTask);
+    } else {
+      await taskApi.deleteTask(record.taskId);
+      await dropQueued(record.seq);
+      removeShared(record.taskId);
+    }
+    return true;
+  }, [dropQueued, rebaseQueued, removeShared, confirmTask, addSyncConflict]);
+
+  /**
+   * Replay queued changes while holding the replay lock
+   * Changes another tab already replayed are no longer in IndexedDB and are skipped
+   */
+  const replayUnlocked = useCallback(async (heldTaskIds: Set<string>) => {
+    if (!userId) return;
+    const stored = new Set((await offlineQueue.getAll(userId)).map((record) => record.seq));
+    setQueue(queueRef.current.filter((record) => stored.has(record.seq)));
+
+    let record: QueuedMutationRecord | undefined;
+    while ((record = queueRef.current.find((queued) => !heldTaskIds.has(queued.taskId)))) {
+      try {
+        const replayed = await replayMutation(record);
+        if (!replayed) {
+          heldTaskIds.add(record.taskId);
+        }
+      } catch (err) {
+        if (isNetworkError(err)) {
+          // Still offline - try again on the next reconnect
+          break;
+        }
+        console.error('Queued task change was rejected by the server:', err);
+        await dropQueued(record.seq);
+        await reloadTask(record.taskId);
+      }
+    }
+  }, [userId, setQueue, replayMutation, dropQueued, reloadTask]);
+
+  /**
+   * Replay queued offline changes in order
+   * Stops at the first network error; changes to a task with a conflict wait for resolveSyncConflict
+   * Only one tab replays at a time, so changes loaded by several tabs are sent once
+   */
+  const replayQueue = useCallback(async () => {
+    if (replayingRef.current) return;
+    replayingRef.current = true;
+
+    const heldTaskIds = new Set(syncConflictsRef.current.map((conflict) => conflict.taskId));
+    try {
+      await tabSync.withLock(REPLAY_LOCK, () => replayUnlocked(heldTaskIds));
+    } catch (err) {
+      console.error('Error replaying offline task changes:', err);
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [replayUnlocked]);
+
+  /**
+   * Resolve a sync conflict by keeping either the local change or the server copy
+   */
+  const resolveSyncConflict = useCallback(async (taskId: string, keep: 'local' | 'server') => {
+    const conflict = syncConflictsRef.current.find((c) => c.taskId === taskId);
+    if (!conflict) return;
+
+    if (keep === 'server') {
+      const records = queueRef.current.filter((record) => record.taskId === taskId);
+      for (const record of records) {
+        await dropQueued(record.seq);
+      }
+      confirmTask(conflict.serverTask);
+    } else {
+      // Re-apply the local change on top of the version the user has now seen
+      await rebaseQueued(taskId, taskId, getUpdatedAtTime(conflict.serverTask));
+    }
+
+    updateSyncConflicts(syncConflictsRef.current.filter((c) => c.taskId !== taskId));
+    if (keep === 'local') {
+      await replayQueue();
+    }
+  }, [dropQueued, confirmTask, rebaseQueued, updateSyncConflicts, replayQueue]);
+
+  /**
+   * Apply the changes missed while the socket was disconnected
+   * Falls back to a full reload if the delta cannot be fetched
+   */
+  const catchUpTasks = useCallback(async () => {
+    if (!lastSyncedAtRef.current) {
+      await refreshTasks();
+      return;
+    }
+
+    try {
+      const { tasks: changedTasks, deletedIds } = await taskApi.getTaskChanges(new Date(lastSyncedAtRef.current), activeProjectId);
+      changedTasks.forEach((task) => {
+        trackServerVersion(task);
+        // Our own in-flight or queued changes stay applied on top until they are synced
+        mergeServerTask(task);
+      });
+      deletedIds.forEach(removeTask);
+    } catch (err) {
+      console.error('Error catching up on missed task changes:', err);
+      await refreshTasks();
+    }
+  }, [activeProjectId, refreshTasks, trackServerVersion, mergeServerTask, removeTask]);
+
+  /**
+   * Create a new task, in the active project unless another one is given
+   * The task appears immediately with a temporary id and is swapped for the server copy
+   * If the API is unreachable the create is queued and synced later
+   */
+  const createTask = useCallback(async (newTaskData: CreateTaskDTO) => {
+    const taskData = newTaskData.ProjectId || !activeProjectId
+      ? newTaskData
+      : { ...newTaskData, ProjectId: activeProjectId };
+    const optimisticTask = buildOptimisticTask(taskData);
+    const queueCreate = () => queueOffline({ type: 'create', taskId: optimisticTask.id!, data: taskData });
+    upsertShared(optimisticTask);
+
+    try {
+      // Changes made while offline must reach the server in order
+      if (queueRef.current.length > 0 && await queueCreate()) {
+        replayQueue();
+        return optimisticTask;
+      }
+      const newTask = await taskApi.createTask(taskData);
+      removeShared(optimisticTask.id!);
+      confirmTask(newTask);
+      return newTask;
+    } catch (err) {
+      if (isNetworkError(err) && await queueCreate()) {
+        return optimisticTask;
+      }
+      // Roll back the placeholder
+      removeShared(optimisticTask.id!);
+      throw err;
+    }
+  }, [activeProjectId, upsertShared, removeShared, confirmTask, queueOffline, replayQueue]);
+
+  /**
+   * Undo a failed change: go back to the newest server copy of a task (which may hold
+   * someone else's change since) with our other unanswered and queued changes still applied
+   */
+  const rollBackTask = useCallback((id: string, previousTask: Task) => {
+    const serverCopy = serverCopiesRef.current.get(id);
+    const pending = pendingMutationsRef.current.get(id) ?? [];
+    const queued = queueRef.current.filter((record) => record.taskId === id);
+    const restored = applyQueuedMutations({ [id]: applyPendingUpdates(serverCopy ?? previousTask, pending) }, queued)[id];
+    if (restored) {
+      setTasksById((prev) => (id in prev ? { ...prev, [id]: restored } : prev));
+      // Other tabs were sent the optimistic copy
+      tabSync.post({ type: 'tasks:upsert', task: restored });
+    }
+  }, []);
+
+  /**
+   * Update an existing task
+   * The change is applied locally at once and rolled back if the request fails
+   * If the API is unreachable the change is queued and synced later
+   * Completing an occurrence of a recurring task makes the server create the next one (it arrives as task:created)
+   */
+  const updateTask = useCallback(async (id: string, taskData: UpdateTaskDTO) => {
+    const previousTask = tasksByIdRef.current[id];
+    const optimisticTask = previousTask ? applyTaskUpdate(previousTask, taskData) : undefined;
+    const queueUpdate = () => queueOffline({
+      type: 'update',
+      taskId: id,
+      data: taskData,
+      baseUpdatedAt: getQueuedBaseVersion(queueRef.current, previousTask),
+    });
+    const mutation: PendingMutation = {
+      type: 'update',
+      data: taskData,
+      baseUpdatedAt: getLocalBaseVersion(id) ?? (previousTask ? getUpdatedAtTime(previousTask) : 0),
+    };
+
+    beginMutation(id, mutation);
+    if (optimisticTask) {
+      upsertShared(optimisticTask);
+    }
+
+    try {
+      // Changes made while offline must reach the server in order
+      if (optimisticTask && queueRef.current.length > 0 && await queueUpdate()) {
+        replayQueue();
+        return optimisticTask;
+      }
+      const updatedTask = await taskApi.updateTask(id, taskData);
+      // The response already contains this change
+      endMutation(id, mutation);
+      confirmTask(updatedTask);
+      return updatedTask;
+    } catch (err) {
+      if (optimisticTask && isNetworkError(err) && await queueUpdate()) {
+        return optimisticTask;
+      }
+      if (previousTask) {
+        endMutation(id, mutation);
+        rollBackTask(id, previousTask);
+      }
+      throw err;
+    } finally {
+      endMutation(id, mutation);
+    }
+  }, [beginMutation, endMutation, getLocalBaseVersion, upsertShared, confirmTask, queueOffline, replayQueue, rollBackTask]);
+
+  /**
+   * Change part of a task through one of its own endpoints (e.g. logging time)
+   * `change` is applied locally at once, and again on top of newer copies of the task
+   * until the server answers; `request` sends it and resolves with the updated task
+   * The change is rolled back if the request fails; it is not queued while offline
+   */
+  const changeTask = useCallback(async (id: string, change: (task: Task) => Task, request: () => Promise<Task>) => {
+    const previousTask = tasksByIdRef.current[id];
+    const mutation: PendingMutation = {
+      type: 'change',
+      apply: change,
+      baseUpdatedAt: getLocalBaseVersion(id) ?? (previousTask ? getUpdatedAtTime(previousTask) : 0),
+    };
+
+    beginMutation(id, mutation);
+    if (previousTask) {
+      upsertShared(change(previousTask));
+    }
+
+    try {
+      const updatedTask = await request();
+      // The response already contains this change
+      endMutation(id, mutation);
+      confirmTask(updatedTask);
+      return updatedTask;
+    } catch (err) {
+      if (previousTask) {
+        endMutation(id, mutation);
+        rollBackTask(id, previousTask);
+      }
+      throw err;
+    } finally {
+      endMutation(id, mutation);
+    }
+  }, [beginMutation, endMutation, getLocalBaseVersion, upsertShared, confirmTask, rollBackTask]);
+
+  /**
+   * Delete a task
+   * The task is removed at once and restored if the request fails
+   * If the API is unreachable the delete is queued and synced later
+   */
+  const deleteTask = useCallback(async (id: string) => {
+    const previousTask = tasksByIdRef.current[id];
+    const queueDelete = () => queueOffline({
+      type: 'delete',
+      taskId: id,
+      baseUpdatedAt: getQueuedBaseVersion(queueRef.current, previousTask),
+    });
+    const mutation: PendingMutation = {
+      type: 'delete',
+      baseUpdatedAt: getLocalBaseVersion(id) ?? (previousTask ? getUpdatedAtTime(previousTask) : 0),
+    };
+
+    beginMutation(id, mutation);
+    removeShared(id);
+
+    try {
+      // Changes made while offline must reach the server in order
+      if (previousTask && queueRef.current.length > 0 && await queueDelete()) {
+        replayQueue();
+        return;
+      }
+      await taskApi.deleteTask(id);
+    } catch (err) {
+      if (previousTask && isNetworkError(err) && await queueDelete()) {
+        return;
+      }
+      if (previousTask) {
+        upsertShared(previousTask);
+      }
+      throw err;
+    } finally {
+      endMutation(id, mutation);
+    }
+  }, [beginMutation, endMutation, getLocalBaseVersion, removeShared, upsertShared, queueOffline, replayQueue]);
+
+  // Load the store when the user logs in or switches project and clear it on logout
+  // Waits for the projects so the first load is already scoped
+  useEffect(() => {
+    if (isAuthenticated) {
+      if (!projectsLoading) {
+        refreshTasks();
+      }
+    } else {
+      setTasksById({});
+      setLoading(false);
+      lastSyncedAtRef.current = 0;
+    }
+  }, [isAuthenticated, projectsLoading, refreshTasks]);
+
+  // Restore the user's offline queue from IndexedDB and try to sync it
+  useEffect(() => {
+    if (!isAuthenticated || !userId) {
+      setQueue([]);
+      updateSyncConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    offlineQueue.getAll(userId)
+      .then((records) => {
+        if (cancelled) return;
+        setQueue(records);
+        setTasksById((prev) => applyQueuedMutations(prev, records, activeProjectId));
+        replayQueue();
+      })
+      .catch((err) => {
+        console.error('Error loading offline queue:', err);
+      });
+
+    // Sync as soon as the browser reports the network is back
+    const handleOnline = () => {
+      replayQueue();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [isAuthenticated, userId, activeProjectId, setQueue, updateSyncConflicts, replayQueue]);
+
+  // Keep the store in sync with real-time updates
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    socketService.connect();
+    // The server only sends tasks from the rooms this user is allowed to join
+    socketService.subscribeToTasks(canViewAllTasks ? 'all' : 'own', activeProjectId);
+
+    // A task reassigned away from a user without tasks:view-all, or moved to another project, leaves their store
+    const isOutOfScope = (task: Task): boolean => {
+      if (isInOtherProject(task, activeProjectId)) return true;
+      return !canViewAllTasks && !!userId && !isAssignedTo(task, userId);
+    };
+
+    const handleTaskCreated = (newTask: unknown) => {
+      console.log('📥 Received task:created event', newTask);
+      const task = parseSocketTask(newTask);
+      if (!task) return;
+      // Skip the echo of a task we created ourselves and already stored
+      if (task.id && confirmedUpdatesRef.current.has(task.id)) {
+        return;
+      }
+      if (isOutOfScope(task)) return;
+      trackServerVersion(task);
+      upsertTask(task);
+    };
+
+    const handleTaskUpdated = (updatedTask: unknown) => {
+      console.log('📥 Received task:updated event', updatedTask);
+      const task = parseSocketTask(updatedTask);
+      if (!task?.id) return;
+
+      // Echo of a change we already applied from the API response
+      const confirmedAt = confirmedUpdatesRef.current.get(task.id);
+      if (confirmedAt !== undefined && getUpdatedAtTime(task) <= confirmedAt) {
+        return;
+      }
+      trackServerVersion(task);
+      if (isOutOfScope(task)) {
+        removeTask(task.id);
+        return;
+      }
+      // Our own in-flight or queued changes stay applied on top of someone else's
+      mergeServerTask(task);
+    };
+
+    const handleTaskDeleted = (data: unknown) => {
+      const id = (data as { id?: unknown } | null)?.id;
+      console.log('📥 Received task:deleted event', id);
+      if (typeof id === 'string' || typeof id === 'number') {
+        removeTask(String(id));
+      }
+    };
+
+    // Auto-start or bulk updates - reload the whole store
+    const handleTasksRefreshed = () => {
+      console.log('📥 Received tasks:refreshed event - refreshing task store');
+      refreshTasks();
+    };
+
+    // Events sent while we were disconnected are lost - sync queued changes first,
+    // then fetch what changed since the last sync
+    const handleConnect = () => {
+      replayQueue().then(() => {
+        if (lastSyncedAtRef.current) {
+          console.log('🔄 WebSocket (re)connected - catching up on missed task changes');
+          catchUpTasks();
+        }
+      });
+    };
+
+    // Events arrive from this tab's socket or are relayed by the tab holding the connection
+    const unsubscribers = [
+      socketService.on('connect', handleConnect),
+      socketService.on('task:created', handleTaskCreated),
+      socketService.on('task:updated', handleTaskUpdated),
+      socketService.on('task:deleted', handleTaskDeleted),
+      socketService.on('tasks:refreshed', handleTasksRefreshed),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [isAuthenticated, canViewAllTasks, userId, activeProjectId, upsertTask, removeTask, refreshTasks, catchUpTasks, replayQueue, mergeServerTask, trackServerVersion]);
+
+  // Apply changes made in the user's other tabs
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return tabSync.subscribe((message) => {
+      if (message.type === 'tasks:upsert') {
+        const { task } = message;
+        // This tab's own in-flight or queued change wins until it is synced
+        if (!task.id || pendingMutationsRef.current.has(task.id) || hasQueuedMutation(task.id)) {
+          return;
+        }
+        upsertTask(task);
+      } else if (message.type === 'tasks:remove') {
+        removeTask(message.id);
+      }
+    });
+  }, [isAuthenticated, upsertTask, removeTask, hasQueuedMutation]);
+
+  // Ids of tasks with changes waiting to be synced
+  const pendingSyncIds = useMemo(() => {
+    return new Set(queuedMutations.map((record) => record.taskId));
+  }, [queuedMutations]);
+
+  const value: TasksContextType = {
+    tasksById,
+    loading,
+    error,
+    pendingSyncIds,
+    syncConflicts,
+    refreshTasks,
+    createTask,
+    updateTask,
+    changeTask,
+    deleteTask,
+    resolveSyncConflict,
+  };
+
+  return <TasksContext.Provider value={value}>{children}</TasksContext.Provider>;
+};
+
+/**
+ * Hook to use the shared task store
+ */
+export const useTaskStore = (): TasksContextType => {
+  const context = useContext(TasksContext);
+  if (context === undefined) {
+    throw new Error('useTaskStore must be used within a TasksProvider');
+  }
+  return context;
+};
@@ -1,5 +1,6 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
+import { tabSync } from '../services/tabSync';
 
 type Theme = 'light' | 'dark';
 
@@ -56,12 +57,21 @@ export const ThemeProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [theme]);
 
-  // Toggle between light and dark themes
-  const toggleTheme = () => {
-    setTheme((prevTheme) => {
-      // Explicitly toggle: if current is light, go to dark; otherwise go to light
-      return prevTheme === 'light' ? 'dark' : 'light';
+  // Follow theme changes made in other tabs
+  useEffect(() => {
+    return tabSync.subscribe((message) => {
+      if (message.type === 'theme') {
+        setTheme(message.theme);
+      }
     });
+  }, []);
+
+  // Toggle between light and dark themes and pass the choice on to other tabs
+  const toggleTheme = () => {
+    // Explicitly toggle: if current is light, go to dark; otherwise go to light
+    const nextTheme = theme === 'light' ? 'dark' : 'light';
+    setTheme(nextTheme);
+    tabSync.post({ type: 'theme', theme: nextTheme });
   };
 
   return (
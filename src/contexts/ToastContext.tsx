@@ -0,0 +1,138 @@
+import { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import { Toaster } from '../components/Toaster';
+import {
+  NetworkError,
+  AuthError,
+  ForbiddenError,
+  ValidationError,
+  ConflictError,
+  NotFoundError,
+  getErrorMessage,
+} from '../services/errors';
+import { ApiValidationError } from '../utils/schemas';
+
+export type ToastType = 'error' | 'warning' | 'success' | 'info';
+
+/**
+ * A single toast notification
+ */
+export interface Toast {
+  id: number;
+  type: ToastType;
+  title?: string;
+  message: string;
+}
+
+/**
+ * Toast context interface
+ */
+interface ToastContextType {
+  showToast: (toast: Omit<Toast, 'id'>) => void;
+  showError: (error: unknown, fallbackMessage: string) => void;
+  dismissToast: (id: number) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+// How long each kind of toast stays on screen
+const TOAST_DURATION_MS: Record<ToastType, number> = {
+  error: 8000,
+  warning: 6000,
+  success: 4000,
+  info: 4000,
+};
+
+/**
+ * Get a toast title for a typed API error
+ */
+const getErrorTitle = (error: unknown): string => {
+  if (error instanceof NetworkError) return 'Connection problem';
+  if (error instanceof AuthError) return 'Session expired';
+  if (error instanceof ForbiddenError) return 'Permission denied';
+  if (error instanceof ValidationError) return 'Invalid input';
+  if (error instanceof ConflictError) return 'Conflict';
+  if (error instanceof NotFoundError) return 'Not found';
+  if (error instanceof ApiValidationError) return 'Unexpected server response';
+  return 'Something went wrong';
+};
+
+/**
+ * ToastProvider component
+ * The single place where errors and notices are shown to the user
+ */
+export const ToastProvider = ({ children }: { children: ReactNode }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextIdRef = useRef(1);
+  const timersRef = useRef<Map<number, ReturnType<typeof setTimeout>>>(new Map());
+
+  /**
+   * Remove a toast and cancel its timer
+   */
+  const dismissToast = useCallback((id: number) => {
+    const timer = timersRef.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timersRef.current.delete(id);
+    }
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  /**
+   * Show a toast; identical messages already on screen are not repeated
+   */
+  const showToast = useCallback((toast: Omit<Toast, 'id'>) => {
+    const id = nextIdRef.current++;
+    setToasts((prev) => {
+      if (prev.some((t) => t.type === toast.type && t.message === toast.message)) {
+        return prev;
+      }
+      return [...prev, { ...toast, id }];
+    });
+    timersRef.current.set(id, setTimeout(() => dismissToast(id), TOAST_DURATION_MS[toast.type]));
+  }, [dismissToast]);
+
+  /**
+   * Show an error toast titled by the error type
+   */
+  const showError = useCallback((error: unknown, fallbackMessage: string) => {
+    showToast({
+      type: 'error',
+      title: getErrorTitle(error),
+      message: getErrorMessage(error, fallbackMessage),
+    });
+  }, [showToast]);
+
+  // Clear pending timers on unmount
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  const value: ToastContextType = {
+    showToast,
+    showError,
+    dismissToast,
+  };
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <Toaster toasts={toasts} onDismiss={dismissToast} />
+    </ToastContext.Provider>
+  );
+};
+
+/**
+ * Hook to use toast notifications
+ */
+export const useToast = (): ToastContextType => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { authService } from '../services/auth';
+import { AuthError, ForbiddenError } from '../services/errors';
 import { useAuth } from './AuthContext';
 import type { User } from '../types/auth';
 
@@ -39,9 +40,9 @@ export const UsersProvider = ({ children }: { children: ReactNode }) => {
       setLoading(true);
       const allUsers = await authService.getAllUsers();
       setUsers(allUsers);
-    } catch (error: any) {
+    } catch (error) {
       // Silently handle permission errors - user just won't see names
-      if (error.response?.status === 403 || error.response?.status === 401) {
+      if (error instanceof ForbiddenError || error instanceof AuthError) {
         // User doesn't have permission, that's okay - they'll just see user IDs
         console.log('User does not have permission to view all users. User names will not be displayed.');
       } else {
@@ -0,0 +1,139 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { Task } from '../types';
+import type { Workflow, UpdateWorkflowDTO } from '../types/workflow';
+import { workflowService } from '../services/workflow';
+import { socketService } from '../services/socket';
+import { NotFoundError } from '../services/errors';
+import { DEFAULT_WORKFLOW, BUILT_IN_STATUSES } from '../constants/workflow';
+import { isAssignedTo } from '../utils/taskSelectors';
+import {
+  getStatusMove as getWorkflowStatusMove,
+  getNextStatusOptions as getWorkflowStatusOptions,
+  requiresComment as workflowRequiresComment,
+  getStatusColor,
+  getStatusBadgeClass as getColorBadgeClass,
+  getStatusBorderClass as getColorBorderClass,
+} from '../utils/taskWorkflow';
+import type { StatusMove, StatusPermissions } from '../utils/taskWorkflow';
+import { useAuth } from './AuthContext';
+
+/**
+ * Workflow context interface
+ */
+interface WorkflowContextType {
+  workflow: Workflow;
+  loading: boolean;
+  /** Status names in workflow order */
+  statuses: string[];
+  getStatusBadgeClass: (status: string) => string;
+  getStatusBorderClass: (status: string) => string;
+  /** How the current user can move a task to a status, or null if they can't */
+  getStatusMove: (task: Task, toStatus: string) => StatusMove | null;
+  /** Statuses the current user can move a task to with the given kind of move */
+  getNextStatusOptions: (task: Task, move?: StatusMove) => string[];
+  requiresComment: (from: string, to: string) => boolean;
+  saveWorkflow: (workflowData: UpdateWorkflowDTO) => Promise<void>;
+  refreshWorkflow: () => Promise<void>;
+}
+
+const WorkflowContext = createContext<WorkflowContextType | undefined>(undefined);
+
+/**
+ * Add any built-in status the server's workflow left out, so built-in views keep working
+ * A workflow without hold reasons gets the default ones, since putting a task on hold needs a reason
+ */
+const withDefaults = (workflow: Workflow): Workflow => {
+  const missing = BUILT_IN_STATUSES.filter((name) => !workflow.statuses.some((status) => status.name === name));
+  const defaults = DEFAULT_WORKFLOW.statuses.filter((status) => missing.includes(status.name));
+  return {
+    ...workflow,
+    statuses: missing.length === 0 ? workflow.statuses : [...workflow.statuses, ...defaults],
+    holdReasons: workflow.holdReasons.length === 0 ? DEFAULT_WORKFLOW.holdReasons : workflow.holdReasons,
+  };
+};
+
+/**
+ * WorkflowProvider component
+ * Loads the task workflow (statuses and allowed transitions) and answers what the current user may do
+ * Servers without a configurable workflow get the default one
+ */
+export const WorkflowProvider = ({ children }: { children: ReactNode }) => {
+  const { isAuthenticated, hasPermission, user } = useAuth();
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Fetch the workflow, keeping the current one if it cannot be loaded
+   */
+  const refreshWorkflow = useCallback(async () => {
+    try {
+      const loaded = await workflowService.getWorkflow();
+      setWorkflow(withDefaults(loaded));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        console.log('Server has no configurable workflow. Using the default workflow.');
+      } else {
+        console.error('Error fetching workflow:', error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fetch the workflow on login
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    refreshWorkflow();
+  }, [isAuthenticated, refreshWorkflow]);
+
+  // Pick up changes saved by an admin elsewhere
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return socketService.on('workflow:updated', () => {
+      console.log('📥 Received workflow:updated event - refreshing workflow');
+      refreshWorkflow();
+    });
+  }, [isAuthenticated, refreshWorkflow]);
+
+  /**
+   * Save a new workflow
+   */
+  const saveWorkflow = async (workflowData: UpdateWorkflowDTO) => {
+    const saved = await workflowService.updateWorkflow(workflowData);
+    setWorkflow(withDefaults(saved));
+  };
+
+  const statuses = useMemo(() => workflow.statuses.map((status) => status.name), [workflow]);
+
+  const getPermissions = (task: Task): StatusPermissions => ({
+    hasPermission,
+    isAssignee: !!user && isAssignedTo(task, user.id),
+  });
+
+  const value: WorkflowContextType = {
+    workflow,
+    loading,
+    statuses,
+    getStatusBadgeClass: (status) => getColorBadgeClass(getStatusColor(workflow, status)),
+    getStatusBorderClass: (status) => getColorBorderClass(getStatusColor(workflow, status)),
+    getStatusMove: (task, toStatus) => getWorkflowStatusMove(workflow, task, toStatus, getPermissions(task)),
+    getNextStatusOptions: (task, move) => getWorkflowStatusOptions(workflow, task, getPermissions(task), move),
+    requiresComment: (from, to) => workflowRequiresComment(workflow, from, to),
+    saveWorkflow,
+    refreshWorkflow,
+  };
+
+  return <WorkflowContext.Provider value={value}>{children}</WorkflowContext.Provider>;
+};
+
+/**
+ * Hook to use workflow context
+ */
+export const useWorkflow = (): WorkflowContextType => {
+  const context = useContext(WorkflowContext);
+  if (context === undefined) {
+    throw new Error('useWorkflow must be used within a WorkflowProvider');
+  }
+  return context;
+};
@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import type { Task } from '../types';
+import type { CreateTaskDTO } from '../services/api';
+import { useTaskStore } from '../contexts/TasksContext';
+
+/**
+ * A new task as filled in by AddTaskModal
+ */
+export type NewTaskData = Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>;
+
+/**
+ * Map the data of a new task to the create DTO
+ * Uploaded attachments are sent by id and an empty date means unscheduled
+ */
+export const toCreateTaskDTO = (taskData: NewTaskData): CreateTaskDTO => ({
+  Title: taskData.Title,
+  Description: taskData.Description,
+  Status: taskData.Status,
+  Priority: taskData.Priority,
+  EstimatedHours: taskData.EstimatedHours,
+  AssignedTo: taskData.AssignedTo,
+  // Use date string as-is (date inputs always provide YYYY-MM-DD format)
+  ScheduledStartDate: typeof taskData.ScheduledStartDate === 'string' && taskData.ScheduledStartDate.trim() !== ''
+    ? taskData.ScheduledStartDate
+    : null,
+  ScheduledStartTime: taskData.ScheduledStartTime || null,
+  ParentId: taskData.ParentId ?? null,
+  Labels: taskData.Labels,
+  AttachmentIds: taskData.Attachments?.map((attachment) => attachment.id),
+  Recurrence: taskData.Recurrence,
+  Checklist: taskData.Checklist,
+});
+
+/**
+ * Custom hook for the onAddTask handler of AddTaskModal
+ * Creates the task and closes the modal; on failure the error is rethrown so the modal shows it and stays open
+ */
+export const useAddTask = (setModalOpen: (open: boolean) => void) => {
+  const { createTask } = useTaskStore();
+
+  return useCallback(async (taskData: NewTaskData) => {
+    try {
+      await createTask(toCreateTaskDTO(taskData));
+      setModalOpen(false);
+    } catch (err) {
+      console.error('Failed to create task:', err);
+      throw err;
+    }
+  }, [createTask, setModalOpen]);
+};
@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import type { Task } from '../types';
+import { taskApi } from '../services/api';
+import { useTaskStore } from '../contexts/TasksContext';
+import { getBlockersOfMove, getMissingBlockerIds, waitsForBlockers } from '../utils/taskDependencies';
+import type { TaskMap } from '../utils/taskSelectors';
+
+/**
+ * Custom hook for checking a status change against all blockers of a task
+ * Blockers the store does not hold are loaded first; one the server no longer has counts as
+ * finished (deleting a task unlinks it), and one that cannot be loaded makes the check throw
+ * Resolves to the unfinished blockers that stop the move
+ */
+export const useBlockersOfMove = () => {
+  const { tasksById } = useTaskStore();
+
+  return useCallback(async (task: Task, newStatus: string): Promise<Task[]> => {
+    if (!waitsForBlockers(task, newStatus)) return [];
+
+    const missingIds = getMissingBlockerIds(tasksById, task);
+    if (missingIds.length === 0) return getBlockersOfMove(tasksById, task, newStatus);
+
+    const loaded = await Promise.all(missingIds.map((id) => taskApi.getTaskById(id)));
+    const withLoaded: TaskMap = { ...tasksById };
+    loaded.forEach((blocker) => {
+      if (blocker?.id) withLoaded[blocker.id] = blocker;
+    });
+    return getBlockersOfMove(withLoaded, task, newStatus);
+  }, [tasksById]);
+};
@@ -0,0 +1,75 @@
+import { useState, useEffect, useMemo } from 'react';
+import { TaskStatus, TaskPriority } from '../types';
+import { taskApi } from '../services/api';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useProjects } from '../contexts/ProjectsContext';
+import { selectTasksByStatus } from '../utils/taskSelectors';
+import type { HoldReasonTotal } from '../utils/holds';
+
+interface CompletedSummaryOptions {
+  priority?: TaskPriority | 'All';
+  userId?: string;
+  /** Which figures to fetch besides the count (e.g. the ones the user may see) */
+  withAccuracy?: boolean;
+  withDuration?: boolean;
+  withHolds?: boolean;
+}
+
+/**
+ * Custom hook for figures over all completed tasks of the active project
+ * The task store only loads active tasks, so the count, estimation accuracy, time logged
+ * and time lost to holds are computed by the server; they are refetched when tasks are
+ * completed or put on hold. holdTotals is null when the server has no hold summary
+ */
+export const useCompletedSummary = ({
+  priority,
+  userId,
+  withAccuracy = false,
+  withDuration = false,
+  withHolds = false,
+}: CompletedSummaryOptions = {}) => {
+  const { tasksById } = useTaskStore();
+  const { activeProjectId } = useProjects();
+  const [count, setCount] = useState(0);
+  const [accuracy, setAccuracy] = useState<number | null>(null);
+  const [totalHours, setTotalHours] = useState(0);
+  const [holdTotals, setHoldTotals] = useState<HoldReasonTotal[] | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const completedInStoreCount = useMemo(() => selectTasksByStatus(tasksById, TaskStatus.Completed).length, [tasksById]);
+  const heldInStoreCount = useMemo(() => selectTasksByStatus(tasksById, TaskStatus.Hold).length, [tasksById]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const filters = { priority, userId, projectId: activeProjectId };
+
+    const fetchSummary = async () => {
+      setLoading(true);
+      const [countResult, accuracyResult, durationResult, holdsResult] = await Promise.allSettled([
+        taskApi.getTaskPage({ ...filters, status: TaskStatus.Completed, excludeCompleted: false, page: 1, pageSize: 1 }),
+        withAccuracy ? taskApi.getOverallAccuracy(filters) : Promise.resolve(null),
+        withDuration ? taskApi.getTotalCompletedDuration(filters) : Promise.resolve(null),
+        withHolds ? taskApi.getHoldSummary(activeProjectId) : Promise.resolve(null),
+      ]);
+      if (cancelled) return;
+
+      if (countResult.status === 'fulfilled') {
+        setCount(countResult.value.total);
+      } else {
+        console.error('Error fetching completed tasks count:', countResult.reason);
+      }
+      setAccuracy(accuracyResult.status === 'fulfilled' ? accuracyResult.value?.data?.accuracy ?? null : null);
+      setTotalHours(durationResult.status === 'fulfilled' ? durationResult.value?.data?.totalHours ?? 0 : 0);
+      setHoldTotals(holdsResult.status === 'fulfilled' ? holdsResult.value?.data ?? null : null);
+      setLoading(false);
+    };
+
+    fetchSummary();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [priority, userId, activeProjectId, withAccuracy, withDuration, withHolds, completedInStoreCount, heldInStoreCount]);
+
+  return { count, accuracy, totalHours, holdTotals, loading };
+};
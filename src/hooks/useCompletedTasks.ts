@@ -0,0 +1,108 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Task } from '../types';
+import { TaskStatus, TaskPriority } from '../types';
+import { taskApi } from '../services/api';
+import { getErrorMessage } from '../services/errors';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useProjects } from '../contexts/ProjectsContext';
+import { selectTasks, type TaskMap } from '../utils/taskSelectors';
+
+// Completed tasks fetched at first, and added by each loadMore
+const COMPLETED_PAGE_SIZE = 50;
+
+interface CompletedTasksOptions {
+  priority?: TaskPriority | 'All';
+  userId?: string;
+  /** Set to false to skip fetching (e.g. while completed tasks are hidden) */
+  enabled?: boolean;
+  pageSize?: number;
+}
+
+/**
+ * Custom hook for the most recently completed tasks of the active project, newest first
+ * The task store only loads active tasks, so completed ones are fetched when a page asks for them,
+ * one page at a time (loadMore fetches the next one); figures over all completed tasks come
+ * from the server summaries instead (see useCompletedSummary)
+ * The store's copies win: tasks completed since the fetch are added and reopened ones dropped
+ */
+export const useCompletedTasks = ({
+  priority,
+  userId,
+  enabled = true,
+  pageSize = COMPLETED_PAGE_SIZE,
+}: CompletedTasksOptions = {}) => {
+  const { tasksById } = useTaskStore();
+  const { activeProjectId } = useProjects();
+  const [fetchedTasks, setFetchedTasks] = useState<Task[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The number of tasks to fetch goes back to one page whenever the query changes
+  const queryKey = `${priority ?? ''}|${userId ?? ''}|${activeProjectId ?? ''}`;
+  const [requested, setRequested] = useState({ queryKey, limit: pageSize });
+  const limit = requested.queryKey === queryKey ? requested.limit : pageSize;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const fetchCompleted = async () => {
+      setLoading(true);
+      try {
+        const completed = await taskApi.getTaskPage({
+          status: TaskStatus.Completed,
+          priority,
+          userId,
+          projectId: activeProjectId,
+          excludeCompleted: false,
+          page: 1,
+          pageSize: limit,
+          sortBy: 'CompletedAt',
+          sortOrder: 'desc',
+        });
+        if (!cancelled) {
+          setFetchedTasks(completed.tasks);
+          setTotal(completed.total);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, 'Failed to fetch completed tasks'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchCompleted();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, priority, userId, activeProjectId, limit]);
+
+  const tasks = useMemo(() => {
+    if (!enabled) return [];
+    const merged: TaskMap = {};
+    fetchedTasks.forEach((task) => {
+      if (task.id) merged[task.id] = tasksById[task.id] ?? task;
+    });
+    Object.values(tasksById).forEach((task) => {
+      if (task.id && task.Status === TaskStatus.Completed) merged[task.id] = task;
+    });
+    return selectTasks(merged, { status: TaskStatus.Completed, priority, userId });
+  }, [enabled, fetchedTasks, tasksById, priority, userId]);
+
+  const hasMore = enabled && fetchedTasks.length < total;
+
+  // Fetch the next page of older completed tasks as well
+  const loadMore = () => {
+    setRequested({ queryKey, limit: limit + pageSize });
+  };
+
+  return { tasks, total, hasMore, loadMore, loading, error };
+};
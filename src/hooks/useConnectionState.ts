@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { socketService, type ConnectionState } from '../services/socket';
+
+const subscribe = (onChange: () => void) => socketService.onConnectionStateChange(onChange);
+const getSnapshot = () => socketService.getConnectionState();
+
+/**
+ * Custom hook for the real-time connection state
+ * Re-renders whenever the socket connects, starts reconnecting or goes offline
+ */
+export const useConnectionState = (): ConnectionState => {
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
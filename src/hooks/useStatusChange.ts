@@ -0,0 +1,175 @@
+import { useState, useCallback } from 'react';
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+import type { UpdateTaskDTO } from '../services/api';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { useBlockersOfMove } from './useBlockersOfMove';
+import { selectSubtasks } from '../utils/taskSelectors';
+import { getOpenSubtasks } from '../utils/taskProgress';
+import { describeBlockers } from '../utils/taskDependencies';
+import type { HoldDetails } from '../utils/holds';
+
+/**
+ * A status change waiting for the comment its transition requires
+ */
+export interface PendingStatusChange {
+  task: Task;
+  status: string;
+  scheduledDate?: string;
+  scheduledTime?: string;
+}
+
+/**
+ * Completing a task whose subtasks are still open, waiting for confirmation
+ */
+export interface PendingCompletion extends PendingStatusChange {
+  openSubtasks: Task[];
+}
+
+/**
+ * Custom hook for changing task statuses from a page
+ * Moving a task whose blockers are unfinished on (other than back to Pending or on hold) is refused with a warning;
+ * blockers the store does not hold are loaded first (see useBlockersOfMove)
+ * Completing a task with open subtasks is held in pendingCompletion until
+ * confirmCompletion is called (render CompleteParentConfirmationModal for it)
+ * Transitions that require a comment are held in pendingStatusChange until
+ * confirmStatusChange is called with the comment (render StatusCommentModal for it)
+ * Putting a task on hold is held in pendingHold until confirmHold is called with
+ * the reason (render HoldReasonModal for it); the server records every hold in HoldIntervals
+ * Putting a task on hold or completing it stops the timers running on it (done by the server)
+ */
+export const useStatusChange = () => {
+  const { tasksById, updateTask } = useTaskStore();
+  const { showToast, showError } = useToast();
+  const { requiresComment } = useWorkflow();
+  const checkBlockersOfMove = useBlockersOfMove();
+  const [pendingStatusChange, setPendingStatusChange] = useState<PendingStatusChange | null>(null);
+  const [pendingCompletion, setPendingCompletion] = useState<PendingCompletion | null>(null);
+  const [pendingHold, setPendingHold] = useState<PendingStatusChange | null>(null);
+
+  const applyStatusChange = useCallback(async (
+    taskId: string,
+    newStatus: string,
+    scheduledDate?: string,
+    scheduledTime?: string,
+    comment?: string,
+    hold?: HoldDetails
+  ) => {
+    try {
+      const updateData: UpdateTaskDTO = { Status: newStatus };
+      if (scheduledDate !== undefined) {
+        updateData.ScheduledStartDate = scheduledDate || null;
+      }
+      if (scheduledTime !== undefined) {
+        updateData.ScheduledStartTime = scheduledTime || null;
+      }
+      if (comment) {
+        updateData.StatusComment = comment;
+      }
+      if (newStatus === TaskStatus.Hold && hold) {
+        updateData.Hold = hold;
+      }
+      await updateTask(taskId, updateData);
+    } catch (err) {
+      console.error('Failed to update task status:', err);
+      showError(err, 'Failed to update task status. Your change has been undone.');
+    }
+  }, [updateTask, showError]);
+
+  // Ask for a hold reason, or a comment if the transition needs one, otherwise apply the change
+  const requestStatusChange = (change: PendingStatusChange) => {
+    const { task, status, scheduledDate, scheduledTime } = change;
+    if (status === TaskStatus.Hold) {
+      setPendingHold(change);
+      return;
+    }
+    if (requiresComment(task.Status, status)) {
+      setPendingStatusChange(change);
+      return;
+    }
+    applyStatusChange(task.id!, status, scheduledDate, scheduledTime);
+  };
+
+  // Handle status change
+  const handleStatusChange = async (taskId: string, newStatus: string, scheduledDate?: string, scheduledTime?: string) => {
+    const task = tasksById[taskId];
+    if (!task) {
+      applyStatusChange(taskId, newStatus, scheduledDate, scheduledTime);
+      return;
+    }
+
+    let blockers: Task[];
+    try {
+      blockers = await checkBlockersOfMove(task, newStatus);
+    } catch (err) {
+      showError(err, 'Could not check whether the task is blocked. Please try again.');
+      return;
+    }
+    if (blockers.length > 0) {
+      showToast({ type: 'warning', title: 'Task Is Blocked', message: describeBlockers(blockers) });
+      return;
+    }
+
+    const openSubtasks = newStatus === TaskStatus.Completed ? getOpenSubtasks(selectSubtasks(tasksById, taskId)) : [];
+    if (openSubtasks.length > 0) {
+      setPendingCompletion({ task, status: newStatus, scheduledDate, scheduledTime, openSubtasks });
+      return;
+    }
+    requestStatusChange({ task, status: newStatus, scheduledDate, scheduledTime });
+  };
+
+  // Complete the task despite its open subtasks
+  const confirmCompletion = () => {
+    if (pendingCompletion) {
+      const { task, status, scheduledDate, scheduledTime } = pendingCompletion;
+      requestStatusChange({ task, status, scheduledDate, scheduledTime });
+    }
+    setPendingCompletion(null);
+  };
+
+  const cancelCompletion = () => {
+    setPendingCompletion(null);
+  };
+
+  // Apply the pending status change with its comment
+  const confirmStatusChange = (comment: string) => {
+    if (pendingStatusChange?.task.id) {
+      const { task, status, scheduledDate, scheduledTime } = pendingStatusChange;
+      applyStatusChange(task.id!, status, scheduledDate, scheduledTime, comment);
+    }
+    setPendingStatusChange(null);
+  };
+
+  const cancelStatusChange = () => {
+    setPendingStatusChange(null);
+  };
+
+  // Put the pending task on hold; the details double as the comment if the transition needs one
+  const confirmHold = (hold: HoldDetails) => {
+    if (pendingHold?.task.id) {
+      const { task, status, scheduledDate, scheduledTime } = pendingHold;
+      const comment = requiresComment(task.Status, status) ? hold.Note?.trim() : undefined;
+      applyStatusChange(task.id!, status, scheduledDate, scheduledTime, comment, hold);
+    }
+    setPendingHold(null);
+  };
+
+  const cancelHold = () => {
+    setPendingHold(null);
+  };
+
+  return {
+    handleStatusChange,
+    pendingCompletion,
+    confirmCompletion,
+    cancelCompletion,
+    pendingStatusChange,
+    confirmStatusChange,
+    cancelStatusChange,
+    pendingHold,
+    confirmHold,
+    cancelHold,
+  };
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { activityService } from '../services/activity';
+import { socketService } from '../services/socket';
+import { getErrorMessage } from '../services/errors';
+import { parseActivity } from '../utils/schemas';
+import type { TaskActivity } from '../types/activity';
+
+/**
+ * Custom hook for the activity log of a task, newest first
+ * Entries written after loading arrive through the activity:created event
+ */
+export const useTaskActivity = (taskId: string | undefined) => {
+  const [entries, setEntries] = useState<TaskActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!taskId) return;
+
+    let cancelled = false;
+
+    const fetchActivity = async () => {
+      setLoading(true);
+      try {
+        const activity = await activityService.getTaskActivity(taskId);
+        if (!cancelled) {
+          setEntries(activity);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, 'Failed to load activity'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    // The log is append-only, so new entries are simply added on top
+    const handleActivityCreated = (payload: unknown) => {
+      let entry: TaskActivity;
+      try {
+        entry = parseActivity(payload);
+      } catch (err) {
+        console.error('Ignoring invalid activity from socket event:', err);
+        return;
+      }
+      if (entry.TaskId !== taskId) return;
+      setEntries((prev) => (prev.some((existing) => existing.id === entry.id) ? prev : [entry, ...prev]));
+    };
+
+    fetchActivity();
+    const unsubscribe = socketService.on('activity:created', handleActivityCreated);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [taskId]);
+
+  return { entries, loading, error };
+};
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { commentService } from '../services/comments';
+import { socketService } from '../services/socket';
+import { useUsers } from '../contexts/UsersContext';
+import { parseComment } from '../utils/schemas';
+import { extractMentions } from '../utils/mentions';
+import type { TaskComment } from '../types/comment';
+
+/**
+ * Sort comparator keeping CreatedAt ASC order (oldest first, like a conversation)
+ */
+const byCreatedAtAsc = (a: TaskComment, b: TaskComment): number => {
+  return new Date(a.CreatedAt).getTime() - new Date(b.CreatedAt).getTime();
+};
+
+/**
+ * Validate a comment received over the socket
+ * Payloads that cannot be repaired are logged and ignored
+ */
+const parseSocketComment = (payload: unknown): TaskComment | null => {
+  try {
+    return parseComment(payload);
+  } catch (err) {
+    console.error('Ignoring invalid comment from socket event:', err);
+    return null;
+  }
+};
+
+/**
+ * Custom hook for the comment thread of a task
+ * Loads the comments when the task changes and applies comment:created,
+ * comment:updated and comment:deleted events for it as they arrive
+ */
+export const useTaskComments = (taskId: string | undefined) => {
+  const { users } = useUsers();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add a comment or replace the stored copy
+  const upsertComment = useCallback((comment: TaskComment) => {
+    setComments((prev) => [...prev.filter((existing) => existing.id !== comment.id), comment].sort(byCreatedAtAsc));
+  }, []);
+
+  // Remove a comment together with its replies
+  const removeComment = useCallback((commentId: string) => {
+    setComments((prev) => prev.filter((comment) => comment.id !== commentId && comment.ParentId !== commentId));
+  }, []);
+
+  /**
+   * Fetch the task's comments
+   */
+  const loadComments = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const taskComments = await commentService.getComments(id);
+      setComments([...taskComments].sort(byCreatedAtAsc));
+    } catch (err) {
+      console.error('Error fetching comments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Fetch comments when the task changes
+  useEffect(() => {
+    if (!taskId) return;
+    loadComments(taskId);
+  }, [taskId, loadComments]);
+
+  // Apply other users' comment changes on this task
+  useEffect(() => {
+    if (!taskId) return;
+
+    const handleCommentSaved = (payload: unknown) => {
+      const comment = parseSocketComment(payload);
+      if (comment && comment.TaskId === taskId) {
+        upsertComment(comment);
+      }
+    };
+
+    const handleCommentDeleted = (payload: unknown) => {
+      const data = payload as { id?: unknown; TaskId?: unknown } | null;
+      if (data && String(data.TaskId) === taskId && (typeof data.id === 'string' || typeof data.id === 'number')) {
+        removeComment(String(data.id));
+      }
+    };
+
+    const unsubscribers = [
+      socketService.on('comment:created', handleCommentSaved),
+      socketService.on('comment:updated', handleCommentSaved),
+      socketService.on('comment:deleted', handleCommentDeleted),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [taskId, upsertComment, removeComment]);
+
+  /**
+   * Post a comment, or a reply when parentId is given
+   */
+  const addComment = useCallback(async (body: string, parentId: string | null = null) => {
+    if (!taskId) return;
+    const comment = await commentService.createComment(taskId, {
+      Body: body,
+      ParentId: parentId,
+      Mentions: extractMentions(body, users),
+    });
+    upsertComment(comment);
+  }, [taskId, users, upsertComment]);
+
+  /**
+   * Edit the body of a comment
+   */
+  const editComment = useCallback(async (commentId: string, body: string) => {
+    if (!taskId) return;
+    const comment = await commentService.updateComment(taskId, commentId, {
+      Body: body,
+      Mentions: extractMentions(body, users),
+    });
+    upsertComment(comment);
+  }, [taskId, users, upsertComment]);
+
+  /**
+   * Delete a comment and its replies
+   */
+  const deleteComment = useCallback(async (commentId: string) => {
+    if (!taskId) return;
+    await commentService.deleteComment(taskId, commentId);
+    removeComment(commentId);
+  }, [taskId, removeComment]);
+
+  return {
+    comments,
+    loading,
+    error,
+    addComment,
+    editComment,
+    deleteComment,
+  };
+};
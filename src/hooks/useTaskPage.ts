@@ -0,0 +1,129 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { taskApi, type TaskPage, type TaskSortField, type SortOrder } from '../services/api';
+import { getErrorMessage } from '../services/errors';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useProjects } from '../contexts/ProjectsContext';
+import { matchesFilters, type TaskFilters } from '../utils/taskSelectors';
+
+// Wait this long after tasks are added to or removed from the store before refetching the page
+const REFETCH_DELAY_MS = 300;
+
+interface TaskPageOptions {
+  filters: TaskFilters;
+  /** 1-based page number */
+  page: number;
+  pageSize: number | 'All';
+  sortBy?: TaskSortField;
+  sortOrder?: SortOrder;
+  /** Set to false to skip fetching (e.g. while the page shows cards instead of the table) */
+  enabled?: boolean;
+}
+
+/**
+ * Custom hook for one server-side page of tasks
+ * Only the requested page is fetched; it is refetched when the query changes.
+ * Rows are shown with the store's copy, so edits, socket events and optimistic updates
+ * appear without a refetch. The page is only refetched shortly after tasks are created
+ * or deleted, or when a row no longer matches the filters (e.g. it was completed)
+ */
+export const useTaskPage = ({
+  filters,
+  page,
+  pageSize,
+  sortBy = 'CreatedAt',
+  sortOrder = 'desc',
+  enabled = true,
+}: TaskPageOptions) => {
+  const { tasksById } = useTaskStore();
+  const { activeProjectId } = useProjects();
+  const [result, setResult] = useState<TaskPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const hasLoadedRef = useRef(false);
+
+  const { status, priority, search, userId, labelMatch, excludeCompleted } = filters;
+  // Compared by value so a new array with the same labels does not refetch
+  const labelKey = filters.labels?.join(',') ?? '';
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const size = pageSize === 'All' ? undefined : pageSize;
+    const labels = labelKey ? labelKey.split(',') : undefined;
+    const query = { status, priority, search, userId, labels, labelMatch, excludeCompleted, projectId: activeProjectId, pageSize: size, sortBy, sortOrder };
+
+    const fetchPage = async () => {
+      setLoading(true);
+      try {
+        let next = await taskApi.getTaskPage({ ...query, page });
+        // The page no longer exists (e.g. its last task was completed) - show the last one instead
+        if (size && page > 1 && next.tasks.length === 0 && next.total > 0) {
+          next = await taskApi.getTaskPage({ ...query, page: Math.ceil(next.total / size) });
+        }
+        if (!cancelled) {
+          hasLoadedRef.current = true;
+          setResult(next);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, 'Failed to fetch tasks'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    const timer = setTimeout(fetchPage, hasLoadedRef.current ? REFETCH_DELAY_MS : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, status, priority, search, userId, labelKey, labelMatch, excludeCompleted, activeProjectId, page, pageSize, sortBy, sortOrder, reloadKey]);
+
+  /**
+   * Tasks on the page, with the store's copy when it has one
+   * Rows whose store copy no longer matches the filters are left out until the page is refetched
+   * (search is left to the server, which may match more than the title and assignees)
+   */
+  const { tasks, droppedRows } = useMemo(() => {
+    const rows = (result?.tasks ?? []).map((task) => (task.id && tasksById[task.id]) || task);
+    const filters = { status, priority, userId, labels: labelKey ? labelKey.split(',') : undefined, labelMatch, excludeCompleted };
+    const matching = rows.filter((task) => matchesFilters(task, filters));
+    return { tasks: matching, droppedRows: rows.length - matching.length };
+  }, [result, tasksById, status, priority, userId, labelKey, labelMatch, excludeCompleted]);
+
+  // Creates and deletes change which tasks belong on the page; edits are patched in above
+  const storeSize = Object.keys(tasksById).length;
+  const storeSizeRef = useRef(storeSize);
+  useEffect(() => {
+    if (!enabled) {
+      // Enabling the page fetches it anyway
+      storeSizeRef.current = storeSize;
+      return;
+    }
+    if (storeSize === storeSizeRef.current && droppedRows === 0) return;
+    const timer = setTimeout(() => {
+      storeSizeRef.current = storeSize;
+      setReloadKey((key) => key + 1);
+    }, REFETCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, storeSize, droppedRows]);
+
+  const total = result?.total ?? 0;
+  const totalPages = pageSize === 'All' ? 1 : Math.max(Math.ceil(total / pageSize), 1);
+
+  return {
+    tasks,
+    total,
+    totalPages,
+    /** The page actually shown (can be lower than requested if that page no longer exists) */
+    page: Math.min(result?.page ?? page, totalPages),
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,101 @@
+import { useCallback } from 'react';
+import type { Task } from '../types';
+import { taskApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useToast } from '../contexts/ToastContext';
+import { startTimer, pauseTimer, stopTimer, createLoggedEntry, isRunningEntry } from '../utils/timeTracking';
+
+/**
+ * Custom hook for the current user's timers and logged time
+ * A user runs one timer at a time: starting one stops the timer running on any other task
+ * Each action is its own request, so users working on the same task never overwrite each other's entries
+ * (applied optimistically, rolled back if the server rejects them)
+ */
+export const useTimeTracking = () => {
+  const { user } = useAuth();
+  const { tasksById, changeTask } = useTaskStore();
+  const { showError } = useToast();
+
+  const saveChange = useCallback(async (
+    task: Task,
+    change: (task: Task) => Task,
+    request: (taskId: string) => Promise<Task>,
+    errorMessage: string
+  ) => {
+    if (!task.id) return;
+    const taskId = task.id;
+    try {
+      await changeTask(taskId, change, () => request(taskId));
+    } catch (err) {
+      console.error('Failed to update time entries:', err);
+      showError(err, errorMessage);
+    }
+  }, [changeTask, showError]);
+
+  const start = useCallback(async (task: Task) => {
+    if (!user) return;
+    const now = new Date();
+    const otherTimers = Object.values(tasksById).filter((other) =>
+      other.id !== task.id && (other.TimeEntries ?? []).some((entry) => entry.UserId === user.id && isRunningEntry(entry))
+    );
+    await Promise.all(otherTimers.map((other) => saveChange(
+      other,
+      (current) => ({ ...current, TimeEntries: stopTimer(current.TimeEntries ?? [], user.id, now) }),
+      taskApi.stopTimer,
+      'Failed to stop your other timer.'
+    )));
+    await saveChange(
+      task,
+      (current) => ({ ...current, TimeEntries: startTimer(current.TimeEntries ?? [], user.id, now) }),
+      taskApi.startTimer,
+      'Failed to start the timer. Please try again.'
+    );
+  }, [user, tasksById, saveChange]);
+
+  const pause = useCallback(async (task: Task) => {
+    if (!user) return;
+    const now = new Date();
+    await saveChange(
+      task,
+      (current) => ({ ...current, TimeEntries: pauseTimer(current.TimeEntries ?? [], user.id, now) }),
+      taskApi.pauseTimer,
+      'Failed to pause the timer. Please try again.'
+    );
+  }, [user, saveChange]);
+
+  const stop = useCallback(async (task: Task) => {
+    if (!user) return;
+    const now = new Date();
+    await saveChange(
+      task,
+      (current) => ({ ...current, TimeEntries: stopTimer(current.TimeEntries ?? [], user.id, now) }),
+      taskApi.stopTimer,
+      'Failed to stop the timer. Please try again.'
+    );
+  }, [user, saveChange]);
+
+  // Log time worked on the given day (YYYY-MM-DD) by hand
+  const logTime = useCallback(async (task: Task, hours: number, date: string, note?: string) => {
+    if (!user) return;
+    const entry = createLoggedEntry(user.id, hours, date, note);
+    await saveChange(
+      task,
+      (current) => ({ ...current, TimeEntries: [...(current.TimeEntries ?? []).filter((other) => other.id !== entry.id), entry] }),
+      (taskId) => taskApi.addTimeEntry(taskId, { id: entry.id, StartedAt: entry.StartedAt, Hours: entry.Hours, Note: entry.Note }),
+      'Failed to log time. Please try again.'
+    );
+  }, [user, saveChange]);
+
+  // Delete an entry (the server refuses other users' entries without time:manage)
+  const deleteEntry = useCallback(async (task: Task, entryId: string) => {
+    await saveChange(
+      task,
+      (current) => ({ ...current, TimeEntries: (current.TimeEntries ?? []).filter((entry) => entry.id !== entryId) }),
+      (taskId) => taskApi.deleteTimeEntry(taskId, entryId),
+      'Failed to delete the time entry. Your change has been undone.'
+    );
+  }, [saveChange]);
+
+  return { start, pause, stop, logTime, deleteEntry };
+};
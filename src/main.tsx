@@ -6,16 +6,31 @@ import App from './App.tsx'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { AuthProvider } from './contexts/AuthContext'
 import { UsersProvider } from './contexts/UsersContext'
+import { TasksProvider } from './contexts/TasksContext'
+import { ToastProvider } from './contexts/ToastContext'
+import { WorkflowProvider } from './contexts/WorkflowContext'
+import { LabelsProvider } from './contexts/LabelsContext'
+import { ProjectsProvider } from './contexts/ProjectsContext'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
       <ThemeProvider>
-        <AuthProvider>
-          <UsersProvider>
-            <App />
-          </UsersProvider>
-        </AuthProvider>
+        <ToastProvider>
+          <AuthProvider>
+            <UsersProvider>
+              <WorkflowProvider>
+                <LabelsProvider>
+                  <ProjectsProvider>
+                    <TasksProvider>
+                      <App />
+                    </TasksProvider>
+                  </ProjectsProvider>
+                </LabelsProvider>
+              </WorkflowProvider>
+            </UsersProvider>
+          </AuthProvider>
+        </ToastProvider>
       </ThemeProvider>
     </BrowserRouter>
   </StrictMode>,
@@ -1,22 +1,36 @@
 import { useState, useMemo, useEffect, useLayoutEffect, useCallback } from 'react';
 import type { Task } from '../types';
 import { TaskStatus, TaskPriority } from '../types';
+import type { LabelMatch } from '../types/label';
 import { TaskCard } from '../components/TaskCard';
 import { AddTaskModal } from '../components/AddTaskModal';
 import { EditTaskModal } from '../components/EditTaskModal';
 import { ViewTaskModal } from '../components/ViewTaskModal';
 import { DeleteConfirmationModal } from '../components/DeleteConfirmationModal';
 import { ResumeTaskModal } from '../components/ResumeTaskModal';
+import { StatusCommentModal } from '../components/StatusCommentModal';
+import { HoldReasonModal } from '../components/HoldReasonModal';
+import { CompleteParentConfirmationModal } from '../components/CompleteParentConfirmationModal';
+import { KanbanBoard } from '../components/KanbanBoard';
 import { Header } from '../components/Header';
 import { UserFilterDropdown } from '../components/UserFilterDropdown';
+import { LabelChips } from '../components/LabelChips';
+import { LabelFilterDropdown } from '../components/LabelFilterDropdown';
 import { useTasks } from '../hooks/useTasks';
+import { useTaskPage } from '../hooks/useTaskPage';
+import { useCompletedTasks } from '../hooks/useCompletedTasks';
+import { useStatusChange } from '../hooks/useStatusChange';
+import { useAddTask } from '../hooks/useAddTask';
 import { useAuth } from '../contexts/AuthContext';
 import { useUsers } from '../contexts/UsersContext';
-import { ListTodo, Search, X, Loader2, AlertCircle, Grid3x3, Table, Edit, Eye, ChevronLeft, ChevronRight, PauseCircle } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { ListTodo, Search, X, Loader2, AlertCircle, Grid3x3, Table, Kanban, Edit, Eye, ChevronLeft, ChevronRight, PauseCircle } from 'lucide-react';
+import { matchesLabels } from '../utils/taskSelectors';
 
 /**
  * All Tasks Page Component
- * Displays all tasks (Pending, In Progress, Hold) with filtering options
+ * Displays all open tasks (every workflow status except Completed) with filtering options
  * Completed tasks are excluded and should be viewed on the Completed Tasks page
  */
 export const AllTasks = () => {
@@ -25,15 +39,28 @@ export const AllTasks = () => {
     tasks,
     loading,
     error,
-    createTask,
     updateTask,
     deleteTask,
     updateFilters,
   } = useTasks();
 
   // Check if user has permission to view all tasks
-  const { hasPermission, user } = useAuth();
+  const { hasPermission } = useAuth();
   const { users, getUserName } = useUsers();
+  const { showError } = useToast();
+  const { statuses, getStatusBadgeClass, getStatusMove, getNextStatusOptions, requiresComment } = useWorkflow();
+  const {
+    handleStatusChange,
+    pendingCompletion,
+    confirmCompletion,
+    cancelCompletion,
+    pendingStatusChange,
+    confirmStatusChange,
+    cancelStatusChange,
+    pendingHold,
+    confirmHold,
+    cancelHold,
+  } = useStatusChange();
   const canViewAllTasks = hasPermission('tasks:view-all');
 
   // State for modals
@@ -45,17 +72,20 @@ export const AllTasks = () => {
   const [viewingTask, setViewingTask] = useState<Task | null>(null);
   const [taskToDelete, setTaskToDelete] = useState<{ id: string; title: string } | null>(null);
   const [resumingTask, setResumingTask] = useState<Task | null>(null);
+  const [resumeStatus, setResumeStatus] = useState<string>(TaskStatus.Pending);
 
   // State for filters (local UI state, synced with API via useEffect)
-  const [statusFilter, setStatusFilter] = useState<TaskStatus | 'All'>('All');
+  const [statusFilter, setStatusFilter] = useState<string>('All');
   const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'All'>('All');
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const [labelMatch, setLabelMatch] = useState<LabelMatch>('any');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   
   // Load view mode from localStorage, default to 'card'
-  const [viewMode, setViewMode] = useState<'card' | 'table'>(() => {
+  const [viewMode, setViewMode] = useState<'card' | 'table' | 'board'>(() => {
     const savedViewMode = localStorage.getItem('allTasksViewMode');
-    return (savedViewMode === 'card' || savedViewMode === 'table') ? savedViewMode : 'card';
+    return (savedViewMode === 'card' || savedViewMode === 'table' || savedViewMode === 'board') ? savedViewMode : 'card';
   });
 
   // Pagination state
@@ -89,12 +119,14 @@ export const AllTasks = () => {
     }
   }, [canViewAllTasks, searchQuery, selectedUserId]);
 
-  // Set initial filters immediately on mount (before initial fetch)
-  // useLayoutEffect runs synchronously before browser paint, ensuring filters are set before useTasks' useEffect runs
+  // Set initial filters immediately on mount
+  // useLayoutEffect runs synchronously before browser paint, so the first render already shows the filtered list
   useLayoutEffect(() => {
     const initialFilters: any = {
       status: statusFilter !== 'All' ? statusFilter : undefined,
       priority: priorityFilter !== 'All' ? priorityFilter : undefined,
+      labels: labelFilter,
+      labelMatch,
       search: canViewAllTasks && searchQuery.trim() ? searchQuery.trim() : undefined,
       userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
       excludeCompleted: true, // Exclude completed tasks from All Tasks page
@@ -108,20 +140,27 @@ export const AllTasks = () => {
     const filters: any = {
       status: statusFilter !== 'All' ? statusFilter : undefined,
       priority: priorityFilter !== 'All' ? priorityFilter : undefined,
+      labels: labelFilter,
+      labelMatch,
       // Only send search query if user has permission to view all tasks
       search: canViewAllTasks && searchQuery.trim() ? searchQuery.trim() : undefined,
       userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
       excludeCompleted: true, // Exclude completed tasks from All Tasks page
     };
     updateFilters(filters);
-  }, [statusFilter, priorityFilter, searchQuery, selectedUserId, canViewAllTasks, updateFilters]);
+  }, [statusFilter, priorityFilter, labelFilter, labelMatch, searchQuery, selectedUserId, canViewAllTasks, updateFilters]);
 
-  // Filter tasks based on current filters (frontend filtering for search)
-  const filteredTasks = useMemo(() => {
-    let filtered = tasks;
+  // Completed tasks for the board's Completed column (the store only holds active tasks)
+  const { tasks: completedTasks } = useCompletedTasks({
+    priority: priorityFilter,
+    userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
+    enabled: viewMode === 'board',
+  });
 
-    // Explicitly exclude completed tasks (safety check in case backend doesn't filter them)
-    filtered = filtered.filter((task) => task.Status !== TaskStatus.Completed);
+  // Filter tasks based on current filters (frontend filtering for search)
+  // The board keeps completed tasks for its Completed column
+  const boardTasks = useMemo(() => {
+    let filtered = [...tasks, ...completedTasks];
 
     // Status filter (already handled by backend, but keep for consistency)
     if (statusFilter !== 'All') {
@@ -133,6 +172,9 @@ export const AllTasks = () => {
       filtered = filtered.filter((task) => task.Priority === priorityFilter);
     }
 
+    // Label filter (already handled by backend, but keep for consistency)
+    filtered = filtered.filter((task) => matchesLabels(task, labelFilter, labelMatch));
+
     // Title search (frontend filtering)
     if (canViewAllTasks && searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
@@ -142,30 +184,54 @@ export const AllTasks = () => {
     }
 
     return filtered;
-  }, [tasks, statusFilter, priorityFilter, searchQuery, canViewAllTasks]);
+  }, [tasks, completedTasks, statusFilter, priorityFilter, labelFilter, labelMatch, searchQuery, canViewAllTasks]);
+
+  // Explicitly exclude completed tasks from the cards and table (safety check in case backend doesn't filter them)
+  const filteredTasks = useMemo(() => {
+    return boardTasks.filter((task) => task.Status !== TaskStatus.Completed);
+  }, [boardTasks]);
+
+  // The tasks shown by the current view
+  const visibleTasks = viewMode === 'board' ? boardTasks : filteredTasks;
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [statusFilter, priorityFilter, searchQuery, selectedUserId, filteredTasks.length]);
+  }, [statusFilter, priorityFilter, labelFilter, labelMatch, searchQuery, selectedUserId]);
 
-  // Calculate pagination
-  const totalTasks = filteredTasks.length;
-  const totalPages = rowsPerPage === 'All' ? 1 : Math.ceil(totalTasks / rowsPerPage);
-  const startIndex = rowsPerPage === 'All' ? 0 : (currentPage - 1) * rowsPerPage;
+  // Fetch only the current page of the table from the server
+  const {
+    tasks: paginatedTasks,
+    total: totalTasks,
+    totalPages,
+    page,
+  } = useTaskPage({
+    filters: {
+      status: statusFilter,
+      priority: priorityFilter,
+      labels: labelFilter,
+      labelMatch,
+      search: canViewAllTasks && searchQuery.trim() ? searchQuery.trim() : undefined,
+      userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
+      excludeCompleted: true,
+    },
+    page: currentPage,
+    pageSize: rowsPerPage,
+    enabled: viewMode === 'table',
+  });
+  const startIndex = rowsPerPage === 'All' ? 0 : (page - 1) * rowsPerPage;
   const endIndex = rowsPerPage === 'All' ? totalTasks : startIndex + rowsPerPage;
-  const paginatedTasks = filteredTasks.slice(startIndex, endIndex);
 
   // Pagination handlers
   const handleNextPage = () => {
-    if (currentPage < totalPages) {
-      setCurrentPage(prev => prev + 1);
+    if (page < totalPages) {
+      setCurrentPage(page + 1);
     }
   };
 
   const handlePreviousPage = () => {
-    if (currentPage > 1) {
-      setCurrentPage(prev => prev - 1);
+    if (page > 1) {
+      setCurrentPage(page - 1);
     }
   };
 
@@ -182,15 +248,7 @@ export const AllTasks = () => {
   };
 
   // Handlers
-  const handleAddTask = async (taskData: any) => {
-    try {
-      await createTask(taskData);
-      setIsModalOpen(false);
-    } catch (error) {
-      console.error('Error creating task:', error);
-      alert('Failed to create task. Please try again.');
-    }
-  };
+  const handleAddTask = useAddTask(setIsModalOpen);
 
   const handleUpdateTask = async (taskId: string, taskData: any) => {
     try {
@@ -199,7 +257,8 @@ export const AllTasks = () => {
       setEditingTask(null);
     } catch (error) {
       console.error('Error updating task:', error);
-      alert('Failed to update task. Please try again.');
+      // EditTaskModal shows the error and stays open
+      throw error;
     }
   };
 
@@ -221,10 +280,10 @@ export const AllTasks = () => {
         setTaskToDelete(null);
       } catch (error) {
         console.error('Error deleting task:', error);
-        alert('Failed to delete task. Please try again.');
+        showError(error, 'Failed to delete task. Please try again.');
       }
     }
-  }, [deleteTask, taskToDelete]);
+  }, [deleteTask, taskToDelete, showError]);
 
   // Handle view task click
   const handleViewTask = useCallback((task: Task) => {
@@ -232,20 +291,10 @@ export const AllTasks = () => {
     setIsViewModalOpen(true);
   }, []);
 
-  const handleStatusChange = async (taskId: string, newStatus: TaskStatus, scheduledDate?: string, scheduledTime?: string) => {
-    try {
-      const updateData: any = { Status: newStatus };
-      if (scheduledDate !== undefined) {
-        updateData.ScheduledStartDate = scheduledDate || null;
-      }
-      if (scheduledTime !== undefined) {
-        updateData.ScheduledStartTime = scheduledTime || null;
-      }
-      await updateTask(taskId, updateData);
-    } catch (error) {
-      console.error('Error updating task status:', error);
-      alert('Failed to update task status. Please try again.');
-    }
+  // Open ResumeTaskModal, preselecting the status a board card was dropped on
+  const openResumeModal = (task: Task, status: string = TaskStatus.Pending) => {
+    setResumeStatus(status);
+    setResumingTask(task);
   };
 
   const handleEditClick = (task: Task) => {
@@ -318,6 +367,18 @@ export const AllTasks = () => {
                 >
                   <Table className="w-4 h-4" />
                 </button>
+                <button
+                  onClick={() => setViewMode('board')}
+                  className={`p-2 rounded-md transition-colors ${
+                    viewMode === 'board'
+                      ? 'bg-indigo-600 text-white'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                  }`}
+                  type="button"
+                  title="Board View"
+                >
+                  <Kanban className="w-4 h-4" />
+                </button>
               </div>
             </div>
           </div>
@@ -330,13 +391,15 @@ export const AllTasks = () => {
               <select
                 id="status-filter"
                 value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value as TaskStatus | 'All')}
+                onChange={(e) => setStatusFilter(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
               >
                 <option value="All">All</option>
-                <option value={TaskStatus.Pending}>Pending</option>
-                <option value={TaskStatus.InProgress}>In Progress</option>
-                <option value={TaskStatus.Hold}>Hold</option>
+                {statuses
+                  .filter((status) => status !== TaskStatus.Completed)
+                  .map((status) => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
               </select>
             </div>
 
@@ -359,6 +422,19 @@ export const AllTasks = () => {
               </select>
             </div>
 
+            {/* Label Filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Labels
+              </label>
+              <LabelFilterDropdown
+                selectedLabelIds={labelFilter}
+                onLabelsChange={setLabelFilter}
+                match={labelMatch}
+                onMatchChange={setLabelMatch}
+              />
+            </div>
+
             {/* User Filter Dropdown - Only show if user has permission to view all tasks */}
             {canViewAllTasks && (
               <div>
@@ -415,12 +491,13 @@ export const AllTasks = () => {
             </div>
 
             {/* Clear Filters Button */}
-            {(statusFilter !== 'All' || priorityFilter !== 'All' || searchQuery.trim() !== '' || selectedUserId !== null) && (
+            {(statusFilter !== 'All' || priorityFilter !== 'All' || labelFilter.length > 0 || searchQuery.trim() !== '' || selectedUserId !== null) && (
               <div className="w-full flex items-end sm:col-span-2 lg:col-span-4">
                 <button
                   onClick={() => {
                     setStatusFilter('All');
                     setPriorityFilter('All');
+                    setLabelFilter([]);
                     setSearchQuery('');
                     setSelectedUserId(null);
                   }}
@@ -443,12 +520,12 @@ export const AllTasks = () => {
         )}
 
         {/* Tasks List */}
-        {filteredTasks.length === 0 ? (
+        {visibleTasks.length === 0 ? (
           <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-12 border border-gray-200 dark:border-slate-700 text-center">
             <ListTodo className="w-16 h-16 text-gray-400 dark:text-gray-500 mx-auto mb-4" />
             <p className="text-lg font-medium text-gray-900 dark:text-white mb-2">No tasks found</p>
             <p className="text-gray-600 dark:text-gray-400">
-              {statusFilter !== 'All' || priorityFilter !== 'All' || searchQuery.trim() !== '' || selectedUserId !== null
+              {statusFilter !== 'All' || priorityFilter !== 'All' || labelFilter.length > 0 || searchQuery.trim() !== '' || selectedUserId !== null
                 ? 'Try adjusting your filters.'
                 : 'Tasks will appear here when created.'}
             </p>
@@ -467,6 +544,14 @@ export const AllTasks = () => {
                   />
                 ))}
               </div>
+            ) : viewMode === 'board' ? (
+              <KanbanBoard
+                tasks={boardTasks}
+                onStatusChange={handleStatusChange}
+                onHold={(task) => handleStatusChange(task.id!, TaskStatus.Hold)}
+                onResume={openResumeModal}
+                onView={handleViewTask}
+              />
             ) : (
               <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
                 <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-slate-700">
@@ -523,21 +608,6 @@ export const AllTasks = () => {
                           return now.getTime() > deadline.getTime();
                         };
 
-                        const getStatusBadgeClass = (status: TaskStatus) => {
-                          switch (status) {
-                            case TaskStatus.Pending:
-                              return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300 border-yellow-200 dark:border-yellow-800';
-                            case TaskStatus.InProgress:
-                              return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 border-blue-200 dark:border-blue-800';
-                            case TaskStatus.Completed:
-                              return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 border-green-200 dark:border-green-800';
-                            case TaskStatus.Hold:
-                              return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300 border-orange-200 dark:border-orange-800';
-                            default:
-                              return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600';
-                          }
-                        };
-
                         const getPriorityBadgeClass = (priority: TaskPriority) => {
                           switch (priority) {
                             case TaskPriority.Low:
@@ -564,34 +634,11 @@ export const AllTasks = () => {
                             : dateStr;
                         };
 
-                        // Determine status update options
-                        const isAssigned = user && (
-                          Array.isArray(task.AssignedTo)
-                            ? task.AssignedTo.includes(user.id)
-                            : task.AssignedTo === user.id
-                        );
-                        const canUpdateStatus = hasPermission('tasks:update') || isAssigned;
-                        const canHold = hasPermission('tasks:hold');
-                        
-                        const getNextStatusOptions = () => {
-                          const options: TaskStatus[] = [];
-                          if (task.Status === TaskStatus.Pending) {
-                            options.push(TaskStatus.InProgress);
-                            if (canHold) options.push(TaskStatus.Hold);
-                          } else if (task.Status === TaskStatus.InProgress) {
-                            options.push(TaskStatus.Completed);
-                            if (canHold) options.push(TaskStatus.Hold);
-                          } else if (task.Status === TaskStatus.Hold) {
-                            if (canHold) {
-                              options.push(TaskStatus.Pending, TaskStatus.InProgress);
-                            }
-                          }
-                          return options;
-                        };
-                        
-                        const nextStatusOptions = getNextStatusOptions();
-                        const hasNextStatus = nextStatusOptions.length > 0;
-                        const showStatusUpdate = canUpdateStatus && hasNextStatus && task.Status !== TaskStatus.Hold;
+                        // Status moves the workflow allows the current user (hold and resume have their own buttons)
+                        const nextStatusOptions = getNextStatusOptions(task);
+                        const showStatusUpdate = nextStatusOptions.length > 0;
+                        const canResume = getNextStatusOptions(task, 'resume').length > 0;
+                        const canPutOnHold = getStatusMove(task, TaskStatus.Hold) === 'hold';
 
                         return (
                           <tr
@@ -609,6 +656,7 @@ export const AllTasks = () => {
                                   {task.Description}
                                 </div>
                               )}
+                              <LabelChips labelIds={task.Labels} className="mt-2" />
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="flex items-center gap-2">
@@ -625,7 +673,7 @@ export const AllTasks = () => {
                                     value=""
                                     onChange={(e) => {
                                       if (e.target.value) {
-                                        handleStatusChange(task.id!, e.target.value as TaskStatus);
+                                        handleStatusChange(task.id!, e.target.value);
                                         e.target.value = '';
                                       }
                                     }}
@@ -640,10 +688,10 @@ export const AllTasks = () => {
                                     ))}
                                   </select>
                                 )}
-                                {/* Resume from Hold Button - only show if task is on hold and user has permission */}
-                                {canHold && task.Status === TaskStatus.Hold && hasNextStatus && (
+                                {/* Resume from Hold Button - only show if the workflow lets the user resume this task */}
+                                {canResume && (
                                   <button
-                                    onClick={() => setResumingTask(task)}
+                                    onClick={() => openResumeModal(task)}
                                     className="text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-600 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                                     title="Resume task"
                                     type="button"
@@ -699,7 +747,7 @@ export const AllTasks = () => {
                                     <Edit className="w-4 h-4" />
                                   </button>
                                 )}
-                                {hasPermission('tasks:hold') && task.Status !== TaskStatus.Hold && task.Status !== TaskStatus.Completed && (
+                                {canPutOnHold && (
                                   <button
                                     onClick={() => handleStatusChange(task.id!, TaskStatus.Hold)}
                                     className="p-2 text-orange-600 hover:text-orange-700 dark:text-orange-400 dark:hover:text-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
@@ -763,9 +811,9 @@ export const AllTasks = () => {
                         <div className="flex items-center gap-2">
                           <button
                             onClick={handlePreviousPage}
-                            disabled={currentPage === 1}
+                            disabled={page === 1}
                             className={`p-2 rounded-lg border transition-colors ${
-                              currentPage === 1
+                              page === 1
                                 ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                                 : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                             }`}
@@ -776,14 +824,14 @@ export const AllTasks = () => {
                           </button>
                           
                           <span className="text-sm text-gray-700 dark:text-gray-300 px-2">
-                            Page {currentPage} of {totalPages}
+                            Page {page} of {totalPages}
                           </span>
                           
                           <button
                             onClick={handleNextPage}
-                            disabled={currentPage === totalPages}
+                            disabled={page === totalPages}
                             className={`p-2 rounded-lg border transition-colors ${
-                              currentPage === totalPages
+                              page === totalPages
                                 ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                                 : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                             }`}
@@ -848,12 +896,40 @@ export const AllTasks = () => {
       <ResumeTaskModal
         isOpen={resumingTask !== null}
         task={resumingTask}
+        initialStatus={resumeStatus}
         onClose={() => setResumingTask(null)}
         onResume={(taskId, status, scheduledDate, scheduledTime) => {
           handleStatusChange(taskId, status, scheduledDate, scheduledTime);
           setResumingTask(null);
         }}
       />
+
+      {/* Complete Parent Confirmation Modal */}
+      <CompleteParentConfirmationModal
+        isOpen={pendingCompletion !== null}
+        taskTitle={pendingCompletion?.task.Title}
+        openSubtasks={pendingCompletion?.openSubtasks ?? []}
+        onClose={cancelCompletion}
+        onConfirm={confirmCompletion}
+      />
+
+      {/* Status Comment Modal */}
+      <StatusCommentModal
+        isOpen={pendingStatusChange !== null}
+        task={pendingStatusChange?.task ?? null}
+        status={pendingStatusChange?.status ?? ''}
+        onClose={cancelStatusChange}
+        onConfirm={confirmStatusChange}
+      />
+
+      {/* Hold Reason Modal */}
+      <HoldReasonModal
+        isOpen={pendingHold !== null}
+        task={pendingHold?.task ?? null}
+        requiresComment={pendingHold ? requiresComment(pendingHold.task.Status, pendingHold.status) : false}
+        onClose={cancelHold}
+        onConfirm={confirmHold}
+      />
     </div>
   );
 };
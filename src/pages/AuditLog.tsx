@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react';
+import type { ActivityAction, TaskActivity } from '../types/activity';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { UserFilterDropdown } from '../components/UserFilterDropdown';
+import { ActivityTimeline } from '../components/ActivityTimeline';
+import { useUsers } from '../contexts/UsersContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { useProjects } from '../contexts/ProjectsContext';
+import { activityService } from '../services/activity';
+import { getErrorMessage } from '../services/errors';
+import { History, Loader2, AlertCircle } from 'lucide-react';
+
+// Number of entries fetched per page
+const PAGE_SIZE = 50;
+
+const ACTION_OPTIONS: { value: ActivityAction | 'All'; label: string }[] = [
+  { value: 'All', label: 'All' },
+  { value: 'created', label: 'Created' },
+  { value: 'updated', label: 'Updated' },
+  { value: 'held', label: 'Put on hold' },
+  { value: 'resumed', label: 'Resumed' },
+  { value: 'deleted', label: 'Deleted' },
+];
+
+/**
+ * Audit Log Page
+ * Activity of all tasks in the active project, newest first, filterable by action, user and date range
+ * Older entries are loaded page by page
+ */
+export const AuditLog = () => {
+  const { users } = useUsers();
+  const { showError } = useToast();
+  const { activeProjectId } = useProjects();
+  const [entries, setEntries] = useState<TaskActivity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [actionFilter, setActionFilter] = useState<ActivityAction | 'All'>('All');
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+
+  const hasFilters = actionFilter !== 'All' || selectedUserId !== null || fromDate !== '' || toDate !== '';
+
+  // Fetch the first page whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchFirstPage = async () => {
+      setLoading(true);
+      try {
+        const page = await activityService.getActivityPage({
+          action: actionFilter,
+          projectId: activeProjectId ?? undefined,
+          actorId: selectedUserId ?? undefined,
+          from: fromDate || undefined,
+          to: toDate || undefined,
+          pageSize: PAGE_SIZE,
+        });
+        if (!cancelled) {
+          setEntries(page.entries);
+          setNextCursor(page.nextCursor);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(getErrorMessage(err, 'Failed to load the audit log'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchFirstPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [actionFilter, selectedUserId, fromDate, toDate, activeProjectId]);
+
+  // Append the next page of older entries
+  const handleLoadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await activityService.getActivityPage({
+        action: actionFilter,
+        projectId: activeProjectId ?? undefined,
+        actorId: selectedUserId ?? undefined,
+        from: fromDate || undefined,
+        to: toDate || undefined,
+        pageSize: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setEntries((prev) => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      showError(err, 'Failed to load more activity');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-slate-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <History className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+            Audit Log
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Every change made to tasks, who made it and when
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 border border-gray-200 dark:border-slate-700">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            {/* Action Filter */}
+            <div>
+              <label htmlFor="action-filter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Action
+              </label>
+              <select
+                id="action-filter"
+                value={actionFilter}
+                onChange={(e) => setActionFilter(e.target.value as ActivityAction | 'All')}
+                className={inputClass}
+              >
+                {ACTION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* User Filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Changed By
+              </label>
+              <UserFilterDropdown
+                users={users}
+                selectedUserId={selectedUserId}
+                onUserChange={setSelectedUserId}
+                placeholder="Select user..."
+              />
+            </div>
+
+            {/* Date Range */}
+            <div>
+              <label htmlFor="from-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                From
+              </label>
+              <input
+                type="date"
+                id="from-date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="to-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                To
+              </label>
+              <input
+                type="date"
+                id="to-date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => setToDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            {/* Clear Filters Button */}
+            {hasFilters && (
+              <div className="w-full flex items-end">
+                <button
+                  onClick={() => {
+                    setActionFilter('All');
+                    setSelectedUserId(null);
+                    setFromDate('');
+                    setToDate('');
+                  }}
+                  className="w-full sm:w-auto px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                  type="button"
+                >
+                  Clear Filters
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Activity */}
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400 flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-12 border border-gray-200 dark:border-slate-700 text-center">
+            <History className="w-16 h-16 text-gray-400 dark:text-gray-500 mx-auto mb-4" />
+            <p className="text-lg font-medium text-gray-900 dark:text-white mb-2">No activity found</p>
+            <p className="text-gray-600 dark:text-gray-400">
+              {hasFilters ? 'Try adjusting your filters' : 'Changes to tasks will appear here'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-slate-700">
+            <ActivityTimeline entries={entries} showTaskTitle />
+
+            {nextCursor && (
+              <div className="mt-6 flex justify-center">
+                <button
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  type="button"
+                >
+                  {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Load More
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
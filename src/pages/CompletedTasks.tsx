@@ -1,14 +1,20 @@
-import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { Task } from '../types';
-import { TaskPriority } from '../types';
+import { TaskPriority, TaskStatus } from '../types';
 import { Header } from '../components/Header';
 import { UserFilterDropdown } from '../components/UserFilterDropdown';
 import { ViewTaskModal } from '../components/ViewTaskModal';
 import { AddTaskModal } from '../components/AddTaskModal';
+import { LabelChips } from '../components/LabelChips';
 import { useAuth } from '../contexts/AuthContext';
 import { useUsers } from '../contexts/UsersContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useTaskPage } from '../hooks/useTaskPage';
+import { useCompletedTasks } from '../hooks/useCompletedTasks';
+import { useCompletedSummary } from '../hooks/useCompletedSummary';
 import { CheckCircle2, Loader2, AlertCircle, Clock, Calendar, Grid3x3, Table, Eye, ChevronLeft, ChevronRight } from 'lucide-react';
-import { taskApi } from '../services/api';
+import { getLoggedHours } from '../utils/timeTracking';
 
 /**
  * Completed Tasks Page Component
@@ -19,9 +25,7 @@ export const CompletedTasks = () => {
   const { users, getUserName } = useUsers();
   const canViewAllTasks = hasPermission('tasks:view-all');
 
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { loading: storeLoading, error: storeError } = useTaskStore();
   
   // State for view modal
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
@@ -33,13 +37,40 @@ export const CompletedTasks = () => {
   // Filter state
   const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'All'>('All');
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
-  
+
   // Load view mode from localStorage, default to 'card'
   const [viewMode, setViewMode] = useState<'card' | 'table'>(() => {
     const savedViewMode = localStorage.getItem('completedTasksViewMode');
     return (savedViewMode === 'card' || savedViewMode === 'table') ? savedViewMode : 'card';
   });
 
+  // Completed tasks are not kept in the shared task store: the summary cards come from the server,
+  // the card view fetches the most recently completed tasks a page at a time and the table its current page
+  const {
+    count: completedCount,
+    accuracy: overallAccuracy,
+    totalHours: totalDuration,
+    loading: summaryLoading,
+  } = useCompletedSummary({
+    priority: priorityFilter,
+    userId: selectedUserId ?? undefined,
+    withAccuracy: true,
+    withDuration: true,
+  });
+  const {
+    tasks,
+    hasMore,
+    loadMore,
+    loading: completedLoading,
+    error: completedError,
+  } = useCompletedTasks({
+    priority: priorityFilter,
+    userId: selectedUserId ?? undefined,
+    enabled: viewMode === 'card',
+  });
+  const loading = storeLoading || summaryLoading;
+  const error = storeError || completedError;
+
   // Pagination state
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [rowsPerPage, setRowsPerPage] = useState<number | 'All'>(() => {
@@ -59,38 +90,6 @@ export const CompletedTasks = () => {
     localStorage.setItem('completedTasksRowsPerPage', String(rowsPerPage));
   }, [rowsPerPage]);
 
-  /**
-   * Calculate duration between StartedAt and CompletedAt in hours
-   * Returns the time difference in hours, or null if either timestamp is missing
-   */
-  const calculateDuration = (startedAt: Date | string | null | undefined, completedAt: Date | string | null | undefined): number | null => {
-    // Both timestamps are required
-    if (!startedAt || !completedAt) {
-      return null;
-    }
-
-    // Parse dates if they're strings
-    const start = typeof startedAt === 'string' ? new Date(startedAt) : startedAt;
-    const end = typeof completedAt === 'string' ? new Date(completedAt) : completedAt;
-
-    // Validate dates
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      console.warn('Invalid date in duration calculation:', { startedAt, completedAt });
-      return null;
-    }
-
-    // Calculate difference in milliseconds, then convert to hours
-    const diffMs = end.getTime() - start.getTime();
-    
-    // Ensure positive duration (completed should be after started)
-    if (diffMs < 0) {
-      console.warn('Completed date is before started date:', { startedAt, completedAt });
-      return null;
-    }
-
-    return diffMs / (1000 * 60 * 60); // Convert to hours
-  };
-
   /**
    * Format duration for display
    */
@@ -145,91 +144,43 @@ export const CompletedTasks = () => {
     return Math.round(accuracy * 100) / 100; // Round to 2 decimal places
   };
 
-  /**
-   * Fetch completed tasks
-   */
-  const fetchCompletedTasks = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await taskApi.getCompletedTasks({
-        priority: priorityFilter !== 'All' ? priorityFilter : undefined,
-        userId: selectedUserId ? selectedUserId : undefined,
-      });
-      setTasks(response.data || []);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load completed tasks');
-      console.error('Error fetching completed tasks:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [priorityFilter, selectedUserId]);
-
-  useEffect(() => {
-    fetchCompletedTasks();
-  }, [fetchCompletedTasks]);
-
   // Handle add task
-  const handleAddTask = useCallback(async (taskData: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => {
-    try {
-      // Convert taskData to CreateTaskDTO format
-      const createTaskData = {
-        ...taskData,
-        ScheduledStartDate: taskData.ScheduledStartDate 
-          ? (typeof taskData.ScheduledStartDate === 'string' 
-              ? taskData.ScheduledStartDate 
-              : taskData.ScheduledStartDate instanceof Date
-              ? taskData.ScheduledStartDate.toISOString().split('T')[0]
-              : null)
-          : null,
-      };
-      await taskApi.createTask(createTaskData);
-      setIsAddTaskModalOpen(false);
-      // Refresh tasks after adding
-      await fetchCompletedTasks();
-    } catch (error) {
-      console.error('Error creating task:', error);
-      alert('Failed to create task. Please try again.');
-    }
-  }, [fetchCompletedTasks]);
-
-  /**
-   * Calculate total duration for all tasks
-   */
-  const totalDuration = useMemo(() => {
-    return tasks.reduce((total, task) => {
-      const duration = calculateDuration(task.StartedAt, task.CompletedAt);
-      return total + (duration || 0);
-    }, 0);
-  }, [tasks]);
-
-  // No frontend filtering needed - backend handles filtering by userId
-  const filteredTasks = useMemo(() => {
-    return tasks;
-  }, [tasks]);
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [priorityFilter, selectedUserId, filteredTasks.length]);
+  }, [priorityFilter, selectedUserId]);
 
-  // Calculate pagination
-  const totalTasks = filteredTasks.length;
-  const totalPages = rowsPerPage === 'All' ? 1 : Math.ceil(totalTasks / rowsPerPage);
-  const startIndex = rowsPerPage === 'All' ? 0 : (currentPage - 1) * rowsPerPage;
+  // Fetch only the current page of the table from the server
+  const {
+    tasks: paginatedTasks,
+    total: totalTasks,
+    totalPages,
+    page,
+  } = useTaskPage({
+    filters: {
+      status: TaskStatus.Completed,
+      priority: priorityFilter,
+      userId: selectedUserId ?? undefined,
+    },
+    page: currentPage,
+    pageSize: rowsPerPage,
+    enabled: viewMode === 'table',
+  });
+  const startIndex = rowsPerPage === 'All' ? 0 : (page - 1) * rowsPerPage;
   const endIndex = rowsPerPage === 'All' ? totalTasks : startIndex + rowsPerPage;
-  const paginatedTasks = filteredTasks.slice(startIndex, endIndex);
 
   // Pagination handlers
   const handleNextPage = () => {
-    if (currentPage < totalPages) {
-      setCurrentPage(prev => prev + 1);
+    if (page < totalPages) {
+      setCurrentPage(page + 1);
     }
   };
 
   const handlePreviousPage = () => {
-    if (currentPage > 1) {
-      setCurrentPage(prev => prev - 1);
+    if (page > 1) {
+      setCurrentPage(page - 1);
     }
   };
 
@@ -281,7 +232,7 @@ export const CompletedTasks = () => {
           {/* Total Tasks Card */}
           <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-slate-700">
             <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Completed Tasks</p>
-            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{filteredTasks.length}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{completedCount}</p>
           </div>
 
           {/* Total Duration Card */}
@@ -296,18 +247,7 @@ export const CompletedTasks = () => {
           <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 border border-gray-200 dark:border-slate-700">
             <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Overall Accuracy</p>
             <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">
-              {(() => {
-                const allAccuracies = filteredTasks
-                  .map((task) => {
-                    const actualDuration = calculateDuration(task.StartedAt, task.CompletedAt);
-                    return calculateAccuracy(actualDuration, task.EstimatedHours || null);
-                  })
-                  .filter((acc): acc is number => acc !== null);
-                
-                if (allAccuracies.length === 0) return 'N/A';
-                const avg = allAccuracies.reduce((sum, acc) => sum + acc, 0) / allAccuracies.length;
-                return `${Math.round(avg * 100) / 100}%`;
-              })()}
+              {overallAccuracy !== null ? `${Math.round(overallAccuracy * 100) / 100}%` : 'N/A'}
             </p>
           </div>
         </div>
@@ -409,7 +349,7 @@ export const CompletedTasks = () => {
         </div>
 
         {/* Tasks List */}
-        {filteredTasks.length === 0 ? (
+        {completedCount === 0 ? (
           <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-12 border border-gray-200 dark:border-slate-700 text-center">
             <CheckCircle2 className="w-16 h-16 text-gray-400 dark:text-gray-500 mx-auto mb-4" />
             <p className="text-lg font-medium text-gray-900 dark:text-white mb-2">No completed tasks found</p>
@@ -422,10 +362,11 @@ export const CompletedTasks = () => {
         ) : (
           <>
             {viewMode === 'card' ? (
+              <>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredTasks.map((task) => {
-              // Calculate duration from StartedAt to CompletedAt
-              const duration = calculateDuration(task.StartedAt, task.CompletedAt);
+                {tasks.map((task) => {
+              // Actual duration is the time logged on the task
+              const duration = getLoggedHours(task);
               const completedDate = task.CompletedAt
                 ? (typeof task.CompletedAt === 'string' ? new Date(task.CompletedAt) : task.CompletedAt)
                 : null;
@@ -442,6 +383,7 @@ export const CompletedTasks = () => {
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2 line-clamp-2">
                     {task.Title}
                   </h3>
+                  <LabelChips labelIds={task.Labels} className="mb-3" />
 
                   {/* Description */}
                   <p className="text-gray-600 dark:text-gray-300 text-sm mb-4 line-clamp-3">
@@ -567,7 +509,7 @@ export const CompletedTasks = () => {
                       <Clock className="w-4 h-4 mr-2 text-indigo-600 dark:text-indigo-400" />
                       <span className="font-medium">Actual Duration:</span>{' '}
                       <span className="text-indigo-600 dark:text-indigo-400 font-semibold ml-1">
-                        {duration !== null ? formatDuration(duration) : 'N/A (No start time recorded)'}
+                        {duration !== null ? formatDuration(duration) : 'N/A (No time logged)'}
                       </span>
                       {duration !== null && task.EstimatedHours && (
                         <span className={`ml-2 text-xs px-2 py-0.5 rounded ${
@@ -629,6 +571,21 @@ export const CompletedTasks = () => {
               );
             })}
               </div>
+              {/* Load More - older completed tasks are fetched a page at a time */}
+              {(hasMore || completedLoading) && (
+                <div className="flex justify-center mt-6">
+                  <button
+                    onClick={loadMore}
+                    disabled={completedLoading}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    type="button"
+                  >
+                    {completedLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {completedLoading ? 'Loading...' : `Show more (${tasks.length} of ${completedCount})`}
+                  </button>
+                </div>
+              )}
+              </>
             ) : (
               <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
                 <div className="overflow-x-auto">
@@ -669,7 +626,7 @@ export const CompletedTasks = () => {
                     </thead>
                     <tbody className="bg-white dark:bg-slate-800 divide-y divide-gray-200 dark:divide-slate-700">
                       {paginatedTasks.map((task) => {
-                        const duration = calculateDuration(task.StartedAt, task.CompletedAt);
+                        const duration = getLoggedHours(task);
                         const completedDate = task.CompletedAt
                           ? (typeof task.CompletedAt === 'string' ? new Date(task.CompletedAt) : task.CompletedAt)
                           : null;
@@ -704,6 +661,7 @@ export const CompletedTasks = () => {
                                   {task.Description}
                                 </div>
                               )}
+                              <LabelChips labelIds={task.Labels} className="mt-2" />
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <span className={`inline-flex items-center justify-center px-2 py-1 text-xs font-semibold rounded-full w-20 ${getPriorityBadgeClass(task.Priority)}`}>
@@ -866,9 +824,9 @@ export const CompletedTasks = () => {
                         <div className="flex items-center gap-2">
                           <button
                             onClick={handlePreviousPage}
-                            disabled={currentPage === 1}
+                            disabled={page === 1}
                             className={`p-2 rounded-lg border transition-colors ${
-                              currentPage === 1
+                              page === 1
                                 ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                                 : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                             }`}
@@ -879,14 +837,14 @@ export const CompletedTasks = () => {
                           </button>
                           
                           <span className="text-sm text-gray-700 dark:text-gray-300 px-2">
-                            Page {currentPage} of {totalPages}
+                            Page {page} of {totalPages}
                           </span>
                           
                           <button
                             onClick={handleNextPage}
-                            disabled={currentPage === totalPages}
+                            disabled={page === totalPages}
                             className={`p-2 rounded-lg border transition-colors ${
-                              currentPage === totalPages
+                              page === totalPages
                                 ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                                 : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                             }`}
@@ -1,21 +1,37 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import type { Task } from '../types';
 import { TaskStatus, TaskPriority } from '../types';
+import type { LabelMatch } from '../types/label';
 import { TaskCard } from '../components/TaskCard';
 import { AddTaskModal } from '../components/AddTaskModal';
 import { EditTaskModal } from '../components/EditTaskModal';
 import { ViewTaskModal } from '../components/ViewTaskModal';
 import { DeleteConfirmationModal } from '../components/DeleteConfirmationModal';
 import { ResumeTaskModal } from '../components/ResumeTaskModal';
+import { StatusCommentModal } from '../components/StatusCommentModal';
+import { HoldReasonModal } from '../components/HoldReasonModal';
+import { CompleteParentConfirmationModal } from '../components/CompleteParentConfirmationModal';
+import { KanbanBoard } from '../components/KanbanBoard';
 import { Header } from '../components/Header';
 import { UserFilterDropdown } from '../components/UserFilterDropdown';
+import { LabelChips } from '../components/LabelChips';
+import { LabelFilterDropdown } from '../components/LabelFilterDropdown';
 import { useTasks } from '../hooks/useTasks';
+import { useTaskPage } from '../hooks/useTaskPage';
+import { useCompletedTasks } from '../hooks/useCompletedTasks';
+import { useCompletedSummary } from '../hooks/useCompletedSummary';
+import { useStatusChange } from '../hooks/useStatusChange';
 import { useAuth } from '../contexts/AuthContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
 import { useUsers } from '../contexts/UsersContext';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
 import { authService } from '../services/auth';
-import { Clock, AlertCircle, ListTodo, Search, X, Loader2, AlertCircle as AlertCircleIcon, CheckCircle2, PauseCircle, Grid3x3, Table, Edit, Eye, Users, Target, Timer, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Clock, AlertCircle, ListTodo, Search, X, Loader2, AlertCircle as AlertCircleIcon, CheckCircle2, PauseCircle, Grid3x3, Table, Kanban, Edit, Eye, Users, Target, Timer, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { taskApi } from '../services/api';
+import { matchesLabels } from '../utils/taskSelectors';
+import { getHoldTotalsByReason, formatHoldDuration } from '../utils/holds';
 
 /**
  * Dashboard Page Component
@@ -29,28 +45,48 @@ export const Dashboard = () => {
     tasks,
     loading,
     error,
-    createTask,
     updateTask,
     deleteTask,
     updateFilters,
   } = useTasks();
 
   // Check if user has permission to view all tasks (enables search)
-  const { hasPermission, user } = useAuth();
+  const { hasPermission } = useAuth();
   const { users, getUserName } = useUsers();
+  const { showError } = useToast();
+  const { statuses, getStatusBadgeClass, getStatusMove, getNextStatusOptions, requiresComment } = useWorkflow();
+  const {
+    handleStatusChange,
+    pendingCompletion,
+    confirmCompletion,
+    cancelCompletion,
+    pendingStatusChange,
+    confirmStatusChange,
+    cancelStatusChange,
+    pendingHold,
+    confirmHold,
+    cancelHold,
+  } = useStatusChange();
   const canViewAllTasks = hasPermission('tasks:view-all');
 
-  // State for completed tasks count
-  const [completedTasksCount, setCompletedTasksCount] = useState<number>(0);
-  const [loadingCompletedCount, setLoadingCompletedCount] = useState(false);
+  // The shared task store only holds active tasks (and tasks completed since it loaded),
+  // so the completed task figures come from the server
+  const { tasksById } = useTaskStore();
+  const {
+    count: completedTasksCount,
+    accuracy: overallAccuracy,
+    totalHours: totalDuration,
+    holdTotals: serverHoldTotals,
+    loading: loadingCompletedTasks,
+  } = useCompletedSummary({
+    withAccuracy: hasPermission('dashboard:view-accuracy'),
+    withDuration: hasPermission('dashboard:view-duration'),
+    withHolds: hasPermission('dashboard:view-holds'),
+  });
   
   // State for active users count
   const [activeUsersCount, setActiveUsersCount] = useState<number>(0);
   const [loadingUsersCount, setLoadingUsersCount] = useState(false);
-  
-  // State for completed tasks (for accuracy and duration calculations)
-  const [completedTasks, setCompletedTasks] = useState<Task[]>([]);
-  const [loadingCompletedTasks, setLoadingCompletedTasks] = useState(false);
 
   // State for modals
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -61,17 +97,20 @@ export const Dashboard = () => {
   const [viewingTask, setViewingTask] = useState<Task | null>(null);
   const [taskToDelete, setTaskToDelete] = useState<{ id: string; title: string } | null>(null);
   const [resumingTask, setResumingTask] = useState<Task | null>(null);
+  const [resumeStatus, setResumeStatus] = useState<string>(TaskStatus.Pending);
 
   // State for filters (local UI state, synced with API via useEffect)
-  const [statusFilter, setStatusFilter] = useState<TaskStatus | 'All'>('All');
+  const [statusFilter, setStatusFilter] = useState<string>('All');
   const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'All'>('All');
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const [labelMatch, setLabelMatch] = useState<LabelMatch>('any');
   const [titleSearchQuery, setTitleSearchQuery] = useState<string>('');
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   
   // Load view mode from localStorage, default to 'card'
-  const [viewMode, setViewMode] = useState<'card' | 'table'>(() => {
+  const [viewMode, setViewMode] = useState<'card' | 'table' | 'board'>(() => {
     const savedViewMode = localStorage.getItem('dashboardViewMode');
-    return (savedViewMode === 'card' || savedViewMode === 'table') ? savedViewMode : 'card';
+    return (savedViewMode === 'card' || savedViewMode === 'table' || savedViewMode === 'board') ? savedViewMode : 'card';
   });
 
   // Pagination state
@@ -113,27 +152,10 @@ export const Dashboard = () => {
       // Only send search query if user has permission to view all tasks
       search: canViewAllTasks && titleSearchQuery.trim() ? titleSearchQuery.trim() : undefined,
       userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
+      labels: labelFilter,
+      labelMatch,
     });
-  }, [statusFilter, priorityFilter, titleSearchQuery, selectedUserId, canViewAllTasks, updateFilters]);
-
-  // Fetch completed tasks count
-  const fetchCompletedCount = useCallback(async () => {
-    try {
-      setLoadingCompletedCount(true);
-      const response = await taskApi.getCompletedTasks();
-      setCompletedTasksCount(response.data?.length || 0);
-    } catch (error) {
-      console.error('Error fetching completed tasks count:', error);
-      // Don't show error to user, just set count to 0
-      setCompletedTasksCount(0);
-    } finally {
-      setLoadingCompletedCount(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchCompletedCount();
-  }, [fetchCompletedCount]); // Fetch on mount
+  }, [statusFilter, priorityFilter, labelFilter, labelMatch, titleSearchQuery, selectedUserId, canViewAllTasks, updateFilters]);
 
   // Fetch active users count
   const fetchUsersCount = useCallback(async () => {
@@ -156,58 +178,6 @@ export const Dashboard = () => {
     fetchUsersCount();
   }, [fetchUsersCount]);
 
-  // Fetch completed tasks for accuracy and duration calculations
-  const fetchCompletedTasks = useCallback(async () => {
-    const needsAccuracy = hasPermission('dashboard:view-accuracy');
-    const needsDuration = hasPermission('dashboard:view-duration');
-    
-    if (!needsAccuracy && !needsDuration) {
-      return; // Don't fetch if user doesn't need either
-    }
-    
-    try {
-      setLoadingCompletedTasks(true);
-      const response = await taskApi.getCompletedTasks();
-      setCompletedTasks(response.data || []);
-    } catch (error) {
-      console.error('Error fetching completed tasks:', error);
-      setCompletedTasks([]);
-    } finally {
-      setLoadingCompletedTasks(false);
-    }
-  }, [hasPermission]);
-
-  useEffect(() => {
-    fetchCompletedTasks();
-  }, [fetchCompletedTasks]);
-
-  // Refresh completed tasks when tasks change
-  useEffect(() => {
-    if (hasPermission('dashboard:view-accuracy') || hasPermission('dashboard:view-duration')) {
-      fetchCompletedTasks();
-    }
-  }, [tasks.length, hasPermission, fetchCompletedTasks]);
-
-  /**
-   * Calculate duration between StartedAt and CompletedAt in hours
-   * Returns the time difference in hours, or null if either timestamp is missing
-   */
-  const calculateDuration = useCallback((startedAt: Date | string | null | undefined, completedAt: Date | string | null | undefined): number | null => {
-    if (!startedAt || !completedAt) {
-      return null;
-    }
-    const start = typeof startedAt === 'string' ? new Date(startedAt) : startedAt;
-    const end = typeof completedAt === 'string' ? new Date(completedAt) : completedAt;
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      return null;
-    }
-    const diffMs = end.getTime() - start.getTime();
-    if (diffMs < 0) {
-      return null;
-    }
-    return diffMs / (1000 * 60 * 60);
-  }, []);
-
   /**
    * Format duration for display
    */
@@ -234,61 +204,13 @@ export const Dashboard = () => {
     return `${days}d ${remainingHours}h ${minutes}m`;
   }, []);
 
-  /**
-   * Calculate accuracy percentage for a task
-   * Returns accuracy as a percentage, where 100% means perfect match
-   * If completed in less time than estimated, accuracy exceeds 100% (better than expected)
-   * If completed in more time than estimated, accuracy is less than 100%
-   * Formula:
-   *   - If actual <= estimated: 100 + (estimated - actual) / estimated * 100
-   *   - If actual > estimated: (1 - (actual - estimated) / estimated) * 100
-   */
-  const calculateAccuracy = useCallback((actualHours: number | null, estimatedHours: number | null): number | null => {
-    if (actualHours === null || estimatedHours === null || estimatedHours === 0) {
-      return null;
-    }
-    
-    let accuracy: number;
-    if (actualHours <= estimatedHours) {
-      // Completed in less or equal time - this is better, so accuracy can exceed 100%
-      const timeSaved = estimatedHours - actualHours;
-      accuracy = 100 + (timeSaved / estimatedHours) * 100;
-    } else {
-      // Completed in more time - accuracy decreases below 100%
-      const timeOver = actualHours - estimatedHours;
-      accuracy = Math.max(0, (1 - timeOver / estimatedHours) * 100);
-    }
-    
-    return Math.round(accuracy * 100) / 100;
-  }, []);
-
-  // Calculate overall accuracy from completed tasks
-  const overallAccuracy = useMemo(() => {
-    if (!hasPermission('dashboard:view-accuracy')) {
-      return null;
-    }
-    const allAccuracies = completedTasks
-      .map((task) => {
-        const actualDuration = calculateDuration(task.StartedAt, task.CompletedAt);
-        return calculateAccuracy(actualDuration, task.EstimatedHours || null);
-      })
-      .filter((acc): acc is number => acc !== null);
-    
-    if (allAccuracies.length === 0) return null;
-    const avg = allAccuracies.reduce((sum, acc) => sum + acc, 0) / allAccuracies.length;
-    return Math.round(avg * 100) / 100;
-  }, [completedTasks, hasPermission, calculateDuration, calculateAccuracy]);
-
-  // Calculate total duration from completed tasks
-  const totalDuration = useMemo(() => {
-    if (!hasPermission('dashboard:view-duration')) {
-      return 0;
+  // Time lost to holds per reason; servers without the summary fall back to the tasks in the store
+  const holdTotals = useMemo(() => {
+    if (!hasPermission('dashboard:view-holds')) {
+      return [];
     }
-    return completedTasks.reduce((total, task) => {
-      const duration = calculateDuration(task.StartedAt, task.CompletedAt);
-      return total + (duration || 0);
-    }, 0);
-  }, [completedTasks, hasPermission, calculateDuration]);
+    return serverHoldTotals ?? getHoldTotalsByReason(Object.values(tasksById));
+  }, [serverHoldTotals, tasksById, hasPermission]);
 
   // Calculate task statistics
   const taskStats = useMemo(() => {
@@ -306,14 +228,17 @@ export const Dashboard = () => {
     };
   }, [tasks, completedTasksCount]);
 
+  // Completed tasks for the board's Completed column (the store only holds active tasks)
+  const { tasks: completedTasks } = useCompletedTasks({
+    priority: priorityFilter,
+    userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
+    enabled: viewMode === 'board',
+  });
+
   // Filter tasks based on current filters
-  const filteredTasks = useMemo(() => {
-    return tasks.filter((task) => {
-      // Explicitly exclude completed tasks from dashboard (they're on the Completed Tasks page)
-      if (task.Status === TaskStatus.Completed) {
-        return false;
-      }
-      
+  // The board keeps completed tasks for its Completed column
+  const boardTasks = useMemo(() => {
+    return [...tasks, ...completedTasks].filter((task) => {
       // Status filter
       if (statusFilter !== 'All' && task.Status !== statusFilter) {
         return false;
@@ -324,6 +249,11 @@ export const Dashboard = () => {
         return false;
       }
 
+      // Label filter
+      if (!matchesLabels(task, labelFilter, labelMatch)) {
+        return false;
+      }
+
       // Title search filter
       if (titleSearchQuery.trim() && canViewAllTasks) {
         const query = titleSearchQuery.toLowerCase();
@@ -344,30 +274,54 @@ export const Dashboard = () => {
 
       return true;
     });
-  }, [tasks, statusFilter, priorityFilter, titleSearchQuery, selectedUserId, canViewAllTasks]);
+  }, [tasks, completedTasks, statusFilter, priorityFilter, labelFilter, labelMatch, titleSearchQuery, selectedUserId, canViewAllTasks]);
+
+  // Explicitly exclude completed tasks from the cards and table (they're on the Completed Tasks page)
+  const filteredTasks = useMemo(() => {
+    return boardTasks.filter((task) => task.Status !== TaskStatus.Completed);
+  }, [boardTasks]);
+
+  // The tasks shown by the current view
+  const visibleTasks = viewMode === 'board' ? boardTasks : filteredTasks;
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [statusFilter, priorityFilter, titleSearchQuery, selectedUserId, filteredTasks.length]);
+  }, [statusFilter, priorityFilter, labelFilter, labelMatch, titleSearchQuery, selectedUserId]);
 
-  // Calculate pagination
-  const totalTasks = filteredTasks.length;
-  const totalPages = rowsPerPage === 'All' ? 1 : Math.ceil(totalTasks / rowsPerPage);
-  const startIndex = rowsPerPage === 'All' ? 0 : (currentPage - 1) * rowsPerPage;
+  // Fetch only the current page of the table from the server
+  const {
+    tasks: paginatedTasks,
+    total: totalTasks,
+    totalPages,
+    page,
+  } = useTaskPage({
+    filters: {
+      status: statusFilter,
+      priority: priorityFilter,
+      labels: labelFilter,
+      labelMatch,
+      search: canViewAllTasks && titleSearchQuery.trim() ? titleSearchQuery.trim() : undefined,
+      userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
+      excludeCompleted: true,
+    },
+    page: currentPage,
+    pageSize: rowsPerPage,
+    enabled: viewMode === 'table',
+  });
+  const startIndex = rowsPerPage === 'All' ? 0 : (page - 1) * rowsPerPage;
   const endIndex = rowsPerPage === 'All' ? totalTasks : startIndex + rowsPerPage;
-  const paginatedTasks = filteredTasks.slice(startIndex, endIndex);
 
   // Pagination handlers
   const handleNextPage = () => {
-    if (currentPage < totalPages) {
-      setCurrentPage(prev => prev + 1);
+    if (page < totalPages) {
+      setCurrentPage(page + 1);
     }
   };
 
   const handlePreviousPage = () => {
-    if (currentPage > 1) {
-      setCurrentPage(prev => prev - 1);
+    if (page > 1) {
+      setCurrentPage(page - 1);
     }
   };
 
@@ -384,42 +338,13 @@ export const Dashboard = () => {
   };
 
   // Handle add task
-  const handleAddTask = useCallback(async (taskData: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => {
-    try {
-      await createTask({
-        Title: taskData.Title,
-        Description: taskData.Description,
-        Status: taskData.Status,
-        Priority: taskData.Priority,
-        EstimatedHours: taskData.EstimatedHours,
-        AssignedTo: taskData.AssignedTo,
-        // Use date string as-is (date inputs always provide YYYY-MM-DD format)
-        ScheduledStartDate: taskData.ScheduledStartDate && typeof taskData.ScheduledStartDate === 'string' && taskData.ScheduledStartDate.trim() !== ''
-          ? taskData.ScheduledStartDate
-          : null,
-        ScheduledStartTime: taskData.ScheduledStartTime || null,
-      });
-      setIsModalOpen(false);
-    } catch (err) {
-      console.error('Failed to create task:', err);
-    }
-  }, [createTask]);
+  const handleAddTask = useAddTask(setIsModalOpen);
 
-  // Handle status change
-  const handleStatusChange = useCallback(async (taskId: string, newStatus: TaskStatus, scheduledDate?: string, scheduledTime?: string) => {
-    try {
-      const updateData: any = { Status: newStatus };
-      if (scheduledDate !== undefined) {
-        updateData.ScheduledStartDate = scheduledDate || null;
-      }
-      if (scheduledTime !== undefined) {
-        updateData.ScheduledStartTime = scheduledTime || null;
-      }
-      await updateTask(taskId, updateData);
-    } catch (err) {
-      console.error('Failed to update task status:', err);
-    }
-  }, [updateTask]);
+  // Open ResumeTaskModal, preselecting the status a board card was dropped on
+  const openResumeModal = useCallback((task: Task, status: string = TaskStatus.Pending) => {
+    setResumeStatus(status);
+    setResumingTask(task);
+  }, []);
 
   // Handle delete task click - show confirmation modal
   const handleDeleteTask = useCallback((taskId: string) => {
@@ -439,9 +364,10 @@ export const Dashboard = () => {
         setTaskToDelete(null);
       } catch (err) {
         console.error('Failed to delete task:', err);
+        showError(err, 'Failed to delete task. It has been restored.');
       }
     }
-  }, [deleteTask, taskToDelete]);
+  }, [deleteTask, taskToDelete, showError]);
 
   // Handle view task click
   const handleViewTask = useCallback((task: Task) => {
@@ -456,7 +382,7 @@ export const Dashboard = () => {
   }, []);
 
   // Handle task update
-  const handleUpdateTask = useCallback(async (taskId: string, taskData: Partial<Task>) => {
+  const handleUpdateTask = useCallback(async (taskId: string, taskData: Partial<Task> & { StatusComment?: string; AttachmentIds?: string[] }) => {
     console.log('handleUpdateTask: Called with taskId:', taskId, 'taskData:', taskData);
     
     // Build update data - include all fields from taskData
@@ -464,6 +390,7 @@ export const Dashboard = () => {
         Title: taskData.Title,
         Description: taskData.Description,
         Status: taskData.Status,
+        StatusComment: taskData.StatusComment,
         Priority: taskData.Priority,
         // Ensure EstimatedHours is a number
         EstimatedHours: typeof taskData.EstimatedHours === 'number' 
@@ -482,6 +409,12 @@ export const Dashboard = () => {
           : taskData.ScheduledStartTime.length > 5
           ? taskData.ScheduledStartTime.substring(0, 5) // Remove seconds (HH:MM:SS -> HH:MM)
           : taskData.ScheduledStartTime,
+        BlockedBy: taskData.BlockedBy,
+        Labels: taskData.Labels,
+        AttachmentIds: taskData.AttachmentIds,
+        // Only sent when the edit changes the recurring series
+        ...('Recurrence' in taskData ? { Recurrence: taskData.Recurrence } : {}),
+        ...('SeriesDefaults' in taskData ? { SeriesDefaults: taskData.SeriesDefaults } : {}),
       };
 
       console.log('handleUpdateTask: Sending update for task', taskId, 'with data:', updateData);
@@ -490,23 +423,16 @@ export const Dashboard = () => {
         const result = await updateTask(taskId, updateData);
         console.log('handleUpdateTask: Update successful, result:', result);
         
-          // If task status changed to/from Completed, refresh counts
-          const previousTask = tasks.find(t => t.id === taskId);
-          if (updateData.Status === TaskStatus.Completed || previousTask?.Status === TaskStatus.Completed) {
-            fetchCompletedCount();
-          }
-        
         // Close modal only on success
         setIsEditModalOpen(false);
         setEditingTask(null);
         return result;
-      } catch (err: any) {
-        // Error is handled by the useTasks hook, but also show it here
+      } catch (err) {
         console.error('handleUpdateTask: Failed to update task:', err);
         // Re-throw so EditTaskModal can handle it
         throw err;
       }
-  }, [updateTask, tasks, fetchCompletedCount]);
+  }, [updateTask]);
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
@@ -554,7 +480,7 @@ export const Dashboard = () => {
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Completed</p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">
-                    {loadingCompletedCount ? '...' : `${taskStats.completed} / ${taskStats.total}`}
+                    {loadingCompletedTasks ? '...' : `${taskStats.completed} / ${taskStats.total}`}
                   </p>
                   <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">View all →</p>
                 </div>
@@ -653,6 +579,36 @@ export const Dashboard = () => {
             )}
           </div>
 
+      {/* Time Lost to Holds - Only visible if user has permission and holds were recorded */}
+      {hasPermission('dashboard:view-holds') && holdTotals.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 mb-6 border border-gray-200 dark:border-slate-700">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Time Lost to Holds</h2>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {formatHoldDuration(holdTotals.reduce((total, item) => total + item.hours, 0))} in total
+            </span>
+          </div>
+          <div className="space-y-3">
+            {holdTotals.map((item) => (
+              <div key={item.reason}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{item.reason}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {formatHoldDuration(item.hours)} · {item.count} {item.count === 1 ? 'hold' : 'holds'}
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-orange-500 dark:bg-orange-400 rounded-full"
+                    style={{ width: `${holdTotals[0].hours > 0 ? (item.hours / holdTotals[0].hours) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filters Section */}
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 mb-6 border border-gray-200 dark:border-slate-700">
         <div className="flex items-center justify-between mb-4">
@@ -685,6 +641,18 @@ export const Dashboard = () => {
               >
                 <Table className="w-4 h-4" />
               </button>
+              <button
+                onClick={() => setViewMode('board')}
+                className={`p-2 rounded-md transition-colors ${
+                  viewMode === 'board'
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                }`}
+                type="button"
+                title="Board View"
+              >
+                <Kanban className="w-4 h-4" />
+              </button>
             </div>
           </div>
         </div>
@@ -697,14 +665,16 @@ export const Dashboard = () => {
             <select
               id="status-filter"
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as TaskStatus | 'All')}
+              onChange={(e) => setStatusFilter(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
             >
               <option value="All">All</option>
-              <option value={TaskStatus.Pending}>Pending</option>
-              <option value={TaskStatus.InProgress}>In Progress</option>
-              <option value={TaskStatus.Hold}>Hold</option>
               {/* Completed tasks are only shown on the Completed Tasks page */}
+              {statuses
+                .filter((status) => status !== TaskStatus.Completed)
+                .map((status) => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
             </select>
           </div>
 
@@ -727,6 +697,19 @@ export const Dashboard = () => {
             </select>
           </div>
 
+          {/* Label Filter */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Labels
+            </label>
+            <LabelFilterDropdown
+              selectedLabelIds={labelFilter}
+              onLabelsChange={setLabelFilter}
+              match={labelMatch}
+              onMatchChange={setLabelMatch}
+            />
+          </div>
+
           {/* Search Filter - Only show if user has permission to view all tasks */}
           {canViewAllTasks && (
             <>
@@ -770,12 +753,13 @@ export const Dashboard = () => {
           )}
 
           {/* Clear Filters Button - Only show if filters are active */}
-          {(statusFilter !== 'All' || priorityFilter !== 'All' || titleSearchQuery.trim() !== '' || selectedUserId !== null) && (
+          {(statusFilter !== 'All' || priorityFilter !== 'All' || labelFilter.length > 0 || titleSearchQuery.trim() !== '' || selectedUserId !== null) && (
             <div className="w-full flex items-end sm:col-span-2 lg:col-span-1">
               <button
                 onClick={() => {
                   setStatusFilter('All');
                   setPriorityFilter('All');
+                  setLabelFilter([]);
                   setTitleSearchQuery('');
                   setSelectedUserId(null);
                 }}
@@ -805,7 +789,7 @@ export const Dashboard = () => {
       )}
 
       {/* Task Grid or Table */}
-      {!loading && filteredTasks.length > 0 && (
+      {!loading && visibleTasks.length > 0 && (
         <>
           {viewMode === 'card' ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -819,6 +803,14 @@ export const Dashboard = () => {
                 />
               ))}
             </div>
+          ) : viewMode === 'board' ? (
+            <KanbanBoard
+              tasks={boardTasks}
+              onStatusChange={handleStatusChange}
+              onHold={(task) => handleStatusChange(task.id!, TaskStatus.Hold)}
+              onResume={openResumeModal}
+              onView={handleViewTask}
+            />
           ) : (
             <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
               <div className="overflow-x-auto">
@@ -875,19 +867,6 @@ export const Dashboard = () => {
                         return now.getTime() > deadline.getTime();
                       };
 
-                      const getStatusBadgeClass = (status: TaskStatus) => {
-                        switch (status) {
-                          case TaskStatus.Pending:
-                            return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300 border-yellow-200 dark:border-yellow-800';
-                          case TaskStatus.InProgress:
-                            return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 border-blue-200 dark:border-blue-800';
-                          case TaskStatus.Hold:
-                            return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300 border-orange-200 dark:border-orange-800';
-                          default:
-                            return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600';
-                        }
-                      };
-
                       const getPriorityBadgeClass = (priority: TaskPriority) => {
                         switch (priority) {
                           case TaskPriority.Low:
@@ -914,34 +893,11 @@ export const Dashboard = () => {
                           : dateStr;
                       };
 
-                      // Determine status update options
-                      const isAssigned = user && (
-                        Array.isArray(task.AssignedTo)
-                          ? task.AssignedTo.includes(user.id)
-                          : task.AssignedTo === user.id
-                      );
-                      const canUpdateStatus = hasPermission('tasks:update') || isAssigned;
-                      const canHold = hasPermission('tasks:hold');
-                      
-                      const getNextStatusOptions = () => {
-                        const options: TaskStatus[] = [];
-                        if (task.Status === TaskStatus.Pending) {
-                          options.push(TaskStatus.InProgress);
-                          if (canHold) options.push(TaskStatus.Hold);
-                        } else if (task.Status === TaskStatus.InProgress) {
-                          options.push(TaskStatus.Completed);
-                          if (canHold) options.push(TaskStatus.Hold);
-                        } else if (task.Status === TaskStatus.Hold) {
-                          if (canHold) {
-                            options.push(TaskStatus.Pending, TaskStatus.InProgress);
-                          }
-                        }
-                        return options;
-                      };
-                      
-                      const nextStatusOptions = getNextStatusOptions();
-                      const hasNextStatus = nextStatusOptions.length > 0;
-                      const showStatusUpdate = canUpdateStatus && hasNextStatus && task.Status !== TaskStatus.Hold;
+                      // Status moves the workflow allows the current user (hold and resume have their own buttons)
+                      const nextStatusOptions = getNextStatusOptions(task);
+                      const showStatusUpdate = nextStatusOptions.length > 0;
+                      const canResume = getNextStatusOptions(task, 'resume').length > 0;
+                      const canPutOnHold = getStatusMove(task, TaskStatus.Hold) === 'hold';
 
                       return (
                         <tr
@@ -959,6 +915,7 @@ export const Dashboard = () => {
                                 {task.Description}
                               </div>
                             )}
+                            <LabelChips labelIds={task.Labels} className="mt-2" />
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center gap-2">
@@ -975,7 +932,7 @@ export const Dashboard = () => {
                                   value=""
                                   onChange={(e) => {
                                     if (e.target.value) {
-                                      handleStatusChange(task.id!, e.target.value as TaskStatus);
+                                      handleStatusChange(task.id!, e.target.value);
                                       e.target.value = '';
                                     }
                                   }}
@@ -990,10 +947,10 @@ export const Dashboard = () => {
                                   ))}
                                 </select>
                               )}
-                              {/* Resume from Hold Button - only show if task is on hold and user has permission */}
-                              {canHold && task.Status === TaskStatus.Hold && hasNextStatus && (
+                              {/* Resume from Hold Button - only show if the workflow lets the user resume this task */}
+                              {canResume && (
                                 <button
-                                  onClick={() => setResumingTask(task)}
+                                  onClick={() => openResumeModal(task)}
                                   className="text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-600 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                                   title="Resume task"
                                   type="button"
@@ -1049,7 +1006,7 @@ export const Dashboard = () => {
                                   <Edit className="w-4 h-4" />
                                 </button>
                               )}
-                              {hasPermission('tasks:hold') && task.Status !== TaskStatus.Hold && task.Status !== TaskStatus.Completed && (
+                              {canPutOnHold && (
                                 <button
                                   onClick={() => handleStatusChange(task.id!, TaskStatus.Hold)}
                                   className="p-2 text-orange-600 hover:text-orange-700 dark:text-orange-400 dark:hover:text-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-lg transition-colors"
@@ -1113,9 +1070,9 @@ export const Dashboard = () => {
                       <div className="flex items-center gap-2">
                         <button
                           onClick={handlePreviousPage}
-                          disabled={currentPage === 1}
+                          disabled={page === 1}
                           className={`p-2 rounded-lg border transition-colors ${
-                            currentPage === 1
+                            page === 1
                               ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                               : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                           }`}
@@ -1126,14 +1083,14 @@ export const Dashboard = () => {
                         </button>
                         
                         <span className="text-sm text-gray-700 dark:text-gray-300 px-2">
-                          Page {currentPage} of {totalPages}
+                          Page {page} of {totalPages}
                         </span>
                         
                         <button
                           onClick={handleNextPage}
-                          disabled={currentPage === totalPages}
+                          disabled={page === totalPages}
                           className={`p-2 rounded-lg border transition-colors ${
-                            currentPage === totalPages
+                            page === totalPages
                               ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                               : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                           }`}
@@ -1153,7 +1110,7 @@ export const Dashboard = () => {
       )}
 
       {/* Empty State */}
-      {!loading && filteredTasks.length === 0 && (
+      {!loading && visibleTasks.length === 0 && (
         <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-12 text-center border border-gray-200 dark:border-slate-700 transition-colors duration-200">
           <p className="text-gray-500 dark:text-gray-400 text-lg font-medium">
             {tasks.length === 0
@@ -1212,12 +1169,40 @@ export const Dashboard = () => {
       <ResumeTaskModal
         isOpen={resumingTask !== null}
         task={resumingTask}
+        initialStatus={resumeStatus}
         onClose={() => setResumingTask(null)}
         onResume={(taskId, status, scheduledDate, scheduledTime) => {
           handleStatusChange(taskId, status, scheduledDate, scheduledTime);
           setResumingTask(null);
         }}
       />
+
+      {/* Complete Parent Confirmation Modal */}
+      <CompleteParentConfirmationModal
+        isOpen={pendingCompletion !== null}
+        taskTitle={pendingCompletion?.task.Title}
+        openSubtasks={pendingCompletion?.openSubtasks ?? []}
+        onClose={cancelCompletion}
+        onConfirm={confirmCompletion}
+      />
+
+      {/* Status Comment Modal */}
+      <StatusCommentModal
+        isOpen={pendingStatusChange !== null}
+        task={pendingStatusChange?.task ?? null}
+        status={pendingStatusChange?.status ?? ''}
+        onClose={cancelStatusChange}
+        onConfirm={confirmStatusChange}
+      />
+
+      {/* Hold Reason Modal */}
+      <HoldReasonModal
+        isOpen={pendingHold !== null}
+        task={pendingHold?.task ?? null}
+        requiresComment={pendingHold ? requiresComment(pendingHold.task.Status, pendingHold.status) : false}
+        onClose={cancelHold}
+        onConfirm={confirmHold}
+      />
     </div>
   );
 };
@@ -6,10 +6,21 @@ import { UserFilterDropdown } from '../components/UserFilterDropdown';
 import { ViewTaskModal } from '../components/ViewTaskModal';
 import { AddTaskModal } from '../components/AddTaskModal';
 import { ResumeTaskModal } from '../components/ResumeTaskModal';
+import { StatusCommentModal } from '../components/StatusCommentModal';
+import { HoldReasonModal } from '../components/HoldReasonModal';
+import { CompleteParentConfirmationModal } from '../components/CompleteParentConfirmationModal';
+import { LabelChips } from '../components/LabelChips';
 import { useAuth } from '../contexts/AuthContext';
 import { useUsers } from '../contexts/UsersContext';
-import { PauseCircle, Search, X, Loader2, AlertCircle, Calendar, Grid3x3, Table, Eye, ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react';
-import { taskApi } from '../services/api';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useTaskPage } from '../hooks/useTaskPage';
+import { useStatusChange } from '../hooks/useStatusChange';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { PauseCircle, Search, X, Loader2, AlertCircle, Calendar, Clock, Grid3x3, Table, Eye, ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react';
+import { selectTasks } from '../utils/taskSelectors';
+import { getOpenHold, getTimeOnHold, isResumeOverdue, groupTasksByHoldReason, formatHoldDuration } from '../utils/holds';
+import { toDateInputValue } from '../utils/calendar';
 import { TaskStatus } from '../types';
 
 /**
@@ -19,11 +30,22 @@ import { TaskStatus } from '../types';
 export const HoldTasks = () => {
   const { hasPermission } = useAuth();
   const { users, loading: usersLoading, getUserName } = useUsers();
+  const { workflow, getNextStatusOptions, requiresComment } = useWorkflow();
+  const {
+    handleStatusChange,
+    pendingCompletion,
+    confirmCompletion,
+    cancelCompletion,
+    pendingStatusChange,
+    confirmStatusChange,
+    cancelStatusChange,
+    pendingHold,
+    confirmHold,
+    cancelHold,
+  } = useStatusChange();
   const canViewAllTasks = hasPermission('tasks:view-all');
 
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { tasksById, loading, error } = useTaskStore();
 
   // Filter state
   const [priorityFilter, setPriorityFilter] = useState<TaskPriority | 'All'>('All');
@@ -36,6 +58,12 @@ export const HoldTasks = () => {
     return (savedViewMode === 'card' || savedViewMode === 'table') ? savedViewMode : 'card';
   });
 
+  // Load card grouping from localStorage, default to no grouping
+  const [groupBy, setGroupBy] = useState<'none' | 'reason'>(() => {
+    const savedGroupBy = localStorage.getItem('holdTasksGroupBy');
+    return savedGroupBy === 'reason' ? 'reason' : 'none';
+  });
+
   // Pagination state
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [rowsPerPage, setRowsPerPage] = useState<number | 'All'>(() => {
@@ -50,6 +78,11 @@ export const HoldTasks = () => {
     localStorage.setItem('holdTasksViewMode', viewMode);
   }, [viewMode]);
 
+  // Save card grouping to localStorage whenever it changes
+  useEffect(() => {
+    localStorage.setItem('holdTasksGroupBy', groupBy);
+  }, [groupBy]);
+
   // Save rows per page to localStorage whenever it changes
   useEffect(() => {
     localStorage.setItem('holdTasksRowsPerPage', String(rowsPerPage));
@@ -66,30 +99,13 @@ export const HoldTasks = () => {
   // State for add task modal
   const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
 
-  /**
-   * Fetch hold tasks
-   */
-  const fetchHoldTasks = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await taskApi.getHoldTasks({
-        priority: priorityFilter !== 'All' ? priorityFilter : undefined,
-        search: canViewAllTasks && titleSearchQuery.trim() ? titleSearchQuery.trim() : undefined, // Only send title search if has permission
-        userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined, // Only send userId if has permission
-      });
-      setTasks(response.data || []);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load hold tasks');
-      console.error('Error fetching hold tasks:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [priorityFilter, titleSearchQuery, selectedUserId, canViewAllTasks]);
-
-  useEffect(() => {
-    fetchHoldTasks();
-  }, [fetchHoldTasks]);
+  // Hold tasks from the shared task store
+  const tasks = useMemo(() => {
+    return selectTasks(tasksById, {
+      status: TaskStatus.Hold,
+      priority: priorityFilter,
+    });
+  }, [tasksById, priorityFilter]);
 
   /**
    * Filter tasks based on search query (frontend filtering for non-view-all users)
@@ -126,28 +142,55 @@ export const HoldTasks = () => {
     return tasks;
   }, [tasks, titleSearchQuery, selectedUserId, canViewAllTasks]);
 
+  // Card sections: one per hold reason when grouping, otherwise a single untitled one
+  const cardGroups = useMemo(() => {
+    if (groupBy === 'reason') {
+      return groupTasksByHoldReason(filteredTasks, workflow.holdReasons).map((group) => ({
+        title: group.reason ?? 'No reason recorded',
+        tasks: group.tasks,
+      }));
+    }
+    return [{ title: null, tasks: filteredTasks }];
+  }, [groupBy, filteredTasks, workflow.holdReasons]);
+
+  const now = new Date();
+  const today = toDateInputValue(now);
+
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [priorityFilter, titleSearchQuery, selectedUserId, filteredTasks.length]);
-
-  // Calculate pagination
-  const totalTasks = filteredTasks.length;
-  const totalPages = rowsPerPage === 'All' ? 1 : Math.ceil(totalTasks / rowsPerPage);
-  const startIndex = rowsPerPage === 'All' ? 0 : (currentPage - 1) * rowsPerPage;
+  }, [priorityFilter, titleSearchQuery, selectedUserId]);
+
+  // Fetch only the current page of the table from the server
+  const {
+    tasks: paginatedTasks,
+    total: totalTasks,
+    totalPages,
+    page,
+  } = useTaskPage({
+    filters: {
+      status: TaskStatus.Hold,
+      priority: priorityFilter,
+      search: titleSearchQuery.trim() || undefined,
+      userId: canViewAllTasks && selectedUserId ? selectedUserId : undefined,
+    },
+    page: currentPage,
+    pageSize: rowsPerPage,
+    enabled: viewMode === 'table',
+  });
+  const startIndex = rowsPerPage === 'All' ? 0 : (page - 1) * rowsPerPage;
   const endIndex = rowsPerPage === 'All' ? totalTasks : startIndex + rowsPerPage;
-  const paginatedTasks = filteredTasks.slice(startIndex, endIndex);
 
   // Pagination handlers
   const handleNextPage = () => {
-    if (currentPage < totalPages) {
-      setCurrentPage(prev => prev + 1);
+    if (page < totalPages) {
+      setCurrentPage(page + 1);
     }
   };
 
   const handlePreviousPage = () => {
-    if (currentPage > 1) {
-      setCurrentPage(prev => prev - 1);
+    if (page > 1) {
+      setCurrentPage(page - 1);
     }
   };
 
@@ -169,37 +212,8 @@ export const HoldTasks = () => {
     setIsViewModalOpen(true);
   }, []);
 
-  // Handle status change (resume from hold)
-  const handleStatusChange = useCallback(async (taskId: string, newStatus: TaskStatus, scheduledDate?: string, scheduledTime?: string) => {
-    try {
-      const updateData: any = { Status: newStatus };
-      if (scheduledDate !== undefined) {
-        updateData.ScheduledStartDate = scheduledDate || null;
-      }
-      if (scheduledTime !== undefined) {
-        updateData.ScheduledStartTime = scheduledTime || null;
-      }
-      await taskApi.updateTask(taskId, updateData);
-      // Refresh tasks after status change
-      await fetchHoldTasks();
-    } catch (error) {
-      console.error('Error updating task status:', error);
-      alert('Failed to update task status. Please try again.');
-    }
-  }, [fetchHoldTasks]);
-
   // Handle add task
-  const handleAddTask = useCallback(async (taskData: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => {
-    try {
-      await taskApi.createTask(taskData);
-      setIsAddTaskModalOpen(false);
-      // Refresh tasks after adding
-      await fetchHoldTasks();
-    } catch (error) {
-      console.error('Error creating task:', error);
-      alert('Failed to create task. Please try again.');
-    }
-  }, [fetchHoldTasks]);
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
 
   if (loading || usersLoading) {
     return (
@@ -251,6 +265,22 @@ export const HoldTasks = () => {
         <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 mb-6 border border-gray-200 dark:border-slate-700">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Filters</h2>
+            <div className="flex items-center gap-4">
+            {/* Group By - card view only */}
+            {viewMode === 'card' && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="group-by" className="text-sm text-gray-700 dark:text-gray-300">Group by:</label>
+                <select
+                  id="group-by"
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as 'none' | 'reason')}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white dark:bg-slate-700 text-gray-900 dark:text-white"
+                >
+                  <option value="none">None</option>
+                  <option value="reason">Reason</option>
+                </select>
+              </div>
+            )}
             {/* View Toggle */}
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-700 dark:text-gray-300">View:</span>
@@ -281,6 +311,7 @@ export const HoldTasks = () => {
                 </button>
               </div>
             </div>
+            </div>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             {/* Priority Filter */}
@@ -398,8 +429,18 @@ export const HoldTasks = () => {
         ) : (
           <>
             {viewMode === 'card' ? (
+              <div className="space-y-8">
+                {cardGroups.map((group) => (
+              <section key={group.title ?? 'all'}>
+                {group.title !== null && (
+                  <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                    <PauseCircle className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+                    {group.title}
+                    <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({group.tasks.length})</span>
+                  </h2>
+                )}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {(viewMode === 'card' ? filteredTasks : paginatedTasks).map((task) => {
+                {group.tasks.map((task) => {
               const createdDate = task.CreatedAt
                 ? (typeof task.CreatedAt === 'string' ? new Date(task.CreatedAt) : task.CreatedAt)
                 : null;
@@ -407,18 +448,13 @@ export const HoldTasks = () => {
                 ? (typeof task.UpdatedAt === 'string' ? new Date(task.UpdatedAt) : task.UpdatedAt)
                 : null;
 
-              // Determine resume options for hold tasks
-              const canHold = hasPermission('tasks:hold');
-              const getNextStatusOptions = () => {
-                const options: TaskStatus[] = [];
-                if (task.Status === TaskStatus.Hold && canHold) {
-                  options.push(TaskStatus.Pending, TaskStatus.InProgress);
-                }
-                return options;
-              };
-              const nextStatusOptions = getNextStatusOptions();
+              // Statuses the workflow lets the current user resume this task to
+              const nextStatusOptions = getNextStatusOptions(task, 'resume');
               const hasNextStatus = nextStatusOptions.length > 0;
 
+              const hold = getOpenHold(task);
+              const timeOnHold = getTimeOnHold(task, now);
+
               return (
                 <div
                   key={task.id}
@@ -428,6 +464,7 @@ export const HoldTasks = () => {
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2 line-clamp-2">
                     {task.Title}
                   </h3>
+                  <LabelChips labelIds={task.Labels} className="mb-3" />
 
                   {/* Description */}
                   <p className="text-gray-600 dark:text-gray-300 text-sm mb-4 line-clamp-3">
@@ -481,6 +518,38 @@ export const HoldTasks = () => {
                       </div>
                     )}
 
+                    {/* Hold Reason */}
+                    {hold && (
+                      <div className="text-sm text-gray-700 dark:text-gray-300">
+                        <span className="font-medium">Reason:</span>{' '}
+                        <span className="text-gray-600 dark:text-gray-400">{hold.Reason}</span>
+                        {hold.Note && (
+                          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{hold.Note}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Time On Hold */}
+                    {timeOnHold !== null && (
+                      <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                        <Clock className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+                        <span className="font-medium">On hold for:</span>{' '}
+                        <span className="text-gray-600 dark:text-gray-400 ml-1">{formatHoldDuration(timeOnHold)}</span>
+                      </div>
+                    )}
+
+                    {/* Expected Resume Date */}
+                    {hold?.ExpectedResumeDate && (
+                      <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                        <Calendar className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+                        <span className="font-medium">Expected resume:</span>{' '}
+                        <span className={`ml-1 ${isResumeOverdue(task, today) ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-600 dark:text-gray-400'}`}>
+                          {new Date(`${hold.ExpectedResumeDate}T00:00:00`).toLocaleDateString()}
+                          {isResumeOverdue(task, today) && ' (overdue)'}
+                        </span>
+                      </div>
+                    )}
+
                     {/* Created Date */}
                     {createdDate && (
                       <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
@@ -521,8 +590,8 @@ export const HoldTasks = () => {
                       View
                     </button>
 
-                    {/* Resume from Hold Button - only show if user has permission */}
-                    {canHold && hasNextStatus && (
+                    {/* Resume from Hold Button - only show if the workflow lets the user resume this task */}
+                    {hasNextStatus && (
                       <div className="relative">
                         <button
                           onClick={(e) => {
@@ -571,6 +640,9 @@ export const HoldTasks = () => {
               );
             })}
               </div>
+              </section>
+                ))}
+              </div>
             ) : (
               <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
                 <div className="overflow-x-auto">
@@ -589,6 +661,9 @@ export const HoldTasks = () => {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                           Put On Hold By
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                          Reason
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                           Created
                         </th>
@@ -624,19 +699,13 @@ export const HoldTasks = () => {
                           }
                         };
 
-                        // Determine resume options for hold tasks
-                        const canHold = hasPermission('tasks:hold');
-                        const getNextStatusOptions = () => {
-                          const options: TaskStatus[] = [];
-                          if (task.Status === TaskStatus.Hold && canHold) {
-                            options.push(TaskStatus.Pending, TaskStatus.InProgress);
-                          }
-                          return options;
-                        };
-                        
-                        const nextStatusOptions = getNextStatusOptions();
+                        // Statuses the workflow lets the current user resume this task to
+                        const nextStatusOptions = getNextStatusOptions(task, 'resume');
                         const hasNextStatus = nextStatusOptions.length > 0;
 
+                        const hold = getOpenHold(task);
+                        const timeOnHold = getTimeOnHold(task, now);
+
                         return (
                           <tr key={task.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
                             <td className="px-6 py-4">
@@ -648,6 +717,7 @@ export const HoldTasks = () => {
                                   {task.Description}
                                 </div>
                               )}
+                              <LabelChips labelIds={task.Labels} className="mt-2" />
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <span className={`inline-flex items-center justify-center px-2 py-1 text-xs font-semibold rounded-full w-20 ${getPriorityBadgeClass(task.Priority)}`}>
@@ -672,6 +742,23 @@ export const HoldTasks = () => {
                                   : 'Unknown'}
                               </div>
                             </td>
+                            <td className="px-6 py-4">
+                              {hold ? (
+                                <div className="text-sm">
+                                  <div className="text-gray-900 dark:text-white">{hold.Reason}</div>
+                                  {timeOnHold !== null && (
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">for {formatHoldDuration(timeOnHold)}</div>
+                                  )}
+                                  {hold.ExpectedResumeDate && (
+                                    <div className={`text-xs ${isResumeOverdue(task, today) ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                                      Resume by {new Date(`${hold.ExpectedResumeDate}T00:00:00`).toLocaleDateString()}
+                                    </div>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="text-sm text-gray-500 dark:text-gray-400">Not recorded</span>
+                              )}
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                               {createdDate ? (
                                 <div>
@@ -694,8 +781,8 @@ export const HoldTasks = () => {
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                               <div className="flex items-center justify-end gap-2">
-                                {/* Resume from Hold Button - only show if user has permission */}
-                                {canHold && hasNextStatus && (
+                                {/* Resume from Hold Button - only show if the workflow lets the user resume this task */}
+                                {hasNextStatus && (
                                   <button
                                     onClick={() => setResumingTask(task)}
                                     className="text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-600 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
@@ -757,9 +844,9 @@ export const HoldTasks = () => {
                         <div className="flex items-center gap-2">
                           <button
                             onClick={handlePreviousPage}
-                            disabled={currentPage === 1}
+                            disabled={page === 1}
                             className={`p-2 rounded-lg border transition-colors ${
-                              currentPage === 1
+                              page === 1
                                 ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                                 : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                             }`}
@@ -770,14 +857,14 @@ export const HoldTasks = () => {
                           </button>
                           
                           <span className="text-sm text-gray-700 dark:text-gray-300 px-2">
-                            Page {currentPage} of {totalPages}
+                            Page {page} of {totalPages}
                           </span>
                           
                           <button
                             onClick={handleNextPage}
-                            disabled={currentPage === totalPages}
+                            disabled={page === totalPages}
                             className={`p-2 rounded-lg border transition-colors ${
-                              currentPage === totalPages
+                              page === totalPages
                                 ? 'border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-600 cursor-not-allowed bg-gray-50 dark:bg-slate-700'
                                 : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 bg-white dark:bg-slate-800'
                             }`}
@@ -824,6 +911,33 @@ export const HoldTasks = () => {
           setResumingTask(null);
         }}
       />
+
+      {/* Complete Parent Confirmation Modal */}
+      <CompleteParentConfirmationModal
+        isOpen={pendingCompletion !== null}
+        taskTitle={pendingCompletion?.task.Title}
+        openSubtasks={pendingCompletion?.openSubtasks ?? []}
+        onClose={cancelCompletion}
+        onConfirm={confirmCompletion}
+      />
+
+      {/* Status Comment Modal */}
+      <StatusCommentModal
+        isOpen={pendingStatusChange !== null}
+        task={pendingStatusChange?.task ?? null}
+        status={pendingStatusChange?.status ?? ''}
+        onClose={cancelStatusChange}
+        onConfirm={confirmStatusChange}
+      />
+
+      {/* Hold Reason Modal */}
+      <HoldReasonModal
+        isOpen={pendingHold !== null}
+        task={pendingHold?.task ?? null}
+        requiresComment={pendingHold ? requiresComment(pendingHold.task.Status, pendingHold.status) : false}
+        onClose={cancelHold}
+        onConfirm={confirmHold}
+      />
     </div>
   );
 };
@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import type { Label } from '../types/label';
+import type { StatusColor } from '../types/workflow';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { LabelChip } from '../components/LabelChips';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { useLabels } from '../contexts/LabelsContext';
+import { STATUS_COLORS } from '../constants/workflow';
+import { selectAllTasks } from '../utils/taskSelectors';
+import { Tags, Plus, Trash2, Loader2, Check, X } from 'lucide-react';
+
+// Longest label name accepted
+const NAME_MAX_LENGTH = 30;
+
+/**
+ * Label Settings Page
+ * Allows admins to create, rename, recolor and delete the labels tasks can be tagged with
+ * Changes are saved right away
+ */
+export const LabelSettings = () => {
+  const { tasksById } = useTaskStore();
+  const { showToast, showError } = useToast();
+  const { labels, loading, createLabel, updateLabel, deleteLabel } = useLabels();
+  const [newLabelName, setNewLabelName] = useState('');
+  const [newLabelColor, setNewLabelColor] = useState<StatusColor>('blue');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+
+  // Number of active tasks tagged with each label (the store does not load completed ones)
+  const usage = selectAllTasks(tasksById).reduce<Record<string, number>>((counts, task) => {
+    (task.Labels ?? []).forEach((id) => {
+      counts[id] = (counts[id] ?? 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  // Check a label name; returns why it cannot be used, or an empty string
+  const validateName = (name: string, labelId: string | null): string => {
+    if (!name) {
+      return 'Enter a name for the label';
+    }
+    if (labels.some((label) => label.id !== labelId && label.name.toLowerCase() === name.toLowerCase())) {
+      return `There is already a label named "${name}"`;
+    }
+    return '';
+  };
+
+  // Add a new label
+  const handleAddLabel = async () => {
+    const name = newLabelName.trim();
+    const validationError = validateName(name, null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createLabel({ name, color: newLabelColor });
+      setNewLabelName('');
+      setError('');
+      showToast({ type: 'success', title: 'Label Created', message: `"${name}" can now be added to tasks.` });
+    } catch (err) {
+      showError(err, 'Failed to create label');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startRename = (label: Label) => {
+    setEditingId(label.id);
+    setEditingName(label.name);
+    setError('');
+  };
+
+  // Save the name being edited
+  const handleRename = async (label: Label) => {
+    const name = editingName.trim();
+    if (name === label.name) {
+      setEditingId(null);
+      return;
+    }
+    const validationError = validateName(name, label.id);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      await updateLabel(label.id, { name });
+      setEditingId(null);
+      setError('');
+    } catch (err) {
+      showError(err, 'Failed to rename label');
+    }
+  };
+
+  const handleColorChange = async (label: Label, color: StatusColor) => {
+    try {
+      await updateLabel(label.id, { color });
+    } catch (err) {
+      showError(err, 'Failed to change label color');
+    }
+  };
+
+  const handleDelete = async (label: Label) => {
+    setDeletingId(null);
+    try {
+      await deleteLabel(label.id);
+      showToast({ type: 'success', title: 'Label Deleted', message: `"${label.name}" was removed from all tasks.` });
+    } catch (err) {
+      showError(err, 'Failed to delete label');
+    }
+  };
+
+  const selectClass =
+    'px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+  const inputClass =
+    'flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <Tags className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+            Labels
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Create the labels tasks can be tagged with and filtered by
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="max-w-3xl bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 p-6">
+          {/* Add Label */}
+          <div className="flex items-center gap-2 mb-6">
+            <input
+              type="text"
+              value={newLabelName}
+              onChange={(e) => setNewLabelName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddLabel();
+              }}
+              placeholder="New label (e.g. Frontend)"
+              maxLength={NAME_MAX_LENGTH}
+              className={inputClass}
+            />
+            <select
+              value={newLabelColor}
+              onChange={(e) => setNewLabelColor(e.target.value as StatusColor)}
+              className={selectClass}
+              aria-label="Color for the new label"
+            >
+              {STATUS_COLORS.map((color) => (
+                <option key={color.value} value={color.value}>{color.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddLabel}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              type="button"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              <span>Add Label</span>
+            </button>
+          </div>
+
+          {/* Labels */}
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+          ) : labels.length === 0 ? (
+            <p className="py-8 text-center text-gray-500 dark:text-gray-400">No labels yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+              {labels.map((label) => (
+                <li key={label.id} className="py-3">
+                  <div className="flex items-center gap-3">
+                    {editingId === label.id ? (
+                      <>
+                        <input
+                          type="text"
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(label);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          maxLength={NAME_MAX_LENGTH}
+                          autoFocus
+                          className={inputClass}
+                          aria-label={`New name for ${label.name}`}
+                        />
+                        <button
+                          onClick={() => handleRename(label)}
+                          className="p-1 text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300"
+                          title="Save name"
+                          type="button"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                          title="Cancel"
+                          type="button"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => startRename(label)}
+                        className="flex-1 min-w-0 text-left"
+                        title="Rename label"
+                        type="button"
+                      >
+                        <LabelChip label={label} />
+                      </button>
+                    )}
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {usage[label.id] ?? 0} {usage[label.id] === 1 ? 'task' : 'tasks'}
+                    </span>
+                    <select
+                      value={label.color}
+                      onChange={(e) => handleColorChange(label, e.target.value as StatusColor)}
+                      className={selectClass}
+                      aria-label={`Color for ${label.name}`}
+                    >
+                      {STATUS_COLORS.map((color) => (
+                        <option key={color.value} value={color.value}>{color.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setDeletingId(label.id)}
+                      className="p-1 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      title="Delete label"
+                      type="button"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {/* Delete confirmation */}
+                  {deletingId === label.id && (
+                    <div className="flex items-center justify-between gap-3 mt-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                      <p className="text-sm text-red-700 dark:text-red-400">
+                        Delete "{label.name}"? It will be removed from every task.
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setDeletingId(null)}
+                          className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 rounded transition-colors"
+                          type="button"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleDelete(label)}
+                          className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 rounded transition-colors"
+                          type="button"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
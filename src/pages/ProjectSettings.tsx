@@ -0,0 +1,408 @@
+import { useState, useEffect } from 'react';
+import type { Project, ProjectMember } from '../types/project';
+import type { Role } from '../types/role';
+import type { StatusColor } from '../types/workflow';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { UserFilterDropdown } from '../components/UserFilterDropdown';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { useUsers } from '../contexts/UsersContext';
+import { useProjects } from '../contexts/ProjectsContext';
+import { roleService } from '../services/role';
+import { STATUS_COLORS } from '../constants/workflow';
+import { getStatusBadgeClass } from '../utils/taskWorkflow';
+import { FolderKanban, Plus, Trash2, Loader2, Check, X, Users } from 'lucide-react';
+
+// Longest project name accepted
+const NAME_MAX_LENGTH = 50;
+
+// Role select value for members who keep their account role
+const ACCOUNT_ROLE = '';
+
+/**
+ * Project Settings Page
+ * Allows admins to create, rename, recolor and delete projects and to choose their members
+ * Each member can be given a role for the project that replaces their account role for tasks and comments
+ * Changes are saved right away
+ */
+export const ProjectSettings = () => {
+  const { showToast, showError } = useToast();
+  const { users, getUserName } = useUsers();
+  const { projects, loading, activeProjectId, createProject, updateProject, deleteProject } = useProjects();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [newProjectColor, setNewProjectColor] = useState<StatusColor>('indigo');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [membersId, setMembersId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+
+  // Roles members can be given inside a project
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchRoles = async () => {
+      try {
+        const loaded = await roleService.getAllRoles();
+        if (!cancelled) {
+          setRoles(loaded);
+        }
+      } catch (err) {
+        console.error('Failed to load roles for project members:', err);
+      }
+    };
+
+    fetchRoles();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  // Check a project name; returns why it cannot be used, or an empty string
+  const validateName = (name: string, projectId: string | null): string => {
+    if (!name) {
+      return 'Enter a name for the project';
+    }
+    if (projects.some((project) => project.id !== projectId && project.name.toLowerCase() === name.toLowerCase())) {
+      return `There is already a project named "${name}"`;
+    }
+    return '';
+  };
+
+  // Add a new project
+  const handleAddProject = async () => {
+    const name = newProjectName.trim();
+    const validationError = validateName(name, null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await createProject({ name, color: newProjectColor });
+      setNewProjectName('');
+      setError('');
+      setMembersId(created.id);
+      showToast({ type: 'success', title: 'Project Created', message: `Add the members who work on "${name}".` });
+    } catch (err) {
+      showError(err, 'Failed to create project');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startRename = (project: Project) => {
+    setEditingId(project.id);
+    setEditingName(project.name);
+    setError('');
+  };
+
+  // Save the name being edited
+  const handleRename = async (project: Project) => {
+    const name = editingName.trim();
+    if (name === project.name) {
+      setEditingId(null);
+      return;
+    }
+    const validationError = validateName(name, project.id);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      await updateProject(project.id, { name });
+      setEditingId(null);
+      setError('');
+    } catch (err) {
+      showError(err, 'Failed to rename project');
+    }
+  };
+
+  const handleColorChange = async (project: Project, color: StatusColor) => {
+    try {
+      await updateProject(project.id, { color });
+    } catch (err) {
+      showError(err, 'Failed to change project color');
+    }
+  };
+
+  // Save the whole member list of a project
+  const saveMembers = async (project: Project, members: ProjectMember[]) => {
+    try {
+      await updateProject(project.id, { Members: members });
+    } catch (err) {
+      showError(err, 'Failed to update project members');
+    }
+  };
+
+  const handleAddMember = (project: Project, userId: string | null) => {
+    if (!userId || project.Members.some((member) => member.UserId === userId)) return;
+    saveMembers(project, [...project.Members, { UserId: userId, RoleId: null }]);
+  };
+
+  const handleMemberRoleChange = (project: Project, userId: string, roleId: string) => {
+    saveMembers(
+      project,
+      project.Members.map((member) => (member.UserId === userId ? { ...member, RoleId: roleId || null } : member))
+    );
+  };
+
+  const handleRemoveMember = (project: Project, userId: string) => {
+    saveMembers(project, project.Members.filter((member) => member.UserId !== userId));
+  };
+
+  const handleDelete = async (project: Project) => {
+    setDeletingId(null);
+    try {
+      await deleteProject(project.id);
+      showToast({ type: 'success', title: 'Project Deleted', message: `"${project.name}" was deleted.` });
+    } catch (err) {
+      showError(err, 'Failed to delete project');
+    }
+  };
+
+  const selectClass =
+    'px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+  const inputClass =
+    'flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <FolderKanban className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+            Projects
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Group tasks into projects and choose who works in each one and with which role
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="max-w-3xl bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 p-6">
+          {/* Add Project */}
+          <div className="flex items-center gap-2 mb-6">
+            <input
+              type="text"
+              value={newProjectName}
+              onChange={(e) => setNewProjectName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddProject();
+              }}
+              placeholder="New project (e.g. Website Redesign)"
+              maxLength={NAME_MAX_LENGTH}
+              className={inputClass}
+            />
+            <select
+              value={newProjectColor}
+              onChange={(e) => setNewProjectColor(e.target.value as StatusColor)}
+              className={selectClass}
+              aria-label="Color for the new project"
+            >
+              {STATUS_COLORS.map((color) => (
+                <option key={color.value} value={color.value}>{color.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddProject}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              type="button"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              <span>Add Project</span>
+            </button>
+          </div>
+
+          {/* Projects */}
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="py-8 text-center text-gray-500 dark:text-gray-400">No projects yet - all tasks are shared by everyone</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+              {projects.map((project) => (
+                <li key={project.id} className="py-3">
+                  <div className="flex items-center gap-3">
+                    {editingId === project.id ? (
+                      <>
+                        <input
+                          type="text"
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(project);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          maxLength={NAME_MAX_LENGTH}
+                          autoFocus
+                          className={inputClass}
+                          aria-label={`New name for ${project.name}`}
+                        />
+                        <button
+                          onClick={() => handleRename(project)}
+                          className="p-1 text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300"
+                          title="Save name"
+                          type="button"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                          title="Cancel"
+                          type="button"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => startRename(project)}
+                        className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                        title="Rename project"
+                        type="button"
+                      >
+                        <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full border max-w-full ${getStatusBadgeClass(project.color)}`}>
+                          <FolderKanban className="w-3 h-3 flex-shrink-0" />
+                          <span className="truncate">{project.name}</span>
+                        </span>
+                        {project.id === activeProjectId && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">(current)</span>
+                        )}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setMembersId(membersId === project.id ? null : project.id)}
+                      className="flex items-center gap-1 text-xs text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400 whitespace-nowrap"
+                      title="Show members"
+                      type="button"
+                      aria-expanded={membersId === project.id}
+                    >
+                      <Users className="w-4 h-4" />
+                      {project.Members.length} {project.Members.length === 1 ? 'member' : 'members'}
+                    </button>
+                    <select
+                      value={project.color}
+                      onChange={(e) => handleColorChange(project, e.target.value as StatusColor)}
+                      className={selectClass}
+                      aria-label={`Color for ${project.name}`}
+                    >
+                      {STATUS_COLORS.map((color) => (
+                        <option key={color.value} value={color.value}>{color.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setDeletingId(project.id)}
+                      className="p-1 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      title="Delete project"
+                      type="button"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {/* Members */}
+                  {membersId === project.id && (
+                    <div className="mt-3 ml-2 pl-4 border-l-2 border-gray-200 dark:border-slate-700 space-y-2">
+                      {project.Members.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">No members yet</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {project.Members.map((member) => (
+                            <li key={member.UserId} className="flex items-center gap-3">
+                              <span className="flex-1 min-w-0 truncate text-sm text-gray-900 dark:text-white">
+                                {getUserName(member.UserId)}
+                              </span>
+                              <select
+                                value={member.RoleId ?? ACCOUNT_ROLE}
+                                onChange={(e) => handleMemberRoleChange(project, member.UserId, e.target.value)}
+                                className={selectClass}
+                                aria-label={`Role of ${getUserName(member.UserId)} in ${project.name}`}
+                              >
+                                <option value={ACCOUNT_ROLE}>Account role</option>
+                                {roles.map((role) => (
+                                  <option key={role.id} value={role.id}>{role.name}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => handleRemoveMember(project, member.UserId)}
+                                className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                title="Remove from project"
+                                type="button"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <UserFilterDropdown
+                        users={users.filter((candidate) => !project.Members.some((member) => member.UserId === candidate.id))}
+                        selectedUserId={null}
+                        onUserChange={(userId) => handleAddMember(project, userId)}
+                        placeholder="Add member..."
+                      />
+                    </div>
+                  )}
+
+                  {/* Delete confirmation */}
+                  {deletingId === project.id && (
+                    <div className="flex items-center justify-between gap-3 mt-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                      <p className="text-sm text-red-700 dark:text-red-400">
+                        Delete "{project.name}"? Only projects without tasks can be deleted.
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setDeletingId(null)}
+                          className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 rounded transition-colors"
+                          type="button"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleDelete(project)}
+                          className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 rounded transition-colors"
+                          type="button"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
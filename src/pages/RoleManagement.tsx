@@ -1,12 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { roleService } from '../services/role';
-import { taskApi } from '../services/api';
 import type { Role, CreateRoleDTO, UpdateRoleDTO } from '../types/role';
-import type { Task } from '../types';
 import { Header } from '../components/Header';
 import { AddTaskModal } from '../components/AddTaskModal';
 import { DeleteRoleConfirmationModal } from '../components/DeleteRoleConfirmationModal';
-import { ErrorModal } from '../components/ErrorModal';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../services/errors';
 import { IMPLEMENTED_PERMISSIONS, getAllPermissionValues } from '../constants/permissions';
 import { Shield, Plus, Edit, Trash2, Loader2, AlertCircle, ChevronDown, ChevronRight, Eye, X } from 'lucide-react';
 
@@ -15,6 +15,7 @@ import { Shield, Plus, Edit, Trash2, Loader2, AlertCircle, ChevronDown, ChevronR
  * Allows admins to manage roles: create, view, edit, and assign permissions
  */
 export const RoleManagement = () => {
+  const { showToast, showError } = useToast();
   const [roles, setRoles] = useState<Role[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -22,8 +23,6 @@ export const RoleManagement = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isViewPermissionsModalOpen, setIsViewPermissionsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
-  const [isErrorModalOpen, setIsErrorModalOpen] = useState(false);
-  const [errorMessage, setErrorMessage] = useState('');
   const [viewingRole, setViewingRole] = useState<Role | null>(null);
   const [editingRole, setEditingRole] = useState<Role | null>(null);
   const [roleToDelete, setRoleToDelete] = useState<Role | null>(null);
@@ -46,8 +45,8 @@ export const RoleManagement = () => {
       setError('');
       const fetchedRoles = await roleService.getAllRoles();
       setRoles(fetchedRoles);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load roles');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load roles'));
       console.error('Error fetching roles:', err);
     } finally {
       setLoading(false);
@@ -59,15 +58,7 @@ export const RoleManagement = () => {
   }, [fetchData]);
 
   // Handle add task
-  const handleAddTask = useCallback(async (taskData: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => {
-    try {
-      await taskApi.createTask(taskData);
-      setIsAddTaskModalOpen(false);
-    } catch (error) {
-      console.error('Error creating task:', error);
-      alert('Failed to create task. Please try again.');
-    }
-  }, []);
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
 
   // Handle create role
   const handleCreateRole = useCallback(async (roleData: CreateRoleDTO) => {
@@ -77,10 +68,10 @@ export const RoleManagement = () => {
       setFormData({ name: '', description: '', permissions: [] });
       setSelectedPermissions([]);
       fetchData();
-    } catch (err: any) {
-      alert(err.message || 'Failed to create role');
+    } catch (err) {
+      showError(err, 'Failed to create role');
     }
-  }, [fetchData]);
+  }, [fetchData, showError]);
 
   // Handle edit role
   const handleEditRole = useCallback(async (id: string, roleData: UpdateRoleDTO) => {
@@ -91,10 +82,10 @@ export const RoleManagement = () => {
       setFormData({ name: '', description: '', permissions: [] });
       setSelectedPermissions([]);
       fetchData();
-    } catch (err: any) {
-      alert(err.message || 'Failed to update role');
+    } catch (err) {
+      showError(err, 'Failed to update role');
     }
-  }, [fetchData]);
+  }, [fetchData, showError]);
 
   // Handle delete role click - show confirmation modal
   const handleDeleteRole = useCallback((role: Role) => {
@@ -110,13 +101,16 @@ export const RoleManagement = () => {
         setIsDeleteModalOpen(false);
         setRoleToDelete(null);
         fetchData();
-      } catch (err: any) {
+      } catch (err) {
         setIsDeleteModalOpen(false);
-        setErrorMessage(err.message || 'Failed to delete role');
-        setIsErrorModalOpen(true);
+        showToast({
+          type: 'error',
+          title: 'Cannot Delete Role',
+          message: getErrorMessage(err, 'Failed to delete role'),
+        });
       }
     }
-  }, [roleToDelete, fetchData]);
+  }, [roleToDelete, fetchData, showToast]);
 
   // Open create modal
   const openCreateModal = () => {
@@ -740,17 +734,6 @@ export const RoleManagement = () => {
           roleDescription={roleToDelete?.description || undefined}
         />
 
-        {/* Error Modal */}
-        <ErrorModal
-          isOpen={isErrorModalOpen}
-          onClose={() => {
-            setIsErrorModalOpen(false);
-            setErrorMessage('');
-          }}
-          title="Cannot Delete Role"
-          message={errorMessage}
-        />
-
         {/* Add Task Modal */}
         <AddTaskModal
           isOpen={isAddTaskModalOpen}
@@ -0,0 +1,289 @@
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import type { Task } from '../types';
+import { TaskPriority, TaskStatus } from '../types';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { ViewTaskModal } from '../components/ViewTaskModal';
+import { CalendarMonthView, CalendarTimeGrid } from '../components/CalendarViews';
+import { useAuth } from '../contexts/AuthContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { useCompletedTasks } from '../hooks/useCompletedTasks';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2, AlertCircle } from 'lucide-react';
+import { selectTasks } from '../utils/taskSelectors';
+import {
+  getTaskSchedule,
+  getVisibleDays,
+  shiftDate,
+  startOfDay,
+  toDateInputValue,
+  toTimeInputValue,
+} from '../utils/calendar';
+import type { CalendarView } from '../utils/calendar';
+
+const VIEW_OPTIONS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
+// Legend swatches, matching the block colors
+const PRIORITY_LEGEND: { priority: TaskPriority; className: string }[] = [
+  { priority: TaskPriority.Low, className: 'bg-blue-500 dark:bg-blue-600' },
+  { priority: TaskPriority.Medium, className: 'bg-yellow-500 dark:bg-yellow-600' },
+  { priority: TaskPriority.High, className: 'bg-orange-500 dark:bg-orange-600' },
+  { priority: TaskPriority.Critical, className: 'bg-red-500 dark:bg-red-600' },
+];
+
+/**
+ * Get the heading for the period a view shows
+ */
+const formatPeriod = (view: CalendarView, days: Date[], date: Date): string => {
+  if (view === 'month') {
+    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  if (view === 'day') {
+    return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  }
+  const first = days[0];
+  const last = days[days.length - 1];
+  const firstLabel = first.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const lastLabel = last.toLocaleDateString('en-US', {
+    month: first.getMonth() === last.getMonth() ? undefined : 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return `${firstLabel} – ${lastLabel}`;
+};
+
+/**
+ * Task Calendar Page Component
+ * Month, week and day calendars of scheduled tasks; dragging a task reschedules it
+ */
+export const TaskCalendar = () => {
+  const { hasPermission } = useAuth();
+  const { showError } = useToast();
+  const { tasksById, loading, error, updateTask } = useTaskStore();
+  const canReschedule = hasPermission('tasks:update');
+
+  // Load calendar view from localStorage, default to 'month'
+  const [view, setView] = useState<CalendarView>(() => {
+    const savedView = localStorage.getItem('calendarView');
+    return (savedView === 'month' || savedView === 'week' || savedView === 'day') ? savedView : 'month';
+  });
+  const [focusDate, setFocusDate] = useState<Date>(() => startOfDay(new Date()));
+  const [showCompleted, setShowCompleted] = useState<boolean>(false);
+
+  // State for modals
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+  const [viewingTask, setViewingTask] = useState<Task | null>(null);
+
+  // Save calendar view to localStorage whenever it changes
+  useEffect(() => {
+    localStorage.setItem('calendarView', view);
+  }, [view]);
+
+  // Completed tasks are not kept in the shared task store, so they are fetched when shown
+  const { tasks: completedTasks } = useCompletedTasks({ enabled: showCompleted });
+
+  // Tasks from the shared task store, split into scheduled and unscheduled
+  const { scheduledTasks, unscheduledCount } = useMemo(() => {
+    const tasks = [...selectTasks(tasksById, { excludeCompleted: true }), ...completedTasks];
+    const scheduled = tasks.filter((task) => getTaskSchedule(task) !== null);
+    return { scheduledTasks: scheduled, unscheduledCount: tasks.length - scheduled.length };
+  }, [tasksById, completedTasks]);
+
+  const visibleDays = useMemo(() => getVisibleDays(view, focusDate), [view, focusDate]);
+
+  // Completed tasks stay where they ran
+  const canRescheduleTask = useCallback((task: Task) => {
+    return canReschedule && !!task.id && task.Status !== TaskStatus.Completed;
+  }, [canReschedule]);
+
+  // Save a new schedule for a dropped task
+  const rescheduleTask = useCallback(async (task: Task, schedule: { ScheduledStartDate: string; ScheduledStartTime?: string }) => {
+    if (!task.id) return;
+    try {
+      await updateTask(task.id, schedule);
+    } catch (err) {
+      console.error('Failed to reschedule task:', err);
+      showError(err, 'Failed to reschedule task. Your change has been undone.');
+    }
+  }, [updateTask, showError]);
+
+  // Handle a task dropped at a new start time (week and day views)
+  const handleReschedule = useCallback((task: Task, start: Date) => {
+    rescheduleTask(task, {
+      ScheduledStartDate: toDateInputValue(start),
+      ScheduledStartTime: toTimeInputValue(start),
+    });
+  }, [rescheduleTask]);
+
+  // Handle a task dropped on another day of the month view; its start time is left as it is
+  const handleMoveToDay = useCallback((task: Task, day: Date) => {
+    rescheduleTask(task, { ScheduledStartDate: toDateInputValue(day) });
+  }, [rescheduleTask]);
+
+  // Open the day view for a day picked in the month grid
+  const handleSelectDay = useCallback((day: Date) => {
+    setFocusDate(startOfDay(day));
+    setView('day');
+  }, []);
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+        <div className="p-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5" />
+          <p className="text-lg">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Calendar
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Scheduled tasks from their start time for their estimated hours
+            {canReschedule && ' - drag a task to reschedule it'}
+          </p>
+        </div>
+
+        {/* Toolbar */}
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 mb-6 border border-gray-200 dark:border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            {/* Navigation */}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setFocusDate((date) => shiftDate(view, date, -1))}
+                className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                type="button"
+                title="Previous"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setFocusDate(startOfDay(new Date()))}
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                type="button"
+              >
+                Today
+              </button>
+              <button
+                onClick={() => setFocusDate((date) => shiftDate(view, date, 1))}
+                className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                type="button"
+                title="Next"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <h2 className="ml-2 text-lg font-semibold text-gray-900 dark:text-white">
+                {formatPeriod(view, visibleDays, focusDate)}
+              </h2>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              {/* Show Completed Toggle */}
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showCompleted}
+                  onChange={(e) => setShowCompleted(e.target.checked)}
+                  className="w-4 h-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 dark:border-slate-600 rounded"
+                />
+                Show completed
+              </label>
+
+              {/* View Toggle */}
+              <div className="flex items-center bg-gray-100 dark:bg-slate-700 rounded-lg p-1">
+                {VIEW_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setView(value)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      view === value
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                    }`}
+                    type="button"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Priority Legend */}
+          <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-600 dark:text-gray-400">
+            {PRIORITY_LEGEND.map(({ priority, className }) => (
+              <span key={priority} className="flex items-center gap-1.5">
+                <span className={`w-3 h-3 rounded-sm ${className}`} />
+                {priority}
+              </span>
+            ))}
+            {unscheduledCount > 0 && (
+              <span className="flex items-center gap-1.5 ml-auto">
+                <CalendarDays className="w-3.5 h-3.5" />
+                {unscheduledCount} {unscheduledCount === 1 ? 'task has' : 'tasks have'} no scheduled start
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Calendar */}
+        {view === 'month' ? (
+          <CalendarMonthView
+            date={focusDate}
+            tasks={scheduledTasks}
+            canReschedule={canRescheduleTask}
+            onMoveToDay={handleMoveToDay}
+            onSelectTask={setViewingTask}
+            onSelectDay={handleSelectDay}
+          />
+        ) : (
+          <CalendarTimeGrid
+            days={visibleDays}
+            tasks={scheduledTasks}
+            canReschedule={canRescheduleTask}
+            onReschedule={handleReschedule}
+            onSelectTask={setViewingTask}
+          />
+        )}
+      </div>
+
+      {/* View Task Modal */}
+      <ViewTaskModal
+        isOpen={viewingTask !== null}
+        task={viewingTask}
+        onClose={() => setViewingTask(null)}
+      />
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
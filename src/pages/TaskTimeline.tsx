@@ -0,0 +1,240 @@
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+import type { UpdateTaskDTO } from '../services/api';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { ViewTaskModal } from '../components/ViewTaskModal';
+import { GanttTimeline } from '../components/GanttTimeline';
+import type { TimelineMove } from '../components/GanttTimeline';
+import { useAuth } from '../contexts/AuthContext';
+import { useTaskStore } from '../contexts/TasksContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { useCompletedTasks } from '../hooks/useCompletedTasks';
+import { ChevronLeft, ChevronRight, Loader2, AlertCircle } from 'lucide-react';
+import { selectTasks } from '../utils/taskSelectors';
+import { addDays, startOfWeek, toDateInputValue, toTimeInputValue } from '../utils/calendar';
+
+const RANGE_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '1 Week' },
+  { days: 14, label: '2 Weeks' },
+  { days: 28, label: '4 Weeks' },
+];
+
+/**
+ * Task Timeline Page Component
+ * Gantt timeline with one swimlane per user; dragging a bar reschedules or reassigns the task
+ */
+export const TaskTimeline = () => {
+  const { hasPermission } = useAuth();
+  const { showError } = useToast();
+  const { tasksById, loading, error, updateTask } = useTaskStore();
+  const canUpdate = hasPermission('tasks:update');
+
+  // Load timeline range from localStorage, default to one week
+  const [rangeDays, setRangeDays] = useState<number>(() => {
+    const savedRange = Number(localStorage.getItem('timelineRange'));
+    return RANGE_OPTIONS.some(({ days }) => days === savedRange) ? savedRange : 7;
+  });
+  const [rangeStart, setRangeStart] = useState<Date>(() => startOfWeek(new Date()));
+  const [showCompleted, setShowCompleted] = useState<boolean>(false);
+
+  // State for modals
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+  const [viewingTask, setViewingTask] = useState<Task | null>(null);
+
+  // Save timeline range to localStorage whenever it changes
+  useEffect(() => {
+    localStorage.setItem('timelineRange', rangeDays.toString());
+  }, [rangeDays]);
+
+  // Completed tasks are not kept in the shared task store, so they are fetched when shown
+  const { tasks: completedTasks } = useCompletedTasks({ enabled: showCompleted });
+
+  // Scheduled and started tasks from the shared task store
+  const timelineTasks = useMemo(() => {
+    return [...selectTasks(tasksById, { excludeCompleted: true }), ...completedTasks].filter(
+      (task) => !!task.ScheduledStartDate || !!task.StartedAt
+    );
+  }, [tasksById, completedTasks]);
+
+  const rangeEnd = addDays(rangeStart, rangeDays - 1);
+  const rangeLabel = `${rangeStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${rangeEnd.toLocaleDateString(
+    'en-US',
+    { month: 'short', day: 'numeric', year: 'numeric' }
+  )}`;
+
+  // Completed tasks stay where they ran
+  const canMoveTask = useCallback((task: Task) => {
+    return canUpdate && !!task.id && task.Status !== TaskStatus.Completed;
+  }, [canUpdate]);
+
+  // Handle a bar dropped at a new start time and/or on another user's lane
+  const handleMove = useCallback(async (task: Task, move: TimelineMove) => {
+    if (!task.id) return;
+    const changes: UpdateTaskDTO = {};
+    if (move.start) {
+      changes.ScheduledStartDate = toDateInputValue(move.start);
+      changes.ScheduledStartTime = toTimeInputValue(move.start);
+    }
+    if (move.assignees) {
+      changes.AssignedTo = move.assignees;
+    }
+
+    try {
+      await updateTask(task.id, changes);
+    } catch (err) {
+      console.error('Failed to move task:', err);
+      showError(err, 'Failed to move task. Your change has been undone.');
+    }
+  }, [updateTask, showError]);
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+        <div className="p-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5" />
+          <p className="text-lg">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Timeline
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Planned and actual task time per assignee
+            {canUpdate && ' - drag a bar to reschedule it, or onto another lane to reassign it'}
+          </p>
+        </div>
+
+        {/* Toolbar */}
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 mb-6 border border-gray-200 dark:border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            {/* Navigation */}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setRangeStart((start) => addDays(start, -rangeDays))}
+                className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                type="button"
+                title="Previous"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setRangeStart(startOfWeek(new Date()))}
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                type="button"
+              >
+                Today
+              </button>
+              <button
+                onClick={() => setRangeStart((start) => addDays(start, rangeDays))}
+                className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors border border-gray-300 dark:border-slate-600"
+                type="button"
+                title="Next"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <h2 className="ml-2 text-lg font-semibold text-gray-900 dark:text-white">{rangeLabel}</h2>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              {/* Show Completed Toggle */}
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showCompleted}
+                  onChange={(e) => setShowCompleted(e.target.checked)}
+                  className="w-4 h-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 dark:border-slate-600 rounded"
+                />
+                Show completed
+              </label>
+
+              {/* Range Toggle */}
+              <div className="flex items-center bg-gray-100 dark:bg-slate-700 rounded-lg p-1">
+                {RANGE_OPTIONS.map(({ days, label }) => (
+                  <button
+                    key={days}
+                    onClick={() => setRangeDays(days)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      rangeDays === days
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                    }`}
+                    type="button"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-600 dark:text-gray-400">
+            <span className="flex items-center gap-1.5">
+              <span className="w-5 h-3 rounded-sm bg-indigo-500" />
+              Planned (colored by priority)
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-5 h-1.5 rounded-sm bg-slate-500 dark:bg-slate-400" />
+              Actual
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-5 h-1.5 rounded-sm bg-green-500 dark:bg-green-600" />
+              Actual (completed)
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className="w-0.5 h-3 bg-red-500 dark:bg-red-400" />
+              Now
+            </span>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <GanttTimeline
+          tasks={timelineTasks}
+          rangeStart={rangeStart}
+          rangeDays={rangeDays}
+          canMove={canMoveTask}
+          onMove={handleMove}
+          onSelectTask={setViewingTask}
+        />
+      </div>
+
+      {/* View Task Modal */}
+      <ViewTaskModal
+        isOpen={viewingTask !== null}
+        task={viewingTask}
+        onClose={() => setViewingTask(null)}
+      />
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
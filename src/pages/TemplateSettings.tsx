@@ -0,0 +1,517 @@
+import { useState, useEffect } from 'react';
+import { TaskPriority } from '../types';
+import type { TaskTemplate, TemplateTask } from '../types/template';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { UserSearch } from '../components/UserSearch';
+import { LabelPicker } from '../components/LabelPicker';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { templateService } from '../services/templates';
+import { NotFoundError } from '../services/errors';
+import { BUILT_IN_VARIABLES, orderTemplateTasks, createTemplateTaskKey } from '../utils/templates';
+import { LayoutTemplate, Plus, Trash2, Loader2, Save, Lock } from 'lucide-react';
+
+// Longest template name accepted
+const NAME_MAX_LENGTH = 60;
+
+/**
+ * A template being edited; id is null until it is saved for the first time
+ */
+interface TemplateDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  Tasks: TemplateTask[];
+}
+
+const createTemplateTask = (tasks: TemplateTask[]): TemplateTask => ({
+  Key: createTemplateTaskKey(tasks),
+  Title: '',
+  Description: '',
+  Priority: TaskPriority.Medium,
+  EstimatedHours: 1,
+  AssignedTo: [],
+  Labels: [],
+  Checklist: [],
+  BlockedBy: [],
+});
+
+const createDraft = (): TemplateDraft => ({
+  id: null,
+  name: '',
+  description: '',
+  Tasks: [createTemplateTask([])],
+});
+
+const toDraft = (template: TaskTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  description: template.description ?? '',
+  Tasks: template.Tasks,
+});
+
+/**
+ * Template Settings Page
+ * Allows admins to create, edit and delete the templates new tasks can be created from
+ * A template with several tasks creates all of them, with the dependencies between them, in one go
+ */
+export const TemplateSettings = () => {
+  const { showToast, showError } = useToast();
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTemplates = async () => {
+      try {
+        const loaded = await templateService.getTemplates();
+        if (!cancelled) {
+          setTemplates(loaded);
+        }
+      } catch (err) {
+        if (err instanceof NotFoundError) {
+          console.log('Server has no templates endpoint. Templates are disabled.');
+        } else if (!cancelled) {
+          showError(err, 'Failed to load templates');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, [showError]);
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  const startEditing = (nextDraft: TemplateDraft) => {
+    setDraft(nextDraft);
+    setDeletingId(null);
+    setError('');
+  };
+
+  const updateDraftTask = (key: string, changes: Partial<TemplateTask>) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      Tasks: prev.Tasks.map((task) => (task.Key === key ? { ...task, ...changes } : task)),
+    });
+  };
+
+  const addDraftTask = () => {
+    setDraft((prev) => prev && { ...prev, Tasks: [...prev.Tasks, createTemplateTask(prev.Tasks)] });
+  };
+
+  // Removing a task also removes the links other tasks had to it
+  const removeDraftTask = (key: string) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      Tasks: prev.Tasks
+        .filter((task) => task.Key !== key)
+        .map((task) => ({ ...task, BlockedBy: task.BlockedBy.filter((blockerKey) => blockerKey !== key) })),
+    });
+  };
+
+  const toggleBlocker = (task: TemplateTask, blockerKey: string) => {
+    updateDraftTask(task.Key, {
+      BlockedBy: task.BlockedBy.includes(blockerKey)
+        ? task.BlockedBy.filter((key) => key !== blockerKey)
+        : [...task.BlockedBy, blockerKey],
+    });
+  };
+
+  // Check the template being edited; returns why it cannot be saved, or an empty string
+  const validateDraft = (template: TemplateDraft): string => {
+    const name = template.name.trim();
+    if (!name) {
+      return 'Enter a name for the template';
+    }
+    if (templates.some((other) => other.id !== template.id && other.name.toLowerCase() === name.toLowerCase())) {
+      return `There is already a template named "${name}"`;
+    }
+    if (template.Tasks.length === 0) {
+      return 'Add at least one task to the template';
+    }
+    if (template.Tasks.some((task) => !task.Title.trim())) {
+      return 'Every task of the template needs a title';
+    }
+    if (template.Tasks.some((task) => !(task.EstimatedHours > 0))) {
+      return 'Estimated hours must be greater than 0 for every task';
+    }
+    if (!orderTemplateTasks(template.Tasks)) {
+      return 'The dependencies between the tasks form a cycle';
+    }
+    return '';
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const validationError = validateDraft(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const templateData = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || null,
+      Tasks: draft.Tasks.map((task) => ({
+        ...task,
+        Title: task.Title.trim(),
+        Checklist: task.Checklist.map((item) => item.trim()).filter(Boolean),
+      })),
+    };
+
+    setIsSaving(true);
+    try {
+      if (draft.id) {
+        const updated = await templateService.updateTemplate(draft.id, templateData);
+        setTemplates((prev) => prev.map((template) => (template.id === updated.id ? updated : template)));
+        setDraft(toDraft(updated));
+      } else {
+        const created = await templateService.createTemplate(templateData);
+        setTemplates((prev) => [...prev, created]);
+        setDraft(toDraft(created));
+      }
+      setError('');
+      showToast({ type: 'success', title: 'Template Saved', message: `"${templateData.name}" can now be used to create tasks.` });
+    } catch (err) {
+      showError(err, 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    setDeletingId(null);
+    try {
+      await templateService.deleteTemplate(template.id);
+      setTemplates((prev) => prev.filter((other) => other.id !== template.id));
+      if (draft?.id === template.id) {
+        setDraft(null);
+      }
+      showToast({ type: 'success', title: 'Template Deleted', message: `"${template.name}" was deleted.` });
+    } catch (err) {
+      showError(err, 'Failed to delete template');
+    }
+  };
+
+  const selectClass =
+    'px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+  const inputClass =
+    'w-full min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+  const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+            <LayoutTemplate className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+            Templates
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Save the tasks you create again and again, or whole sets of tasks with their dependencies
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Templates */}
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 p-6 h-fit">
+            <button
+              onClick={() => startEditing(createDraft())}
+              className="w-full flex items-center justify-center gap-2 px-3 py-1.5 mb-4 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+              type="button"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Template</span>
+            </button>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="py-8 text-center text-gray-500 dark:text-gray-400">No templates yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-slate-700">
+                {templates.map((template) => (
+                  <li key={template.id} className="py-2">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => startEditing(toDraft(template))}
+                        className={`flex-1 min-w-0 text-left text-sm ${
+                          draft?.id === template.id
+                            ? 'font-semibold text-indigo-600 dark:text-indigo-400'
+                            : 'text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400'
+                        }`}
+                        title="Edit template"
+                        type="button"
+                      >
+                        <span className="block truncate">{template.name}</span>
+                        <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                          {template.Tasks.length} {template.Tasks.length === 1 ? 'task' : 'tasks'}
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => setDeletingId(template.id)}
+                        className="p-1 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                        title="Delete template"
+                        type="button"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {/* Delete confirmation */}
+                    {deletingId === template.id && (
+                      <div className="flex items-center justify-between gap-3 mt-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                        <p className="text-sm text-red-700 dark:text-red-400">
+                          Delete "{template.name}"? Tasks created from it are kept.
+                        </p>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => setDeletingId(null)}
+                            className="px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 rounded transition-colors"
+                            type="button"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleDelete(template)}
+                            className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 rounded transition-colors"
+                            type="button"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Template Editor */}
+          <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 p-6">
+            {!draft ? (
+              <p className="py-8 text-center text-gray-500 dark:text-gray-400">
+                Choose a template to edit or create a new one
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="templateName" className={labelClass}>Name</label>
+                    <input
+                      id="templateName"
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      placeholder="e.g. Weekly report"
+                      maxLength={NAME_MAX_LENGTH}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="templateDescription" className={labelClass}>Description</label>
+                    <input
+                      id="templateDescription"
+                      type="text"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      placeholder="When to use this template"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                {/* Variables Help */}
+                <div className="p-3 rounded-md bg-indigo-50 dark:bg-indigo-900/20 text-xs text-indigo-800 dark:text-indigo-300">
+                  Titles, descriptions and checklist items can use placeholders:{' '}
+                  {BUILT_IN_VARIABLES.map((variable, index) => (
+                    <span key={variable.name}>
+                      {index > 0 && ', '}
+                      <code className="font-mono" title={variable.description}>{`{{${variable.name}}}`}</code>
+                    </span>
+                  ))}
+                  . Any other placeholder, such as <code className="font-mono">{'{{client}}'}</code>, is asked for when the template is used.
+                </div>
+
+                {/* Tasks */}
+                <ol className="space-y-4">
+                  {draft.Tasks.map((task, index) => {
+                    const otherTasks = draft.Tasks.filter((other) => other.Key !== task.Key);
+                    return (
+                      <li key={task.Key} className="p-4 rounded-lg border border-gray-200 dark:border-slate-700 space-y-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-semibold text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                          <input
+                            type="text"
+                            value={task.Title}
+                            onChange={(e) => updateDraftTask(task.Key, { Title: e.target.value })}
+                            placeholder="Task title (e.g. Weekly report {{date}})"
+                            className={inputClass}
+                            aria-label={`Title of task ${index + 1}`}
+                          />
+                          <button
+                            onClick={() => removeDraftTask(task.Key)}
+                            disabled={draft.Tasks.length === 1}
+                            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                            title="Remove task from template"
+                            type="button"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+
+                        <textarea
+                          value={task.Description}
+                          onChange={(e) => updateDraftTask(task.Key, { Description: e.target.value })}
+                          rows={3}
+                          placeholder="Standard description"
+                          className={inputClass}
+                          aria-label={`Description of task ${index + 1}`}
+                        />
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div>
+                            <label className={labelClass}>Priority</label>
+                            <select
+                              value={task.Priority}
+                              onChange={(e) => updateDraftTask(task.Key, { Priority: e.target.value as TaskPriority })}
+                              className={`w-full ${selectClass}`}
+                            >
+                              {Object.values(TaskPriority).map((priority) => (
+                                <option key={priority} value={priority}>{priority}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className={labelClass}>Estimated Hours</label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.5"
+                              value={task.EstimatedHours}
+                              onChange={(e) => updateDraftTask(task.Key, { EstimatedHours: parseFloat(e.target.value) || 0 })}
+                              className={inputClass}
+                            />
+                          </div>
+                        </div>
+
+                        <div>
+                          <label className={labelClass}>Assignees</label>
+                          <UserSearch
+                            selectedUserIds={task.AssignedTo}
+                            onSelectionChange={(userIds) => updateDraftTask(task.Key, { AssignedTo: userIds })}
+                            placeholder="Search users by username or name..."
+                          />
+                        </div>
+
+                        <div>
+                          <label className={labelClass}>Labels</label>
+                          <LabelPicker
+                            selectedLabelIds={task.Labels}
+                            onChange={(labelIds) => updateDraftTask(task.Key, { Labels: labelIds })}
+                          />
+                        </div>
+
+                        <div>
+                          <label className={labelClass}>Checklist (one item per line)</label>
+                          <textarea
+                            value={task.Checklist.join('\n')}
+                            onChange={(e) => updateDraftTask(task.Key, { Checklist: e.target.value.split('\n') })}
+                            rows={2}
+                            className={inputClass}
+                          />
+                        </div>
+
+                        {otherTasks.length > 0 && (
+                          <div>
+                            <label className={labelClass}>Blocked By</label>
+                            <div className="flex flex-wrap gap-1">
+                              {otherTasks.map((other) => {
+                                const selected = task.BlockedBy.includes(other.Key);
+                                const position = draft.Tasks.indexOf(other) + 1;
+                                return (
+                                  <button
+                                    key={other.Key}
+                                    onClick={() => toggleBlocker(task, other.Key)}
+                                    aria-pressed={selected}
+                                    className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                                      selected
+                                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                                        : 'border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700'
+                                    }`}
+                                    type="button"
+                                  >
+                                    {selected && <Lock className="w-3 h-3" />}
+                                    {position}. {other.Title || 'Untitled task'}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+
+                <div className="flex items-center justify-between gap-3 pt-2">
+                  <button
+                    onClick={addDraftTask}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+                    type="button"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Task</span>
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    type="button"
+                  >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    <span>Save Template</span>
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
@@ -1,8 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { authService } from '../services/auth';
-import { taskApi } from '../services/api';
 import type { User } from '../types/auth';
-import type { Task } from '../types';
 import { CreateUserModal } from '../components/CreateUserModal';
 import { EditUserModal } from '../components/EditUserModal';
 import { ChangePasswordModal } from '../components/ChangePasswordModal';
@@ -10,6 +8,9 @@ import { DeleteUserConfirmationModal } from '../components/DeleteUserConfirmatio
 import { AddTaskModal } from '../components/AddTaskModal';
 import { Header } from '../components/Header';
 import { useAuth } from '../contexts/AuthContext';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../services/errors';
 import { UserPlus, Edit, Key, Loader2, AlertCircle, Users, Trash2 } from 'lucide-react';
 
 /**
@@ -18,6 +19,7 @@ import { UserPlus, Edit, Key, Loader2, AlertCircle, Users, Trash2 } from 'lucide
  */
 export const UserManagement = () => {
   const { hasPermission } = useAuth();
+  const { showError } = useToast();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -36,8 +38,8 @@ export const UserManagement = () => {
       setError('');
       const fetchedUsers = await authService.getAllUsers();
       setUsers(fetchedUsers);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load users');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load users'));
     } finally {
       setLoading(false);
     }
@@ -48,15 +50,7 @@ export const UserManagement = () => {
   }, [fetchUsers]);
 
   // Handle add task
-  const handleAddTask = useCallback(async (taskData: Omit<Task, 'id' | 'CreatedAt' | 'UpdatedAt'>) => {
-    try {
-      await taskApi.createTask(taskData);
-      setIsAddTaskModalOpen(false);
-    } catch (error) {
-      console.error('Error creating task:', error);
-      alert('Failed to create task. Please try again.');
-    }
-  }, []);
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
 
   // Handle create user
   const handleCreateUser = useCallback(async (userData: {
@@ -66,13 +60,9 @@ export const UserManagement = () => {
     fullName: string;
     roleId: string;
   }) => {
-    try {
-      await authService.createUser(userData);
-      await fetchUsers();
-      setIsCreateModalOpen(false);
-    } catch (err: any) {
-      throw err;
-    }
+    await authService.createUser(userData);
+    await fetchUsers();
+    setIsCreateModalOpen(false);
   }, [fetchUsers]);
 
   // Handle update user
@@ -82,22 +72,14 @@ export const UserManagement = () => {
     fullName?: string;
     roleId?: string;
   }) => {
-    try {
-      await authService.updateUser(id, userData);
-      await fetchUsers();
-    } catch (err: any) {
-      throw err;
-    }
+    await authService.updateUser(id, userData);
+    await fetchUsers();
   }, [fetchUsers]);
 
   // Handle change password
   const handleChangePassword = useCallback(async (id: string, newPassword: string) => {
-    try {
-      await authService.changePassword(id, newPassword);
-      await fetchUsers();
-    } catch (err: any) {
-      throw err;
-    }
+    await authService.changePassword(id, newPassword);
+    await fetchUsers();
   }, [fetchUsers]);
 
   // Handle edit click
@@ -126,12 +108,12 @@ export const UserManagement = () => {
         await fetchUsers();
         setIsDeleteModalOpen(false);
         setUserToDelete(null);
-      } catch (err: any) {
-        setError(err.message || 'Failed to delete user');
+      } catch (err) {
+        showError(err, 'Failed to delete user');
         setIsDeleteModalOpen(false);
       }
     }
-  }, [userToDelete, fetchUsers]);
+  }, [userToDelete, fetchUsers, showError]);
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
@@ -0,0 +1,562 @@
+import { useState, useEffect } from 'react';
+import { TaskStatus } from '../types';
+import type { StatusColor, UpdateWorkflowDTO, WorkflowTransition } from '../types/workflow';
+import { Header } from '../components/Header';
+import { AddTaskModal } from '../components/AddTaskModal';
+import { useAddTask } from '../hooks/useAddTask';
+import { useToast } from '../contexts/ToastContext';
+import { useWorkflow } from '../contexts/WorkflowContext';
+import { BUILT_IN_STATUSES, STATUS_COLORS } from '../constants/workflow';
+import { IMPLEMENTED_PERMISSIONS } from '../constants/permissions';
+import { getStatusBadgeClass, validateWorkflow } from '../utils/taskWorkflow';
+import { Workflow, Plus, Trash2, Loader2, Lock, ArrowRight, ArrowUp, ArrowDown, Save, RotateCcw } from 'lucide-react';
+
+/**
+ * Workflow Settings Page
+ * Allows admins to add custom statuses and define which transitions between statuses
+ * are allowed, the permission each one needs and whether it needs a comment,
+ * and to choose the reasons offered when a task is put on hold
+ */
+export const WorkflowSettings = () => {
+  const { showToast, showError } = useToast();
+  const { workflow, loading, saveWorkflow } = useWorkflow();
+  const [draft, setDraft] = useState<UpdateWorkflowDTO>({ statuses: [], transitions: [], holdReasons: [] });
+  const [newStatusName, setNewStatusName] = useState('');
+  const [newStatusColor, setNewStatusColor] = useState<StatusColor>('indigo');
+  const [newHoldReason, setNewHoldReason] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState(false);
+
+  // Start editing from the saved workflow (and pick up changes saved elsewhere)
+  useEffect(() => {
+    setDraft({ statuses: workflow.statuses, transitions: workflow.transitions, holdReasons: workflow.holdReasons });
+    setError('');
+  }, [workflow]);
+
+  const statusNames = draft.statuses.map((status) => status.name);
+  const isDirty =
+    JSON.stringify(draft.statuses) !== JSON.stringify(workflow.statuses) ||
+    JSON.stringify(draft.transitions) !== JSON.stringify(workflow.transitions) ||
+    JSON.stringify(draft.holdReasons) !== JSON.stringify(workflow.holdReasons);
+
+  // Handle add task
+  const handleAddTask = useAddTask(setIsAddTaskModalOpen);
+
+  // Add a custom status
+  const handleAddStatus = () => {
+    const name = newStatusName.trim();
+    if (!name) {
+      setError('Enter a name for the new status');
+      return;
+    }
+    if (statusNames.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+      setError(`There is already a status named "${name}"`);
+      return;
+    }
+    // New statuses go before Completed so the board keeps Completed as its last column
+    setDraft((prev) => {
+      const completedIndex = prev.statuses.findIndex((status) => status.name === TaskStatus.Completed);
+      const statuses = [...prev.statuses];
+      statuses.splice(completedIndex === -1 ? statuses.length : completedIndex, 0, { name, color: newStatusColor });
+      return { ...prev, statuses };
+    });
+    setNewStatusName('');
+    setError('');
+  };
+
+  // Change a status color
+  const handleStatusColorChange = (name: string, color: StatusColor) => {
+    setDraft((prev) => ({
+      ...prev,
+      statuses: prev.statuses.map((status) => (status.name === name ? { ...status, color } : status)),
+    }));
+  };
+
+  // Move a status up or down (display order, e.g. board columns)
+  const handleMoveStatus = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.statuses.length) return prev;
+      const statuses = [...prev.statuses];
+      [statuses[index], statuses[target]] = [statuses[target], statuses[index]];
+      return { ...prev, statuses };
+    });
+  };
+
+  // Remove a custom status along with its transitions
+  const handleDeleteStatus = (name: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      statuses: prev.statuses.filter((status) => status.name !== name),
+      transitions: prev.transitions.filter((transition) => transition.from !== name && transition.to !== name),
+    }));
+    setError('');
+  };
+
+  // Add a transition, starting from the first pair of statuses that has none yet
+  const handleAddTransition = () => {
+    setDraft((prev) => {
+      const names = prev.statuses.map((status) => status.name);
+      const pairs = names.flatMap((from) => names.filter((to) => to !== from).map((to) => ({ from, to })));
+      const free = pairs.find(({ from, to }) =>
+        !prev.transitions.some((transition) => transition.from === from && transition.to === to)
+      ) ?? pairs[0];
+      if (!free) return prev;
+      const transition: WorkflowTransition = {
+        ...free,
+        permission: 'tasks:update',
+        allowAssignee: true,
+        requiresComment: false,
+      };
+      return { ...prev, transitions: [...prev.transitions, transition] };
+    });
+    setError('');
+  };
+
+  // Update one field of a transition
+  const handleTransitionChange = (index: number, changes: Partial<WorkflowTransition>) => {
+    setDraft((prev) => ({
+      ...prev,
+      transitions: prev.transitions.map((transition, i) => (i === index ? { ...transition, ...changes } : transition)),
+    }));
+    setError('');
+  };
+
+  const handleDeleteTransition = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      transitions: prev.transitions.filter((_, i) => i !== index),
+    }));
+    setError('');
+  };
+
+  // Add a hold reason
+  const handleAddHoldReason = () => {
+    const reason = newHoldReason.trim();
+    if (!reason) {
+      setError('Enter a name for the new hold reason');
+      return;
+    }
+    if (draft.holdReasons.some((existing) => existing.toLowerCase() === reason.toLowerCase())) {
+      setError(`There is already a hold reason named "${reason}"`);
+      return;
+    }
+    setDraft((prev) => ({ ...prev, holdReasons: [...prev.holdReasons, reason] }));
+    setNewHoldReason('');
+    setError('');
+  };
+
+  // Move a hold reason up or down (order of the reason menu)
+  const handleMoveHoldReason = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.holdReasons.length) return prev;
+      const holdReasons = [...prev.holdReasons];
+      [holdReasons[index], holdReasons[target]] = [holdReasons[target], holdReasons[index]];
+      return { ...prev, holdReasons };
+    });
+  };
+
+  // Remove a hold reason; tasks already held for it keep it in their hold history
+  const handleDeleteHoldReason = (reason: string) => {
+    setDraft((prev) => ({ ...prev, holdReasons: prev.holdReasons.filter((existing) => existing !== reason) }));
+    setError('');
+  };
+
+  // Discard unsaved changes
+  const handleReset = () => {
+    setDraft({ statuses: workflow.statuses, transitions: workflow.transitions, holdReasons: workflow.holdReasons });
+    setError('');
+  };
+
+  // Validate and save the workflow
+  const handleSave = async () => {
+    const validationError = validateWorkflow(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveWorkflow(draft);
+      showToast({
+        type: 'success',
+        title: 'Workflow Saved',
+        message: 'Status menus now follow the new workflow.',
+      });
+    } catch (err) {
+      showError(err, 'Failed to save workflow');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+        <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+        <div className="p-6 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      </div>
+    );
+  }
+
+  const selectClass =
+    'px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
+      <Header onAddTaskClick={() => setIsAddTaskModalOpen(true)} />
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2 flex items-center gap-3">
+              <Workflow className="w-8 h-8 text-indigo-600 dark:text-indigo-400" />
+              Workflow
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Define task statuses and who can move tasks between them
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleReset}
+              disabled={!isDirty || isSaving}
+              className="flex items-center gap-2 px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              type="button"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Discard Changes</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              type="button"
+            >
+              {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              <span>Save Workflow</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* Statuses */}
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Statuses</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Built-in statuses can be recolored but not removed
+            </p>
+
+            <ul className="space-y-2 mb-6">
+              {draft.statuses.map((status, index) => {
+                const isBuiltIn = BUILT_IN_STATUSES.includes(status.name);
+                return (
+                  <li
+                    key={status.name}
+                    className="flex items-center gap-2 p-2 rounded-lg border border-gray-200 dark:border-slate-700"
+                  >
+                    <span className={`flex-1 px-2 py-1 text-xs font-semibold rounded-full border truncate ${getStatusBadgeClass(status.color)}`}>
+                      {status.name}
+                    </span>
+                    <select
+                      value={status.color}
+                      onChange={(e) => handleStatusColorChange(status.name, e.target.value as StatusColor)}
+                      className={selectClass}
+                      aria-label={`Color for ${status.name}`}
+                    >
+                      {STATUS_COLORS.map((color) => (
+                        <option key={color.value} value={color.value}>{color.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleMoveStatus(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30"
+                      title="Move up"
+                      type="button"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMoveStatus(index, 1)}
+                      disabled={index === draft.statuses.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30"
+                      title="Move down"
+                      type="button"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    {isBuiltIn ? (
+                      <span className="p-1 text-gray-400 dark:text-gray-500" title="Built-in status">
+                        <Lock className="w-4 h-4" />
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleDeleteStatus(status.name)}
+                        className="p-1 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                        title="Delete status and its transitions"
+                        type="button"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* Add Status */}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newStatusName}
+                onChange={(e) => setNewStatusName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddStatus();
+                }}
+                placeholder="New status (e.g. Review)"
+                maxLength={50}
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <select
+                value={newStatusColor}
+                onChange={(e) => setNewStatusColor(e.target.value as StatusColor)}
+                className={selectClass}
+                aria-label="Color for the new status"
+              >
+                {STATUS_COLORS.map((color) => (
+                  <option key={color.value} value={color.value}>{color.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddStatus}
+                className="p-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+                title="Add status"
+                type="button"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {/* Transitions */}
+          <div className="xl:col-span-2 bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
+            <div className="p-6 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Transitions</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Tasks can only move between statuses listed here. Moves to Hold and out of Hold use the hold and resume dialogs.
+                </p>
+              </div>
+              <button
+                onClick={handleAddTransition}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors flex-shrink-0"
+                type="button"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Transition</span>
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-slate-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      From / To
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Required Permission
+                    </th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Assignees Allowed
+                    </th>
+                    <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Comment Required
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {draft.transitions.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                        No transitions. Tasks will not be able to change status.
+                      </td>
+                    </tr>
+                  ) : (
+                    draft.transitions.map((transition, index) => (
+                      <tr key={index} className="hover:bg-gray-50 dark:hover:bg-slate-700/50">
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <div className="flex items-center gap-2">
+                            <select
+                              value={transition.from}
+                              onChange={(e) => handleTransitionChange(index, { from: e.target.value })}
+                              className={selectClass}
+                              aria-label="From status"
+                            >
+                              {statusNames.map((name) => (
+                                <option key={name} value={name}>{name}</option>
+                              ))}
+                            </select>
+                            <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                            <select
+                              value={transition.to}
+                              onChange={(e) => handleTransitionChange(index, { to: e.target.value })}
+                              className={selectClass}
+                              aria-label="To status"
+                            >
+                              {statusNames.map((name) => (
+                                <option key={name} value={name}>{name}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <select
+                            value={transition.permission ?? ''}
+                            onChange={(e) => handleTransitionChange(index, { permission: e.target.value || null })}
+                            className={selectClass}
+                            aria-label="Required permission"
+                          >
+                            <option value="">None (anyone)</option>
+                            {IMPLEMENTED_PERMISSIONS.map((category) => (
+                              <optgroup key={category.category} label={category.category}>
+                                {category.permissions.map((permission) => (
+                                  <option key={permission.value} value={permission.value}>
+                                    {permission.label} ({permission.value})
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <input
+                            type="checkbox"
+                            checked={transition.allowAssignee}
+                            disabled={!transition.permission}
+                            onChange={(e) => handleTransitionChange(index, { allowAssignee: e.target.checked })}
+                            className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 disabled:opacity-40"
+                            title="Users assigned to the task can make this move without the permission"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <input
+                            type="checkbox"
+                            checked={transition.requiresComment}
+                            onChange={(e) => handleTransitionChange(index, { requiresComment: e.target.checked })}
+                            className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                            title="Ask for a comment when a task makes this move"
+                          />
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => handleDeleteTransition(index)}
+                            className="p-2 text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            title="Delete transition"
+                            type="button"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Hold Reasons */}
+          <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-gray-200 dark:border-slate-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Hold Reasons</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              One of these must be chosen when a task is put on hold
+            </p>
+
+            <ul className="space-y-2 mb-6">
+              {draft.holdReasons.map((reason, index) => (
+                <li
+                  key={reason}
+                  className="flex items-center gap-2 p-2 rounded-lg border border-gray-200 dark:border-slate-700"
+                >
+                  <span className="flex-1 text-sm text-gray-900 dark:text-white truncate">{reason}</span>
+                  <button
+                    onClick={() => handleMoveHoldReason(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30"
+                    title="Move up"
+                    type="button"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMoveHoldReason(index, 1)}
+                    disabled={index === draft.holdReasons.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30"
+                    title="Move down"
+                    type="button"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteHoldReason(reason)}
+                    className="p-1 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                    title="Delete hold reason"
+                    type="button"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Add Hold Reason */}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newHoldReason}
+                onChange={(e) => setNewHoldReason(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddHoldReason();
+                }}
+                placeholder="New reason (e.g. Waiting on vendor)"
+                maxLength={100}
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleAddHoldReason}
+                className="p-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-md transition-colors"
+                title="Add hold reason"
+                type="button"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add Task Modal */}
+      <AddTaskModal
+        isOpen={isAddTaskModalOpen}
+        onClose={() => setIsAddTaskModalOpen(false)}
+        onAddTask={handleAddTask}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { parseApiResponse, parseActivityList } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
+import type { TaskActivity, ActivityQueryParams, ActivityPage } from '../types/activity';
+
+/**
+ * API Configuration
+ */
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Create axios instance for activity requests
+ */
+const activityClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+/**
+ * API Response wrapper
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+  nextCursor?: string | null;
+}
+
+/**
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
+ */
+attachAuthInterceptors(activityClient);
+
+/**
+ * Build the query string for an activity request
+ */
+const buildActivityQuery = (params: ActivityQueryParams): Record<string, string> => {
+  const queryParams: Record<string, string> = {};
+
+  if (params.taskId) queryParams.taskId = params.taskId;
+  if (params.projectId) queryParams.projectId = params.projectId;
+  if (params.actorId) queryParams.actorId = params.actorId;
+  if (params.action && params.action !== 'All') queryParams.action = params.action;
+  if (params.from) queryParams.from = params.from;
+  if (params.to) queryParams.to = params.to;
+  if (params.cursor) queryParams.cursor = params.cursor;
+  if (params.pageSize) queryParams.pageSize = String(params.pageSize);
+
+  return queryParams;
+};
+
+/**
+ * Activity Service
+ * Reads the append-only activity log of tasks
+ */
+class ActivityService {
+  /**
+   * Get the whole activity log of one task, newest first
+   */
+  async getTaskActivity(taskId: string): Promise<TaskActivity[]> {
+    try {
+      const response = await activityClient.get<ApiResponse<TaskActivity[]>>(`/tasks/${taskId}/activity`);
+      const body = parseApiResponse(response.data, parseActivityList);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to get task activity');
+    } catch (error) {
+      console.error('Get task activity error:', error);
+      throw toApiError(error, 'Failed to get task activity');
+    }
+  }
+
+  /**
+   * Get one page of the activity of all tasks (the audit log), newest first
+   */
+  async getActivityPage(params: ActivityQueryParams): Promise<ActivityPage> {
+    try {
+      const response = await activityClient.get<ApiResponse<TaskActivity[]>>('/activity', {
+        params: buildActivityQuery(params),
+      });
+      const body = parseApiResponse(response.data, parseActivityList);
+
+      if (body.success && body.data) {
+        return { entries: body.data, nextCursor: body.nextCursor ?? null };
+      }
+      throw new Error('Failed to get activity');
+    } catch (error) {
+      console.error('Get activity error:', error);
+      throw toApiError(error, 'Failed to get activity');
+    }
+  }
+}
+
+export const activityService = new ActivityService();
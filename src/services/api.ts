@@ -1,6 +1,11 @@
 import axios from 'axios';
-import type { Task } from '../types';
-import { TaskStatus, TaskPriority } from '../types';
+import type { Task, ChecklistItem, TaskAttachment, TaskRecurrence, SeriesFields, TimeEntry } from '../types';
+import { TaskPriority } from '../types';
+import type { LabelMatch } from '../types/label';
+import type { HoldDetails } from '../utils/holds';
+import { parseApiResponse, parseTask, parseTaskList, parseStringList, parseAttachment } from '../utils/schemas';
+import { NetworkError, NotFoundError } from './errors';
+import { attachAuthInterceptors } from './auth';
 
 /**
  * API Configuration
@@ -19,37 +24,10 @@ const apiClient = axios.create({
 });
 
 /**
- * Add request interceptor to include auth token
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
  */
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-/**
- * Add response interceptor to handle auth errors
- */
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid, clear auth data
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('authUser');
-      // Redirect to login (handled by App component)
-      window.location.href = '/';
-    }
-    return Promise.reject(error);
-  }
-);
+attachAuthInterceptors(apiClient);
 
 /**
  * API Response wrapper
@@ -59,6 +37,7 @@ interface ApiResponse<T> {
   data: T;
   message?: string;
   count?: number;
+  nextCursor?: string | null;
 }
 
 /**
@@ -67,12 +46,25 @@ interface ApiResponse<T> {
 export interface CreateTaskDTO {
   Title: string;
   Description: string;
-  Status: TaskStatus;
+  Status: string;
   Priority: TaskPriority;
   EstimatedHours: number;
   AssignedTo: string | string[];
   ScheduledStartDate?: string | null;
   ScheduledStartTime?: string | null;
+  /** Parent task ID when creating a subtask */
+  ParentId?: string | null;
+  Checklist?: ChecklistItem[];
+  BlockedBy?: string[];
+  /** IDs of files uploaded with uploadAttachment to attach to the new task */
+  AttachmentIds?: string[];
+  Labels?: string[];
+  /** Project that owns the task */
+  ProjectId?: string | null;
+  Recurrence?: TaskRecurrence | null;
+  /** Series the task continues when it is the next occurrence of a recurring task */
+  SeriesId?: string | null;
+  OccurrenceIndex?: number;
 }
 
 /**
@@ -81,40 +73,154 @@ export interface CreateTaskDTO {
 export interface UpdateTaskDTO {
   Title?: string;
   Description?: string;
-  Status?: TaskStatus;
+  Status?: string;
+  /** Comment for a status change whose transition requires one */
+  StatusComment?: string;
   Priority?: TaskPriority;
   EstimatedHours?: number;
   AssignedTo?: string | string[];
   ScheduledStartDate?: string | null;
   ScheduledStartTime?: string | null;
+  /** Replaces the whole list of blocking task IDs */
+  BlockedBy?: string[];
+  /** Replaces the task's attachments; attachments left out are deleted by the server */
+  AttachmentIds?: string[];
+  /** Replaces the whole list of label IDs */
+  Labels?: string[];
+  /** Moves the task to another project */
+  ProjectId?: string | null;
+  Recurrence?: TaskRecurrence | null;
+  /** Series values this occurrence was changed from; null makes its own values the series values */
+  SeriesDefaults?: SeriesFields | null;
+  /** Why the task is put on hold, sent with a move to Hold; the server records the hold in HoldIntervals */
+  Hold?: HoldDetails;
 }
 
 /**
- * Task query parameters for filtering
+ * Fields the task list can be sorted by
+ */
+export type TaskSortField =
+  | 'CreatedAt'
+  | 'UpdatedAt'
+  | 'Title'
+  | 'Status'
+  | 'Priority'
+  | 'EstimatedHours'
+  | 'ScheduledStartDate'
+  | 'CompletedAt';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Task query parameters for filtering, sorting and pagination
+ * Use either page (1-based) or cursor (from a previous page's nextCursor)
  */
 export interface TaskQueryParams {
-  status?: TaskStatus | 'All';
+  /** A status name, or 'All' */
+  status?: string;
   priority?: TaskPriority | 'All';
   search?: string;
   userId?: string;
+  /** Only tasks of this project */
+  projectId?: string | null;
+  /** Label IDs to filter by */
+  labels?: string[];
+  /** Whether tasks need any (default) or all of the labels */
+  labelMatch?: LabelMatch;
+  page?: number;
+  cursor?: string;
+  pageSize?: number;
+  sortBy?: TaskSortField;
+  sortOrder?: SortOrder;
 }
 
 /**
- * Convert API date strings to Date objects
- * Handles both Date objects and ISO strings from the backend
- * Note: ScheduledStartDate is kept as string (YYYY-MM-DD) to avoid timezone issues
- * The backend now returns ScheduledStartDate as a formatted string directly
+ * One page of tasks
+ */
+export interface TaskPage {
+  tasks: Task[];
+  /** Number of tasks matching the filters across all pages (the response count) */
+  total: number;
+  page: number;
+  pageSize: number | null;
+  /** Cursor for the following page; null on the last page or if the server does not use cursors */
+  nextCursor: string | null;
+}
+
+/**
+ * Build the query string for a task list request
+ */
+const buildTaskQuery = (params?: TaskQueryParams & { excludeCompleted?: boolean }): Record<string, string> => {
+  const queryParams: Record<string, string> = {};
+
+  if (params?.status && params.status !== 'All') {
+    queryParams.status = params.status;
+  }
+  if (params?.priority && params.priority !== 'All') {
+    queryParams.priority = params.priority;
+  }
+  if (params?.search && params.search.trim() !== '') {
+    queryParams.search = params.search.trim();
+  }
+  if (params?.userId && params.userId !== 'All') {
+    queryParams.userId = params.userId;
+  }
+  if (params?.projectId) {
+    queryParams.projectId = params.projectId;
+  }
+  if (params?.labels && params.labels.length > 0) {
+    queryParams.labels = params.labels.join(',');
+    queryParams.labelMatch = params.labelMatch ?? 'any';
+  }
+  // Explicitly handle excludeCompleted: false to include completed tasks
+  // This is important for the All Tasks page
+  // We must check for false explicitly (not just truthy/falsy) because false is a valid value
+  if ('excludeCompleted' in (params || {}) && params?.excludeCompleted === false) {
+    queryParams.excludeCompleted = 'false';
+  } else if (params?.excludeCompleted === true) {
+    queryParams.excludeCompleted = 'true';
+  }
+  // If excludeCompleted is undefined, don't include it (backend will default to excluding completed tasks)
+
+  if (params?.cursor) {
+    queryParams.cursor = params.cursor;
+  } else if (params?.page) {
+    queryParams.page = String(params.page);
+  }
+  if (params?.pageSize) {
+    queryParams.pageSize = String(params.pageSize);
+  }
+  if (params?.sortBy) {
+    queryParams.sortBy = params.sortBy;
+    queryParams.sortOrder = params.sortOrder ?? 'asc';
+  }
+
+  return queryParams;
+};
+
+/**
+ * Read the updated task from the response of a request that changes part of a task
+ */
+const readUpdatedTask = (data: unknown, errorMessage: string): Task => {
+  const body = parseApiResponse(data, parseTask);
+  if (body.success && body.data) {
+    return body.data;
+  }
+  throw new Error(errorMessage);
+};
+
+/**
+ * Check if a request failed because the API could not be reached
+ * (no response at all, as opposed to an error response from the server)
  */
-const parseTaskDates = (task: any): Task => {
-  return {
-    ...task,
-    CreatedAt: task.CreatedAt ? new Date(task.CreatedAt) : new Date(),
-    UpdatedAt: task.UpdatedAt ? new Date(task.UpdatedAt) : new Date(),
-    StartedAt: task.StartedAt ? new Date(task.StartedAt) : undefined,
-    CompletedAt: task.CompletedAt ? new Date(task.CompletedAt) : undefined,
-    // ScheduledStartDate is returned as string (YYYY-MM-DD) from backend - use as-is
-    ScheduledStartDate: task.ScheduledStartDate || undefined,
-  };
+export const isNetworkError = (error: unknown): boolean => {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  if (axios.isAxiosError(error)) {
+    return !error.response;
+  }
+  return false;
 };
 
 /**
@@ -127,38 +233,16 @@ export const taskApi = {
    */
   async getAllTasks(params?: TaskQueryParams & { excludeCompleted?: boolean }): Promise<Task[]> {
     try {
-      // Build query string
-      const queryParams: Record<string, string> = {};
-      
-      if (params?.status && params.status !== 'All') {
-        queryParams.status = params.status;
-      }
-      if (params?.priority && params.priority !== 'All') {
-        queryParams.priority = params.priority;
-      }
-      if (params?.search && params.search.trim() !== '') {
-        queryParams.search = params.search.trim();
-      }
-      if (params?.userId && params.userId !== 'All') {
-        queryParams.userId = params.userId;
-      }
-      // Explicitly handle excludeCompleted: false to include completed tasks
-      // This is important for the All Tasks page
-      // We must check for false explicitly (not just truthy/falsy) because false is a valid value
-      if ('excludeCompleted' in (params || {}) && params?.excludeCompleted === false) {
-        queryParams.excludeCompleted = 'false';
-      } else if (params?.excludeCompleted === true) {
-        queryParams.excludeCompleted = 'true';
-      }
-      // If excludeCompleted is undefined, don't include it (backend will default to excluding completed tasks)
+      const queryParams = buildTaskQuery(params);
 
       const response = await apiClient.get<ApiResponse<Task[]>>('/tasks', {
         params: queryParams,
       });
 
-      if (response.data.success && Array.isArray(response.data.data)) {
-        // Parse dates for all tasks
-        return response.data.data.map(parseTaskDates);
+      // Validate and normalize every task (dates, enums, AssignedTo)
+      const body = parseApiResponse(response.data, parseTaskList);
+      if (body.success && body.data) {
+        return body.data;
       }
       return [];
     } catch (error) {
@@ -167,6 +251,67 @@ export const taskApi = {
     }
   },
 
+  /**
+   * Get one page of tasks with filtering and sorting
+   * total comes from the response count so pages can be numbered without fetching every task
+   */
+  async getTaskPage(params: TaskQueryParams & { excludeCompleted?: boolean }): Promise<TaskPage> {
+    try {
+      const response = await apiClient.get<ApiResponse<Task[]>>('/tasks', {
+        params: buildTaskQuery(params),
+      });
+
+      // Validate and normalize every task (dates, enums, AssignedTo)
+      const body = parseApiResponse(response.data, parseTaskList);
+      if (!body.success) {
+        throw new Error(body.message || 'Failed to fetch tasks');
+      }
+
+      const page = params.page ?? 1;
+      const pageSize = params.pageSize ?? null;
+      let tasks = body.data ?? [];
+      const total = body.count ?? tasks.length + (pageSize ? (page - 1) * pageSize : 0);
+
+      // Older servers ignore the paging parameters and return every task
+      if (pageSize && !params.cursor && tasks.length > pageSize) {
+        tasks = tasks.slice((page - 1) * pageSize, page * pageSize);
+      }
+
+      return { tasks, total, page, pageSize, nextCursor: body.nextCursor ?? null };
+    } catch (error) {
+      console.error('Error fetching task page:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get tasks changed since a point in time
+   * Used to catch up on socket events missed while disconnected
+   * Returns updated/created tasks and the ids of tasks deleted since then
+   */
+  async getTaskChanges(since: Date, projectId?: string | null): Promise<{ tasks: Task[]; deletedIds: string[] }> {
+    try {
+      const response = await apiClient.get<ApiResponse<{ tasks: Task[]; deletedIds: string[] }>>('/tasks/changes', {
+        params: projectId ? { since: since.toISOString(), projectId } : { since: since.toISOString() },
+      });
+
+      const body = parseApiResponse(response.data, (data) => {
+        const changes = data as { tasks?: unknown; deletedIds?: unknown };
+        return {
+          tasks: changes.tasks ? parseTaskList(changes.tasks, 'data.tasks') : [],
+          deletedIds: changes.deletedIds ? parseStringList(changes.deletedIds, 'data.deletedIds') : [],
+        };
+      });
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error(body.message || 'Failed to fetch task changes');
+    } catch (error) {
+      console.error('Error fetching task changes:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get all completed tasks with optional filtering
    */
@@ -181,17 +326,18 @@ export const taskApi = {
       if (params?.userId && params.userId !== 'All') {
         queryParams.userId = params.userId;
       }
+      if (params?.projectId) {
+        queryParams.projectId = params.projectId;
+      }
 
       const response = await apiClient.get<ApiResponse<Task[]>>('/tasks/completed', {
         params: queryParams,
       });
 
-      if (response.data.success && Array.isArray(response.data.data)) {
-        // Parse dates for all tasks
-        return {
-          ...response.data,
-          data: response.data.data.map(parseTaskDates),
-        };
+      // Validate and normalize every task (dates, enums, AssignedTo)
+      const body = parseApiResponse(response.data, parseTaskList);
+      if (body.success && body.data) {
+        return { ...body, data: body.data };
       }
       return { success: true, data: [] };
     } catch (error) {
@@ -216,11 +362,13 @@ export const taskApi = {
 
   /**
    * Get overall task accuracy
-   * Returns average accuracy percentage across all completed tasks
+   * Returns average accuracy percentage across the completed tasks matching the filters (project, priority, user)
    */
-  async getOverallAccuracy(): Promise<ApiResponse<{ accuracy: number | null; taskCount: number }>> {
+  async getOverallAccuracy(params?: TaskQueryParams): Promise<ApiResponse<{ accuracy: number | null; taskCount: number }>> {
     try {
-      const response = await apiClient.get<ApiResponse<{ accuracy: number | null; taskCount: number }>>('/tasks/accuracy');
+      const response = await apiClient.get<ApiResponse<{ accuracy: number | null; taskCount: number }>>('/tasks/accuracy', {
+        params: buildTaskQuery(params),
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching overall accuracy:', error);
@@ -230,11 +378,13 @@ export const taskApi = {
 
   /**
    * Get total completed task duration
-   * Returns total hours spent on all completed tasks
+   * Returns total hours spent on the completed tasks matching the filters (project, priority, user)
    */
-  async getTotalCompletedDuration(): Promise<ApiResponse<{ totalHours: number; taskCount: number }>> {
+  async getTotalCompletedDuration(params?: TaskQueryParams): Promise<ApiResponse<{ totalHours: number; taskCount: number }>> {
     try {
-      const response = await apiClient.get<ApiResponse<{ totalHours: number; taskCount: number }>>('/tasks/duration');
+      const response = await apiClient.get<ApiResponse<{ totalHours: number; taskCount: number }>>('/tasks/duration', {
+        params: buildTaskQuery(params),
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching total completed duration:', error);
@@ -242,6 +392,22 @@ export const taskApi = {
     }
   },
 
+  /**
+   * Get the time tasks spent on hold per hold reason (of the project, if given)
+   * Covers completed tasks too, which the task store does not hold
+   */
+  async getHoldSummary(projectId?: string | null): Promise<ApiResponse<Array<{ reason: string; hours: number; count: number }>>> {
+    try {
+      const response = await apiClient.get<ApiResponse<Array<{ reason: string; hours: number; count: number }>>>('/tasks/holds-summary', {
+        params: projectId ? { projectId } : undefined,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching hold summary:', error);
+      throw error;
+    }
+  },
+
   /**
    * Get all hold tasks with optional filtering
    */
@@ -259,17 +425,18 @@ export const taskApi = {
       if (params?.userId) {
         queryParams.userId = params.userId;
       }
+      if (params?.projectId) {
+        queryParams.projectId = params.projectId;
+      }
 
       const response = await apiClient.get<ApiResponse<Task[]>>('/tasks/hold', {
         params: queryParams,
       });
 
-      if (response.data.success && Array.isArray(response.data.data)) {
-        // Parse dates for all tasks
-        return {
-          ...response.data,
-          data: response.data.data.map(parseTaskDates),
-        };
+      // Validate and normalize every task (dates, enums, AssignedTo)
+      const body = parseApiResponse(response.data, parseTaskList);
+      if (body.success && body.data) {
+        return { ...body, data: body.data };
       }
       return { success: true, data: [] };
     } catch (error) {
@@ -285,12 +452,13 @@ export const taskApi = {
     try {
       const response = await apiClient.get<ApiResponse<Task>>(`/tasks/${id}`);
       
-      if (response.data.success && response.data.data) {
-        return parseTaskDates(response.data.data);
+      const body = parseApiResponse(response.data, parseTask);
+      if (body.success && body.data) {
+        return body.data;
       }
       return null;
-    } catch (error: any) {
-      if (error.response?.status === 404) {
+    } catch (error) {
+      if (error instanceof NotFoundError) {
         return null;
       }
       console.error('Error fetching task:', error);
@@ -315,8 +483,9 @@ export const taskApi = {
 
       const response = await apiClient.post<ApiResponse<Task>>('/tasks', payload);
 
-      if (response.data.success && response.data.data) {
-        return parseTaskDates(response.data.data);
+      const body = parseApiResponse(response.data, parseTask);
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to create task');
     } catch (error) {
@@ -358,19 +527,15 @@ export const taskApi = {
       
       console.log('API: Response received:', response.status, response.data);
 
-      if (response.data.success && response.data.data) {
-        const parsedTask = parseTaskDates(response.data.data);
-        console.log('API: Task updated successfully:', parsedTask);
-        return parsedTask;
+      const body = parseApiResponse(response.data, parseTask);
+      if (body.success && body.data) {
+        console.log('API: Task updated successfully:', body.data);
+        return body.data;
       }
       console.error('API: Update failed - invalid response:', response.data);
       throw new Error('Failed to update task');
-    } catch (error: any) {
+    } catch (error) {
       console.error('API: Error updating task:', error);
-      if (error.response) {
-        console.error('API: Error response data:', error.response.data);
-        console.error('API: Error response status:', error.response.status);
-      }
       throw error;
     }
   },
@@ -386,6 +551,154 @@ export const taskApi = {
       throw error;
     }
   },
+
+  /**
+   * Add an item to the end of a task's checklist
+   */
+  async addChecklistItem(taskId: string, item: ChecklistItem): Promise<Task> {
+    try {
+      const response = await apiClient.post<ApiResponse<Task>>(`/tasks/${taskId}/checklist`, item);
+      return readUpdatedTask(response.data, 'Failed to add the checklist item');
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Tick off or untick a checklist item, or move it to another position (0-based)
+   */
+  async updateChecklistItem(taskId: string, itemId: string, changes: { Done?: boolean; Position?: number }): Promise<Task> {
+    try {
+      const response = await apiClient.patch<ApiResponse<Task>>(`/tasks/${taskId}/checklist/${itemId}`, changes);
+      return readUpdatedTask(response.data, 'Failed to update the checklist item');
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove an item from a task's checklist
+   */
+  async deleteChecklistItem(taskId: string, itemId: string): Promise<Task> {
+    try {
+      const response = await apiClient.delete<ApiResponse<Task>>(`/tasks/${taskId}/checklist/${itemId}`);
+      return readUpdatedTask(response.data, 'Failed to delete the checklist item');
+    } catch (error) {
+      console.error('Error deleting checklist item:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Start (or resume) the current user's timer on a task
+   * The server ends the user's timer on any other task and returns the updated task
+   */
+  async startTimer(taskId: string): Promise<Task> {
+    try {
+      const response = await apiClient.post<ApiResponse<Task>>(`/tasks/${taskId}/timer/start`);
+      return readUpdatedTask(response.data, 'Failed to start the timer');
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Pause the current user's timer on a task
+   */
+  async pauseTimer(taskId: string): Promise<Task> {
+    try {
+      const response = await apiClient.post<ApiResponse<Task>>(`/tasks/${taskId}/timer/pause`);
+      return readUpdatedTask(response.data, 'Failed to pause the timer');
+    } catch (error) {
+      console.error('Error pausing timer:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Stop the current user's timer on a task
+   */
+  async stopTimer(taskId: string): Promise<Task> {
+    try {
+      const response = await apiClient.post<ApiResponse<Task>>(`/tasks/${taskId}/timer/stop`);
+      return readUpdatedTask(response.data, 'Failed to stop the timer');
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Log time worked on a task by hand for the current user
+   */
+  async addTimeEntry(taskId: string, entry: Pick<TimeEntry, 'id' | 'StartedAt' | 'Hours' | 'Note'>): Promise<Task> {
+    try {
+      const response = await apiClient.post<ApiResponse<Task>>(`/tasks/${taskId}/time-entries`, entry);
+      return readUpdatedTask(response.data, 'Failed to log time');
+    } catch (error) {
+      console.error('Error logging time:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a time entry
+   * The server only allows deleting other users' entries with time:manage
+   */
+  async deleteTimeEntry(taskId: string, entryId: string): Promise<Task> {
+    try {
+      const response = await apiClient.delete<ApiResponse<Task>>(`/tasks/${taskId}/time-entries/${entryId}`);
+      return readUpdatedTask(response.data, 'Failed to delete the time entry');
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Upload a file to attach to a task
+   * The file is stored unattached until its ID is sent in AttachmentIds on a task create or update
+   * onProgress is called with the percentage uploaded (0-100)
+   */
+  async uploadAttachment(file: File, onProgress?: (percent: number) => void): Promise<TaskAttachment> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await apiClient.post<ApiResponse<TaskAttachment>>('/attachments', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        onUploadProgress: (event) => {
+          if (onProgress && event.total) {
+            onProgress(Math.round((event.loaded / event.total) * 100));
+          }
+        },
+      });
+
+      const body = parseApiResponse(response.data, parseAttachment);
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to upload file');
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete an uploaded file (attached to a task or not)
+   */
+  async deleteAttachment(id: string): Promise<void> {
+    try {
+      await apiClient.delete<ApiResponse<void>>(`/attachments/${id}`);
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      throw error;
+    }
+  },
 };
 
 export default apiClient;
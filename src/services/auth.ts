@@ -1,5 +1,9 @@
 import axios from 'axios';
-import type { User, LoginCredentials, CreateUserDTO, LoginResponse } from '../types/auth';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { parseApiResponse, parseUser, parseUserList, parseLoginResponse, parseRefreshResponse } from '../utils/schemas';
+import { toApiError, AuthError, NetworkError } from './errors';
+import { tabSync } from './tabSync';
+import type { User, LoginCredentials, CreateUserDTO, LoginResponse, RefreshResponse } from '../types/auth';
 
 /**
  * Update user DTO
@@ -34,6 +38,44 @@ const authClient = axios.create({
   },
 });
 
+/**
+ * Endpoints that establish a session - never delayed by or retried after a refresh
+ */
+const SESSION_ENDPOINTS = ['/auth/login', '/auth/refresh'];
+
+const isSessionEndpoint = (url?: string): boolean => {
+  return !!url && SESSION_ENDPOINTS.some((endpoint) => url.endsWith(endpoint));
+};
+
+// Refresh the access token this long before it expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Lock that lets one tab at a time refresh the shared session
+const REFRESH_LOCK = 'taskmaster-token-refresh';
+
+/**
+ * Request config flagged once it has been retried after a refresh
+ */
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+/**
+ * Read the expiry (exp claim) of a JWT
+ * Returns null for tokens that are not JWTs or carry no expiry
+ */
+const getTokenExpiry = (token: string | null): Date | null => {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) as { exp?: unknown };
+    return typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * API Response wrapper
  */
@@ -49,6 +91,11 @@ interface ApiResponse<T> {
  */
 class AuthService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private unauthorizedListeners = new Set<() => void>();
+  private tokenListeners = new Set<(tokens: RefreshResponse) => void>();
 
   /**
    * Set authentication token
@@ -60,6 +107,190 @@ class AuthService {
     } else {
       delete authClient.defaults.headers.common['Authorization'];
     }
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Set the refresh token used to renew the access token
+   */
+  setRefreshToken(refreshToken: string | null): void {
+    this.refreshToken = refreshToken;
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Whether the access token can be renewed without asking for the password
+   */
+  canRefresh(): boolean {
+    return !!this.refreshToken;
+  }
+
+  /**
+   * When the session ends: the refresh token's expiry if there is one,
+   * otherwise the access token's. Null if the tokens carry no expiry
+   */
+  getSessionExpiry(): Date | null {
+    return getTokenExpiry(this.refreshToken ?? this.token);
+  }
+
+  /**
+   * Subscribe to renewed tokens (to persist them and update the socket)
+   * Returns an unsubscribe function
+   */
+  onTokenRefreshed(listener: (tokens: RefreshResponse) => void): () => void {
+    this.tokenListeners.add(listener);
+    return () => {
+      this.tokenListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get a new access token with the refresh token
+   * Concurrent callers share a single refresh request
+   */
+  refreshSession(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Wait for a refresh in flight, then return the current access token
+   * Requests that start during a refresh go out with the new token instead of failing
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (this.refreshPromise) {
+      await this.refreshPromise.catch(() => undefined);
+    }
+    return this.token;
+  }
+
+  /**
+   * Recover from a failed request
+   * A 401 refreshes the token once and retries the request; if the session cannot be
+   * renewed it is reported as expired. Other errors are converted and rethrown
+   */
+  async retryAfterRefresh(error: unknown, client: AxiosInstance): Promise<AxiosResponse> {
+    const apiError = toApiError(error);
+    const config = axios.isAxiosError(error) ? (error.config as RetryableRequestConfig | undefined) : undefined;
+
+    if (!(apiError instanceof AuthError) || isSessionEndpoint(config?.url)) {
+      throw apiError;
+    }
+
+    if (config && !config._retry && this.token) {
+      config._retry = true;
+      // A request sent with a token that has since been replaced is just sent again
+      if (config.headers.Authorization === `Bearer ${this.token}`) {
+        try {
+          await this.refreshSession();
+        } catch (refreshError) {
+          // Offline is not an expired session; let the caller queue or retry
+          if (refreshError instanceof NetworkError) throw refreshError;
+          this.notifyUnauthorized();
+          throw apiError;
+        }
+      }
+      return client.request(config);
+    }
+
+    this.notifyUnauthorized();
+    throw apiError;
+  }
+
+  /**
+   * Send the refresh request and store the new tokens
+   */
+  private async requestRefresh(): Promise<string> {
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) {
+      throw new AuthError();
+    }
+
+    // One tab refreshes at a time; the others are sent its tokens instead of
+    // reusing a refresh token the server has just rotated
+    return tabSync.withLock(REFRESH_LOCK, () => this.sendRefresh(refreshToken));
+  }
+
+  /**
+   * Exchange the refresh token for new tokens (called while holding the refresh lock)
+   */
+  private async sendRefresh(refreshToken: string): Promise<string> {
+    if (this.refreshToken !== refreshToken) {
+      // Renewed by another tab while waiting for the lock
+      if (this.refreshToken && this.token) return this.token;
+      throw new AuthError();
+    }
+
+    try {
+      const response = await authClient.post<ApiResponse<RefreshResponse>>('/auth/refresh', { refreshToken });
+      const body = parseApiResponse(response.data, parseRefreshResponse);
+
+      if (body.success && body.data) {
+        // Logged out while the request was in flight
+        if (this.refreshToken !== refreshToken) {
+          throw new AuthError();
+        }
+        const tokens = { token: body.data.token, refreshToken: body.data.refreshToken ?? refreshToken };
+        this.refreshToken = tokens.refreshToken;
+        this.setToken(tokens.token);
+        this.tokenListeners.forEach((listener) => listener(tokens));
+        return tokens.token;
+      }
+      throw new Error('Failed to refresh session');
+    } catch (error) {
+      console.error('Refresh session error:', error);
+      throw toApiError(error, 'Failed to refresh session');
+    }
+  }
+
+  /**
+   * Renew the access token shortly before it expires
+   * Keeps the socket handshake token valid and avoids a failed request first
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    const expiry = getTokenExpiry(this.token);
+    if (!this.token || !this.refreshToken || !expiry) return;
+
+    const delay = Math.max(expiry.getTime() - Date.now() - REFRESH_AHEAD_MS, 0);
+    if (delay > MAX_TIMER_MS) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshSession().catch((error) => {
+        // Offline: the next request retries the refresh once the network is back
+        if (!(error instanceof NetworkError)) {
+          this.notifyUnauthorized();
+        }
+      });
+    }, delay);
+  }
+
+  /**
+   * Subscribe to session expiry (a 401 from any API client that a refresh could not recover)
+   * Returns an unsubscribe function
+   */
+  onUnauthorized(listener: () => void): () => void {
+    this.unauthorizedListeners.add(listener);
+    return () => {
+      this.unauthorizedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify listeners that the current session is no longer valid
+   * Ignored when not logged in (e.g. a failed login attempt)
+   */
+  notifyUnauthorized(): void {
+    if (!this.token) return;
+    this.unauthorizedListeners.forEach((listener) => listener());
   }
 
   /**
@@ -68,16 +299,18 @@ class AuthService {
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
       const response = await authClient.post<ApiResponse<LoginResponse>>('/auth/login', credentials);
+      const body = parseApiResponse(response.data, parseLoginResponse);
       
-      if (response.data.success && response.data.data) {
-        const { user, token } = response.data.data;
+      if (body.success && body.data) {
+        const { user, token, refreshToken } = body.data;
+        this.refreshToken = refreshToken ?? null;
         this.setToken(token);
-        return { user, token };
+        return { user, token, refreshToken };
       }
       throw new Error('Login failed');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Login error:', error);
-      throw new Error(error.response?.data?.message || 'Login failed');
+      throw toApiError(error, 'Login failed');
     }
   }
 
@@ -87,14 +320,15 @@ class AuthService {
   async getCurrentUser(): Promise<User> {
     try {
       const response = await authClient.get<ApiResponse<User>>('/auth/me');
+      const body = parseApiResponse(response.data, parseUser);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to get current user');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Get current user error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to get current user');
+      throw toApiError(error, 'Failed to get current user');
     }
   }
 
@@ -104,14 +338,15 @@ class AuthService {
   async createUser(userData: CreateUserDTO): Promise<User> {
     try {
       const response = await authClient.post<ApiResponse<User>>('/users', userData);
+      const body = parseApiResponse(response.data, parseUser);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to create user');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Create user error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to create user');
+      throw toApiError(error, 'Failed to create user');
     }
   }
 
@@ -121,14 +356,15 @@ class AuthService {
   async getAllUsers(): Promise<User[]> {
     try {
       const response = await authClient.get<ApiResponse<User[]>>('/users');
+      const body = parseApiResponse(response.data, parseUserList);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to get users');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Get all users error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to get users');
+      throw toApiError(error, 'Failed to get users');
     }
   }
 
@@ -138,14 +374,15 @@ class AuthService {
   async getUserCount(): Promise<number> {
     try {
       const response = await authClient.get<ApiResponse<{ count: number }>>('/users/count');
+      const body = parseApiResponse(response.data, (data) => data as { count?: unknown });
       
-      if (response.data.success && response.data.data) {
-        return response.data.data.count;
+      if (body.success && typeof body.data?.count === 'number') {
+        return body.data.count;
       }
       throw new Error('Failed to get user count');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Get user count error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to get user count');
+      throw toApiError(error, 'Failed to get user count');
     }
   }
 
@@ -155,14 +392,15 @@ class AuthService {
   async updateUser(id: string, userData: UpdateUserDTO): Promise<User> {
     try {
       const response = await authClient.patch<ApiResponse<User>>(`/users/${id}`, userData);
+      const body = parseApiResponse(response.data, parseUser);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to update user');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Update user error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to update user');
+      throw toApiError(error, 'Failed to update user');
     }
   }
 
@@ -175,12 +413,12 @@ class AuthService {
         newPassword,
       });
       
-      if (!response.data.success) {
+      if (!parseApiResponse(response.data).success) {
         throw new Error('Failed to change password');
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Change password error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to change password');
+      throw toApiError(error, 'Failed to change password');
     }
   }
 
@@ -191,14 +429,36 @@ class AuthService {
     try {
       const response = await authClient.delete<ApiResponse<void>>(`/users/${id}`);
       
-      if (!response.data.success) {
+      if (!parseApiResponse(response.data).success) {
         throw new Error('Failed to delete user');
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Delete user error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to delete user');
+      throw toApiError(error, 'Failed to delete user');
     }
   }
 }
 
 export const authService = new AuthService();
+
+/**
+ * Send the current access token with every request and refresh it on 401
+ * Used by every API client so they share one refresh and one session
+ */
+export const attachAuthInterceptors = (client: AxiosInstance): void => {
+  client.interceptors.request.use(async (config) => {
+    if (isSessionEndpoint(config.url)) return config;
+    const token = await authService.getAccessToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    (error) => authService.retryAfterRefresh(error, client)
+  );
+};
+
+attachAuthInterceptors(authClient);
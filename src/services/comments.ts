@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { parseApiResponse, parseComment, parseCommentList } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
+import type { TaskComment, CreateCommentDTO, UpdateCommentDTO } from '../types/comment';
+
+/**
+ * API Configuration
+ */
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Create axios instance for comment requests
+ */
+const commentClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+/**
+ * API Response wrapper
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
+ */
+attachAuthInterceptors(commentClient);
+
+/**
+ * Comment Service
+ * Handles the comment threads on tasks
+ */
+class CommentService {
+  /**
+   * Get all comments on a task, oldest first
+   */
+  async getComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      const response = await commentClient.get<ApiResponse<TaskComment[]>>(`/tasks/${taskId}/comments`);
+      const body = parseApiResponse(response.data, parseCommentList);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to get comments');
+    } catch (error) {
+      console.error('Get comments error:', error);
+      throw toApiError(error, 'Failed to get comments');
+    }
+  }
+
+  /**
+   * Post a comment or a reply on a task
+   */
+  async createComment(taskId: string, commentData: CreateCommentDTO): Promise<TaskComment> {
+    try {
+      const response = await commentClient.post<ApiResponse<TaskComment>>(`/tasks/${taskId}/comments`, commentData);
+      const body = parseApiResponse(response.data, parseComment);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to post comment');
+    } catch (error) {
+      console.error('Create comment error:', error);
+      throw toApiError(error, 'Failed to post comment');
+    }
+  }
+
+  /**
+   * Edit the body of a comment
+   */
+  async updateComment(taskId: string, commentId: string, commentData: UpdateCommentDTO): Promise<TaskComment> {
+    try {
+      const response = await commentClient.patch<ApiResponse<TaskComment>>(
+        `/tasks/${taskId}/comments/${commentId}`,
+        commentData
+      );
+      const body = parseApiResponse(response.data, parseComment);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to update comment');
+    } catch (error) {
+      console.error('Update comment error:', error);
+      throw toApiError(error, 'Failed to update comment');
+    }
+  }
+
+  /**
+   * Delete a comment (the server also deletes its replies)
+   */
+  async deleteComment(taskId: string, commentId: string): Promise<void> {
+    try {
+      const response = await commentClient.delete<ApiResponse<void>>(`/tasks/${taskId}/comments/${commentId}`);
+
+      if (!parseApiResponse(response.data).success) {
+        throw new Error('Failed to delete comment');
+      }
+    } catch (error) {
+      console.error('Delete comment error:', error);
+      throw toApiError(error, 'Failed to delete comment');
+    }
+  }
+}
+
+export const commentService = new CommentService();
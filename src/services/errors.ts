@@ -0,0 +1,176 @@
+import axios from 'axios';
+
+/**
+ * Field-level validation messages keyed by input name (e.g. { Title: 'Title is required' })
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Base class for every error produced by the API layer
+ */
+export class ApiError extends Error {
+  /** HTTP status code, if the server responded */
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * The server could not be reached (offline, DNS, CORS, timeout)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Unable to reach the server. Check your connection and try again.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 401 - missing, invalid or expired token
+ */
+export class AuthError extends ApiError {
+  constructor(message: string = 'Your session has expired. Please log in again.') {
+    super(message, 401);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 403 - the user lacks the permission for this action
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string = 'You do not have permission to perform this action.') {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * 400/422 - the request was rejected, optionally with per-field messages
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string = 'Please check the highlighted fields.', fieldErrors: FieldErrors = {}, status: number = 400) {
+    super(message, status);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+/**
+ * 409 - the resource was changed by someone else or already exists
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string = 'This item was changed by someone else. Refresh and try again.') {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * 404 - the resource does not exist (or is no longer visible to the user)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string = 'The requested item could not be found.') {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 5xx and anything else unexpected
+ */
+export class ServerError extends ApiError {
+  constructor(message: string = 'Something went wrong on the server. Please try again.', status?: number) {
+    super(message, status);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Read field errors from a backend error body
+ * Supports { errors: { field: message } } and express-validator style
+ * { errors: [{ path | param | field, msg | message }] }
+ */
+const extractFieldErrors = (errors: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+
+  if (Array.isArray(errors)) {
+    errors.forEach((item) => {
+      if (typeof item !== 'object' || item === null) return;
+      const entry = item as Record<string, unknown>;
+      const field = entry.path ?? entry.param ?? entry.field;
+      const message = entry.msg ?? entry.message;
+      if (typeof field === 'string' && typeof message === 'string' && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (typeof errors === 'object' && errors !== null) {
+    Object.entries(errors as Record<string, unknown>).forEach(([field, message]) => {
+      if (typeof message === 'string') {
+        fieldErrors[field] = message;
+      } else if (Array.isArray(message) && typeof message[0] === 'string') {
+        fieldErrors[field] = message[0];
+      }
+    });
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Convert anything thrown by an API call into a typed ApiError
+ * Used by the axios response interceptors and service catch blocks
+ */
+export const toApiError = (error: unknown, fallbackMessage?: string): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new NetworkError();
+    }
+
+    const { status } = error.response;
+    const data = (error.response.data ?? {}) as { message?: unknown; errors?: unknown };
+    const message = typeof data.message === 'string' && data.message ? data.message : fallbackMessage;
+
+    switch (status) {
+      case 400:
+      case 422:
+        return new ValidationError(message, extractFieldErrors(data.errors), status);
+      case 401:
+        return new AuthError(message);
+      case 403:
+        return new ForbiddenError(message);
+      case 404:
+        return new NotFoundError(message);
+      case 409:
+        return new ConflictError(message);
+      default:
+        return new ServerError(message, status);
+    }
+  }
+
+  if (error instanceof Error) {
+    return new ServerError(error.message || fallbackMessage);
+  }
+  return new ServerError(fallbackMessage);
+};
+
+/**
+ * Get a user-facing message from any error
+ */
+export const getErrorMessage = (error: unknown, fallbackMessage: string): string => {
+  return error instanceof Error && error.message ? error.message : fallbackMessage;
+};
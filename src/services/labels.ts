@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { parseApiResponse, parseLabel, parseLabelList } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
+import type { Label, CreateLabelDTO, UpdateLabelDTO } from '../types/label';
+
+/**
+ * API Configuration
+ */
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Create axios instance for label requests
+ */
+const labelClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+/**
+ * API Response wrapper
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
+ */
+attachAuthInterceptors(labelClient);
+
+/**
+ * Label Service
+ * Handles the labels tasks can be tagged with
+ */
+class LabelService {
+  /**
+   * Get all labels
+   */
+  async getLabels(): Promise<Label[]> {
+    try {
+      const response = await labelClient.get<ApiResponse<Label[]>>('/labels');
+      const body = parseApiResponse(response.data, parseLabelList);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to get labels');
+    } catch (error) {
+      console.error('Get labels error:', error);
+      throw toApiError(error, 'Failed to get labels');
+    }
+  }
+
+  /**
+   * Create a new label
+   */
+  async createLabel(labelData: CreateLabelDTO): Promise<Label> {
+    try {
+      const response = await labelClient.post<ApiResponse<Label>>('/labels', labelData);
+      const body = parseApiResponse(response.data, parseLabel);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to create label');
+    } catch (error) {
+      console.error('Create label error:', error);
+      throw toApiError(error, 'Failed to create label');
+    }
+  }
+
+  /**
+   * Rename or recolor a label
+   */
+  async updateLabel(id: string, labelData: UpdateLabelDTO): Promise<Label> {
+    try {
+      const response = await labelClient.patch<ApiResponse<Label>>(`/labels/${id}`, labelData);
+      const body = parseApiResponse(response.data, parseLabel);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to update label');
+    } catch (error) {
+      console.error('Update label error:', error);
+      throw toApiError(error, 'Failed to update label');
+    }
+  }
+
+  /**
+   * Delete a label (the server removes it from every task)
+   */
+  async deleteLabel(id: string): Promise<void> {
+    try {
+      await labelClient.delete<ApiResponse<void>>(`/labels/${id}`);
+    } catch (error) {
+      console.error('Delete label error:', error);
+      throw toApiError(error, 'Failed to delete label');
+    }
+  }
+}
+
+export const labelService = new LabelService();
@@ -0,0 +1,113 @@
+import type { CreateTaskDTO, UpdateTaskDTO } from './api';
+
+/**
+ * A task mutation waiting to be sent to the server
+ * For creates, taskId is the temporary id of the optimistic task
+ * baseUpdatedAt is the server UpdatedAt the change was made against (used to detect conflicts)
+ */
+export type QueuedMutation =
+  | { type: 'create'; taskId: string; data: CreateTaskDTO }
+  | { type: 'update'; taskId: string; data: UpdateTaskDTO; baseUpdatedAt: number }
+  | { type: 'delete'; taskId: string; baseUpdatedAt: number };
+
+/**
+ * A queued mutation as stored in IndexedDB
+ */
+export type QueuedMutationRecord = QueuedMutation & {
+  seq: number;
+  userId: string;
+  queuedAt: number;
+};
+
+const DB_NAME = 'taskmaster-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Offline Queue Service
+ * Persists task mutations made while the API is unreachable so they survive reloads
+ * Records are replayed in insertion order (seq) per user
+ */
+class OfflineQueueService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open (and create on first use) the queue database
+   */
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+            store.createIndex('userId', 'userId', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Get the object store within a new transaction
+   */
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDB();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * Add a mutation to the end of the queue
+   */
+  async enqueue(userId: string, mutation: QueuedMutation): Promise<QueuedMutationRecord> {
+    const store = await this.getStore('readwrite');
+    const record = { ...mutation, userId, queuedAt: Date.now() };
+    const seq = await promisifyRequest(store.add(record));
+    return { ...record, seq: seq as number };
+  }
+
+  /**
+   * Get all queued mutations for a user, oldest first
+   */
+  async getAll(userId: string): Promise<QueuedMutationRecord[]> {
+    const store = await this.getStore('readonly');
+    const records = await promisifyRequest(store.index('userId').getAll(userId));
+    return (records as QueuedMutationRecord[]).sort((a, b) => a.seq - b.seq);
+  }
+
+  /**
+   * Replace a queued mutation (e.g. after remapping a temporary task id)
+   */
+  async put(record: QueuedMutationRecord): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.put(record));
+  }
+
+  /**
+   * Remove a mutation from the queue once it has been handled
+   */
+  async remove(seq: number): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisifyRequest(store.delete(seq));
+  }
+}
+
+// Export singleton instance
+export const offlineQueue = new OfflineQueueService();
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { parseApiResponse, parseProject, parseProjectList } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
+import type { Project, CreateProjectDTO, UpdateProjectDTO } from '../types/project';
+
+/**
+ * API Configuration
+ */
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Create axios instance for project requests
+ */
+const projectClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+/**
+ * API Response wrapper
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
+ */
+attachAuthInterceptors(projectClient);
+
+/**
+ * Project Service
+ * Handles projects and their members
+ */
+class ProjectService {
+  /**
+   * Get the projects the current user is a member of
+   * (every project for users with projects:manage)
+   */
+  async getProjects(): Promise<Project[]> {
+    try {
+      const response = await projectClient.get<ApiResponse<Project[]>>('/projects');
+      const body = parseApiResponse(response.data, parseProjectList);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to get projects');
+    } catch (error) {
+      console.error('Get projects error:', error);
+      throw toApiError(error, 'Failed to get projects');
+    }
+  }
+
+  /**
+   * Create a new project
+   */
+  async createProject(projectData: CreateProjectDTO): Promise<Project> {
+    try {
+      const response = await projectClient.post<ApiResponse<Project>>('/projects', projectData);
+      const body = parseApiResponse(response.data, parseProject);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to create project');
+    } catch (error) {
+      console.error('Create project error:', error);
+      throw toApiError(error, 'Failed to create project');
+    }
+  }
+
+  /**
+   * Rename, recolor or change the members of a project
+   */
+  async updateProject(id: string, projectData: UpdateProjectDTO): Promise<Project> {
+    try {
+      const response = await projectClient.patch<ApiResponse<Project>>(`/projects/${id}`, projectData);
+      const body = parseApiResponse(response.data, parseProject);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to update project');
+    } catch (error) {
+      console.error('Update project error:', error);
+      throw toApiError(error, 'Failed to update project');
+    }
+  }
+
+  /**
+   * Delete a project (the server refuses while it still has tasks)
+   */
+  async deleteProject(id: string): Promise<void> {
+    try {
+      await projectClient.delete<ApiResponse<void>>(`/projects/${id}`);
+    } catch (error) {
+      console.error('Delete project error:', error);
+      throw toApiError(error, 'Failed to delete project');
+    }
+  }
+}
+
+export const projectService = new ProjectService();
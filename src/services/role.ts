@@ -1,4 +1,7 @@
 import axios from 'axios';
+import { parseApiResponse, parseRole, parseRoleList, parseStringList } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
 import type { Role, CreateRoleDTO, UpdateRoleDTO } from '../types/role';
 
 /**
@@ -26,32 +29,10 @@ interface ApiResponse<T> {
 }
 
 /**
- * Set up axios interceptor to include JWT token
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
  */
-roleClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-/**
- * Add response interceptor to handle auth errors
- */
-roleClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid, clear auth data
-      localStorage.removeItem('authToken');
-      localStorage.removeItem('authUser');
-      // Redirect to login (handled by App component)
-      window.location.href = '/';
-    }
-    return Promise.reject(error);
-  }
-);
+attachAuthInterceptors(roleClient);
 
 /**
  * Role Service
@@ -64,14 +45,15 @@ class RoleService {
   async getAllRoles(): Promise<Role[]> {
     try {
       const response = await roleClient.get<ApiResponse<Role[]>>('/roles');
+      const body = parseApiResponse(response.data, parseRoleList);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to get roles');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Get all roles error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to get roles');
+      throw toApiError(error, 'Failed to get roles');
     }
   }
 
@@ -81,14 +63,15 @@ class RoleService {
   async getRoleById(id: string): Promise<Role> {
     try {
       const response = await roleClient.get<ApiResponse<Role>>(`/roles/${id}`);
+      const body = parseApiResponse(response.data, parseRole);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to get role');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Get role error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to get role');
+      throw toApiError(error, 'Failed to get role');
     }
   }
 
@@ -98,14 +81,15 @@ class RoleService {
   async createRole(roleData: CreateRoleDTO): Promise<Role> {
     try {
       const response = await roleClient.post<ApiResponse<Role>>('/roles', roleData);
+      const body = parseApiResponse(response.data, parseRole);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to create role');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Create role error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to create role');
+      throw toApiError(error, 'Failed to create role');
     }
   }
 
@@ -115,14 +99,15 @@ class RoleService {
   async updateRole(id: string, roleData: UpdateRoleDTO): Promise<Role> {
     try {
       const response = await roleClient.patch<ApiResponse<Role>>(`/roles/${id}`, roleData);
+      const body = parseApiResponse(response.data, parseRole);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to update role');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Update role error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to update role');
+      throw toApiError(error, 'Failed to update role');
     }
   }
 
@@ -133,12 +118,12 @@ class RoleService {
     try {
       const response = await roleClient.delete<ApiResponse<void>>(`/roles/${id}`);
       
-      if (!response.data.success) {
+      if (!parseApiResponse(response.data).success) {
         throw new Error('Failed to delete role');
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Delete role error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to delete role');
+      throw toApiError(error, 'Failed to delete role');
     }
   }
 
@@ -148,14 +133,15 @@ class RoleService {
   async getAllPermissions(): Promise<string[]> {
     try {
       const response = await roleClient.get<ApiResponse<string[]>>('/roles/permissions');
+      const body = parseApiResponse(response.data, parseStringList);
       
-      if (response.data.success && response.data.data) {
-        return response.data.data;
+      if (body.success && body.data) {
+        return body.data;
       }
       throw new Error('Failed to get permissions');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Get permissions error:', error);
-      throw new Error(error.response?.data?.message || 'Failed to get permissions');
+      throw toApiError(error, 'Failed to get permissions');
     }
   }
 }
@@ -1,12 +1,92 @@
 import { io, Socket } from 'socket.io-client';
+import { tabSync } from './tabSync';
+
+/**
+ * Connection state shown to the user
+ */
+export type ConnectionState = 'connected' | 'reconnecting' | 'offline';
+
+/**
+ * Task room scope requested after connecting
+ * 'all' requires tasks:view-all on the server, 'own' only receives tasks assigned to the user
+ */
+export type TaskRoomScope = 'all' | 'own';
+
+/**
+ * Server events the leader tab relays to the other tabs
+ */
+const RELAYED_EVENTS = ['connect', 'task:created', 'task:updated', 'task:deleted', 'tasks:refreshed', 'workflow:updated', 'comment:created', 'comment:updated', 'comment:deleted', 'activity:created', 'labels:updated', 'projects:updated'];
+
+// Lock held by the one tab that owns the socket connection
+const LEADER_LOCK = 'taskmaster-socket-leader';
 
 /**
  * Socket Service
  * Manages WebSocket connection for real-time updates
+ * Only one tab (the leader) opens a socket; it relays server events and its connection
+ * state to the other tabs. When the leader tab closes, another tab takes over
  */
 class SocketService {
   private socket: Socket | null = null;
   private readonly API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+  private connectionState: ConnectionState = 'offline';
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  private authToken: string | null = null;
+  private taskScope: TaskRoomScope | null = null;
+  private taskProjectId: string | null = null;
+  private eventListeners = new Map<string, Set<(payload: unknown) => void>>();
+  private wantsConnection = false;
+  private isLeader = false;
+  private releaseLeadership: (() => void) | null = null;
+
+  constructor() {
+    // Reflect browser network changes immediately instead of waiting for a socket timeout
+    if (typeof window !== 'undefined') {
+      window.addEventListener('offline', () => this.setConnectionState('offline'));
+      window.addEventListener('online', () => {
+        if (this.socket && !this.socket.connected) {
+          this.setConnectionState('reconnecting');
+          this.socket.connect();
+        }
+      });
+    }
+
+    // Follow the leader tab's connection
+    tabSync.subscribe((message) => {
+      if (this.isLeader) {
+        if (message.type === 'socket:state-request') {
+          tabSync.post({ type: 'socket:state', state: this.connectionState });
+        }
+        return;
+      }
+      if (!this.wantsConnection) return;
+      if (message.type === 'socket:event') {
+        this.dispatch(message.event, message.payload);
+      } else if (message.type === 'socket:state') {
+        this.setConnectionState(message.state);
+      }
+    });
+  }
+
+  /**
+   * Update the connection state and notify listeners
+   * The leader also shares it with the other tabs
+   */
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.stateListeners.forEach((listener) => listener(state));
+    if (this.isLeader) {
+      tabSync.post({ type: 'socket:state', state });
+    }
+  }
+
+  /**
+   * Call the listeners registered for a server event
+   */
+  private dispatch(event: string, payload: unknown): void {
+    this.eventListeners.get(event)?.forEach((listener) => listener(payload));
+  }
 
   /**
    * Get the base URL without /api suffix for Socket.IO
@@ -18,61 +98,192 @@ class SocketService {
   }
 
   /**
-   * Connect to WebSocket server
+   * Set the JWT sent in the socket handshake
+   * An open socket re-handshakes with the new token; clearing the token disconnects it
+   */
+  setAuthToken(token: string | null): void {
+    if (this.authToken === token) return;
+    this.authToken = token;
+
+    if (!token) {
+      this.disconnect();
+      return;
+    }
+    if (!this.socket) return;
+    // Reconnect the same socket so registered listeners are kept
+    this.socket.disconnect().connect();
+  }
+
+  /**
+   * Use a refreshed token for future handshakes
+   * Same user, so the open connection and its rooms are kept
    */
-  connect(): Socket {
+  refreshAuthToken(token: string): void {
+    this.authToken = token;
+  }
+
+  /**
+   * Join the task room for the given scope, limited to one project if given
+   * Re-sent after every (re)connect because the server drops rooms on disconnect
+   */
+  subscribeToTasks(scope: TaskRoomScope, projectId: string | null = null): void {
+    this.taskScope = scope;
+    this.taskProjectId = projectId;
     if (this.socket?.connected) {
-      return this.socket;
+      this.socket.emit('tasks:subscribe', { scope, projectId });
     }
+  }
+
+  /**
+   * Start receiving real-time updates
+   * Waits to become the leader tab before opening a socket; until then events arrive from the leader
+   */
+  connect(): void {
+    if (this.wantsConnection) return;
+    this.wantsConnection = true;
+    this.setConnectionState('reconnecting');
+
+    // Without a channel to relay over, every tab needs its own socket
+    if (!tabSync.isSupported()) {
+      this.becomeLeader();
+      return;
+    }
+    this.releaseLeadership = tabSync.holdLock(LEADER_LOCK, () => this.becomeLeader());
+    // Ask the current leader (if any) for its connection state
+    tabSync.post({ type: 'socket:state-request' });
+  }
+
+  /**
+   * Take over the connection for all tabs
+   */
+  private becomeLeader(): void {
+    if (!this.wantsConnection) return;
+    this.isLeader = true;
+    this.openSocket();
+  }
+
+  /**
+   * Open the WebSocket connection
+   * The handshake carries the current auth token
+   */
+  private openSocket(): void {
+    // An existing socket reconnects on its own - never open a second one
+    if (this.socket) return;
 
     const socketURL = this.getSocketURL();
     console.log(`🔌 Connecting to WebSocket server: ${socketURL}`);
+    this.setConnectionState('reconnecting');
 
+    // Keep retrying forever with exponential backoff (1s up to 30s)
     this.socket = io(socketURL, {
       transports: ['websocket', 'polling'],
+      // Read on every (re)connect so a changed token is picked up
+      auth: (cb) => cb({ token: this.authToken }),
       reconnection: true,
+      reconnectionAttempts: Infinity,
       reconnectionDelay: 1000,
-      reconnectionAttempts: 5,
+      reconnectionDelayMax: 30000,
+      randomizationFactor: 0.5,
     });
 
     this.socket.on('connect', () => {
       console.log('✅ WebSocket connected:', this.socket?.id);
+      this.setConnectionState('connected');
+      if (this.taskScope) {
+        this.socket?.emit('tasks:subscribe', { scope: this.taskScope, projectId: this.taskProjectId });
+      }
     });
 
     this.socket.on('disconnect', (reason: string) => {
       console.log('🔌 WebSocket disconnected:', reason);
+      if (reason === 'io client disconnect') {
+        this.setConnectionState('offline');
+        return;
+      }
+      // Socket.IO does not retry after a server-side disconnect, so reconnect manually
+      if (reason === 'io server disconnect') {
+        this.socket?.connect();
+      }
+      this.setConnectionState('reconnecting');
     });
 
     this.socket.on('connect_error', (error: Error) => {
       console.error('❌ WebSocket connection error:', error);
+      // A handshake rejected by the server (e.g. invalid token) is not retried
+      this.setConnectionState(this.socket?.active && navigator.onLine ? 'reconnecting' : 'offline');
+    });
+
+    this.socket.io.on('reconnect_attempt', (attempt: number) => {
+      console.log(`🔄 WebSocket reconnect attempt ${attempt}`);
+      if (navigator.onLine) {
+        this.setConnectionState('reconnecting');
+      }
     });
 
-    return this.socket;
+    RELAYED_EVENTS.forEach((event) => {
+      this.socket?.on(event, (payload: unknown) => {
+        this.dispatch(event, payload);
+        tabSync.post({ type: 'socket:event', event, payload });
+      });
+    });
   }
 
   /**
    * Disconnect from WebSocket server
+   * Gives up leadership so another tab can take over the connection
    */
   disconnect(): void {
+    this.wantsConnection = false;
+    this.isLeader = false;
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
       console.log('🔌 WebSocket disconnected');
     }
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.setConnectionState('offline');
   }
 
   /**
-   * Get the socket instance
+   * Listen to a server event, whether this tab holds the socket or not
+   * Returns an unsubscribe function
    */
-  getSocket(): Socket | null {
-    return this.socket;
+  on(event: string, listener: (payload: unknown) => void): () => void {
+    let listeners = this.eventListeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
   }
 
   /**
-   * Check if socket is connected
+   * Check if this tab's updates are live (directly or through the leader tab)
    */
   isConnected(): boolean {
-    return this.socket?.connected || false;
+    return this.connectionState === 'connected';
+  }
+
+  /**
+   * Get the current connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Subscribe to connection state changes
+   * Returns an unsubscribe function
+   */
+  onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
   }
 }
 
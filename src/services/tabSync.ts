@@ -0,0 +1,118 @@
+import type { Task } from '../types';
+import type { User } from '../types/auth';
+import type { ConnectionState } from './socket';
+
+/**
+ * A message shared with the app's other open tabs
+ */
+export type TabMessage =
+  | { type: 'auth:login'; user: User; token: string; refreshToken: string | null }
+  | { type: 'auth:logout' }
+  | { type: 'auth:user'; user: User }
+  | { type: 'auth:token'; token: string; refreshToken: string | null }
+  | { type: 'theme'; theme: 'light' | 'dark' }
+  | { type: 'project'; projectId: string | null }
+  | { type: 'tasks:upsert'; task: Task }
+  | { type: 'tasks:remove'; id: string }
+  | { type: 'socket:event'; event: string; payload: unknown }
+  | { type: 'socket:state'; state: ConnectionState }
+  | { type: 'socket:state-request' };
+
+const CHANNEL_NAME = 'taskmaster-sync';
+
+/**
+ * Tab Sync Service
+ * Keeps open tabs of the app in step over a BroadcastChannel
+ * Messages are never delivered back to the tab that posted them
+ */
+class TabSyncService {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(message: TabMessage) => void>();
+
+  constructor() {
+    if (typeof BroadcastChannel === 'undefined') return;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      this.listeners.forEach((listener) => listener(event.data));
+    };
+  }
+
+  /**
+   * Check if messages can reach other tabs
+   */
+  isSupported(): boolean {
+    return this.channel !== null;
+  }
+
+  /**
+   * Send a message to the other tabs
+   */
+  post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error('Error posting message to other tabs:', error);
+    }
+  }
+
+  /**
+   * Subscribe to messages from the other tabs
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: (message: TabMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a callback while holding a lock shared by all tabs
+   * Without the Web Locks API the callback runs straight away
+   */
+  async withLock<T>(name: string, callback: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return callback();
+    }
+    return navigator.locks.request(name, callback);
+  }
+
+  /**
+   * Wait for a lock shared by all tabs and keep it until released
+   * onAcquired runs once this tab holds the lock; a closed tab releases it automatically.
+   * Without the Web Locks API onAcquired runs straight away.
+   * Returns a function that releases the lock (or stops waiting for it)
+   */
+  holdLock(name: string, onAcquired: () => void): () => void {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      onAcquired();
+      return () => {};
+    }
+
+    const controller = new AbortController();
+    let release: (() => void) | null = null;
+
+    navigator.locks
+      .request(name, { signal: controller.signal }, () => {
+        return new Promise<void>((resolve) => {
+          release = resolve;
+          onAcquired();
+        });
+      })
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error(`Error waiting for lock ${name}:`, error);
+      });
+
+    return () => {
+      if (release) {
+        release();
+      } else {
+        controller.abort();
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const tabSync = new TabSyncService();
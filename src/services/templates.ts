@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { parseApiResponse, parseTaskTemplate, parseTaskTemplateList } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
+import type { TaskTemplate, CreateTaskTemplateDTO, UpdateTaskTemplateDTO } from '../types/template';
+
+/**
+ * API Configuration
+ */
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Create axios instance for template requests
+ */
+const templateClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+/**
+ * API Response wrapper
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
+ */
+attachAuthInterceptors(templateClient);
+
+/**
+ * Template Service
+ * Handles the saved templates new tasks can be created from
+ */
+class TemplateService {
+  /**
+   * Get all task templates
+   */
+  async getTemplates(): Promise<TaskTemplate[]> {
+    try {
+      const response = await templateClient.get<ApiResponse<TaskTemplate[]>>('/templates');
+      const body = parseApiResponse(response.data, parseTaskTemplateList);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to get templates');
+    } catch (error) {
+      console.error('Get templates error:', error);
+      throw toApiError(error, 'Failed to get templates');
+    }
+  }
+
+  /**
+   * Create a new task template
+   */
+  async createTemplate(templateData: CreateTaskTemplateDTO): Promise<TaskTemplate> {
+    try {
+      const response = await templateClient.post<ApiResponse<TaskTemplate>>('/templates', templateData);
+      const body = parseApiResponse(response.data, parseTaskTemplate);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to create template');
+    } catch (error) {
+      console.error('Create template error:', error);
+      throw toApiError(error, 'Failed to create template');
+    }
+  }
+
+  /**
+   * Rename a template or replace its tasks
+   */
+  async updateTemplate(id: string, templateData: UpdateTaskTemplateDTO): Promise<TaskTemplate> {
+    try {
+      const response = await templateClient.patch<ApiResponse<TaskTemplate>>(`/templates/${id}`, templateData);
+      const body = parseApiResponse(response.data, parseTaskTemplate);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to update template');
+    } catch (error) {
+      console.error('Update template error:', error);
+      throw toApiError(error, 'Failed to update template');
+    }
+  }
+
+  /**
+   * Delete a template (tasks created from it are kept)
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      await templateClient.delete<ApiResponse<void>>(`/templates/${id}`);
+    } catch (error) {
+      console.error('Delete template error:', error);
+      throw toApiError(error, 'Failed to delete template');
+    }
+  }
+}
+
+export const templateService = new TemplateService();
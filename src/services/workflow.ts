@@ -0,0 +1,79 @@
+import axios from 'axios';
+import { parseApiResponse, parseWorkflow } from '../utils/schemas';
+import { toApiError } from './errors';
+import { attachAuthInterceptors } from './auth';
+import type { Workflow, UpdateWorkflowDTO } from '../types/workflow';
+
+/**
+ * API Configuration
+ */
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Create axios instance for workflow requests
+ */
+const workflowClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+/**
+ * API Response wrapper
+ */
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * Send the auth token and refresh it on 401
+ * An expired session is reported through AuthContext instead of reloading the page
+ */
+attachAuthInterceptors(workflowClient);
+
+/**
+ * Workflow Service
+ * Handles the task workflow definition (statuses and transitions)
+ */
+class WorkflowService {
+  /**
+   * Get the task workflow
+   */
+  async getWorkflow(): Promise<Workflow> {
+    try {
+      const response = await workflowClient.get<ApiResponse<Workflow>>('/workflow');
+      const body = parseApiResponse(response.data, parseWorkflow);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to get workflow');
+    } catch (error) {
+      console.error('Get workflow error:', error);
+      throw toApiError(error, 'Failed to get workflow');
+    }
+  }
+
+  /**
+   * Replace the task workflow
+   */
+  async updateWorkflow(workflowData: UpdateWorkflowDTO): Promise<Workflow> {
+    try {
+      const response = await workflowClient.put<ApiResponse<Workflow>>('/workflow', workflowData);
+      const body = parseApiResponse(response.data, parseWorkflow);
+
+      if (body.success && body.data) {
+        return body.data;
+      }
+      throw new Error('Failed to update workflow');
+    } catch (error) {
+      console.error('Update workflow error:', error);
+      throw toApiError(error, 'Failed to update workflow');
+    }
+  }
+}
+
+export const workflowService = new WorkflowService();
@@ -1,6 +1,6 @@
 /**
  * Task Status enumeration
- * Represents the current state of a task in the workflow
+ * The built-in states of a task; the workflow can add custom statuses between them
  */
 export enum TaskStatus {
   Pending = "Pending",
@@ -20,6 +20,116 @@ export enum TaskPriority {
   Critical = "Critical",
 }
 
+/**
+ * Checklist item interface
+ * A single step in a task's ordered checklist
+ */
+export interface ChecklistItem {
+  /** Unique identifier for the item within its task */
+  id: string;
+  /** What needs to be done */
+  Text: string;
+  /** Whether the item has been ticked off */
+  Done: boolean;
+}
+
+/**
+ * Task attachment interface
+ * A file uploaded for a task (e.g. a screenshot or a spec)
+ */
+export interface TaskAttachment {
+  /** Unique identifier for the attachment */
+  id: string;
+  /** Original file name */
+  FileName: string;
+  /** MIME type of the file */
+  ContentType: string;
+  /** File size in bytes */
+  Size: number;
+  /** Where the file can be downloaded from (absolute, or relative to the API server) */
+  Url: string;
+  /** Optional user ID of who uploaded the file */
+  UploadedBy?: string | null;
+  /** Timestamp indicating when the file was uploaded */
+  UploadedAt: Date | string;
+}
+
+/**
+ * Time entry interface
+ * A work session recorded with a task's timer, or time logged by hand
+ */
+export interface TimeEntry {
+  /** Unique identifier for the entry within its task */
+  id: string;
+  /** User ID of who did the work */
+  UserId: string;
+  /** When the session started (the day the work was done for logged time) */
+  StartedAt: Date | string;
+  /** When the session ended; null while the timer is running */
+  EndedAt?: Date | string | null;
+  /** Hours logged by hand; timer sessions count from StartedAt to EndedAt instead */
+  Hours?: number | null;
+  /** Optional note on what was done */
+  Note?: string | null;
+  /** Set on the sessions of a paused timer until it is stopped */
+  Paused?: boolean;
+}
+
+/**
+ * Hold interval interface
+ * One period a task spent on hold, with why it was put on hold
+ */
+export interface HoldInterval {
+  /** Unique identifier for the interval within its task */
+  id: string;
+  /** Reason chosen from the workflow's hold reasons */
+  Reason: string;
+  /** Optional details given with the reason */
+  Note?: string | null;
+  /** When the task was put on hold */
+  StartedAt: Date | string;
+  /** When the task was resumed; null while it is still on hold */
+  EndedAt?: Date | string | null;
+  /** Optional day the task is expected to be resumed (YYYY-MM-DD) */
+  ExpectedResumeDate?: string | null;
+  /** Optional user ID of who put the task on hold */
+  PutOnHoldBy?: string | null;
+}
+
+/**
+ * How often a recurring task repeats
+ * custom rules are written as an iCalendar RRULE
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+/**
+ * Recurrence rule interface
+ * Completing an occurrence of a recurring task creates the next one
+ */
+export interface TaskRecurrence {
+  Frequency: RecurrenceFrequency;
+  /** Repeat every this many days, weeks or months */
+  Interval: number;
+  /** Days of the week for weekly rules (0 = Sunday) */
+  Weekdays?: number[];
+  /** Day of the month for monthly rules (1-31); shorter months use their last day */
+  MonthDay?: number | null;
+  /** RRULE for custom rules (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR") */
+  RRule?: string | null;
+  /** Last date an occurrence can be scheduled on (YYYY-MM-DD) */
+  EndDate?: string | null;
+  /** Number of occurrences in the whole series */
+  Count?: number | null;
+}
+
+/**
+ * Fields a recurring task passes on to its next occurrence
+ */
+export type SeriesFields = Partial<Pick<
+  Task,
+  'Title' | 'Description' | 'Priority' | 'EstimatedHours' | 'AssignedTo' | 'ScheduledStartDate' | 'ScheduledStartTime' | 'Labels'
+>>;
+
 /**
  * Task interface
  * Defines the structure for task objects in the Task Management System
@@ -31,8 +141,8 @@ export interface Task {
   Title: string;
   /** Detailed description of what needs to be done */
   Description: string;
-  /** Current status of the task */
-  Status: TaskStatus;
+  /** Current status of the task: a TaskStatus or a custom status from the workflow */
+  Status: string;
   /** Priority level indicating urgency */
   Priority: TaskPriority;
   /** Estimated number of hours required to complete the task */
@@ -59,4 +169,31 @@ export interface Task {
   UpdatedBy?: string | null;
   /** Optional name of who last updated this task (for display purposes) */
   UpdatedByName?: string | null;
+  /** Optional ID of the parent task when this task is a subtask */
+  ParentId?: string | null;
+  /** Optional ordered checklist items */
+  Checklist?: ChecklistItem[];
+  /** Optional IDs of the tasks that must be completed before this task can start */
+  BlockedBy?: string[];
+  /** Optional uploaded files */
+  Attachments?: TaskAttachment[];
+  /** Optional IDs of the labels the task is tagged with */
+  Labels?: string[];
+  /** Optional ID of the project that owns the task */
+  ProjectId?: string | null;
+  /** Optional recurrence rule; completing the task creates the next occurrence */
+  Recurrence?: TaskRecurrence | null;
+  /** Optional ID of the first task of the recurring series this task belongs to */
+  SeriesId?: string | null;
+  /** Optional 1-based position of this task in its recurring series */
+  OccurrenceIndex?: number;
+  /**
+   * Optional series values this occurrence was changed from ("this occurrence" edits)
+   * The next occurrence is built from these instead of this task's own values
+   */
+  SeriesDefaults?: SeriesFields | null;
+  /** Optional work sessions and logged time; the task's actual duration is their total */
+  TimeEntries?: TimeEntry[];
+  /** Optional record of every period the task spent on hold, oldest first */
+  HoldIntervals?: HoldInterval[];
 }
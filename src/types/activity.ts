@@ -0,0 +1,66 @@
+/**
+ * What happened to a task in an activity entry
+ * Holding and resuming are their own actions so they stay visible after later changes
+ */
+export type ActivityAction = 'created' | 'updated' | 'held' | 'resumed' | 'deleted';
+
+/**
+ * One field changed by an activity entry
+ */
+export interface ActivityChange {
+  /** Name of the task field (e.g. Status, Priority, AssignedTo) */
+  Field: string;
+  /** Value before the change; null when the field was empty */
+  From: unknown;
+  /** Value after the change; null when the field was cleared */
+  To: unknown;
+}
+
+/**
+ * Activity entry interface
+ * The activity log is append-only: entries are written by the server and never changed
+ */
+export interface TaskActivity {
+  id: string;
+  /** ID of the task the entry is about */
+  TaskId: string;
+  /** Title of the task when the entry was written (the task may be deleted since) */
+  TaskTitle?: string | null;
+  Action: ActivityAction;
+  /** Field-level changes, empty for created and deleted entries */
+  Changes: ActivityChange[];
+  /** User ID of who made the change; null for changes made by the system (e.g. auto-start) */
+  ActorId: string | null;
+  /** Name of who made the change (for display purposes) */
+  ActorName?: string | null;
+  /** Comment given with the change (e.g. a status comment) */
+  Comment?: string | null;
+  CreatedAt: Date | string;
+}
+
+/**
+ * Activity query parameters for the audit log, newest first
+ */
+export interface ActivityQueryParams {
+  taskId?: string;
+  /** Only entries for tasks of this project */
+  projectId?: string;
+  actorId?: string;
+  action?: ActivityAction | 'All';
+  /** Only entries on or after this date (YYYY-MM-DD) */
+  from?: string;
+  /** Only entries on or before this date (YYYY-MM-DD) */
+  to?: string;
+  /** Cursor from a previous page's nextCursor */
+  cursor?: string;
+  pageSize?: number;
+}
+
+/**
+ * One page of activity entries
+ */
+export interface ActivityPage {
+  entries: TaskActivity[];
+  /** Cursor for the following page; null on the last page */
+  nextCursor: string | null;
+}
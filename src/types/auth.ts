@@ -34,6 +34,16 @@ export interface LoginCredentials {
 export interface LoginResponse {
   user: User;
   token: string;
+  refreshToken?: string;
+}
+
+/**
+ * Refresh response
+ * The server may rotate the refresh token; if it does not, the old one stays valid
+ */
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
 }
 
 /**
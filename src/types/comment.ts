@@ -0,0 +1,40 @@
+/**
+ * Task comment interface
+ * Comments form threads: a reply points at the top-level comment it answers
+ */
+export interface TaskComment {
+  id: string;
+  /** ID of the task the comment belongs to */
+  TaskId: string;
+  /** ID of the top-level comment this is a reply to; null for top-level comments */
+  ParentId: string | null;
+  /** User ID of the author */
+  AuthorId: string;
+  /** Name of the author (for display purposes) */
+  AuthorName?: string | null;
+  /** Comment text in markdown */
+  Body: string;
+  /** IDs of the users mentioned with @username */
+  Mentions: string[];
+  CreatedAt: Date | string;
+  UpdatedAt: Date | string;
+  /** Set when the body was edited after posting */
+  EditedAt?: Date | string | null;
+}
+
+/**
+ * Create comment DTO
+ */
+export interface CreateCommentDTO {
+  Body: string;
+  ParentId?: string | null;
+  Mentions: string[];
+}
+
+/**
+ * Update comment DTO
+ */
+export interface UpdateCommentDTO {
+  Body: string;
+  Mentions: string[];
+}
@@ -0,0 +1,35 @@
+import type { StatusColor } from './workflow';
+
+/**
+ * A label admins define for classifying tasks (e.g. "Frontend", "Bug")
+ * Labels use the same colors as workflow statuses
+ */
+export interface Label {
+  id: string;
+  name: string;
+  color: StatusColor;
+  CreatedAt?: Date | string;
+  UpdatedAt?: Date | string;
+}
+
+/**
+ * How a task must match a set of label filters
+ * any: the task has at least one of the labels; all: the task has every label
+ */
+export type LabelMatch = 'any' | 'all';
+
+/**
+ * Create label DTO
+ */
+export interface CreateLabelDTO {
+  name: string;
+  color: StatusColor;
+}
+
+/**
+ * Update label DTO
+ */
+export interface UpdateLabelDTO {
+  name?: string;
+  color?: StatusColor;
+}
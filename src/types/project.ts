@@ -0,0 +1,49 @@
+import type { StatusColor } from './workflow';
+
+/**
+ * A user's membership of a project
+ * RoleId is the role the user has inside the project; null keeps their account role
+ */
+export interface ProjectMember {
+  UserId: string;
+  RoleId: string | null;
+}
+
+/**
+ * A project owns a set of tasks and the members who work on them
+ */
+export interface Project {
+  id: string;
+  name: string;
+  description?: string | null;
+  color: StatusColor;
+  Members: ProjectMember[];
+  /**
+   * Permissions of the current user's role in this project
+   * null when the user keeps their account role here
+   */
+  MyPermissions: string[] | null;
+  CreatedAt?: Date | string;
+  UpdatedAt?: Date | string;
+}
+
+/**
+ * Create project DTO
+ */
+export interface CreateProjectDTO {
+  name: string;
+  description?: string | null;
+  color: StatusColor;
+  Members?: ProjectMember[];
+}
+
+/**
+ * Update project DTO
+ */
+export interface UpdateProjectDTO {
+  name?: string;
+  description?: string | null;
+  color?: StatusColor;
+  /** Replaces the whole member list */
+  Members?: ProjectMember[];
+}
@@ -0,0 +1,52 @@
+import type { TaskPriority } from '../types';
+
+/**
+ * One task a template creates
+ * Title, Description and checklist items may contain {{variables}}
+ */
+export interface TemplateTask {
+  /** Identifies the task within its template; BlockedBy refers to these keys */
+  Key: string;
+  Title: string;
+  Description: string;
+  Priority: TaskPriority;
+  EstimatedHours: number;
+  AssignedTo: string[];
+  Labels: string[];
+  /** Checklist item texts; the created task's items start unticked */
+  Checklist: string[];
+  /** Keys of the tasks of the same template that must be completed first */
+  BlockedBy: string[];
+}
+
+/**
+ * A saved task template
+ * A template with several tasks creates all of them, with their dependencies, in one go
+ */
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description?: string | null;
+  Tasks: TemplateTask[];
+  CreatedAt?: Date | string;
+  UpdatedAt?: Date | string;
+}
+
+/**
+ * Create template DTO
+ */
+export interface CreateTaskTemplateDTO {
+  name: string;
+  description?: string | null;
+  Tasks: TemplateTask[];
+}
+
+/**
+ * Update template DTO
+ */
+export interface UpdateTaskTemplateDTO {
+  name?: string;
+  description?: string | null;
+  /** Replaces the whole task list */
+  Tasks?: TemplateTask[];
+}
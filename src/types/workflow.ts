@@ -0,0 +1,49 @@
+/**
+ * Badge colors a workflow status can use
+ */
+export type StatusColor = 'gray' | 'yellow' | 'blue' | 'indigo' | 'purple' | 'orange' | 'red' | 'green';
+
+/**
+ * A status tasks can be in
+ * The built-in statuses (Pending, In Progress, Hold, Completed) are always present;
+ * admins can add custom ones (e.g. Review, QA, Blocked)
+ */
+export interface WorkflowStatus {
+  name: string;
+  color: StatusColor;
+}
+
+/**
+ * An allowed move from one status to another
+ */
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  /** Permission needed to make the move; null if anyone who can see the task may */
+  permission: string | null;
+  /** Users assigned to the task may make the move without the permission */
+  allowAssignee: boolean;
+  /** A comment must be given with the move (sent as StatusComment) */
+  requiresComment: boolean;
+}
+
+/**
+ * Task workflow definition
+ */
+export interface Workflow {
+  /** Statuses in display order (e.g. board columns) */
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  /** Reasons offered when a task is put on hold */
+  holdReasons: string[];
+  UpdatedAt?: Date | string;
+}
+
+/**
+ * Update workflow DTO
+ */
+export interface UpdateWorkflowDTO {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  holdReasons: string[];
+}
@@ -0,0 +1,152 @@
+import type { ActivityAction, ActivityChange, TaskActivity } from '../types/activity';
+import type { TaskRecurrence, TimeEntry, HoldInterval } from '../types';
+import { describeRecurrence } from './recurrence';
+import { getEntryHours, formatLoggedHours } from './timeTracking';
+
+/**
+ * Looks up names for the IDs stored in activity values
+ */
+export interface ActivityNameResolvers {
+  getUserName: (userId: string) => string;
+  getTaskTitle: (taskId: string) => string;
+  getLabelName: (labelId: string) => string;
+}
+
+/**
+ * Display labels for task fields; unknown fields are shown by name
+ */
+const FIELD_LABELS: Record<string, string> = {
+  Title: 'Title',
+  Description: 'Description',
+  Status: 'Status',
+  Priority: 'Priority',
+  EstimatedHours: 'Estimated hours',
+  AssignedTo: 'Assignees',
+  ScheduledStartDate: 'Scheduled date',
+  ScheduledStartTime: 'Scheduled time',
+  ParentId: 'Parent task',
+  Checklist: 'Checklist',
+  BlockedBy: 'Blocked by',
+  Attachments: 'Attachments',
+  Labels: 'Labels',
+  Recurrence: 'Repeat',
+  TimeEntries: 'Time logged',
+  HoldIntervals: 'Hold history',
+};
+
+/**
+ * Fields holding lists of IDs, shown as who or what was added and removed
+ */
+const ID_LIST_FIELDS = ['AssignedTo', 'BlockedBy', 'Labels'];
+
+/**
+ * What each action reads as after the actor's name
+ */
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  created: 'created the task',
+  updated: 'updated the task',
+  held: 'put the task on hold',
+  resumed: 'resumed the task',
+  deleted: 'deleted the task',
+};
+
+// Longer text values (e.g. descriptions) are cut to this many characters
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Get the display label of a task field
+ */
+export const getActivityFieldLabel = (field: string): string => FIELD_LABELS[field] ?? field;
+
+/**
+ * Describe what an activity entry did (e.g. "put the task on hold")
+ */
+export const describeActivityAction = (action: ActivityAction): string => ACTION_LABELS[action];
+
+const isEmptyValue = (value: unknown): boolean => {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+};
+
+const toIdList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  return isEmptyValue(value) ? [] : [String(value)];
+};
+
+/**
+ * Format one value of a field for display
+ */
+export const formatActivityValue = (field: string, value: unknown, resolvers: ActivityNameResolvers): string => {
+  if (isEmptyValue(value)) return 'None';
+
+  switch (field) {
+    case 'AssignedTo':
+      return toIdList(value).map(resolvers.getUserName).join(', ');
+    case 'Labels':
+      return toIdList(value).map(resolvers.getLabelName).join(', ');
+    case 'BlockedBy':
+    case 'ParentId':
+      return toIdList(value).map(resolvers.getTaskTitle).join(', ');
+    case 'Checklist': {
+      const items = Array.isArray(value) ? value : [];
+      const done = items.filter((item) => (item as { Done?: unknown })?.Done === true).length;
+      return `${done} of ${items.length} items done`;
+    }
+    case 'Attachments': {
+      const files = Array.isArray(value) ? value : [];
+      return files.map((file) => (file as { FileName?: unknown })?.FileName ?? 'file').join(', ') || 'None';
+    }
+    case 'TimeEntries': {
+      const entries = Array.isArray(value) ? (value as TimeEntry[]) : [];
+      const hours = entries.reduce((total, entry) => total + getEntryHours(entry), 0);
+      return `${formatLoggedHours(hours)} in ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`;
+    }
+    case 'HoldIntervals': {
+      const intervals = Array.isArray(value) ? (value as HoldInterval[]) : [];
+      const latest = intervals[intervals.length - 1];
+      const count = `${intervals.length} ${intervals.length === 1 ? 'hold' : 'holds'}`;
+      return latest && !latest.EndedAt ? `${count}, on hold for "${latest.Reason}"` : count;
+    }
+    case 'Recurrence':
+      if (typeof value === 'object' && 'Frequency' in (value as object)) {
+        return describeRecurrence(value as TaskRecurrence);
+      }
+      return String(value);
+    case 'ScheduledStartDate': {
+      const date = new Date(`${String(value).slice(0, 10)}T00:00:00`);
+      return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+    }
+    default: {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+    }
+  }
+};
+
+/**
+ * Format a field change for display
+ * ID lists show what was added and removed; other fields show "before → after"
+ */
+export const formatActivityChange = (change: ActivityChange, resolvers: ActivityNameResolvers): string => {
+  if (ID_LIST_FIELDS.includes(change.Field)) {
+    const from = toIdList(change.From);
+    const to = toIdList(change.To);
+    const added = to.filter((id) => !from.includes(id));
+    const removed = from.filter((id) => !to.includes(id));
+    const parts: string[] = [];
+    if (added.length > 0) parts.push(`added ${formatActivityValue(change.Field, added, resolvers)}`);
+    if (removed.length > 0) parts.push(`removed ${formatActivityValue(change.Field, removed, resolvers)}`);
+    if (parts.length > 0) return parts.join('; ');
+  }
+
+  const from = formatActivityValue(change.Field, change.From, resolvers);
+  const to = formatActivityValue(change.Field, change.To, resolvers);
+  return `${from} → ${to}`;
+};
+
+/**
+ * Get the name of who made a change
+ */
+export const getActivityActorName = (activity: TaskActivity, resolvers: ActivityNameResolvers): string => {
+  if (!activity.ActorId) return 'System';
+  return activity.ActorName || resolvers.getUserName(activity.ActorId);
+};
@@ -0,0 +1,59 @@
+import type { TaskAttachment } from '../types';
+import {
+  ALLOWED_ATTACHMENT_EXTENSIONS,
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+} from '../constants/attachments';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+// Files are served by the API server but outside the /api prefix
+const FILE_SERVER_URL = API_BASE_URL.replace(/\/api\/?$/, '');
+
+/**
+ * Format a size in bytes for display (e.g. "1.4 MB")
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Check a file against the type and size limits
+ * Returns why it cannot be uploaded, or null if it can
+ */
+export const getAttachmentError = (file: File): string | null => {
+  const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+  // Browsers leave the type empty for some files, so fall back to the extension
+  const allowed = file.type
+    ? ALLOWED_ATTACHMENT_TYPES.includes(file.type)
+    : ALLOWED_ATTACHMENT_EXTENSIONS.includes(extension);
+
+  if (!allowed) {
+    return `${file.name}: this file type is not allowed`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: files can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  if (file.size === 0) {
+    return `${file.name}: the file is empty`;
+  }
+  return null;
+};
+
+/**
+ * Whether an attachment can be previewed inline as an image
+ */
+export const isImageAttachment = (attachment: TaskAttachment): boolean => {
+  return attachment.ContentType.startsWith('image/');
+};
+
+/**
+ * Get the full URL of an attachment
+ * Relative URLs from the server are resolved against the API server
+ */
+export const getAttachmentUrl = (attachment: TaskAttachment): string => {
+  if (/^https?:\/\//i.test(attachment.Url)) return attachment.Url;
+  return `${FILE_SERVER_URL}${attachment.Url.startsWith('/') ? '' : '/'}${attachment.Url}`;
+};
@@ -0,0 +1,186 @@
+import type { Task } from '../types';
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+/**
+ * A task's scheduled time span
+ */
+export interface TaskSchedule {
+  start: Date;
+  end: Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Shortest block drawn for tasks without (or with very small) estimates
+const MIN_BLOCK_MINUTES = 15;
+
+/**
+ * Get midnight (local time) of a date
+ */
+export const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * Add days, keeping the local time of day across DST changes
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Get the Sunday the week of a date starts on
+ */
+export const startOfWeek = (date: Date): Date => {
+  const day = startOfDay(date);
+  return addDays(day, -day.getDay());
+};
+
+export const isSameDay = (a: Date, b: Date): boolean => {
+  return a.toDateString() === b.toDateString();
+};
+
+/**
+ * Days shown in a month grid: whole weeks from the Sunday before the 1st
+ */
+export const getMonthGridDays = (date: Date): Date[] => {
+  const first = new Date(date.getFullYear(), date.getMonth(), 1);
+  const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const gridStart = startOfWeek(first);
+  const weeks = Math.ceil((first.getDay() + last.getDate()) / 7);
+  return Array.from({ length: weeks * 7 }, (_, i) => addDays(gridStart, i));
+};
+
+/**
+ * Days shown by a view around a date
+ */
+export const getVisibleDays = (view: CalendarView, date: Date): Date[] => {
+  if (view === 'month') return getMonthGridDays(date);
+  if (view === 'week') {
+    const weekStart = startOfWeek(date);
+    return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  }
+  return [startOfDay(date)];
+};
+
+/**
+ * Move the focused date one month, week or day forward (1) or back (-1)
+ */
+export const shiftDate = (view: CalendarView, date: Date, step: 1 | -1): Date => {
+  if (view === 'month') {
+    return new Date(date.getFullYear(), date.getMonth() + step, 1);
+  }
+  return addDays(date, view === 'week' ? 7 * step : step);
+};
+
+/**
+ * Get the scheduled start and end of a task, or null if it is not scheduled
+ * The date is read as a local date (YYYY-MM-DD) so it does not shift across time zones
+ */
+export const getTaskSchedule = (task: Task): TaskSchedule | null => {
+  if (!task.ScheduledStartDate) return null;
+
+  const dateStr = typeof task.ScheduledStartDate === 'string'
+    ? task.ScheduledStartDate.split('T')[0]
+    : task.ScheduledStartDate.toISOString().split('T')[0];
+  const [year, month, day] = dateStr.split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  const start = new Date(year, month - 1, day);
+  if (task.ScheduledStartTime) {
+    const [hours, minutes] = task.ScheduledStartTime.split(':').map(Number);
+    start.setHours(hours || 0, minutes || 0, 0, 0);
+  }
+
+  const minutes = Math.max((task.EstimatedHours || 0) * 60, MIN_BLOCK_MINUTES);
+  return { start, end: new Date(start.getTime() + minutes * MS_PER_MINUTE) };
+};
+
+/**
+ * Get when a task actually ran: StartedAt to CompletedAt, or to now while it is not completed
+ */
+export const getActualSpan = (task: Task, now: Date): TaskSchedule | null => {
+  if (!task.StartedAt) return null;
+  const start = new Date(task.StartedAt);
+  if (isNaN(start.getTime())) return null;
+  const end = task.CompletedAt ? new Date(task.CompletedAt) : now;
+  return { start, end: end > start ? end : start };
+};
+
+/**
+ * Clip a schedule to one day; null if it does not touch that day
+ */
+export const getDaySegment = (schedule: TaskSchedule, day: Date): TaskSchedule | null => {
+  const dayStart = startOfDay(day);
+  const dayEnd = new Date(dayStart.getTime() + MS_PER_DAY);
+  if (schedule.end <= dayStart || schedule.start >= dayEnd) return null;
+  return {
+    start: schedule.start > dayStart ? schedule.start : dayStart,
+    end: schedule.end < dayEnd ? schedule.end : dayEnd,
+  };
+};
+
+/**
+ * Minutes since local midnight
+ */
+export const getMinutesIntoDay = (date: Date): number => {
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+/**
+ * Format a date as YYYY-MM-DD in local time (the ScheduledStartDate format)
+ */
+export const toDateInputValue = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Format a time as HH:MM (the ScheduledStartTime format)
+ */
+export const toTimeInputValue = (date: Date): string => {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+/**
+ * Place overlapping blocks of one day side by side
+ * Returns the column index and the number of columns in its overlap group for each item
+ */
+export const layoutOverlaps = <T extends TaskSchedule>(items: T[]): { item: T; column: number; columns: number }[] => {
+  const sorted = [...items].sort((a, b) => a.start.getTime() - b.start.getTime() || b.end.getTime() - a.end.getTime());
+  const result: { item: T; column: number; columns: number }[] = [];
+  let group: { item: T; column: number; columns: number }[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = 0;
+
+  const closeGroup = () => {
+    group.forEach((placed) => {
+      placed.columns = columnEnds.length;
+    });
+    result.push(...group);
+    group = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach((item) => {
+    if (group.length > 0 && item.start.getTime() >= groupEnd) {
+      closeGroup();
+    }
+    let column = columnEnds.findIndex((end) => end <= item.start.getTime());
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(0);
+    }
+    columnEnds[column] = item.end.getTime();
+    groupEnd = Math.max(group.length > 0 ? groupEnd : 0, item.end.getTime());
+    group.push({ item, column, columns: 0 });
+  });
+  closeGroup();
+
+  return result;
+};
@@ -0,0 +1,137 @@
+import type { Task, HoldInterval } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * What is asked for when a task is put on hold
+ */
+export interface HoldDetails {
+  Reason: string;
+  Note?: string | null;
+  /** YYYY-MM-DD */
+  ExpectedResumeDate?: string | null;
+}
+
+/**
+ * Time lost to holds for one reason
+ */
+export interface HoldReasonTotal {
+  reason: string;
+  hours: number;
+  /** Number of holds with this reason */
+  count: number;
+}
+
+const toTime = (value: Date | string): number => {
+  return (typeof value === 'string' ? new Date(value) : value).getTime();
+};
+
+/**
+ * Get the hold a task is currently in (the interval that has not ended)
+ */
+export const getOpenHold = (task: Task): HoldInterval | null => {
+  return (task.HoldIntervals ?? []).find((interval) => !interval.EndedAt) ?? null;
+};
+
+/**
+ * Get the hours of one hold; a hold that has not ended counts up to now
+ */
+export const getHoldHours = (interval: HoldInterval, now: Date = new Date()): number => {
+  const start = toTime(interval.StartedAt);
+  const end = interval.EndedAt ? toTime(interval.EndedAt) : now.getTime();
+  if (isNaN(start) || isNaN(end) || end < start) return 0;
+  return (end - start) / HOUR_MS;
+};
+
+/**
+ * Get how long a task has been on hold so far, or null if its current hold was not recorded
+ */
+export const getTimeOnHold = (task: Task, now: Date = new Date()): number | null => {
+  const hold = getOpenHold(task);
+  return hold ? getHoldHours(hold, now) : null;
+};
+
+/**
+ * Whether the day a held task was expected to be resumed has passed
+ */
+export const isResumeOverdue = (task: Task, today: string): boolean => {
+  const hold = getOpenHold(task);
+  return !!hold?.ExpectedResumeDate && hold.ExpectedResumeDate < today;
+};
+
+/**
+ * Record that a task was put on hold; a hold that was left open is ended first
+ */
+export const startHold = (
+  intervals: HoldInterval[],
+  details: HoldDetails,
+  userId: string | null,
+  now: Date = new Date()
+): HoldInterval[] => [
+  ...endHold(intervals, now),
+  {
+    id: `hold-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    Reason: details.Reason,
+    Note: details.Note?.trim() || null,
+    StartedAt: now.toISOString(),
+    EndedAt: null,
+    ExpectedResumeDate: details.ExpectedResumeDate || null,
+    PutOnHoldBy: userId,
+  },
+];
+
+/**
+ * Record that a task left Hold
+ */
+export const endHold = (intervals: HoldInterval[], now: Date = new Date()): HoldInterval[] => {
+  return intervals.map((interval) => (interval.EndedAt ? interval : { ...interval, EndedAt: now.toISOString() }));
+};
+
+/**
+ * Add up the time tasks spent on hold per reason, most time lost first
+ */
+export const getHoldTotalsByReason = (tasks: Task[], now: Date = new Date()): HoldReasonTotal[] => {
+  const totals = new Map<string, HoldReasonTotal>();
+  tasks.forEach((task) => {
+    (task.HoldIntervals ?? []).forEach((interval) => {
+      const total = totals.get(interval.Reason) ?? { reason: interval.Reason, hours: 0, count: 0 };
+      total.hours += getHoldHours(interval, now);
+      total.count += 1;
+      totals.set(interval.Reason, total);
+    });
+  });
+  return [...totals.values()].sort((a, b) => b.hours - a.hours);
+};
+
+/**
+ * Group held tasks by the reason of their current hold, in the order of the configured reasons
+ * Reasons that are no longer configured come next, then tasks whose hold was not recorded
+ */
+export const groupTasksByHoldReason = (tasks: Task[], reasons: string[]): { reason: string | null; tasks: Task[] }[] => {
+  const groups = new Map<string | null, Task[]>();
+  tasks.forEach((task) => {
+    const reason = getOpenHold(task)?.Reason ?? null;
+    groups.set(reason, [...(groups.get(reason) ?? []), task]);
+  });
+  const rank = (reason: string | null) => {
+    if (reason === null) return Number.MAX_SAFE_INTEGER;
+    const index = reasons.indexOf(reason);
+    return index === -1 ? reasons.length : index;
+  };
+  return [...groups.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([reason, groupTasks]) => ({ reason, tasks: groupTasks }));
+};
+
+/**
+ * Format a hold duration for display (e.g. "3d 4h", "5h 20m")
+ */
+export const formatHoldDuration = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const h = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const m = totalMinutes % 60;
+  if (days > 0) return h > 0 ? `${days}d ${h}h` : `${days}d`;
+  if (h > 0) return m > 0 ? `${h}h ${m}m` : `${h}h`;
+  return `${m}m`;
+};
@@ -0,0 +1,45 @@
+import type { User } from '../types/auth';
+
+/**
+ * An @mention: "@" followed by a username, at the start of the text or after whitespace
+ */
+const MENTION_PATTERN = /(^|\s)@([\w.-]+)/g;
+
+/**
+ * Get the IDs of the users mentioned in a comment body
+ * Only @usernames of known users count; each user is listed once
+ */
+export const extractMentions = (body: string, users: User[]): string[] => {
+  const usernames = new Set(Array.from(body.matchAll(MENTION_PATTERN), (match) => match[2].toLowerCase()));
+  return users.filter((user) => usernames.has(user.username.toLowerCase())).map((user) => user.id);
+};
+
+/**
+ * The @mention being typed at the caret, if any
+ * `start` is the index of the "@" so the mention can be replaced once a user is picked
+ */
+export interface MentionQuery {
+  query: string;
+  start: number;
+}
+
+/**
+ * Find the @mention being typed just before the caret
+ */
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+/**
+ * Replace the @mention being typed with a picked username
+ * Returns the new text and the caret position after the inserted mention
+ */
+export const insertMention = (text: string, mention: MentionQuery, caret: number, username: string) => {
+  const inserted = `@${username} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret),
+    caret: mention.start + inserted.length,
+  };
+};
@@ -0,0 +1,212 @@
+import type { Task, TaskRecurrence, SeriesFields } from '../types';
+import { startOfDay } from './calendar';
+
+/**
+ * Days of the week in the order they are shown (Monday first), with their RRULE codes
+ */
+export const WEEKDAYS: { value: number; label: string; code: string }[] = [
+  { value: 1, label: 'Mon', code: 'MO' },
+  { value: 2, label: 'Tue', code: 'TU' },
+  { value: 3, label: 'Wed', code: 'WE' },
+  { value: 4, label: 'Thu', code: 'TH' },
+  { value: 5, label: 'Fri', code: 'FR' },
+  { value: 6, label: 'Sat', code: 'SA' },
+  { value: 0, label: 'Sun', code: 'SU' },
+];
+
+/**
+ * A recurrence rule reduced to the steps between occurrences
+ */
+interface RecurrenceSteps {
+  unit: 'day' | 'week' | 'month';
+  interval: number;
+  /** Days of the week for weekly steps; empty repeats on the same weekday */
+  weekdays: number[];
+  /** Day of the month for monthly steps; null keeps the current day */
+  monthDay: number | null;
+  until: string | null;
+  count: number | null;
+}
+
+// RRULE parts that can be followed; rules using any other part are refused
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+
+// Fields an occurrence passes on to the next one
+const SERIES_FIELD_KEYS: (keyof SeriesFields)[] = [
+  'Title',
+  'Description',
+  'Priority',
+  'EstimatedHours',
+  'AssignedTo',
+  'ScheduledStartDate',
+  'ScheduledStartTime',
+  'Labels',
+];
+
+/**
+ * Read a YYYY-MM-DD date (or a Date) as local midnight
+ */
+const toLocalDate = (value: Date | string): Date => {
+  if (value instanceof Date) return startOfDay(value);
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Read an RRULE (with or without the "RRULE:" prefix)
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (plain weekdays), BYMONTHDAY, COUNT and UNTIL
+ * Returns null for rules that cannot be followed
+ */
+const parseRRule = (rule: string): RecurrenceSteps | null => {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || !value || !SUPPORTED_RRULE_PARTS.includes(key.toUpperCase())) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null;
+
+  let until: string | null = null;
+  const untilValue = parts.get('UNTIL');
+  if (untilValue) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(untilValue);
+    if (!match) return null;
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  // Ordinal weekdays such as 1MO (first Monday) are not supported
+  const byDay = parts.get('BYDAY');
+  const weekdays: number[] = [];
+  for (const code of byDay ? byDay.split(',') : []) {
+    const weekday = WEEKDAYS.find((candidate) => candidate.code === code);
+    if (!weekday) return null;
+    weekdays.push(weekday.value);
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  const monthDay = byMonthDay ? Number(byMonthDay) : null;
+  if (monthDay !== null && (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31)) return null;
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      return byDay || byMonthDay ? null : { unit: 'day', interval, weekdays: [], monthDay: null, until, count };
+    case 'WEEKLY':
+      return byMonthDay ? null : { unit: 'week', interval, weekdays, monthDay: null, until, count };
+    case 'MONTHLY':
+      return byDay ? null : { unit: 'month', interval, weekdays: [], monthDay, until, count };
+    case 'YEARLY':
+      return byDay ? null : { unit: 'month', interval: interval * 12, weekdays: [], monthDay, until, count };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Check a recurrence rule; returns why it cannot be used, or an empty string
+ * startDate is the scheduled date of the first occurrence, if known
+ */
+export const getRecurrenceError = (recurrence: TaskRecurrence, startDate?: string): string => {
+  if (recurrence.Frequency === 'custom') {
+    if (!recurrence.RRule?.trim()) {
+      return 'Enter an RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,TH';
+    }
+    if (!parseRRule(recurrence.RRule)) {
+      return 'This RRULE is not supported. Use FREQ=DAILY, WEEKLY, MONTHLY or YEARLY with INTERVAL, BYDAY, BYMONTHDAY, COUNT or UNTIL';
+    }
+  } else if (!Number.isInteger(recurrence.Interval) || recurrence.Interval < 1) {
+    return 'Repeat every must be a whole number of at least 1';
+  }
+
+  if (recurrence.Frequency === 'weekly' && (recurrence.Weekdays ?? []).length === 0) {
+    return 'Choose at least one day of the week';
+  }
+  if (recurrence.Frequency === 'monthly') {
+    const monthDay = recurrence.MonthDay;
+    if (!monthDay || !Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31) {
+      return 'Day of the month must be between 1 and 31';
+    }
+  }
+
+  if (recurrence.Count !== null && recurrence.Count !== undefined && (!Number.isInteger(recurrence.Count) || recurrence.Count < 1)) {
+    return 'Number of occurrences must be at least 1';
+  }
+  if (recurrence.EndDate === '') {
+    return 'Choose the date the series ends';
+  }
+  if (recurrence.EndDate && startDate && recurrence.EndDate < startDate) {
+    return 'The series cannot end before its first occurrence';
+  }
+  return '';
+};
+
+/**
+ * Describe a recurrence rule (e.g. "Every 2 weeks on Mon, Fri, 10 times")
+ */
+export const describeRecurrence = (recurrence: TaskRecurrence): string => {
+  const every = (unit: string, single: string) =>
+    recurrence.Interval === 1 ? single : `Every ${recurrence.Interval} ${unit}s`;
+
+  let text: string;
+  switch (recurrence.Frequency) {
+    case 'daily':
+      text = every('day', 'Daily');
+      break;
+    case 'weekly': {
+      const days = WEEKDAYS.filter((day) => (recurrence.Weekdays ?? []).includes(day.value)).map((day) => day.label);
+      text = days.length > 0 ? `${every('week', 'Weekly')} on ${days.join(', ')}` : every('week', 'Weekly');
+      break;
+    }
+    case 'monthly':
+      text = recurrence.MonthDay ? `${every('month', 'Monthly')} on day ${recurrence.MonthDay}` : every('month', 'Monthly');
+      break;
+    case 'custom':
+      text = `Custom (${recurrence.RRule ?? ''})`;
+      break;
+  }
+
+  if (recurrence.Count) {
+    text += `, ${recurrence.Count} ${recurrence.Count === 1 ? 'time' : 'times'}`;
+  } else if (recurrence.EndDate) {
+    text += `, until ${toLocalDate(recurrence.EndDate).toLocaleDateString()}`;
+  }
+  return text;
+};
+
+/**
+ * Check whether two recurrence rules repeat the same way
+ */
+export const isSameRecurrence = (a: TaskRecurrence | null | undefined, b: TaskRecurrence | null | undefined): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Get the series fields of an edit whose values differ from the task's
+ */
+export const getChangedSeriesFields = <V extends SeriesFields>(task: Task, values: V): Partial<V> => {
+  const changed: Record<string, unknown> = {};
+  for (const key of SERIES_FIELD_KEYS) {
+    if (key in values && JSON.stringify(values[key] ?? null) !== JSON.stringify(task[key] ?? null)) {
+      changed[key] = values[key];
+    }
+  }
+  return changed as Partial<V>;
+};
+
+/**
+ * Get the series values to store on an occurrence changed on its own ("this occurrence" edits)
+ * Records the values the changed fields had before; fields changed on their own earlier keep their first value
+ * Empty values are stored as '' or [] so they are not lost when sent to the server
+ */
+export const getSeriesDefaults = (task: Task, changed: SeriesFields): SeriesFields => {
+  const previous: Record<string, unknown> = {};
+  for (const key of Object.keys(changed) as (keyof SeriesFields)[]) {
+    previous[key] = task[key] ?? (key === 'Labels' ? [] : '');
+  }
+  return { ...(previous as SeriesFields), ...task.SeriesDefaults };
+};
@@ -0,0 +1,708 @@
+import type { Task, ChecklistItem, TaskAttachment, TaskRecurrence, SeriesFields, TimeEntry, HoldInterval } from '../types';
+import { TaskStatus, TaskPriority } from '../types';
+import type { User, UserRole, LoginResponse, RefreshResponse } from '../types/auth';
+import type { Role } from '../types/role';
+import type { TaskComment } from '../types/comment';
+import type { ActivityAction, ActivityChange, TaskActivity } from '../types/activity';
+import type { StatusColor, Workflow, WorkflowStatus, WorkflowTransition } from '../types/workflow';
+import type { Label } from '../types/label';
+import type { Project, ProjectMember } from '../types/project';
+import type { TaskTemplate, TemplateTask } from '../types/template';
+import { ApiError } from '../services/errors';
+
+/**
+ * Error thrown when an API payload does not match the expected shape
+ * and cannot be repaired
+ */
+export class ApiValidationError extends ApiError {
+  /** Name of the entity being validated (e.g. Task, User) */
+  readonly entity: string;
+  /** Path of the offending field (e.g. data[3].Status) */
+  readonly path: string;
+  /** The value that failed validation */
+  readonly received: unknown;
+
+  constructor(entity: string, path: string, expected: string, received: unknown) {
+    super(`Invalid ${entity} received from the server: ${path} should be ${expected}`);
+    this.name = 'ApiValidationError';
+    this.entity = entity;
+    this.path = path;
+    this.received = received;
+  }
+}
+
+/**
+ * Validated API response envelope
+ */
+export interface ParsedApiResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  count?: number;
+  nextCursor?: string | null;
+}
+
+/**
+ * Validation context: the entity name and the path of the current value
+ */
+interface Context {
+  entity: string;
+  path: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const at = (ctx: Context, key: string | number): Context => ({
+  entity: ctx.entity,
+  path: typeof key === 'number' ? `${ctx.path}[${key}]` : `${ctx.path}.${key}`,
+});
+
+const fail = (ctx: Context, expected: string, received: unknown): never => {
+  throw new ApiValidationError(ctx.entity, ctx.path, expected, received);
+};
+
+const expectRecord = (value: unknown, ctx: Context): Record<string, unknown> => {
+  return isRecord(value) ? value : fail(ctx, 'an object', value);
+};
+
+const expectArray = (value: unknown, ctx: Context): unknown[] => {
+  return Array.isArray(value) ? value : fail(ctx, 'an array', value);
+};
+
+/**
+ * Read an id - numeric ids are converted to strings
+ */
+const readId = (value: unknown, ctx: Context): string => {
+  if (typeof value === 'string' && value !== '') return value;
+  if (typeof value === 'number') return String(value);
+  return fail(ctx, 'a non-empty string id', value);
+};
+
+const readString = (value: unknown, ctx: Context): string => {
+  return typeof value === 'string' ? value : fail(ctx, 'a string', value);
+};
+
+/**
+ * Read an optional string - null and undefined become the given fallback
+ */
+const readOptionalString = <F extends undefined | null>(value: unknown, ctx: Context, fallback: F): string | F => {
+  if (value === undefined || value === null) return fallback;
+  return readString(value, ctx);
+};
+
+/**
+ * Read a number - numeric strings (e.g. DECIMAL columns) are converted
+ */
+const readNumber = (value: unknown, ctx: Context): number => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fail(ctx, 'a number', value);
+};
+
+/**
+ * Read a timestamp into a Date
+ * Missing values use the fallback; values that cannot be parsed are rejected
+ */
+function readDate(value: unknown, ctx: Context, fallback: Date): Date;
+function readDate(value: unknown, ctx: Context, fallback?: undefined): Date | undefined;
+function readDate(value: unknown, ctx: Context, fallback?: Date): Date | undefined {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value === 'string' || typeof value === 'number' || value instanceof Date) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return fail(ctx, 'a valid date', value);
+}
+
+/**
+ * Read a list of strings - non-array values are rejected, numbers are converted
+ */
+const readStringArray = (value: unknown, ctx: Context): string[] => {
+  return expectArray(value, ctx).map((item, index) => readId(item, at(ctx, index)));
+};
+
+/**
+ * Match an enum value loosely (case, spaces, dashes and underscores are ignored)
+ * so "in_progress" or "IN PROGRESS" still map to "In Progress"
+ */
+const readEnum = <E extends string>(value: unknown, values: E[], ctx: Context): E => {
+  if (typeof value === 'string') {
+    const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]/g, '');
+    const match = values.find((candidate) => normalize(candidate) === normalize(value));
+    if (match) return match;
+  }
+  return fail(ctx, `one of ${values.join(', ')}`, value);
+};
+
+/**
+ * Read a task status
+ * Built-in statuses are matched loosely like enums; any other name is a custom workflow status
+ */
+const readStatus = (value: unknown, ctx: Context): string => {
+  const builtIn = Object.values(TaskStatus);
+  if (typeof value === 'string' && value.trim() !== '') {
+    const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]/g, '');
+    return builtIn.find((candidate) => normalize(candidate) === normalize(value)) ?? value.trim();
+  }
+  return fail(ctx, 'a status name', value);
+};
+
+/**
+ * Normalize AssignedTo into an array of user IDs
+ * Legacy payloads send a single user ID string (or nothing)
+ */
+const readAssignedTo = (value: unknown, ctx: Context): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  if (typeof value === 'string' || typeof value === 'number') return [String(value)];
+  return readStringArray(value, ctx);
+};
+
+/**
+ * Normalize ScheduledStartDate to a YYYY-MM-DD string
+ * Kept as a string to avoid timezone shifts; full ISO timestamps are cut to the date part
+ */
+const readScheduledDate = (value: unknown, ctx: Context): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  return fail(ctx, 'a YYYY-MM-DD date', value);
+};
+
+/**
+ * Read a task checklist - a missing checklist is empty
+ */
+const readChecklist = (value: unknown, ctx: Context): ChecklistItem[] => {
+  if (value === undefined || value === null) return [];
+  return expectArray(value, ctx).map((raw, index) => {
+    const itemCtx = at(ctx, index);
+    const item = expectRecord(raw, itemCtx);
+    return {
+      id: readId(item.id, at(itemCtx, 'id')),
+      Text: readString(item.Text, at(itemCtx, 'Text')),
+      Done: item.Done === true,
+    };
+  });
+};
+
+/**
+ * Read the time entries of a task - a task without any has no logged time
+ */
+const readTimeEntries = (value: unknown, ctx: Context): TimeEntry[] => {
+  if (value === undefined || value === null) return [];
+  return expectArray(value, ctx).map((raw, index) => {
+    const entryCtx = at(ctx, index);
+    const entry = expectRecord(raw, entryCtx);
+    return {
+      id: readId(entry.id, at(entryCtx, 'id')),
+      UserId: readId(entry.UserId, at(entryCtx, 'UserId')),
+      StartedAt: readDate(entry.StartedAt, at(entryCtx, 'StartedAt'), new Date()),
+      EndedAt: readDate(entry.EndedAt, at(entryCtx, 'EndedAt')) ?? null,
+      Hours: entry.Hours === undefined || entry.Hours === null ? null : readNumber(entry.Hours, at(entryCtx, 'Hours')),
+      Note: readOptionalString(entry.Note, at(entryCtx, 'Note'), null),
+      Paused: entry.Paused === true,
+    };
+  });
+};
+
+/**
+ * Read the hold history of a task - a task that was never on hold has none
+ */
+const readHoldIntervals = (value: unknown, ctx: Context): HoldInterval[] => {
+  if (value === undefined || value === null) return [];
+  return expectArray(value, ctx).map((raw, index) => {
+    const intervalCtx = at(ctx, index);
+    const interval = expectRecord(raw, intervalCtx);
+    return {
+      id: readId(interval.id, at(intervalCtx, 'id')),
+      Reason: readString(interval.Reason, at(intervalCtx, 'Reason')),
+      Note: readOptionalString(interval.Note, at(intervalCtx, 'Note'), null),
+      StartedAt: readDate(interval.StartedAt, at(intervalCtx, 'StartedAt'), new Date()),
+      EndedAt: readDate(interval.EndedAt, at(intervalCtx, 'EndedAt')) ?? null,
+      ExpectedResumeDate: readScheduledDate(interval.ExpectedResumeDate, at(intervalCtx, 'ExpectedResumeDate')) ?? null,
+      PutOnHoldBy: readOptionalString(interval.PutOnHoldBy, at(intervalCtx, 'PutOnHoldBy'), null),
+    };
+  });
+};
+
+/**
+ * Read a task recurrence rule - a missing rule means the task does not repeat
+ */
+const readRecurrence = (value: unknown, ctx: Context): TaskRecurrence | null => {
+  if (value === undefined || value === null) return null;
+  const rule = expectRecord(value, ctx);
+  const optionalNumber = (key: string) =>
+    rule[key] === undefined || rule[key] === null ? null : readNumber(rule[key], at(ctx, key));
+
+  return {
+    Frequency: readEnum(rule.Frequency, ['daily', 'weekly', 'monthly', 'custom'], at(ctx, 'Frequency')),
+    Interval: rule.Interval === undefined || rule.Interval === null ? 1 : readNumber(rule.Interval, at(ctx, 'Interval')),
+    Weekdays: rule.Weekdays === undefined || rule.Weekdays === null
+      ? []
+      : expectArray(rule.Weekdays, at(ctx, 'Weekdays')).map((day, index) => readNumber(day, at(at(ctx, 'Weekdays'), index))),
+    MonthDay: optionalNumber('MonthDay'),
+    RRule: readOptionalString(rule.RRule, at(ctx, 'RRule'), null),
+    EndDate: readScheduledDate(rule.EndDate, at(ctx, 'EndDate')) ?? null,
+    Count: optionalNumber('Count'),
+  };
+};
+
+/**
+ * Read the series values of a recurring task occurrence - only the fields that were sent are kept
+ */
+const readSeriesDefaults = (value: unknown, ctx: Context): SeriesFields | null => {
+  if (value === undefined || value === null) return null;
+  const fields = expectRecord(value, ctx);
+  const defaults: SeriesFields = {};
+
+  if ('Title' in fields) defaults.Title = readString(fields.Title, at(ctx, 'Title'));
+  if ('Description' in fields) defaults.Description = readOptionalString(fields.Description, at(ctx, 'Description'), null) ?? '';
+  if ('Priority' in fields) defaults.Priority = readEnum(fields.Priority, Object.values(TaskPriority), at(ctx, 'Priority'));
+  if ('EstimatedHours' in fields) defaults.EstimatedHours = readNumber(fields.EstimatedHours, at(ctx, 'EstimatedHours'));
+  if ('AssignedTo' in fields) defaults.AssignedTo = readAssignedTo(fields.AssignedTo, at(ctx, 'AssignedTo'));
+  // An empty date or time means the series had none
+  if ('ScheduledStartDate' in fields) defaults.ScheduledStartDate = readScheduledDate(fields.ScheduledStartDate, at(ctx, 'ScheduledStartDate')) ?? '';
+  if ('ScheduledStartTime' in fields) defaults.ScheduledStartTime = readOptionalString(fields.ScheduledStartTime, at(ctx, 'ScheduledStartTime'), null) ?? '';
+  if ('Labels' in fields) defaults.Labels = fields.Labels === null ? [] : readStringArray(fields.Labels, at(ctx, 'Labels'));
+  return defaults;
+};
+
+/**
+ * Validate and normalize an uploaded task file from the API
+ */
+export const parseAttachment = (raw: unknown, path: string = 'attachment'): TaskAttachment => {
+  const ctx: Context = { entity: 'Attachment', path };
+  const attachment = expectRecord(raw, ctx);
+
+  return {
+    ...attachment,
+    id: readId(attachment.id, at(ctx, 'id')),
+    FileName: readString(attachment.FileName, at(ctx, 'FileName')),
+    ContentType: readOptionalString(attachment.ContentType, at(ctx, 'ContentType'), null) || 'application/octet-stream',
+    Size: readNumber(attachment.Size, at(ctx, 'Size')),
+    Url: readString(attachment.Url, at(ctx, 'Url')),
+    UploadedBy: readOptionalString(attachment.UploadedBy, at(ctx, 'UploadedBy'), null),
+    UploadedAt: readDate(attachment.UploadedAt, at(ctx, 'UploadedAt'), new Date()),
+  };
+};
+
+/**
+ * Validate and normalize a task from the API
+ * Unknown extra fields are kept as-is
+ */
+export const parseTask = (raw: unknown, path: string = 'task'): Task => {
+  const ctx: Context = { entity: 'Task', path };
+  const task = expectRecord(raw, ctx);
+
+  return {
+    ...task,
+    id: readId(task.id, at(ctx, 'id')),
+    Title: readString(task.Title, at(ctx, 'Title')),
+    Description: readOptionalString(task.Description, at(ctx, 'Description'), null) ?? '',
+    Status: readStatus(task.Status, at(ctx, 'Status')),
+    Priority: readEnum(task.Priority, Object.values(TaskPriority), at(ctx, 'Priority')),
+    EstimatedHours: readNumber(task.EstimatedHours, at(ctx, 'EstimatedHours')),
+    AssignedTo: readAssignedTo(task.AssignedTo, at(ctx, 'AssignedTo')),
+    CreatedAt: readDate(task.CreatedAt, at(ctx, 'CreatedAt'), new Date()),
+    UpdatedAt: readDate(task.UpdatedAt, at(ctx, 'UpdatedAt'), new Date()),
+    StartedAt: readDate(task.StartedAt, at(ctx, 'StartedAt')),
+    CompletedAt: readDate(task.CompletedAt, at(ctx, 'CompletedAt')),
+    ScheduledStartDate: readScheduledDate(task.ScheduledStartDate, at(ctx, 'ScheduledStartDate')),
+    ScheduledStartTime: readOptionalString(task.ScheduledStartTime, at(ctx, 'ScheduledStartTime'), undefined) || undefined,
+    PutOnHoldBy: readOptionalString(task.PutOnHoldBy, at(ctx, 'PutOnHoldBy'), null),
+    PutOnHoldByName: readOptionalString(task.PutOnHoldByName, at(ctx, 'PutOnHoldByName'), null),
+    UpdatedBy: readOptionalString(task.UpdatedBy, at(ctx, 'UpdatedBy'), null),
+    UpdatedByName: readOptionalString(task.UpdatedByName, at(ctx, 'UpdatedByName'), null),
+    ParentId: task.ParentId === undefined || task.ParentId === null ? null : readId(task.ParentId, at(ctx, 'ParentId')),
+    Checklist: readChecklist(task.Checklist, at(ctx, 'Checklist')),
+    BlockedBy: task.BlockedBy === undefined || task.BlockedBy === null ? [] : readStringArray(task.BlockedBy, at(ctx, 'BlockedBy')),
+    Labels: task.Labels === undefined || task.Labels === null ? [] : readStringArray(task.Labels, at(ctx, 'Labels')),
+    ProjectId: task.ProjectId === undefined || task.ProjectId === null ? null : readId(task.ProjectId, at(ctx, 'ProjectId')),
+    Recurrence: readRecurrence(task.Recurrence, at(ctx, 'Recurrence')),
+    SeriesId: task.SeriesId === undefined || task.SeriesId === null ? null : readId(task.SeriesId, at(ctx, 'SeriesId')),
+    OccurrenceIndex: task.OccurrenceIndex === undefined || task.OccurrenceIndex === null
+      ? undefined
+      : readNumber(task.OccurrenceIndex, at(ctx, 'OccurrenceIndex')),
+    SeriesDefaults: readSeriesDefaults(task.SeriesDefaults, at(ctx, 'SeriesDefaults')),
+    TimeEntries: readTimeEntries(task.TimeEntries, at(ctx, 'TimeEntries')),
+    HoldIntervals: readHoldIntervals(task.HoldIntervals, at(ctx, 'HoldIntervals')),
+    Attachments: task.Attachments === undefined || task.Attachments === null
+      ? []
+      : expectArray(task.Attachments, at(ctx, 'Attachments')).map((attachment, index) =>
+          parseAttachment(attachment, `${path}.Attachments[${index}]`)
+        ),
+  };
+};
+
+/**
+ * Validate and normalize a list of tasks
+ */
+export const parseTaskList = (raw: unknown, path: string = 'data'): Task[] => {
+  return expectArray(raw, { entity: 'Task', path }).map((task, index) => parseTask(task, `${path}[${index}]`));
+};
+
+/**
+ * Validate and normalize a user from the API
+ */
+export const parseUser = (raw: unknown, path: string = 'user'): User => {
+  const ctx: Context = { entity: 'User', path };
+  const user = expectRecord(raw, ctx);
+
+  return {
+    ...user,
+    id: readId(user.id, at(ctx, 'id')),
+    username: readString(user.username, at(ctx, 'username')),
+    email: readOptionalString(user.email, at(ctx, 'email'), null) ?? '',
+    fullName: readOptionalString(user.fullName, at(ctx, 'fullName'), null) ?? readString(user.username, at(ctx, 'username')),
+    // Role names come from the role system, not only the legacy admin/user values
+    role: readString(user.role, at(ctx, 'role')) as UserRole,
+    permissions: user.permissions === undefined || user.permissions === null
+      ? undefined
+      : readStringArray(user.permissions, at(ctx, 'permissions')),
+    CreatedAt: readDate(user.CreatedAt, at(ctx, 'CreatedAt'), new Date()),
+    UpdatedAt: readDate(user.UpdatedAt, at(ctx, 'UpdatedAt'), new Date()),
+  };
+};
+
+/**
+ * Validate and normalize a list of users
+ */
+export const parseUserList = (raw: unknown, path: string = 'data'): User[] => {
+  return expectArray(raw, { entity: 'User', path }).map((user, index) => parseUser(user, `${path}[${index}]`));
+};
+
+/**
+ * Read the access token and optional refresh token of a login or refresh response
+ */
+const readTokens = (body: Record<string, unknown>, ctx: Context): RefreshResponse => {
+  const token = readString(body.token, at(ctx, 'token'));
+  if (token === '') {
+    fail(at(ctx, 'token'), 'a non-empty string', token);
+  }
+  const refreshToken = readOptionalString(body.refreshToken, at(ctx, 'refreshToken'), undefined) || undefined;
+  return { token, refreshToken };
+};
+
+/**
+ * Validate a login response ({ user, token, refreshToken? })
+ */
+export const parseLoginResponse = (raw: unknown, path: string = 'data'): LoginResponse => {
+  const ctx: Context = { entity: 'LoginResponse', path };
+  const body = expectRecord(raw, ctx);
+  return { user: parseUser(body.user, `${path}.user`), ...readTokens(body, ctx) };
+};
+
+/**
+ * Validate a token refresh response ({ token, refreshToken? })
+ */
+export const parseRefreshResponse = (raw: unknown, path: string = 'data'): RefreshResponse => {
+  const ctx: Context = { entity: 'RefreshResponse', path };
+  return readTokens(expectRecord(raw, ctx), ctx);
+};
+
+/**
+ * Validate and normalize a role from the API
+ */
+export const parseRole = (raw: unknown, path: string = 'role'): Role => {
+  const ctx: Context = { entity: 'Role', path };
+  const role = expectRecord(raw, ctx);
+
+  return {
+    ...role,
+    id: readId(role.id, at(ctx, 'id')),
+    name: readString(role.name, at(ctx, 'name')),
+    description: readOptionalString(role.description, at(ctx, 'description'), null),
+    permissions: role.permissions === undefined || role.permissions === null
+      ? []
+      : readStringArray(role.permissions, at(ctx, 'permissions')),
+    CreatedAt: readDate(role.CreatedAt, at(ctx, 'CreatedAt'), new Date()),
+    UpdatedAt: readDate(role.UpdatedAt, at(ctx, 'UpdatedAt'), new Date()),
+  };
+};
+
+/**
+ * Validate and normalize a list of roles
+ */
+export const parseRoleList = (raw: unknown, path: string = 'data'): Role[] => {
+  return expectArray(raw, { entity: 'Role', path }).map((role, index) => parseRole(role, `${path}[${index}]`));
+};
+
+/**
+ * Validate and normalize a task comment from the API
+ */
+export const parseComment = (raw: unknown, path: string = 'comment'): TaskComment => {
+  const ctx: Context = { entity: 'Comment', path };
+  const comment = expectRecord(raw, ctx);
+
+  return {
+    ...comment,
+    id: readId(comment.id, at(ctx, 'id')),
+    TaskId: readId(comment.TaskId, at(ctx, 'TaskId')),
+    ParentId: comment.ParentId === undefined || comment.ParentId === null ? null : readId(comment.ParentId, at(ctx, 'ParentId')),
+    AuthorId: readId(comment.AuthorId, at(ctx, 'AuthorId')),
+    AuthorName: readOptionalString(comment.AuthorName, at(ctx, 'AuthorName'), null),
+    Body: readString(comment.Body, at(ctx, 'Body')),
+    Mentions: comment.Mentions === undefined || comment.Mentions === null ? [] : readStringArray(comment.Mentions, at(ctx, 'Mentions')),
+    CreatedAt: readDate(comment.CreatedAt, at(ctx, 'CreatedAt'), new Date()),
+    UpdatedAt: readDate(comment.UpdatedAt, at(ctx, 'UpdatedAt'), new Date()),
+    EditedAt: readDate(comment.EditedAt, at(ctx, 'EditedAt')),
+  };
+};
+
+/**
+ * Validate and normalize a list of task comments
+ */
+export const parseCommentList = (raw: unknown, path: string = 'data'): TaskComment[] => {
+  return expectArray(raw, { entity: 'Comment', path }).map((comment, index) => parseComment(comment, `${path}[${index}]`));
+};
+
+const ACTIVITY_ACTIONS: ActivityAction[] = ['created', 'updated', 'held', 'resumed', 'deleted'];
+
+/**
+ * Validate one field change of an activity entry - missing values become null
+ */
+const parseActivityChange = (raw: unknown, ctx: Context): ActivityChange => {
+  const change = expectRecord(raw, ctx);
+  return {
+    Field: readString(change.Field, at(ctx, 'Field')),
+    From: change.From ?? null,
+    To: change.To ?? null,
+  };
+};
+
+/**
+ * Validate and normalize a task activity entry from the API
+ */
+export const parseActivity = (raw: unknown, path: string = 'activity'): TaskActivity => {
+  const ctx: Context = { entity: 'Activity', path };
+  const activity = expectRecord(raw, ctx);
+  const changesCtx = at(ctx, 'Changes');
+
+  return {
+    ...activity,
+    id: readId(activity.id, at(ctx, 'id')),
+    TaskId: readId(activity.TaskId, at(ctx, 'TaskId')),
+    TaskTitle: readOptionalString(activity.TaskTitle, at(ctx, 'TaskTitle'), null),
+    Action: readEnum(activity.Action, ACTIVITY_ACTIONS, at(ctx, 'Action')),
+    Changes: activity.Changes === undefined || activity.Changes === null
+      ? []
+      : expectArray(activity.Changes, changesCtx).map((change, index) => parseActivityChange(change, at(changesCtx, index))),
+    ActorId: activity.ActorId === undefined || activity.ActorId === null ? null : readId(activity.ActorId, at(ctx, 'ActorId')),
+    ActorName: readOptionalString(activity.ActorName, at(ctx, 'ActorName'), null),
+    Comment: readOptionalString(activity.Comment, at(ctx, 'Comment'), null),
+    CreatedAt: readDate(activity.CreatedAt, at(ctx, 'CreatedAt'), new Date()),
+  };
+};
+
+/**
+ * Validate and normalize a list of activity entries
+ */
+export const parseActivityList = (raw: unknown, path: string = 'data'): TaskActivity[] => {
+  return expectArray(raw, { entity: 'Activity', path }).map((activity, index) => parseActivity(activity, `${path}[${index}]`));
+};
+
+const STATUS_COLORS: StatusColor[] = ['gray', 'yellow', 'blue', 'indigo', 'purple', 'orange', 'red', 'green'];
+
+/**
+ * Validate one workflow status - unknown colors fall back to gray
+ */
+const parseWorkflowStatus = (raw: unknown, ctx: Context): WorkflowStatus => {
+  const status = expectRecord(raw, ctx);
+  const color = STATUS_COLORS.find((candidate) => candidate === status.color) ?? 'gray';
+  return { name: readStatus(status.name, at(ctx, 'name')), color };
+};
+
+/**
+ * Validate one workflow transition
+ */
+const parseWorkflowTransition = (raw: unknown, ctx: Context): WorkflowTransition => {
+  const transition = expectRecord(raw, ctx);
+  return {
+    from: readStatus(transition.from, at(ctx, 'from')),
+    to: readStatus(transition.to, at(ctx, 'to')),
+    permission: readOptionalString(transition.permission, at(ctx, 'permission'), null) || null,
+    allowAssignee: transition.allowAssignee === true,
+    requiresComment: transition.requiresComment === true,
+  };
+};
+
+/**
+ * Validate and normalize a task label - unknown colors fall back to gray
+ */
+export const parseLabel = (raw: unknown, path: string = 'label'): Label => {
+  const ctx: Context = { entity: 'Label', path };
+  const label = expectRecord(raw, ctx);
+
+  return {
+    ...label,
+    id: readId(label.id, at(ctx, 'id')),
+    name: readString(label.name, at(ctx, 'name')),
+    color: STATUS_COLORS.find((candidate) => candidate === label.color) ?? 'gray',
+    CreatedAt: readDate(label.CreatedAt, at(ctx, 'CreatedAt')),
+    UpdatedAt: readDate(label.UpdatedAt, at(ctx, 'UpdatedAt')),
+  };
+};
+
+/**
+ * Validate and normalize a list of labels
+ */
+export const parseLabelList = (raw: unknown, path: string = 'data'): Label[] => {
+  return expectArray(raw, { entity: 'Label', path }).map((label, index) => parseLabel(label, `${path}[${index}]`));
+};
+
+/**
+ * Validate one project member - a missing role keeps the member's account role
+ */
+const parseProjectMember = (raw: unknown, ctx: Context): ProjectMember => {
+  const member = expectRecord(raw, ctx);
+  return {
+    UserId: readId(member.UserId, at(ctx, 'UserId')),
+    RoleId: member.RoleId === undefined || member.RoleId === null ? null : readId(member.RoleId, at(ctx, 'RoleId')),
+  };
+};
+
+/**
+ * Validate and normalize a project - unknown colors fall back to gray
+ */
+export const parseProject = (raw: unknown, path: string = 'project'): Project => {
+  const ctx: Context = { entity: 'Project', path };
+  const project = expectRecord(raw, ctx);
+  const membersCtx = at(ctx, 'Members');
+
+  return {
+    ...project,
+    id: readId(project.id, at(ctx, 'id')),
+    name: readString(project.name, at(ctx, 'name')),
+    description: readOptionalString(project.description, at(ctx, 'description'), null),
+    color: STATUS_COLORS.find((candidate) => candidate === project.color) ?? 'gray',
+    Members: project.Members === undefined || project.Members === null
+      ? []
+      : expectArray(project.Members, membersCtx).map((member, index) => parseProjectMember(member, at(membersCtx, index))),
+    MyPermissions: project.MyPermissions === undefined || project.MyPermissions === null
+      ? null
+      : readStringArray(project.MyPermissions, at(ctx, 'MyPermissions')),
+    CreatedAt: readDate(project.CreatedAt, at(ctx, 'CreatedAt')),
+    UpdatedAt: readDate(project.UpdatedAt, at(ctx, 'UpdatedAt')),
+  };
+};
+
+/**
+ * Validate and normalize a list of projects
+ */
+export const parseProjectList = (raw: unknown, path: string = 'data'): Project[] => {
+  return expectArray(raw, { entity: 'Project', path }).map((project, index) => parseProject(project, `${path}[${index}]`));
+};
+
+/**
+ * Validate one task of a template - missing lists are empty
+ */
+const parseTemplateTask = (raw: unknown, ctx: Context, index: number): TemplateTask => {
+  const task = expectRecord(raw, ctx);
+  const optionalList = (key: string) =>
+    task[key] === undefined || task[key] === null ? [] : readStringArray(task[key], at(ctx, key));
+
+  return {
+    // Older templates without keys use the task's position
+    Key: task.Key === undefined || task.Key === null ? String(index + 1) : readId(task.Key, at(ctx, 'Key')),
+    Title: readString(task.Title, at(ctx, 'Title')),
+    Description: readOptionalString(task.Description, at(ctx, 'Description'), null) ?? '',
+    Priority: task.Priority === undefined || task.Priority === null
+      ? TaskPriority.Medium
+      : readEnum(task.Priority, Object.values(TaskPriority), at(ctx, 'Priority')),
+    EstimatedHours: task.EstimatedHours === undefined || task.EstimatedHours === null
+      ? 0
+      : readNumber(task.EstimatedHours, at(ctx, 'EstimatedHours')),
+    AssignedTo: readAssignedTo(task.AssignedTo, at(ctx, 'AssignedTo')),
+    Labels: optionalList('Labels'),
+    Checklist: task.Checklist === undefined || task.Checklist === null
+      ? []
+      : expectArray(task.Checklist, at(ctx, 'Checklist')).map((item, itemIndex) => readString(item, at(at(ctx, 'Checklist'), itemIndex))),
+    BlockedBy: optionalList('BlockedBy'),
+  };
+};
+
+/**
+ * Validate and normalize a task template
+ */
+export const parseTaskTemplate = (raw: unknown, path: string = 'template'): TaskTemplate => {
+  const ctx: Context = { entity: 'TaskTemplate', path };
+  const template = expectRecord(raw, ctx);
+  const tasksCtx = at(ctx, 'Tasks');
+
+  return {
+    ...template,
+    id: readId(template.id, at(ctx, 'id')),
+    name: readString(template.name, at(ctx, 'name')),
+    description: readOptionalString(template.description, at(ctx, 'description'), null),
+    Tasks: expectArray(template.Tasks, tasksCtx).map((task, index) => parseTemplateTask(task, at(tasksCtx, index), index)),
+    CreatedAt: readDate(template.CreatedAt, at(ctx, 'CreatedAt')),
+    UpdatedAt: readDate(template.UpdatedAt, at(ctx, 'UpdatedAt')),
+  };
+};
+
+/**
+ * Validate and normalize a list of task templates
+ */
+export const parseTaskTemplateList = (raw: unknown, path: string = 'data'): TaskTemplate[] => {
+  return expectArray(raw, { entity: 'TaskTemplate', path }).map((template, index) => parseTaskTemplate(template, `${path}[${index}]`));
+};
+
+/**
+ * Validate the task workflow definition
+ */
+export const parseWorkflow = (raw: unknown, path: string = 'data'): Workflow => {
+  const ctx: Context = { entity: 'Workflow', path };
+  const workflow = expectRecord(raw, ctx);
+  const statusesCtx = at(ctx, 'statuses');
+  const transitionsCtx = at(ctx, 'transitions');
+
+  return {
+    statuses: expectArray(workflow.statuses, statusesCtx).map((status, index) =>
+      parseWorkflowStatus(status, at(statusesCtx, index))
+    ),
+    transitions: expectArray(workflow.transitions, transitionsCtx).map((transition, index) =>
+      parseWorkflowTransition(transition, at(transitionsCtx, index))
+    ),
+    // Servers without hold reasons get an empty list; WorkflowContext falls back to the defaults
+    holdReasons: workflow.holdReasons === undefined || workflow.holdReasons === null
+      ? []
+      : expectArray(workflow.holdReasons, at(ctx, 'holdReasons')).map((reason, index) =>
+          readString(reason, at(at(ctx, 'holdReasons'), index))
+        ),
+    UpdatedAt: readDate(workflow.UpdatedAt, at(ctx, 'UpdatedAt')),
+  };
+};
+
+/**
+ * Validate a list of plain strings (e.g. permission names or ids)
+ */
+export const parseStringList = (raw: unknown, path: string = 'data'): string[] => {
+  return readStringArray(raw, { entity: 'response', path });
+};
+
+/**
+ * Validate the { success, data, message, count, nextCursor } envelope of an API response
+ * data is only parsed for successful responses
+ */
+export const parseApiResponse = <T>(
+  raw: unknown,
+  parseData?: (data: unknown, path: string) => T
+): ParsedApiResponse<T> => {
+  const ctx: Context = { entity: 'response', path: 'response' };
+  const body = expectRecord(raw, ctx);
+
+  if (typeof body.success !== 'boolean') {
+    fail(at(ctx, 'success'), 'a boolean', body.success);
+  }
+
+  const response: ParsedApiResponse<T> = {
+    success: body.success as boolean,
+    message: readOptionalString(body.message, at(ctx, 'message'), undefined),
+    count: body.count === undefined || body.count === null ? undefined : readNumber(body.count, at(ctx, 'count')),
+    nextCursor: readOptionalString(body.nextCursor, at(ctx, 'nextCursor'), null),
+  };
+
+  if (response.success && parseData && body.data !== undefined && body.data !== null) {
+    response.data = parseData(body.data, 'data');
+  }
+  return response;
+};
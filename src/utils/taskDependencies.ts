@@ -0,0 +1,84 @@
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+import type { TaskMap } from './taskSelectors';
+import { selectBlockers } from './taskSelectors';
+
+/**
+ * Get the blockers of a task that are not completed yet
+ * While any are left, the task cannot move on (see getBlockersOfMove)
+ * Only blockers in tasksById are checked; see getMissingBlockerIds for the others
+ */
+export const getUnfinishedBlockers = (tasksById: TaskMap, task: Task): Task[] => {
+  return selectBlockers(tasksById, task).filter((blocker) => blocker.Status !== TaskStatus.Completed);
+};
+
+/**
+ * Get the IDs of a task's blockers that are not in tasksById
+ * The task store only holds active tasks, so these are mostly completed blockers; they have to be
+ * loaded before a move can be allowed (see useBlockersOfMove)
+ */
+export const getMissingBlockerIds = (tasksById: TaskMap, task: Task): string[] => {
+  return (task.BlockedBy ?? []).filter((id) => !tasksById[id]);
+};
+
+/**
+ * Get the unfinished blockers that stop a status change
+ * Whatever the current status, a blocked task may only go back to Pending or be put on hold;
+ * starting, resuming or completing it and custom transitions wait for its blockers
+ */
+export const getBlockersOfMove = (tasksById: TaskMap, task: Task, newStatus: string): Task[] => {
+  return waitsForBlockers(task, newStatus) ? getUnfinishedBlockers(tasksById, task) : [];
+};
+
+/**
+ * Check if a status change has to wait for the task's blockers (see getBlockersOfMove)
+ */
+export const waitsForBlockers = (task: Task, newStatus: string): boolean => {
+  return newStatus !== task.Status && newStatus !== TaskStatus.Pending && newStatus !== TaskStatus.Hold;
+};
+
+/**
+ * Explain why a task cannot move on yet
+ */
+export const describeBlockers = (blockers: Task[]): string => {
+  const titles = blockers.map((blocker) => `"${blocker.Title}"`).join(', ');
+  return blockers.length === 1
+    ? `It is blocked by an unfinished task: ${titles}`
+    : `It is blocked by ${blockers.length} unfinished tasks: ${titles}`;
+};
+
+/**
+ * Find a dependency cycle through a task
+ * `blockedByOverrides` holds proposed BlockedBy lists that replace the stored ones,
+ * so a set of link changes can be checked before it is saved
+ * Returns the IDs along the cycle, starting and ending with taskId, or null when there is none
+ */
+export const findDependencyCycle = (
+  tasksById: TaskMap,
+  taskId: string,
+  blockedByOverrides: Record<string, string[]> = {}
+): string[] | null => {
+  const getBlockedBy = (id: string): string[] => blockedByOverrides[id] ?? tasksById[id]?.BlockedBy ?? [];
+  const visited = new Set<string>();
+
+  // Depth-first walk along "blocked by" links, looking for a way back to taskId
+  const walk = (id: string, path: string[]): string[] | null => {
+    for (const blockerId of getBlockedBy(id)) {
+      if (blockerId === taskId) return [...path, blockerId];
+      if (visited.has(blockerId)) continue;
+      visited.add(blockerId);
+      const cycle = walk(blockerId, [...path, blockerId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return walk(taskId, [taskId]);
+};
+
+/**
+ * Describe a dependency cycle with task titles (e.g. "A → B → A")
+ */
+export const describeDependencyCycle = (tasksById: TaskMap, cycle: string[]): string => {
+  return cycle.map((id) => tasksById[id]?.Title ?? 'Unknown task').join(' → ');
+};
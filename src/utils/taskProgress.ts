@@ -0,0 +1,43 @@
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+
+/**
+ * How much of a task is done
+ * Every checklist item and every subtask counts as one step
+ */
+export interface TaskProgress {
+  done: number;
+  total: number;
+  /** 0-100, rounded */
+  percent: number;
+}
+
+/**
+ * Get the progress of a task from its checklist and subtasks
+ * Returns null when the task has neither, so there is nothing to show
+ */
+export const getTaskProgress = (task: Task, subtasks: Task[]): TaskProgress | null => {
+  const checklist = task.Checklist ?? [];
+  const total = checklist.length + subtasks.length;
+  if (total === 0) return null;
+
+  const done =
+    checklist.filter((item) => item.Done).length +
+    subtasks.filter((subtask) => subtask.Status === TaskStatus.Completed).length;
+
+  return { done, total, percent: Math.round((done / total) * 100) };
+};
+
+/**
+ * Get the subtasks that are not completed yet
+ */
+export const getOpenSubtasks = (subtasks: Task[]): Task[] => {
+  return subtasks.filter((subtask) => subtask.Status !== TaskStatus.Completed);
+};
+
+/**
+ * Get a task's estimate including its subtasks' estimates
+ */
+export const getRolledUpHours = (task: Task, subtasks: Task[]): number => {
+  return subtasks.reduce((total, subtask) => total + (subtask.EstimatedHours || 0), task.EstimatedHours || 0);
+};
@@ -0,0 +1,162 @@
+import type { Task } from '../types';
+import { TaskStatus, TaskPriority } from '../types';
+import type { User } from '../types/auth';
+import type { LabelMatch } from '../types/label';
+import type { TaskQueryParams } from '../services/api';
+
+/**
+ * Normalized task map keyed by Task.id
+ */
+export type TaskMap = Record<string, Task>;
+
+/**
+ * Filters accepted by selectTasks (same shape as the task list query)
+ */
+export type TaskFilters = TaskQueryParams & { excludeCompleted?: boolean };
+
+/**
+ * Check if a task is assigned to a user
+ * Handles both the array format and the legacy single string format
+ */
+export const isAssignedTo = (task: Task, userId: string): boolean => {
+  return Array.isArray(task.AssignedTo)
+    ? task.AssignedTo.includes(userId)
+    : task.AssignedTo === userId;
+};
+
+/**
+ * Sort comparator keeping CreatedAt DESC order (newest first)
+ */
+const byCreatedAtDesc = (a: Task, b: Task): number => {
+  const dateA = a.CreatedAt ? new Date(a.CreatedAt).getTime() : 0;
+  const dateB = b.CreatedAt ? new Date(b.CreatedAt).getTime() : 0;
+  return dateB - dateA;
+};
+
+/**
+ * Check if a task matches a search query by title or assigned user name
+ */
+const matchesSearch = (task: Task, search: string, users: User[]): boolean => {
+  const searchLower = search.toLowerCase();
+  if (task.Title.toLowerCase().includes(searchLower)) {
+    return true;
+  }
+
+  const userMatches = (user: User) =>
+    user.fullName.toLowerCase().includes(searchLower) ||
+    user.username.toLowerCase().includes(searchLower) ||
+    user.email.toLowerCase().includes(searchLower);
+
+  if (Array.isArray(task.AssignedTo)) {
+    return task.AssignedTo.some((userId) => {
+      const user = users.find((u) => u.id === userId);
+      return user ? userMatches(user) : false;
+    });
+  }
+
+  if (typeof task.AssignedTo === 'string') {
+    const user = users.find((u) => u.id === task.AssignedTo);
+    // Fallback: search in the string itself (backward compatibility)
+    return user ? userMatches(user) : task.AssignedTo.toLowerCase().includes(searchLower);
+  }
+
+  return false;
+};
+
+/**
+ * Check if a task has any (or all) of the given labels
+ * An empty label filter matches every task
+ */
+export const matchesLabels = (task: Task, labelIds: string[], match: LabelMatch = 'any'): boolean => {
+  if (labelIds.length === 0) return true;
+  const taskLabels = task.Labels ?? [];
+  return match === 'all'
+    ? labelIds.every((id) => taskLabels.includes(id))
+    : labelIds.some((id) => taskLabels.includes(id));
+};
+
+/**
+ * Get all tasks from the store, newest first
+ */
+export const selectAllTasks = (tasksById: TaskMap): Task[] => {
+  return Object.values(tasksById).sort(byCreatedAtDesc);
+};
+
+/**
+ * Get tasks with the given status
+ */
+export const selectTasksByStatus = (tasksById: TaskMap, status: TaskStatus): Task[] => {
+  return selectAllTasks(tasksById).filter((task) => task.Status === status);
+};
+
+/**
+ * Get tasks assigned to the given user
+ */
+export const selectTasksByAssignee = (tasksById: TaskMap, userId: string): Task[] => {
+  return selectAllTasks(tasksById).filter((task) => isAssignedTo(task, userId));
+};
+
+/**
+ * Get tasks with the given priority
+ */
+export const selectTasksByPriority = (tasksById: TaskMap, priority: TaskPriority): Task[] => {
+  return selectAllTasks(tasksById).filter((task) => task.Priority === priority);
+};
+
+/**
+ * Get the subtasks of a task, oldest first (the order they were added)
+ */
+export const selectSubtasks = (tasksById: TaskMap, parentId: string): Task[] => {
+  return selectAllTasks(tasksById).filter((task) => task.ParentId === parentId).reverse();
+};
+
+/**
+ * Get the tasks a task is blocked by, skipping links to tasks that are no longer loaded
+ */
+export const selectBlockers = (tasksById: TaskMap, task: Task): Task[] => {
+  return (task.BlockedBy ?? []).map((id) => tasksById[id]).filter((blocker): blocker is Task => blocker !== undefined);
+};
+
+/**
+ * Get the tasks that are blocked by a task
+ */
+export const selectBlockedTasks = (tasksById: TaskMap, blockerId: string): Task[] => {
+  return selectAllTasks(tasksById).filter((task) => task.BlockedBy?.includes(blockerId));
+};
+
+/**
+ * Check if a task matches a set of list filters
+ * Mirrors the backend: completed tasks are excluded unless excludeCompleted is false
+ * or the status filter explicitly asks for them
+ */
+export const matchesFilters = (task: Task, filters: TaskFilters, users: User[] = []): boolean => {
+  const { status, priority, search, userId, labels, labelMatch, excludeCompleted } = filters;
+  const hideCompleted = excludeCompleted !== false && status !== TaskStatus.Completed;
+
+  if (hideCompleted && task.Status === TaskStatus.Completed) {
+    return false;
+  }
+  if (status && status !== 'All' && task.Status !== status) {
+    return false;
+  }
+  if (priority && priority !== 'All' && task.Priority !== priority) {
+    return false;
+  }
+  if (userId && userId !== 'All' && !isAssignedTo(task, userId)) {
+    return false;
+  }
+  if (labels && !matchesLabels(task, labels, labelMatch)) {
+    return false;
+  }
+  if (search && search.trim() !== '' && !matchesSearch(task, search.trim(), users)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Get tasks matching a set of list filters, newest first
+ */
+export const selectTasks = (tasksById: TaskMap, filters: TaskFilters, users: User[] = []): Task[] => {
+  return selectAllTasks(tasksById).filter((task) => matchesFilters(task, filters, users));
+};
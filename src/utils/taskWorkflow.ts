@@ -0,0 +1,170 @@
+import type { Task } from '../types';
+import { TaskStatus } from '../types';
+import type { StatusColor, Workflow, WorkflowTransition, UpdateWorkflowDTO } from '../types/workflow';
+import { BUILT_IN_STATUSES } from '../constants/workflow';
+
+/**
+ * How a task gets to a new status
+ * 'hold' and 'resume' go through their own flows instead of a plain status update
+ */
+export type StatusMove = 'update' | 'hold' | 'resume';
+
+/**
+ * What the current user may do with a task's status
+ */
+export interface StatusPermissions {
+  hasPermission: (permission: string) => boolean;
+  /** The user is assigned to the task */
+  isAssignee: boolean;
+}
+
+/**
+ * Find the transition between two statuses, if the workflow has one
+ */
+export const getTransition = (workflow: Workflow, from: string, to: string): WorkflowTransition | undefined => {
+  return workflow.transitions.find((transition) => transition.from === from && transition.to === to);
+};
+
+/**
+ * Check whether a user may make a transition
+ */
+export const canUseTransition = (
+  transition: WorkflowTransition,
+  { hasPermission, isAssignee }: StatusPermissions
+): boolean => {
+  if (!transition.permission) return true;
+  return hasPermission(transition.permission) || (transition.allowAssignee && isAssignee);
+};
+
+/**
+ * Work out how a task can move to a status, or null if the workflow or the user's permissions don't allow it
+ */
+export const getStatusMove = (
+  workflow: Workflow,
+  task: Task,
+  toStatus: string,
+  permissions: StatusPermissions
+): StatusMove | null => {
+  const transition = getTransition(workflow, task.Status, toStatus);
+  if (!transition || !canUseTransition(transition, permissions)) return null;
+
+  if (toStatus === TaskStatus.Hold) return 'hold';
+  if (task.Status === TaskStatus.Hold) return 'resume';
+  return 'update';
+};
+
+/**
+ * Get the statuses a task can be moved to with the given kind of move, in workflow order
+ * Status menus use 'update'; the resume dialog uses 'resume'
+ */
+export const getNextStatusOptions = (
+  workflow: Workflow,
+  task: Task,
+  permissions: StatusPermissions,
+  move: StatusMove = 'update'
+): string[] => {
+  return workflow.statuses
+    .map((status) => status.name)
+    .filter((status) => getStatusMove(workflow, task, status, permissions) === move);
+};
+
+/**
+ * Check whether moving between two statuses needs a comment
+ */
+export const requiresComment = (workflow: Workflow, from: string, to: string): boolean => {
+  return getTransition(workflow, from, to)?.requiresComment ?? false;
+};
+
+/**
+ * Get the color of a status; statuses missing from the workflow are gray
+ */
+export const getStatusColor = (workflow: Workflow, status: string): StatusColor => {
+  return workflow.statuses.find((candidate) => candidate.name === status)?.color ?? 'gray';
+};
+
+// Status badge styling by color, with dark mode support
+const STATUS_BADGE_CLASSES: Record<StatusColor, string> = {
+  gray: 'bg-gray-100 text-gray-800 border-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600',
+  yellow: 'bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-900/30 dark:text-yellow-400 dark:border-yellow-700',
+  blue: 'bg-blue-100 text-blue-800 border-blue-300 dark:bg-blue-900/30 dark:text-blue-400 dark:border-blue-700',
+  indigo: 'bg-indigo-100 text-indigo-800 border-indigo-300 dark:bg-indigo-900/30 dark:text-indigo-400 dark:border-indigo-700',
+  purple: 'bg-purple-100 text-purple-800 border-purple-300 dark:bg-purple-900/30 dark:text-purple-400 dark:border-purple-700',
+  orange: 'bg-orange-100 text-orange-800 border-orange-300 dark:bg-orange-900/30 dark:text-orange-400 dark:border-orange-700',
+  red: 'bg-red-100 text-red-800 border-red-300 dark:bg-red-900/30 dark:text-red-400 dark:border-red-700',
+  green: 'bg-green-100 text-green-800 border-green-300 dark:bg-green-900/30 dark:text-green-400 dark:border-green-700',
+};
+
+// Column header accents by color (Kanban board)
+const STATUS_BORDER_CLASSES: Record<StatusColor, string> = {
+  gray: 'border-gray-400 dark:border-gray-600',
+  yellow: 'border-yellow-400 dark:border-yellow-600',
+  blue: 'border-blue-400 dark:border-blue-600',
+  indigo: 'border-indigo-400 dark:border-indigo-600',
+  purple: 'border-purple-400 dark:border-purple-600',
+  orange: 'border-orange-400 dark:border-orange-600',
+  red: 'border-red-400 dark:border-red-600',
+  green: 'border-green-400 dark:border-green-600',
+};
+
+/**
+ * Get badge classes for a status color
+ */
+export const getStatusBadgeClass = (color: StatusColor): string => STATUS_BADGE_CLASSES[color];
+
+/**
+ * Get border accent classes for a status color
+ */
+export const getStatusBorderClass = (color: StatusColor): string => STATUS_BORDER_CLASSES[color];
+
+/**
+ * Check a workflow before saving it
+ * Returns a message describing the first problem found, or null if the workflow is valid
+ */
+export const validateWorkflow = (workflow: UpdateWorkflowDTO): string | null => {
+  const names = workflow.statuses.map((status) => status.name.trim());
+
+  if (names.some((name) => !name)) {
+    return 'Every status needs a name';
+  }
+  const duplicate = names.find((name, index) =>
+    names.findIndex((other) => other.toLowerCase() === name.toLowerCase()) !== index
+  );
+  if (duplicate) {
+    return `There is more than one status named "${duplicate}"`;
+  }
+  const missing = BUILT_IN_STATUSES.find((name) => !names.includes(name));
+  if (missing) {
+    return `The built-in status "${missing}" cannot be removed`;
+  }
+
+  for (const [index, transition] of workflow.transitions.entries()) {
+    if (!names.includes(transition.from) || !names.includes(transition.to)) {
+      return `Transition ${index + 1} uses a status that does not exist`;
+    }
+    if (transition.from === transition.to) {
+      return `Transition ${index + 1} goes from "${transition.from}" to itself`;
+    }
+    const isDuplicate = workflow.transitions.some((other, otherIndex) =>
+      otherIndex < index && other.from === transition.from && other.to === transition.to
+    );
+    if (isDuplicate) {
+      return `There is more than one transition from "${transition.from}" to "${transition.to}"`;
+    }
+  }
+
+  const reasons = workflow.holdReasons.map((reason) => reason.trim());
+  if (reasons.length === 0) {
+    return 'Add at least one hold reason';
+  }
+  if (reasons.some((reason) => !reason)) {
+    return 'Every hold reason needs a name';
+  }
+  const duplicateReason = reasons.find((reason, index) =>
+    reasons.findIndex((other) => other.toLowerCase() === reason.toLowerCase()) !== index
+  );
+  if (duplicateReason) {
+    return `There is more than one hold reason named "${duplicateReason}"`;
+  }
+
+  return null;
+};
@@ -0,0 +1,117 @@
+import type { ChecklistItem } from '../types';
+import type { TaskTemplate, TemplateTask } from '../types/template';
+
+/**
+ * A {{variable}} placeholder: a name of letters, digits, "_" and "-" in double braces
+ */
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+
+/**
+ * Variables filled in automatically when a template is used
+ * Any other {{variable}} is asked for before the tasks are created
+ */
+export const BUILT_IN_VARIABLES: { name: string; description: string }[] = [
+  { name: 'date', description: "Today's date" },
+  { name: 'weekday', description: 'Day of the week (e.g. Monday)' },
+  { name: 'month', description: 'Month name (e.g. October)' },
+  { name: 'year', description: 'Year (e.g. 2026)' },
+  { name: 'user', description: 'Your name' },
+  { name: 'project', description: 'Name of the active project' },
+];
+
+/**
+ * The text fields of a template task that may hold placeholders
+ */
+const getTemplateTexts = (task: TemplateTask): string[] => [task.Title, task.Description, ...task.Checklist];
+
+/**
+ * Get the variables a template asks for, in the order they first appear
+ * Built-in variables are left out since they are filled in automatically
+ */
+export const getTemplateVariables = (template: TaskTemplate): string[] => {
+  const builtIn = new Set(BUILT_IN_VARIABLES.map((variable) => variable.name));
+  const names = new Set<string>();
+  template.Tasks.flatMap(getTemplateTexts).forEach((text) => {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!builtIn.has(match[1])) names.add(match[1]);
+    }
+  });
+  return [...names];
+};
+
+/**
+ * Get the values of the built-in variables
+ */
+export const getBuiltInVariableValues = (
+  context: { userName?: string | null; projectName?: string | null },
+  now: Date = new Date()
+): Record<string, string> => ({
+  date: now.toLocaleDateString(),
+  weekday: now.toLocaleDateString(undefined, { weekday: 'long' }),
+  month: now.toLocaleDateString(undefined, { month: 'long' }),
+  year: String(now.getFullYear()),
+  user: context.userName ?? '',
+  project: context.projectName ?? '',
+});
+
+/**
+ * Replace the {{variables}} in a text; placeholders without a value are left as they are
+ */
+export const fillPlaceholders = (text: string, values: Record<string, string>): string => {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+};
+
+/**
+ * Fill in the placeholders of a template task
+ */
+export const fillTemplateTask = (task: TemplateTask, values: Record<string, string>): TemplateTask => ({
+  ...task,
+  Title: fillPlaceholders(task.Title, values),
+  Description: fillPlaceholders(task.Description, values),
+  Checklist: task.Checklist.map((text) => fillPlaceholders(text, values)),
+});
+
+/**
+ * Turn checklist texts into unticked checklist items
+ */
+export const toChecklistItems = (texts: string[]): ChecklistItem[] => {
+  return texts.map((text, index) => ({
+    id: `item-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+    Text: text,
+    Done: false,
+  }));
+};
+
+/**
+ * Order the tasks of a template so every task comes after the tasks it is blocked by
+ * Links to keys outside the template are ignored; returns null if the links form a cycle
+ */
+export const orderTemplateTasks = (tasks: TemplateTask[]): TemplateTask[] | null => {
+  const keys = new Set(tasks.map((task) => task.Key));
+  const ordered: TemplateTask[] = [];
+  const placed = new Set<string>();
+  let remaining = tasks;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((task) =>
+      task.BlockedBy.every((key) => !keys.has(key) || placed.has(key))
+    );
+    if (ready.length === 0) return null;
+    ready.forEach((task) => {
+      ordered.push(task);
+      placed.add(task.Key);
+    });
+    remaining = remaining.filter((task) => !placed.has(task.Key));
+  }
+  return ordered;
+};
+
+/**
+ * Create a key for a new template task that no other task of the template uses
+ */
+export const createTemplateTaskKey = (tasks: TemplateTask[]): string => {
+  const used = new Set(tasks.map((task) => task.Key));
+  let next = tasks.length + 1;
+  while (used.has(String(next))) next += 1;
+  return String(next);
+};
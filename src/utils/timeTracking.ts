@@ -0,0 +1,135 @@
+import type { Task, TimeEntry } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * State of a user's timer on a task
+ */
+export type TimerState = 'idle' | 'running' | 'paused';
+
+const toTime = (value: Date | string): number => {
+  return (typeof value === 'string' ? new Date(value) : value).getTime();
+};
+
+const isLogged = (entry: TimeEntry): boolean => entry.Hours !== undefined && entry.Hours !== null;
+
+/**
+ * Whether an entry is a timer session that is still running
+ */
+export const isRunningEntry = (entry: TimeEntry): boolean => !isLogged(entry) && !entry.EndedAt;
+
+/**
+ * Get the hours of one entry; a running session counts up to now
+ */
+export const getEntryHours = (entry: TimeEntry, now: Date = new Date()): number => {
+  if (isLogged(entry)) return entry.Hours as number;
+  const start = toTime(entry.StartedAt);
+  const end = entry.EndedAt ? toTime(entry.EndedAt) : now.getTime();
+  if (isNaN(start) || isNaN(end) || end < start) return 0;
+  return (end - start) / HOUR_MS;
+};
+
+/**
+ * Get the total time logged on a task in hours
+ * Returns null if no time has been logged, so the task has no actual duration
+ */
+export const getLoggedHours = (task: Task, now: Date = new Date()): number | null => {
+  const entries = task.TimeEntries ?? [];
+  if (entries.length === 0) return null;
+  return entries.reduce((total, entry) => total + getEntryHours(entry, now), 0);
+};
+
+/**
+ * Get the time one user has logged on a task in hours
+ */
+export const getUserLoggedHours = (task: Task, userId: string, now: Date = new Date()): number => {
+  return (task.TimeEntries ?? [])
+    .filter((entry) => entry.UserId === userId)
+    .reduce((total, entry) => total + getEntryHours(entry, now), 0);
+};
+
+/**
+ * Get the state of a user's timer on a task
+ */
+export const getTimerState = (task: Task, userId: string): TimerState => {
+  const entries = (task.TimeEntries ?? []).filter((entry) => entry.UserId === userId);
+  if (entries.some(isRunningEntry)) return 'running';
+  return entries.some((entry) => entry.Paused) ? 'paused' : 'idle';
+};
+
+/**
+ * Get the hours on a user's timer since it was last stopped (its paused and running sessions)
+ */
+export const getTimerHours = (task: Task, userId: string, now: Date = new Date()): number => {
+  return (task.TimeEntries ?? [])
+    .filter((entry) => entry.UserId === userId && (entry.Paused || isRunningEntry(entry)))
+    .reduce((total, entry) => total + getEntryHours(entry, now), 0);
+};
+
+const createTimeEntryId = (): string => `time-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Start (or resume) a user's timer; a timer that is already running is left as it is
+ */
+export const startTimer = (entries: TimeEntry[], userId: string, now: Date = new Date()): TimeEntry[] => {
+  if (entries.some((entry) => entry.UserId === userId && isRunningEntry(entry))) return entries;
+  return [
+    ...entries,
+    { id: createTimeEntryId(), UserId: userId, StartedAt: now.toISOString(), EndedAt: null, Hours: null, Note: null, Paused: false },
+  ];
+};
+
+/**
+ * Pause a user's timer: the running session ends and is kept until the timer is stopped
+ */
+export const pauseTimer = (entries: TimeEntry[], userId: string, now: Date = new Date()): TimeEntry[] => {
+  return entries.map((entry) =>
+    entry.UserId === userId && isRunningEntry(entry) ? { ...entry, EndedAt: now.toISOString(), Paused: true } : entry
+  );
+};
+
+/**
+ * Stop the timers of the given user (or of everyone): running sessions end and paused timers are cleared
+ */
+export const stopTimer = (entries: TimeEntry[], userId: string | null, now: Date = new Date()): TimeEntry[] => {
+  return entries.map((entry) => {
+    if (userId !== null && entry.UserId !== userId) return entry;
+    if (isRunningEntry(entry)) return { ...entry, EndedAt: now.toISOString(), Paused: false };
+    return entry.Paused ? { ...entry, Paused: false } : entry;
+  });
+};
+
+/**
+ * Create an entry for time logged by hand on the given day (YYYY-MM-DD)
+ */
+export const createLoggedEntry = (userId: string, hours: number, date: string, note?: string): TimeEntry => ({
+  id: createTimeEntryId(),
+  UserId: userId,
+  StartedAt: new Date(`${date}T00:00:00`).toISOString(),
+  EndedAt: null,
+  Hours: hours,
+  Note: note?.trim() || null,
+  Paused: false,
+});
+
+/**
+ * Format a timer reading as h:mm:ss
+ */
+export const formatTimer = (hours: number): string => {
+  const totalSeconds = Math.floor(hours * 3600);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
+
+/**
+ * Format logged hours for display (e.g. "2h 15m")
+ */
+export const formatLoggedHours = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return m > 0 ? `${h}h ${m}m` : `${h}h`;
+};